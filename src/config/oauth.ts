@@ -1,3 +1,5 @@
+import type { Config, OAuthClientSettings } from '../types/index.js';
+
 /**
  * Bundled OAuth credentials for easy setup
  * Users don't need to create their own OAuth apps
@@ -29,4 +31,61 @@ export const OAUTH_SCOPES = {
   gitlab: {
     api: ['read_api', 'read_user'], // Read-only access to user's data and API, plus user profile
   },
+  github: {
+    // GitHub has no read-only private repo scope; `repo` is the minimum that sees private commits
+    api: ['repo', 'read:user'],
+  },
 };
+
+/** Loopback ports the bundled apps have registered as redirect URIs. */
+export const DEFAULT_REDIRECT_PORTS = { start: 8080, end: 8090 };
+
+export type OAuthProvider = 'google' | 'gitlab';
+
+/** Key a saved GitLab app is filed under, so https://GitLab.example.com/ and https://gitlab.example.com match. */
+export function gitlabInstanceKey(gitlabUrl: string): string {
+  const url = new URL(gitlabUrl.trim());
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+/**
+ * The OAuth app start/complete auth use: the one saved by
+ * configure_oauth_client (for GitLab, the one saved for the instance), else
+ * one named in the config file, else the bundled app. Tokens only refresh
+ * with the app that issued them; see resolveGitLabIssuer.
+ */
+export function resolveOAuthClient(
+  provider: OAuthProvider,
+  config: Config,
+  saved?: OAuthClientSettings
+): OAuthClientSettings {
+  if (saved?.clientId) {
+    return saved;
+  }
+  if (provider === 'google') {
+    return config.google?.clientId
+      ? { clientId: config.google.clientId, clientSecret: config.google.clientSecret || undefined }
+      : BUNDLED_OAUTH_CREDENTIALS.google;
+  }
+  return config.gitlab?.applicationId
+    ? { clientId: config.gitlab.applicationId, clientSecret: config.gitlab.secret || undefined }
+    : { clientId: BUNDLED_OAUTH_CREDENTIALS.gitlab.applicationId, clientSecret: BUNDLED_OAUTH_CREDENTIALS.gitlab.secret };
+}
+
+/**
+ * The GitLab app that issued a connection's tokens: the instance's current app
+ * if the client IDs match, else the config file's or the bundled one. Undefined
+ * when that app is no longer configured. Connections saved before the issuing
+ * app was recorded get the current app.
+ */
+export function resolveGitLabIssuer(
+  config: Config,
+  saved: OAuthClientSettings | undefined,
+  clientId: string | undefined
+): OAuthClientSettings | undefined {
+  const current = resolveOAuthClient('gitlab', config, saved);
+  if (!clientId || current.clientId === clientId) {
+    return current;
+  }
+  return [resolveOAuthClient('gitlab', config), resolveOAuthClient('gitlab', {})].find(c => c.clientId === clientId);
+}
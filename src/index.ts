@@ -8,35 +8,158 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { GitLabIntegration } from './integrations/gitlab.js';
-import { GitHubIntegration } from './integrations/github.js';
-import { GoogleCalendarIntegration } from './integrations/googleCalendar.js';
+import { GitLabIntegration, GitLabOAuthSession } from './integrations/gitlab.js';
+import {
+  GitHubIntegration,
+  DEFAULT_GITHUB_API_URL,
+  createFetchWithCa,
+  githubWebUrl,
+  normalizeGitHubApiUrl,
+} from './integrations/github.js';
+import { GoogleCalendarInfo, GoogleCalendarIntegration, revokeGoogleToken } from './integrations/googleCalendar.js';
 import { OutlookCalendarIntegration } from './integrations/outlookCalendar.js';
 import { OutlookLocalIntegration } from './integrations/outlookLocal.js';
 import { AzureDevOpsIntegration, azSetupInstructions } from './integrations/azureDevOps.js';
-import { TokenStorage } from './utils/tokenStorage.js';
+import { BitbucketIntegration } from './integrations/bitbucket.js';
+import { GiteaIntegration } from './integrations/gitea.js';
+import { JiraIntegration } from './integrations/jira.js';
+import { IcsCalendarIntegration } from './integrations/icsCalendar.js';
+import { LocalGitIntegration, mergeLocalCommits } from './integrations/localGit.js';
+import {
+  ConnectionProvider,
+  DEFAULT_CONNECTION,
+  TokenStorage,
+  isValidConnectionName,
+} from './utils/tokenStorage.js';
 import { ActivityCache } from './utils/cache.js';
-import { Config, DayActivity } from './types/index.js';
-import { runOAuthFlow } from './utils/oauthFlow.js';
+import {
+  AzureDevOpsActivity,
+  Config,
+  DayActivity,
+  GitLabActivity,
+  OAuthClientSettings,
+  TimesheetEntry,
+  TimesheetSource,
+} from './types/index.js';
+import { TimesheetGenerator } from './utils/timesheetGenerator.js';
+import { ActivityDistributor } from './utils/activityDistributor.js';
+import { DEFAULT_HOURS_PER_DAY, roundToQuarterHour } from './utils/hoursAllocator.js';
+import {
+  EXPORT_FIELDS,
+  ExportRows,
+  parseColumnMapping,
+  renderTimesheet,
+  resolveExportFormat,
+  resolveExportPath,
+  writeTimesheetExport,
+} from './utils/timesheetExporter.js';
+import { buildDayWorklogs, isIssueKey, isProjectKeyList, WorklogOptions } from './utils/tempoExporter.js';
+import { getTimeZone, setTimeZone, todayDate } from './utils/timezone.js';
+import { loadWorkCalendar } from './utils/workCalendar.js';
+import { assembleTimesheet, resolveTimesheetDays } from './utils/timesheetBuilder.js';
+import { formatDate, parseDateInput } from './utils/dateUtils.js';
+import { OAUTH_FLOW_TIMEOUT_MS, runOAuthFlow, verifyOAuthClient } from './utils/oauthFlow.js';
 import { GitLabOAuth } from './utils/gitlabOAuth.js';
-import { BUNDLED_OAUTH_CREDENTIALS, OAUTH_SCOPES } from './config/oauth.js';
-import { OAuth2Client } from 'google-auth-library';
+import { GitHubDeviceFlow } from './utils/githubDeviceFlow.js';
+import {
+  CalendarExclusion,
+  DEFAULT_CALENDAR_EXCLUSIONS,
+  applyCalendarExclusions,
+  describeEventStatus,
+  leaveDayOff,
+  parseCalendarExclusions,
+  splitLeaveEvents,
+} from './utils/calendarPolicy.js';
+import {
+  accountSuffix,
+  mergeConnectionActivities,
+  mergeConnectionEvents,
+  tagCalendarEvents,
+  tagGitActivity,
+} from './utils/connections.js';
+import { DEFAULT_REDIRECT_PORTS, OAUTH_SCOPES, OAuthProvider, resolveGitLabIssuer, resolveOAuthClient } from './config/oauth.js';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { homedir } from 'os';
 
 const CONFIG_FILE = path.join(homedir(), '.activity-collector-mcp-config.json');
 
+const CONNECTION_LABELS: Record<ConnectionProvider, string> = {
+  gitlab: 'GitLab',
+  github: 'GitHub',
+  google: 'Google Calendar',
+};
+
+/** Sources the disconnect tool signs out of, in the order "all" works through them. */
+const DISCONNECT_PROVIDERS = [
+  'gitlab',
+  'github',
+  'google',
+  'outlook',
+  'bitbucket',
+  'gitea',
+  'jira',
+  'azure_devops',
+  'ics_calendar',
+] as const;
+type DisconnectProvider = (typeof DISCONNECT_PROVIDERS)[number];
+
+/** "GitLab" for the default connection, "GitLab [work]" for a named one. */
+function connectionLabel(provider: ConnectionProvider, connection: string): string {
+  const label = CONNECTION_LABELS[provider];
+  return connection === DEFAULT_CONNECTION ? label : `${label} [${connection}]`;
+}
+
+/** " (Team calendar)" when a day's events span more than one calendar. */
+function calendarSuffix(event: { calendar?: string }, dayEvents: Array<{ calendar?: string }>): string {
+  const calendars = new Set(dayEvents.map(e => e.calendar));
+  return event.calendar && calendars.size > 1 ? ` (${event.calendar})` : '';
+}
+
+/** Header note listing the connections a fetch covered, when any are named. */
+function describeConnections(connections: string[]): string {
+  return connections.some(c => c !== DEFAULT_CONNECTION) ? ` — connections: ${connections.join(', ')}` : '';
+}
+
+/** " a1b2c3d, +12/-3" after a commit listing, for commits expanded with stats. */
+function commitDetails(commit: { sha?: string; additions?: number; deletions?: number }): string {
+  const parts: string[] = [];
+  if (commit.sha) parts.push(commit.sha.slice(0, 8));
+  if (commit.additions !== undefined && commit.deletions !== undefined) {
+    parts.push(`+${commit.additions}/-${commit.deletions}`);
+  }
+  return parts.length > 0 ? ` ${parts.join(', ')}` : '';
+}
+
+/** One day of merged activity from the parallel pipeline. */
+interface DayFetchResult {
+  activity: DayActivity;
+  cacheInfo: { gitlab: boolean; github: boolean; calendar: boolean; azureDevOps: boolean };
+  sources: TimesheetSource[];
+}
+
 class ActivityCollectorMCPServer {
   private server: Server;
-  private gitlab: GitLabIntegration;
-  private github: GitHubIntegration;
-  private googleCalendar: GoogleCalendarIntegration;
+  // One client per named connection, created on first use
+  private gitlabClients = new Map<string, GitLabIntegration>();
+  private githubClients = new Map<string, GitHubIntegration>();
+  private googleCalendarClients = new Map<string, GoogleCalendarIntegration>();
+  // PKCE verifiers from start_*_auth by authorization code, until complete_*_auth
+  // spends them or a later flow finds them older than the flow timeout
+  private oauthVerifiers = new Map<string, { verifier: string; createdAt: number }>();
   private outlookCalendar: OutlookCalendarIntegration;
   private outlookLocal: OutlookLocalIntegration;
   private azureDevOps: AzureDevOpsIntegration;
+  private bitbucket: BitbucketIntegration;
+  private gitea: GiteaIntegration;
+  private jira: JiraIntegration;
+  private icsCalendar: IcsCalendarIntegration;
+  private localGit: LocalGitIntegration;
   private tokenStorage: TokenStorage;
   private activityCache: ActivityCache;
+  private timesheetGenerator: TimesheetGenerator;
+  private activityDistributor: ActivityDistributor;
   private config: Config | null = null;
 
   // Helper to send progress notifications to the client
@@ -70,30 +193,65 @@ class ActivityCollectorMCPServer {
       }
     );
 
-    this.gitlab = new GitLabIntegration();
-    this.github = new GitHubIntegration();
-    this.googleCalendar = new GoogleCalendarIntegration();
     this.outlookCalendar = new OutlookCalendarIntegration();
     this.outlookLocal = new OutlookLocalIntegration();
     this.azureDevOps = new AzureDevOpsIntegration();
+    this.bitbucket = new BitbucketIntegration();
+    this.gitea = new GiteaIntegration();
+    this.jira = new JiraIntegration();
+    this.icsCalendar = new IcsCalendarIntegration();
+    this.localGit = new LocalGitIntegration();
     this.tokenStorage = new TokenStorage();
     this.activityCache = new ActivityCache();
+    this.timesheetGenerator = new TimesheetGenerator();
+    this.activityDistributor = new ActivityDistributor();
 
     this.setupHandlers();
   }
 
+  private gitlabClient(connection: string): GitLabIntegration {
+    let client = this.gitlabClients.get(connection);
+    if (!client) {
+      client = new GitLabIntegration();
+      this.gitlabClients.set(connection, client);
+    }
+    return client;
+  }
+
+  private githubClient(connection: string): GitHubIntegration {
+    let client = this.githubClients.get(connection);
+    if (!client) {
+      client = new GitHubIntegration();
+      this.githubClients.set(connection, client);
+    }
+    return client;
+  }
+
+  private googleCalendarClient(connection: string): GoogleCalendarIntegration {
+    let client = this.googleCalendarClients.get(connection);
+    if (!client) {
+      client = new GoogleCalendarIntegration();
+      this.googleCalendarClients.set(connection, client);
+    }
+    return client;
+  }
+
   private async loadConfig(): Promise<Config> {
     if (this.config) return this.config;
 
+    let config: Config;
     try {
       const data = await fs.readFile(CONFIG_FILE, 'utf-8');
-      this.config = JSON.parse(data);
+      config = JSON.parse(data);
     } catch (error) {
       // Config file is optional - use defaults and bundled OAuth credentials
-      this.config = {};
+      config = {};
     }
 
-    return this.config!;
+    // Outside the try: a misspelt zone must fail loudly, not fall back silently
+    setTimeZone(config.timezone);
+    this.config = config;
+    return config;
   }
 
   private setupHandlers() {
@@ -152,6 +310,11 @@ class ActivityCollectorMCPServer {
                 type: 'string',
                 description: 'Redirect URI from start_google_auth (e.g., "http://localhost:8080/callback")',
               },
+              connection: {
+                type: 'string',
+                description:
+                  'Optional. Name for this account (e.g., "client-acme") when connecting more than one. Default: "default".',
+              },
             },
             required: ['code', 'redirect_uri'],
           },
@@ -187,10 +350,55 @@ class ActivityCollectorMCPServer {
                 type: 'string',
                 description: 'GitLab instance URL (optional, defaults to https://gitlab.com)',
               },
+              connection: {
+                type: 'string',
+                description:
+                  'Optional. Name for this account (e.g., "client-acme") when connecting more than one. Default: "default".',
+              },
             },
             required: ['code', 'redirect_uri'],
           },
         },
+        {
+          name: 'configure_oauth_client',
+          description:
+            "Use your own Google or GitLab OAuth app for start_google_auth / start_gitlab_auth instead of the bundled one, e.g. when your organization blocks unverified third-party apps. Checks the client with the provider before saving. Register http://localhost:<port>/callback for every port in the redirect range with the app.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              provider: {
+                type: 'string',
+                enum: ['google', 'gitlab'],
+                description: 'Which sign-in the app is for.',
+              },
+              client_id: {
+                type: 'string',
+                description: 'OAuth client ID (Google) or application ID (GitLab).',
+              },
+              client_secret: {
+                type: 'string',
+                description: 'Client secret. Omit for a public client (a GitLab app with "Confidential" unticked); PKCE protects the sign-in.',
+              },
+              redirect_port_start: {
+                type: 'number',
+                description: 'First loopback port registered as a redirect URI. Default: 8080.',
+              },
+              redirect_port_end: {
+                type: 'number',
+                description: 'Last loopback port registered as a redirect URI. Default: redirect_port_start + 10, or 8090.',
+              },
+              gitlab_url: {
+                type: 'string',
+                description: 'GitLab instance the app belongs to. The app is checked against and used for that instance only (optional, defaults to the gitlab url in the config file or https://gitlab.com).',
+              },
+              remove: {
+                type: 'boolean',
+                description: 'Forget the saved app for this provider (for GitLab, for gitlab_url) and go back to the bundled one.',
+              },
+            },
+            required: ['provider'],
+          },
+        },
         {
           name: 'fetch_gitlab_activity',
           description: 'Fetch GitLab activity (commits, MRs) for a single date OR a date range. Fast tool that returns immediately. Use this for building custom timesheets.',
@@ -213,38 +421,84 @@ class ActivityCollectorMCPServer {
                 type: 'boolean',
                 description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
               },
+              connection: {
+                type: 'string',
+                description: 'Optional. Only fetch from this named connection. Default: all connections.',
+              },
             },
           },
         },
-        // GitHub temporarily disabled
-        // {
-        //   name: 'fetch_github_activity',
-        //   description: 'Fetch GitHub activity (commits, PRs) for a single date OR a date range. Fast tool that returns immediately. Use this for building custom timesheets.',
-        //   inputSchema: {
-        //     type: 'object',
-        //     properties: {
-        //       date: {
-        //         type: 'string',
-        //         description: 'Single date in YYYY-MM-DD format (e.g., "2025-11-27"). Use this OR start_date/end_date, not both.',
-        //       },
-        //       start_date: {
-        //         type: 'string',
-        //         description: 'Start date for range in YYYY-MM-DD format (e.g., "2025-12-01"). Must be used with end_date.',
-        //       },
-        //       end_date: {
-        //         type: 'string',
-        //         description: 'End date for range in YYYY-MM-DD format (e.g., "2025-12-05"). Must be used with start_date.',
-        //       },
-        //       force_refresh: {
-        //         type: 'boolean',
-        //         description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
-        //       },
-        //     },
-        //   },
-        // },
         {
-          name: 'fetch_google_calendar_events',
-          description: 'Fetch Google Calendar events for a single date OR a date range. Fast tool that returns immediately. Use this for building custom timesheets.',
+          name: 'configure_github',
+          description:
+            'Configure GitHub. Pass a personal access token to store it directly, or omit it to start the OAuth device flow, which returns a short code to enter on github.com (no redirect ports needed). Finish the device flow with complete_github_auth.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              token: {
+                type: 'string',
+                description: 'Optional. GitHub personal access token with repo and read:user scopes. Omit to use the device flow.',
+              },
+              client_id: {
+                type: 'string',
+                description:
+                  'Optional. Client ID of a GitHub OAuth App with device flow enabled. Defaults to github.clientId in ~/.activity-collector-mcp-config.json.',
+              },
+              api_url: {
+                type: 'string',
+                description:
+                  'Optional. GitHub Enterprise Server URL (e.g., "https://github.example.com"). Defaults to github.com.',
+              },
+              ca_file: {
+                type: 'string',
+                description: 'Optional. Path to a PEM CA bundle, for GitHub Enterprise Server signed by an internal CA.',
+              },
+              connection: {
+                type: 'string',
+                description:
+                  'Optional. Name for this account (e.g., "client-acme") when connecting more than one. Default: "default".',
+              },
+            },
+          },
+        },
+        {
+          name: 'complete_github_auth',
+          description:
+            'Step 2 of the GitHub device flow: waits for the code from configure_github to be authorized on github.com, then stores the token.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              device_code: {
+                type: 'string',
+                description: 'Device code returned by configure_github',
+              },
+              interval: {
+                type: 'number',
+                description: 'Optional. Polling interval in seconds returned by configure_github. Default: 5.',
+              },
+              client_id: {
+                type: 'string',
+                description: 'Optional. Same client ID passed to configure_github, if any.',
+              },
+              api_url: {
+                type: 'string',
+                description: 'Optional. Same GitHub Enterprise Server URL passed to configure_github, if any.',
+              },
+              ca_file: {
+                type: 'string',
+                description: 'Optional. Same CA bundle path passed to configure_github, if any.',
+              },
+              connection: {
+                type: 'string',
+                description: 'Optional. Same connection name passed to configure_github, if any.',
+              },
+            },
+            required: ['device_code'],
+          },
+        },
+        {
+          name: 'fetch_github_activity',
+          description: 'Fetch GitHub activity (commits, PRs) for a single date OR a date range. Fast tool that returns immediately. Use this for building custom timesheets.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -264,66 +518,43 @@ class ActivityCollectorMCPServer {
                 type: 'boolean',
                 description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
               },
+              connection: {
+                type: 'string',
+                description: 'Optional. Only fetch from this named connection. Default: all connections.',
+              },
             },
           },
         },
-        // Outlook temporarily disabled
-        // {
-        //   name: 'fetch_outlook_calendar_events',
-        //   description: 'Fetch Outlook Calendar events for a single date OR a date range. Fast tool that returns immediately. Use this for building custom timesheets.',
-        //   inputSchema: {
-        //     type: 'object',
-        //     properties: {
-        //       date: {
-        //         type: 'string',
-        //         description: 'Single date in YYYY-MM-DD format (e.g., "2025-11-27"). Use this OR start_date/end_date, not both.',
-        //       },
-        //       start_date: {
-        //         type: 'string',
-        //         description: 'Start date for range in YYYY-MM-DD format (e.g., "2025-12-01"). Must be used with end_date.',
-        //       },
-        //       end_date: {
-        //         type: 'string',
-        //         description: 'End date for range in YYYY-MM-DD format (e.g., "2025-12-05"). Must be used with start_date.',
-        //       },
-        //       force_refresh: {
-        //         type: 'boolean',
-        //         description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
-        //       },
-        //     },
-        //   },
-        // },
         {
-          name: 'configure_azure_devops',
+          name: 'configure_bitbucket',
           description:
-            'Configure Azure DevOps. No personal access token is required - authentication uses the Azure CLI (az login), and no secret is stored. Validates the connection and reports which projects are visible. Re-run with a projects list to narrow which projects are scanned.',
+            'Configure Bitbucket Cloud or Bitbucket Data Center / Server. For Cloud, pass your Bitbucket username with an app password, or an access token alone. For Data Center, pass its URL with an HTTP access token, or a username and password. Validates the credentials before saving.',
           inputSchema: {
             type: 'object',
             properties: {
-              organization: {
+              token: {
                 type: 'string',
                 description:
-                  'Azure DevOps organization name - the segment after dev.azure.com/ in your browser URL (e.g. "mycompany").',
+                  'App password (with username) or access token. Needs read access to account, repositories and pull requests.',
               },
-              projects: {
-                type: 'array',
-                items: { type: 'string' },
+              username: {
+                type: 'string',
                 description:
-                  'Optional. Limit activity fetching to these project names. Omit to scan every visible project, which is slower.',
+                  'Optional. Bitbucket username for an app password or password. Omit when token is an access token.',
               },
-              tenant: {
+              url: {
                 type: 'string',
                 description:
-                  'Optional. Entra tenant ID, needed only when the Azure DevOps organization lives in a different tenant than your default az login.',
+                  'Optional. Bitbucket Data Center / Server URL (e.g., "https://bitbucket.example.com"). Omit for Bitbucket Cloud.',
               },
             },
-            required: ['organization'],
+            required: ['token'],
           },
         },
         {
-          name: 'fetch_azure_devops_activity',
+          name: 'fetch_bitbucket_activity',
           description:
-            'Fetch Azure DevOps activity (work items, pull requests, commits) for a single date OR a date range. Requires configure_azure_devops first.',
+            'Fetch Bitbucket activity (commits, pull requests created, reviewed, approved and commented on) for a single date OR a date range. Requires configure_bitbucket first.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -347,9 +578,29 @@ class ActivityCollectorMCPServer {
           },
         },
         {
-          name: 'fetch_outlook_calendar_events',
+          name: 'configure_gitea',
           description:
-            'Fetch Outlook Calendar events for a single date OR a date range by reading the locally installed Outlook desktop client. Requires no authentication or setup. Windows requires classic Outlook (the "new Outlook" app does not support automation); macOS requires Outlook for Mac.',
+            'Configure a self-hosted Gitea or Forgejo instance with its URL and an access token. Validates the token before saving.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: {
+                type: 'string',
+                description: 'Instance URL (e.g., "https://gitea.example.com").',
+              },
+              token: {
+                type: 'string',
+                description:
+                  'Access token from Settings → Applications, with read access to user, repository and issue.',
+              },
+            },
+            required: ['url', 'token'],
+          },
+        },
+        {
+          name: 'fetch_gitea_activity',
+          description:
+            'Fetch Gitea or Forgejo activity (commits pushed, pull requests, reviews and issues) for a single date OR a date range. Requires configure_gitea first.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -373,548 +624,2394 @@ class ActivityCollectorMCPServer {
           },
         },
         {
-          name: 'clear_cache',
-          description: 'Clear cached timesheet data. Useful when you want to force fresh data fetch for all future requests.',
+          name: 'configure_jira',
+          description:
+            'Configure Jira Cloud or Jira Data Center / Server as a source of issue activity. For Cloud, pass your Atlassian account email with an API token; for Data Center, a personal access token alone. Validates the credentials before saving.',
           inputSchema: {
             type: 'object',
             properties: {
-              scope: {
+              url: {
                 type: 'string',
-                description:
-                  'Optional. What to clear: "all" (everything), "gitlab", "calendars", "azure_devops", or "expired" (only expired entries). Default: "all".',
+                description: 'Jira site URL (e.g., "https://acme.atlassian.net" or "https://jira.example.com").',
+              },
+              token: {
+                type: 'string',
+                description: 'API token (Cloud, with email) or personal access token (Data Center).',
+              },
+              email: {
+                type: 'string',
+                description: 'Atlassian account email. Required for Jira Cloud; omit for a Data Center personal access token.',
               },
             },
+            required: ['url', 'token'],
           },
         },
-      ];
-
-      return { tools };
-    });
-
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        switch (request.params.name) {
-          case 'check_authentication_status':
-            return await this.handleCheckAuthStatus();
-
-          case 'start_google_auth':
-            return await this.handleStartGoogleAuth();
-
-          case 'complete_google_auth':
-            return await this.handleCompleteGoogleAuth(request.params.arguments);
-
-          case 'start_gitlab_auth':
-            return await this.handleStartGitLabAuth(request.params.arguments);
-
-          case 'complete_gitlab_auth':
-            return await this.handleCompleteGitLabAuth(request.params.arguments);
-
-          case 'fetch_gitlab_activity':
-            return await this.handleFetchGitLabActivity(request.params.arguments);
-
-          // GitHub temporarily disabled
-          // case 'fetch_github_activity':
-          //   return await this.handleFetchGitHubActivity(request.params.arguments);
-
-          case 'fetch_google_calendar_events':
-            return await this.handleFetchGoogleCalendarEvents(request.params.arguments);
-
-          // Outlook temporarily disabled
-          // case 'fetch_outlook_calendar_events':
-          //   return await this.handleFetchOutlookCalendarEvents(request.params.arguments);
-
-          case 'configure_azure_devops':
-            return await this.handleConfigureAzureDevOps(request.params.arguments);
-
-          case 'fetch_azure_devops_activity':
-            return await this.handleFetchAzureDevOpsActivity(request.params.arguments);
-
-          case 'fetch_outlook_calendar_events':
-            return await this.handleFetchOutlookLocalEvents(request.params.arguments);
-
-          case 'clear_cache':
-            return await this.handleClearCache(request.params.arguments);
-
-          default:
-            throw new Error(`Unknown tool: ${request.params.name}`);
-        }
-      } catch (error: any) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error.message}`,
-            },
-          ],
-        };
-      }
-    });
-  }
-
-  private async handleCheckAuthStatus() {
-    await this.tokenStorage.load();
-
-    const lines: string[] = ['Authentication Status:'];
-
-    lines.push(
-      `- GitLab: ${this.tokenStorage.hasGitLabToken() ? '✓ Configured' : '✗ Not configured — use start_gitlab_auth'}`
-    );
+        {
+          name: 'fetch_jira_activity',
+          description:
+            'Fetch Jira issue activity (issues you created, transitioned, commented on or logged work against) for a single date OR a date range. Requires configure_jira first.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              date: {
+                type: 'string',
+                description: 'Single date in YYYY-MM-DD format. Use this OR start_date/end_date, not both.',
+              },
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format. Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format. Must be used with start_date.',
+              },
+              force_refresh: {
+                type: 'boolean',
+                description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+              },
+            },
+          },
+        },
+        {
+          name: 'fetch_local_git_activity',
+          description:
+            'Fetch your commits from git repositories on this machine for a single date OR a date range, including commits never pushed and repositories on servers this MCP cannot reach. Repositories are found under the "localGit" directories in the config file.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              date: {
+                type: 'string',
+                description: 'Single date in YYYY-MM-DD format. Use this OR start_date/end_date, not both.',
+              },
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format. Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format. Must be used with start_date.',
+              },
+            },
+          },
+        },
+        {
+          name: 'fetch_google_calendar_events',
+          description: 'Fetch Google Calendar events for a single date OR a date range. Fast tool that returns immediately. Use this for building custom timesheets.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              date: {
+                type: 'string',
+                description: 'Single date in YYYY-MM-DD format (e.g., "2025-11-27"). Use this OR start_date/end_date, not both.',
+              },
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format (e.g., "2025-12-01"). Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format (e.g., "2025-12-05"). Must be used with start_date.',
+              },
+              force_refresh: {
+                type: 'boolean',
+                description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string', enum: ['declined', 'tentative', 'unanswered', 'free'] },
+                description:
+                  'Optional. Calendar events to leave out: "declined", "tentative", "unanswered" (invites with no reply) and/or "free" (marked free / not blocking time). Default: ["declined"]. Pass [] to keep every event.',
+              },
+              connection: {
+                type: 'string',
+                description: 'Optional. Only fetch from this named connection. Default: all connections.',
+              },
+            },
+          },
+        },
+        {
+          name: 'list_google_calendars',
+          description:
+            'List the Google calendars visible to each connected Google account (own, shared and subscribed), marking which ones are merged into calendar fetches and timesheets.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              connection: {
+                type: 'string',
+                description: 'Optional. Only list calendars for this named connection. Default: all connections.',
+              },
+            },
+          },
+        },
+        {
+          name: 'select_google_calendars',
+          description:
+            'Choose which Google calendars are merged into calendar fetches and timesheets. The selection is saved per Google connection. Use the IDs returned by list_google_calendars.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              calendar_ids: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Calendar IDs to merge. "primary" is your own calendar. Pass ["primary"] to reset.',
+              },
+              connection: {
+                type: 'string',
+                description: 'Optional. Google connection the selection applies to. Default: "default".',
+              },
+            },
+            required: ['calendar_ids'],
+          },
+        },
+        // Outlook temporarily disabled
+        // {
+        //   name: 'fetch_outlook_calendar_events',
+        //   description: 'Fetch Outlook Calendar events for a single date OR a date range. Fast tool that returns immediately. Use this for building custom timesheets.',
+        //   inputSchema: {
+        //     type: 'object',
+        //     properties: {
+        //       date: {
+        //         type: 'string',
+        //         description: 'Single date in YYYY-MM-DD format (e.g., "2025-11-27"). Use this OR start_date/end_date, not both.',
+        //       },
+        //       start_date: {
+        //         type: 'string',
+        //         description: 'Start date for range in YYYY-MM-DD format (e.g., "2025-12-01"). Must be used with end_date.',
+        //       },
+        //       end_date: {
+        //         type: 'string',
+        //         description: 'End date for range in YYYY-MM-DD format (e.g., "2025-12-05"). Must be used with start_date.',
+        //       },
+        //       force_refresh: {
+        //         type: 'boolean',
+        //         description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+        //       },
+        //     },
+        //   },
+        // },
+        {
+          name: 'configure_azure_devops',
+          description:
+            'Configure Azure DevOps. No personal access token is required - authentication uses the Azure CLI (az login), and no secret is stored. Validates the connection and reports which projects are visible. Re-run with a projects list to narrow which projects are scanned.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              organization: {
+                type: 'string',
+                description:
+                  'Azure DevOps organization name - the segment after dev.azure.com/ in your browser URL (e.g. "mycompany").',
+              },
+              projects: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional. Limit activity fetching to these project names. Omit to scan every visible project, which is slower.',
+              },
+              tenant: {
+                type: 'string',
+                description:
+                  'Optional. Entra tenant ID, needed only when the Azure DevOps organization lives in a different tenant than your default az login.',
+              },
+            },
+            required: ['organization'],
+          },
+        },
+        {
+          name: 'fetch_azure_devops_activity',
+          description:
+            'Fetch Azure DevOps activity (work items, pull requests, commits) for a single date OR a date range. Requires configure_azure_devops first.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              date: {
+                type: 'string',
+                description: 'Single date in YYYY-MM-DD format. Use this OR start_date/end_date, not both.',
+              },
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format. Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format. Must be used with start_date.',
+              },
+              force_refresh: {
+                type: 'boolean',
+                description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+              },
+            },
+          },
+        },
+        {
+          name: 'fetch_outlook_calendar_events',
+          description:
+            'Fetch Outlook Calendar events for a single date OR a date range by reading the locally installed Outlook desktop client. Requires no authentication or setup. Windows requires classic Outlook (the "new Outlook" app does not support automation); macOS requires Outlook for Mac.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              date: {
+                type: 'string',
+                description: 'Single date in YYYY-MM-DD format. Use this OR start_date/end_date, not both.',
+              },
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format. Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format. Must be used with start_date.',
+              },
+              force_refresh: {
+                type: 'boolean',
+                description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string', enum: ['declined', 'tentative', 'unanswered', 'free'] },
+                description:
+                  'Optional. Calendar events to leave out: "declined", "tentative", "unanswered" (invites with no reply) and/or "free" (marked free / not blocking time). Default: ["declined"]. Pass [] to keep every event.',
+              },
+            },
+          },
+        },
+        {
+          name: 'configure_ics_calendar',
+          description:
+            'Configure a calendar that is neither Google nor Outlook (Fastmail, Nextcloud, iCloud, …) from a local .ics file, an iCalendar feed URL or a CalDAV calendar URL. Checks the source by reading today\'s events before saving. Its events are merged into timesheets alongside Google Calendar.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              source: {
+                type: 'string',
+                description:
+                  'Path to an .ics file (e.g. "~/calendars/work.ics"), or an https:// or webcal:// feed URL, or a CalDAV calendar collection URL.',
+              },
+              username: {
+                type: 'string',
+                description: 'Optional. Basic-auth username for the URL.',
+              },
+              password: {
+                type: 'string',
+                description:
+                  'Optional. Basic-auth password for the URL. Use an app password where the provider offers one (Fastmail, iCloud, Nextcloud).',
+              },
+              email: {
+                type: 'string',
+                description:
+                  'Optional. Your address as it appears in invitations, used to read your RSVP (accepted, declined, …) from each event.',
+              },
+            },
+            required: ['source'],
+          },
+        },
+        {
+          name: 'fetch_ics_calendar_events',
+          description:
+            'Fetch events from the calendar set up with configure_ics_calendar for a single date OR a date range. Recurring events are expanded.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              date: {
+                type: 'string',
+                description: 'Single date in YYYY-MM-DD format. Use this OR start_date/end_date, not both.',
+              },
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format. Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format. Must be used with start_date.',
+              },
+              force_refresh: {
+                type: 'boolean',
+                description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string', enum: ['declined', 'tentative', 'unanswered', 'free'] },
+                description:
+                  'Optional. Calendar events to leave out: "declined", "tentative", "unanswered" (invites with no reply) and/or "free" (marked free / not blocking time). Default: ["declined"]. Pass [] to keep every event.',
+              },
+            },
+          },
+        },
+        {
+          name: 'generate_timesheet',
+          description:
+            'Generate a day-by-day timesheet narrative by merging every authenticated source (GitLab, GitHub, Bitbucket, Gitea, local git repositories, Jira, Google Calendar, ICS calendar, Azure DevOps). Accepts a date range, a week, or a month. Returns one entry per working day with the sources that contributed to it and a per-project hours breakdown. Working days, holidays and time off come from the workCalendar config; holidays and time off are labelled, not skipped.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format. Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format. Must be used with start_date.',
+              },
+              week: {
+                type: 'string',
+                description: 'Any date in the target week, in YYYY-MM-DD format (e.g., "2025-12-03"). Use this OR start_date/end_date OR month.',
+              },
+              month: {
+                type: 'string',
+                description: 'Target month in YYYY-MM format (e.g., "2025-12"). Use this OR start_date/end_date OR week.',
+              },
+              distribute_gaps: {
+                type: 'boolean',
+                description:
+                  'Optional. Spread work from the next active day across preceding days with no recorded activity. Distributed items are marked [Distributed]. Default: false.',
+              },
+              force_refresh: {
+                type: 'boolean',
+                description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string', enum: ['declined', 'tentative', 'unanswered', 'free'] },
+                description:
+                  'Optional. Calendar events to leave out: "declined", "tentative", "unanswered" (invites with no reply) and/or "free" (marked free / not blocking time). Default: ["declined"]. Pass [] to keep every event.',
+              },
+              hours_per_day: {
+                type: 'number',
+                description:
+                  'Optional. Length of a working day in hours. Meeting time is taken from the calendar and the rest is split across projects by activity. Default: 8.',
+              },
+            },
+          },
+        },
+        {
+          name: 'export_timesheet',
+          description:
+            'Generate a timesheet (same sources and date options as generate_timesheet) and write it to a local CSV or JSON file, with hours and source links. Columns can be renamed and reordered to match an upload template.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'File to write, absolute or starting with ~/ (e.g. "~/timesheets/2025-12.csv"). Parent folders are created.',
+              },
+              format: {
+                type: 'string',
+                enum: ['csv', 'excel_csv', 'json'],
+                description:
+                  'Optional. "csv", "excel_csv" (UTF-8 BOM and CRLF so Excel opens it cleanly; text that would run as a formula is prefixed with an apostrophe) or "json". Default: json for a .json path, otherwise csv.',
+              },
+              rows: {
+                type: 'string',
+                enum: ['day', 'project'],
+                description: 'Optional. One row per day, or one row per day and project from the hours split (days without hours keep one row with no project). Default: "day".',
+              },
+              columns: {
+                type: 'object',
+                additionalProperties: { type: 'string', enum: Object.keys(EXPORT_FIELDS) },
+                description: `Optional. Output header → field, in column order, e.g. {"Work Date": "date", "Effort": "totalHours", "Comments": "description"}. Fields: ${Object.entries(
+                  EXPORT_FIELDS
+                )
+                  .map(([field, meaning]) => `${field} (${meaning})`)
+                  .join('; ')}. JSON without columns writes full timesheet entries.`,
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Optional. Replace the file if it already exists. Default: false.',
+              },
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format. Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format. Must be used with start_date.',
+              },
+              week: {
+                type: 'string',
+                description: 'Any date in the target week, in YYYY-MM-DD format. Use this OR start_date/end_date OR month.',
+              },
+              month: {
+                type: 'string',
+                description: 'Target month in YYYY-MM format. Use this OR start_date/end_date OR week.',
+              },
+              distribute_gaps: {
+                type: 'boolean',
+                description: 'Optional. Spread work across preceding days with no recorded activity. Default: false.',
+              },
+              force_refresh: {
+                type: 'boolean',
+                description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string', enum: ['declined', 'tentative', 'unanswered', 'free'] },
+                description: 'Optional. Calendar events to leave out, as for generate_timesheet. Default: ["declined"].',
+              },
+              hours_per_day: {
+                type: 'number',
+                description: 'Optional. Length of a working day in hours. Default: 8.',
+              },
+            },
+            required: ['path'],
+          },
+        },
+        {
+          name: 'export_tempo_worklogs',
+          description:
+            'Turn a generated timesheet into Jira/Tempo worklog JSON (issueKey, started, timeSpentSeconds, comment). Issue keys are read from commit messages, branch names and MR titles; meetings and work without a key go to the default issue. Use dry_run to preview without writing a file.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              path: {
+                type: 'string',
+                description: 'JSON file to write, absolute or starting with ~/. Required unless dry_run is true.',
+              },
+              dry_run: {
+                type: 'boolean',
+                description: 'Optional. Preview the worklogs without writing a file. Default: false.',
+              },
+              default_issue: {
+                type: 'string',
+                description:
+                  'Optional. Issue key (e.g. "PROJ-1") for time with no issue key of its own. Default: jira.defaultIssue from the config file; without either, that time is reported and left out.',
+              },
+              meeting_issue: {
+                type: 'string',
+                description: 'Optional. Issue key for meeting time. Default: jira.meetingIssue from the config file, then default_issue.',
+              },
+              project_keys: {
+                type: 'array',
+                items: { type: 'string' },
+                description:
+                  'Optional. Only accept issue keys from these Jira projects (e.g. ["PROJ", "OPS"]), so strings like UTF-8 are not mistaken for issues. Default: jira.projectKeys from the config file, else any key.',
+              },
+              day_start: {
+                type: 'string',
+                description: 'Optional. Local time the first worklog of each day starts, HH:mm. Default: "09:00".',
+              },
+              overwrite: {
+                type: 'boolean',
+                description: 'Optional. Replace the file if it already exists. Default: false.',
+              },
+              start_date: {
+                type: 'string',
+                description: 'Start date for range in YYYY-MM-DD format. Must be used with end_date.',
+              },
+              end_date: {
+                type: 'string',
+                description: 'End date for range in YYYY-MM-DD format. Must be used with start_date.',
+              },
+              week: {
+                type: 'string',
+                description: 'Any date in the target week, in YYYY-MM-DD format. Use this OR start_date/end_date OR month.',
+              },
+              month: {
+                type: 'string',
+                description: 'Target month in YYYY-MM format. Use this OR start_date/end_date OR week.',
+              },
+              distribute_gaps: {
+                type: 'boolean',
+                description: 'Optional. Spread work across preceding days with no recorded activity. Default: false.',
+              },
+              force_refresh: {
+                type: 'boolean',
+                description: 'Optional. Bypass cache and fetch fresh data. Default: false.',
+              },
+              exclude: {
+                type: 'array',
+                items: { type: 'string', enum: ['declined', 'tentative', 'unanswered', 'free'] },
+                description: 'Optional. Calendar events to leave out, as for generate_timesheet. Default: ["declined"].',
+              },
+              hours_per_day: {
+                type: 'number',
+                description: 'Optional. Length of a working day in hours. Default: 8.',
+              },
+            },
+          },
+        },
+        {
+          name: 'clear_cache',
+          description: 'Clear cached timesheet data. Useful when you want to force fresh data fetch for all future requests.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              scope: {
+                type: 'string',
+                description:
+                  'Optional. What to clear: "all" (everything), "gitlab", "github", "bitbucket", "gitea", "jira", "calendars", "ics", "azure_devops", or "expired" (only expired entries). Default: "all".',
+              },
+            },
+          },
+        },
+        {
+          name: 'disconnect',
+          description:
+            'Sign out of a source: revokes its OAuth tokens with the provider where it can (Google, GitLab), then deletes the stored credentials and cached activity on this machine. Use provider "all" when handing a laptop over.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              provider: {
+                type: 'string',
+                enum: [...DISCONNECT_PROVIDERS, 'all'],
+                description: 'Which source to disconnect, or "all" for every source, saved OAuth apps included.',
+              },
+              connection: {
+                type: 'string',
+                description:
+                  'Optional, for gitlab, github and google. Disconnect only this named account. Default: every account of the provider.',
+              },
+            },
+            required: ['provider'],
+          },
+        },
+      ];
+
+      return { tools };
+    });
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      try {
+        // Every date argument is a day in the configured timezone
+        await this.loadConfig();
+
+        switch (request.params.name) {
+          case 'check_authentication_status':
+            return await this.handleCheckAuthStatus();
+
+          case 'start_google_auth':
+            return await this.handleStartGoogleAuth();
+
+          case 'complete_google_auth':
+            return await this.handleCompleteGoogleAuth(request.params.arguments);
+
+          case 'start_gitlab_auth':
+            return await this.handleStartGitLabAuth(request.params.arguments);
+
+          case 'complete_gitlab_auth':
+            return await this.handleCompleteGitLabAuth(request.params.arguments);
+
+          case 'configure_oauth_client':
+            return await this.handleConfigureOAuthClient(request.params.arguments);
+
+          case 'fetch_gitlab_activity':
+            return await this.handleFetchGitLabActivity(request.params.arguments);
+
+          case 'configure_github':
+            return await this.handleConfigureGitHub(request.params.arguments);
+
+          case 'complete_github_auth':
+            return await this.handleCompleteGitHubAuth(request.params.arguments);
+
+          case 'fetch_github_activity':
+            return await this.handleFetchGitHubActivity(request.params.arguments);
+
+          case 'configure_bitbucket':
+            return await this.handleConfigureBitbucket(request.params.arguments);
+
+          case 'fetch_bitbucket_activity':
+            return await this.handleFetchBitbucketActivity(request.params.arguments);
+
+          case 'configure_gitea':
+            return await this.handleConfigureGitea(request.params.arguments);
+
+          case 'fetch_gitea_activity':
+            return await this.handleFetchGiteaActivity(request.params.arguments);
+
+          case 'configure_jira':
+            return await this.handleConfigureJira(request.params.arguments);
+
+          case 'fetch_jira_activity':
+            return await this.handleFetchJiraActivity(request.params.arguments);
+
+          case 'fetch_local_git_activity':
+            return await this.handleFetchLocalGitActivity(request.params.arguments);
+
+          case 'fetch_google_calendar_events':
+            return await this.handleFetchGoogleCalendarEvents(request.params.arguments);
+
+          case 'list_google_calendars':
+            return await this.handleListGoogleCalendars(request.params.arguments);
+
+          case 'select_google_calendars':
+            return await this.handleSelectGoogleCalendars(request.params.arguments);
+
+          // Outlook temporarily disabled
+          // case 'fetch_outlook_calendar_events':
+          //   return await this.handleFetchOutlookCalendarEvents(request.params.arguments);
+
+          case 'configure_azure_devops':
+            return await this.handleConfigureAzureDevOps(request.params.arguments);
+
+          case 'fetch_azure_devops_activity':
+            return await this.handleFetchAzureDevOpsActivity(request.params.arguments);
+
+          case 'fetch_outlook_calendar_events':
+            return await this.handleFetchOutlookLocalEvents(request.params.arguments);
+
+          case 'configure_ics_calendar':
+            return await this.handleConfigureIcsCalendar(request.params.arguments);
+
+          case 'fetch_ics_calendar_events':
+            return await this.handleFetchIcsCalendarEvents(request.params.arguments);
+
+          case 'generate_timesheet':
+            return await this.handleGenerateTimesheet(request.params.arguments);
+
+          case 'export_timesheet':
+            return await this.handleExportTimesheet(request.params.arguments);
+
+          case 'export_tempo_worklogs':
+            return await this.handleExportTempoWorklogs(request.params.arguments);
+
+          case 'clear_cache':
+            return await this.handleClearCache(request.params.arguments);
+
+          case 'disconnect':
+            return await this.handleDisconnect(request.params.arguments);
+
+          default:
+            throw new Error(`Unknown tool: ${request.params.name}`);
+        }
+      } catch (error: any) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error.message}`,
+            },
+          ],
+        };
+      }
+    });
+  }
+
+  private async handleCheckAuthStatus() {
+    let storageError: string | undefined;
+    try {
+      await this.tokenStorage.load();
+    } catch (error: any) {
+      storageError = error.message;
+    }
+
+    const lines: string[] = ['Authentication Status:'];
+
+    const config = await this.loadConfig();
+    // Connection names are only listed once the user has added a named one
+    const isNamed = (connections: string[]) => connections.some(c => c !== DEFAULT_CONNECTION);
+
+    lines.push(
+      `- GitLab: ${this.tokenStorage.hasGitLabToken() ? '✓ Configured' : '✗ Not configured — use start_gitlab_auth'}`
+    );
+    const gitlabConnections = this.tokenStorage.listConnections('gitlab');
+    if (isNamed(gitlabConnections)) {
+      const described = gitlabConnections.map(
+        c => `${c} (${this.tokenStorage.getGitLabUrl(c) || config.gitlab?.url || 'https://gitlab.com'})`
+      );
+      lines.push(`    connections: ${described.join(', ')}`);
+    }
+    lines.push(
+      `- GitHub: ${this.tokenStorage.hasGitHubToken() ? '✓ Configured' : '✗ Not configured — use configure_github'}`
+    );
+    const githubConnections = this.tokenStorage.listConnections('github');
+    if (isNamed(githubConnections)) {
+      const described = githubConnections.map(
+        c => `${c} (${githubWebUrl(this.tokenStorage.getGitHubConnection(c)?.apiUrl)})`
+      );
+      lines.push(`    connections: ${described.join(', ')}`);
+    } else {
+      const githubApiUrl = this.tokenStorage.getGitHubConnection()?.apiUrl;
+      if (githubApiUrl) lines.push(`    server: ${githubWebUrl(githubApiUrl)}`);
+    }
+    const bitbucket = this.tokenStorage.getBitbucket();
+    lines.push(
+      bitbucket?.token
+        ? `- Bitbucket: ✓ Configured (${bitbucket.url || 'Bitbucket Cloud'}, ${bitbucket.username ? `basic auth as ${bitbucket.username}` : 'access token'})`
+        : '- Bitbucket: ✗ Not configured — use configure_bitbucket'
+    );
+    const gitea = this.tokenStorage.getGitea();
+    lines.push(
+      gitea?.token
+        ? `- Gitea / Forgejo: ✓ Configured (${gitea.url})`
+        : '- Gitea / Forgejo: ✗ Not configured — use configure_gitea'
+    );
+    if (config.localGit) {
+      try {
+        await this.localGit.initialize(config.localGit);
+        const repositories = await this.localGit.getRepositories();
+        lines.push(
+          `- Local git: ✓ ${repositories.length} repositor${repositories.length === 1 ? 'y' : 'ies'} under ${config.localGit.directories.join(', ')}`
+        );
+      } catch (error: any) {
+        lines.push(`- Local git: ⚠️ ${error.message}`);
+      }
+    } else {
+      lines.push('- Local git: ✗ Not configured — add "localGit" with your repository folders to the config file');
+    }
     lines.push(
       `- Google Calendar: ${this.tokenStorage.hasGoogleTokens() ? '✓ Configured' : '✗ Not configured — use start_google_auth'}`
     );
+    const googleConnections = this.tokenStorage.listConnections('google');
+    if (isNamed(googleConnections)) {
+      lines.push(`    connections: ${googleConnections.join(', ')}`);
+    }
+
+    // Outlook needs no credential at all, so the only question is whether this
+    // platform has a local bridge available.
+    if (OutlookLocalIntegration.isSupported()) {
+      lines.push('- Outlook Calendar: ✓ Available (reads local Outlook desktop, no setup required)');
+      if (process.platform === 'win32') {
+        lines.push(
+          '    Requires classic Outlook. The "new Outlook" app cannot be automated — if fetches fail,'
+        );
+        lines.push('    turn off the "New Outlook" toggle in Outlook and reopen it.');
+      }
+    } else {
+      lines.push(`- Outlook Calendar: ✗ Unsupported platform (${process.platform})`);
+      lines.push('    ' + OutlookLocalIntegration.unsupportedMessage().split('\n').join('\n    '));
+    }
+
+    const ics = this.tokenStorage.getIcsCalendar();
+    if (ics?.source) {
+      await this.icsCalendar.initialize(ics);
+      lines.push(`- ICS Calendar: ✓ Configured (${this.icsCalendar.describeSource()})`);
+    } else {
+      lines.push('- ICS Calendar: ✗ Not configured — use configure_ics_calendar for Fastmail, Nextcloud, iCloud or an .ics file');
+    }
+
+    const ado = this.tokenStorage.getAzureDevOps();
+    if (ado?.organization) {
+      const scope = ado.projects?.length
+        ? `projects: ${ado.projects.join(', ')}`
+        : 'all visible projects (slower — narrow with configure_azure_devops)';
+      lines.push(`- Azure DevOps: ✓ Configured (org: ${ado.organization}, ${scope})`);
+      if (ado.tenant) lines.push(`    tenant: ${ado.tenant}`);
+    } else {
+      lines.push('- Azure DevOps: ✗ Not configured');
+      lines.push('    ' + azSetupInstructions().split('\n').join('\n    '));
+      lines.push('    Then run configure_azure_devops with your organization name.');
+    }
+
+    const jira = this.tokenStorage.getJira();
+    lines.push(
+      jira?.token
+        ? `- Jira: ✓ Configured (${jira.url}, ${jira.email ? `API token for ${jira.email}` : 'personal access token'})`
+        : '- Jira: ✗ Not configured — use configure_jira'
+    );
+
+    lines.push('');
+    lines.push(
+      `Timezone: ${getTimeZone()}${config.timezone ? '' : ' (system default — set "timezone" in the config file to change)'}`
+    );
+    try {
+      const calendar = await loadWorkCalendar(config.workCalendar);
+      lines.push(`Work calendar: ${calendar.describe()}`);
+    } catch (error: any) {
+      lines.push(`Work calendar: ⚠️ ${error.message}`);
+    }
+    lines.push(`Secrets: ${storageError ? `⚠️ ${storageError}` : await this.tokenStorage.describeStorage()}`);
+    const ownApp = (saved: OAuthClientSettings) =>
+      `your own${saved.clientSecret ? '' : ', public'}, ports ${saved.redirectPorts?.start ?? DEFAULT_REDIRECT_PORTS.start}-${saved.redirectPorts?.end ?? DEFAULT_REDIRECT_PORTS.end}`;
+    const savedGoogle = this.tokenStorage.getOAuthClient('google');
+    const oauthApps = [
+      `Google ${savedGoogle ? ownApp(savedGoogle) : config.google?.clientId ? 'from the config file' : 'bundled'}`,
+      // GitLab apps are saved per instance; others use the config file's or the bundled one
+      ...this.tokenStorage.listGitLabOAuthClients().map(([instance, saved]) => `GitLab ${instance} ${ownApp(saved)}`),
+      `GitLab ${this.tokenStorage.listGitLabOAuthClients().length > 0 ? 'elsewhere ' : ''}${config.gitlab?.applicationId ? 'from the config file' : 'bundled'}`,
+    ];
+    lines.push(`OAuth apps: ${oauthApps.join('; ')} (change with configure_oauth_client)`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: lines.join('\n'),
+        },
+      ],
+    };
+  }
+
+  /** The OAuth app to sign in with (see resolveOAuthClient). Expects the token store loaded. */
+  private async oauthClient(provider: OAuthProvider, gitlabUrl?: string): Promise<OAuthClientSettings> {
+    return resolveOAuthClient(provider, await this.loadConfig(), this.tokenStorage.getOAuthClient(provider, gitlabUrl));
+  }
+
+  /**
+   * The app that issued a GitLab connection's tokens, the only one that can
+   * refresh or revoke them. Undefined once that app is no longer configured.
+   */
+  private async gitlabIssuer(connection: string, gitlabUrl: string): Promise<OAuthClientSettings | undefined> {
+    const credential = this.tokenStorage.getGitLabOAuthTokens(connection);
+    return resolveGitLabIssuer(
+      await this.loadConfig(),
+      this.tokenStorage.getOAuthClient('gitlab', gitlabUrl),
+      typeof credential === 'object' ? credential.clientId : undefined
+    );
+  }
+
+  /**
+   * The PKCE verifier for a code from start_*_auth. The token request is
+   * refused without it, so a code from any other source cannot be redeemed.
+   */
+  private takeOAuthVerifier(code: string, startTool: string): string {
+    const verifier = this.oauthVerifiers.get(code)?.verifier;
+    if (!verifier) {
+      throw new Error(
+        `This authorization code was not issued by ${startTool} in the current session. Run ${startTool} again and pass on the code it returns.`
+      );
+    }
+    this.oauthVerifiers.delete(code);
+    return verifier;
+  }
+
+  /** Forgets verifiers from abandoned or failed flows, run as each new flow starts. */
+  private pruneOAuthVerifiers(now = Date.now()): void {
+    for (const [code, { createdAt }] of this.oauthVerifiers) {
+      if (now - createdAt > OAUTH_FLOW_TIMEOUT_MS) this.oauthVerifiers.delete(code);
+    }
+  }
+
+  private async handleConfigureOAuthClient(args: any) {
+    const provider = args?.provider;
+    if (provider !== 'google' && provider !== 'gitlab') {
+      throw new Error('provider must be "google" or "gitlab"');
+    }
+    const label = provider === 'google' ? 'Google' : 'GitLab';
+    const startTool = `start_${provider}_auth`;
+
+    const optional = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined);
+    const config = await this.loadConfig();
+    // A GitLab application belongs to one instance, so it is saved for that instance
+    const gitlabUrl = (optional(args?.gitlab_url) || config.gitlab?.url || 'https://gitlab.com').replace(/\/+$/, '');
+    if (provider === 'gitlab' && !/^https?:\/\/[^/\s]+/.test(gitlabUrl)) {
+      throw new Error(`gitlab_url must be the instance's address, e.g. https://gitlab.example.com (got "${gitlabUrl}")`);
+    }
+    const instance = provider === 'gitlab' ? ` for ${gitlabUrl}` : '';
+
+    await this.tokenStorage.load();
+    if (args?.remove === true) {
+      await this.tokenStorage.setOAuthClient(provider, undefined, gitlabUrl);
+      const fromConfig = provider === 'google' ? config.google?.clientId : config.gitlab?.applicationId;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Saved ${label} OAuth app${instance} removed. ${startTool} now uses ${fromConfig ? 'the app from the config file' : 'the bundled app'}.\n\nConnections signed in with the removed app stop refreshing; run ${startTool} again to reconnect them.`,
+          },
+        ],
+      };
+    }
+
+    const clientId = optional(args?.client_id);
+    if (!clientId) {
+      throw new Error(`client_id is required: the ${provider === 'google' ? 'OAuth client ID' : 'application ID'} of your ${label} app`);
+    }
+    if (provider === 'google' && !clientId.endsWith('.apps.googleusercontent.com')) {
+      throw new Error('A Google OAuth client ID ends in .apps.googleusercontent.com. Copy it from Google Cloud Console → APIs & Services → Credentials.');
+    }
+    if (!/^[A-Za-z0-9._-]+$/.test(clientId)) {
+      throw new Error('client_id has characters an OAuth client ID never contains. Check it was copied whole.');
+    }
+
+    const start = args?.redirect_port_start ?? DEFAULT_REDIRECT_PORTS.start;
+    const end = args?.redirect_port_end ?? (args?.redirect_port_start !== undefined ? start + 10 : DEFAULT_REDIRECT_PORTS.end);
+    if (![start, end].every(port => Number.isInteger(port) && port >= 1024 && port <= 65535) || end < start || end - start > 100) {
+      throw new Error('The redirect ports must be a range of at most 100 ports between 1024 and 65535, e.g. 8080 to 8090.');
+    }
+    const settings: OAuthClientSettings = {
+      clientId,
+      clientSecret: optional(args?.client_secret),
+      redirectPorts: { start, end },
+    };
+
+    // Validate before saving so a mistyped client is never persisted.
+    const tokenUrl = provider === 'google' ? 'https://oauth2.googleapis.com/token' : `${gitlabUrl}/oauth/token`;
+    await verifyOAuthClient(tokenUrl, settings, `http://localhost:${start}/callback`);
+
+    await this.tokenStorage.setOAuthClient(provider, settings, gitlabUrl);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ ${label} OAuth app${instance} saved (${settings.clientSecret ? 'confidential client' : 'public client, PKCE only'}). ${startTool} now uses it.
+
+Make sure the app lists these redirect URIs: http://localhost:${start}/callback through http://localhost:${end}/callback.
+Connections signed in with the previous app stop refreshing; run ${startTool} again to reconnect them.`,
+        },
+      ],
+    };
+  }
+
+  private async handleStartGoogleAuth() {
+    this.pruneOAuthVerifiers();
+    let ports = DEFAULT_REDIRECT_PORTS;
+    try {
+      // Your own OAuth app if one is configured, else the bundled one
+      await this.tokenStorage.load();
+      const { clientId, clientSecret, redirectPorts } = await this.oauthClient('google');
+      ports = redirectPorts ?? ports;
+
+      // Run OAuth flow - only capture authorization code
+      const result = await runOAuthFlow((redirectUri, params) => {
+        // Create OAuth2 client to generate auth URL
+        const tempOAuth2Client = new OAuth2Client(
+          clientId,
+          clientSecret,
+          redirectUri
+        );
+
+        return tempOAuth2Client.generateAuthUrl({
+          access_type: 'offline',
+          scope: OAUTH_SCOPES.google.calendar,
+          prompt: 'consent',
+          state: params.state,
+          code_challenge: params.codeChallenge,
+          code_challenge_method: CodeChallengeMethod.S256,
+        });
+      }, ports);
+
+      if (result.error) {
+        throw new Error(`OAuth failed: ${result.error}`);
+      }
+
+      if (!result.code) {
+        throw new Error('No authorization code received');
+      }
+      this.oauthVerifiers.set(result.code, { verifier: result.codeVerifier, createdAt: Date.now() });
+
+      const redirectUri = `http://localhost:${result.port}/callback`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Step 1 Complete: Authorization code received!
+
+Authorization Code: ${result.code}
+Redirect URI: ${redirectUri}
+
+Next step: Call complete_google_auth with these values to finish authentication.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Google Calendar authorization failed: ${error.message}
+
+Please try again. If the problem persists, check that:
+1. Your browser allows opening localhost URLs
+2. Ports ${ports.start}-${ports.end} are not all blocked by firewall
+3. You authorized the application in the browser`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleCompleteGoogleAuth(args: any) {
+    try {
+      const code = args?.code;
+      const redirectUri = args?.redirect_uri;
+
+      if (!code) {
+        throw new Error('Missing required parameter: code');
+      }
+      if (!redirectUri) {
+        throw new Error('Missing required parameter: redirect_uri');
+      }
+
+      const codeVerifier = this.takeOAuthVerifier(code, 'start_google_auth');
+
+      // The same OAuth app start_google_auth used
+      await this.tokenStorage.load();
+      const { clientId, clientSecret } = await this.oauthClient('google');
+
+      const connection = this.resolveConnectionArg(args);
+
+      // Exchange code for tokens
+      const googleCalendar = this.googleCalendarClient(connection);
+      await googleCalendar.initialize(clientId, clientSecret, redirectUri);
+      const tokens = await googleCalendar.setAuthorizationCode(code, codeVerifier);
+
+      // Save tokens
+      await this.tokenStorage.load();
+      await this.tokenStorage.setGoogleTokens(tokens, connection);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Step 2 Complete: Successfully authenticated with ${connectionLabel('google', connection)}!
+
+Your access token has been saved and will be automatically refreshed when needed.
+You can now use fetch_google_calendar_events to retrieve calendar data.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to complete Google Calendar authentication: ${error.message}
+
+Please make sure you provided the correct authorization code and redirect URI from start_google_auth.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleStartGitLabAuth(args: any) {
+    this.pruneOAuthVerifiers();
+    let ports = DEFAULT_REDIRECT_PORTS;
+    try {
+      const gitlabUrl = args?.gitlab_url || 'https://gitlab.com';
+
+      // Your own OAuth app if one is configured, else the bundled one
+      await this.tokenStorage.load();
+      const { clientId, clientSecret, redirectPorts } = await this.oauthClient('gitlab', gitlabUrl);
+      ports = redirectPorts ?? ports;
+
+      // Create GitLab OAuth helper
+      const gitlabOAuth = new GitLabOAuth({
+        applicationId: clientId,
+        secret: clientSecret,
+        gitlabUrl,
+      });
+
+      // Run OAuth flow - only capture authorization code
+      const result = await runOAuthFlow((redirectUri, params) => {
+        return gitlabOAuth.getAuthUrl(redirectUri, OAUTH_SCOPES.gitlab.api, params);
+      }, ports);
+
+      if (result.error) {
+        throw new Error(`OAuth failed: ${result.error}`);
+      }
+
+      if (!result.code) {
+        throw new Error('No authorization code received');
+      }
+      this.oauthVerifiers.set(result.code, { verifier: result.codeVerifier, createdAt: Date.now() });
+
+      const redirectUri = `http://localhost:${result.port}/callback`;
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Step 1 Complete: Authorization code received!
+
+Authorization Code: ${result.code}
+Redirect URI: ${redirectUri}
+GitLab URL: ${gitlabUrl}
+
+Next step: Call complete_gitlab_auth with these values to finish authentication.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ GitLab authorization failed: ${error.message}
+
+Troubleshooting:
+1. Make sure you clicked "Authorize" in the browser
+2. Check that ports ${ports.start}-${ports.end} are not blocked by firewall
+3. Verify the GitLab URL is correct: ${args?.gitlab_url || 'https://gitlab.com'}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleCompleteGitLabAuth(args: any) {
+    try {
+      const code = args?.code;
+      const redirectUri = args?.redirect_uri;
+      const gitlabUrl = args?.gitlab_url || 'https://gitlab.com';
+      const connection = this.resolveConnectionArg(args);
+
+      if (!code) {
+        throw new Error('Missing required parameter: code');
+      }
+      if (!redirectUri) {
+        throw new Error('Missing required parameter: redirect_uri');
+      }
+
+      const codeVerifier = this.takeOAuthVerifier(code, 'start_gitlab_auth');
+
+      // The same OAuth app start_gitlab_auth used
+      await this.tokenStorage.load();
+      const { clientId, clientSecret } = await this.oauthClient('gitlab', gitlabUrl);
+
+      // Create GitLab OAuth helper
+      const gitlabOAuth = new GitLabOAuth({
+        applicationId: clientId,
+        secret: clientSecret,
+        gitlabUrl,
+      });
+
+      // Exchange code for tokens
+      const tokens = await gitlabOAuth.getTokenFromCode(code, redirectUri, codeVerifier);
+
+      // Save tokens
+      await this.tokenStorage.load();
+      await this.tokenStorage.setGitLabOAuthTokens(
+        {
+          access_token: tokens.access_token,
+          refresh_token: tokens.refresh_token,
+          created_at: tokens.created_at,
+          expires_in: tokens.expires_in,
+          url: gitlabUrl,
+          clientId,
+        },
+        connection
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Step 2 Complete: Successfully authenticated with ${connectionLabel('gitlab', connection)} (${gitlabUrl})!
+
+Your access token has been saved and will be automatically refreshed when needed.
+You can now use fetch_gitlab_activity to retrieve your GitLab activity.
+
+Token info:
+- Access token saved: ${tokens.access_token.substring(0, 8)}...
+- Expires in: ${tokens.expires_in ? `${tokens.expires_in / 3600} hours` : 'N/A'}`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to complete GitLab authentication: ${error.message}
+
+Please make sure you provided the correct authorization code, redirect URI, and GitLab URL from start_gitlab_auth.
+
+If the error mentions "redirect_uri_mismatch", the OAuth app may need to be reconfigured.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async resolveGitHubClientId(args: any): Promise<string> {
+    const config = await this.loadConfig();
+    const clientId = args?.client_id || config.github?.clientId;
+    if (!clientId) {
+      throw new Error(
+        'No GitHub OAuth client ID available for the device flow.\n\n' +
+          'Either pass a personal access token: configure_github with token, or register a GitHub OAuth App ' +
+          'with "Enable Device Flow" ticked and pass its client_id (or set github.clientId in ~/.activity-collector-mcp-config.json).'
+      );
+    }
+    return clientId;
+  }
+
+  /** Reads the optional GitHub Enterprise Server arguments shared by both GitHub auth tools. */
+  private resolveGitHubServerArgs(args: any): { apiUrl?: string; caFile?: string } {
+    const rawUrl = typeof args?.api_url === 'string' && args.api_url.trim() !== '' ? args.api_url : undefined;
+    let apiUrl: string | undefined;
+    if (rawUrl) {
+      try {
+        apiUrl = normalizeGitHubApiUrl(rawUrl);
+      } catch {
+        throw new Error(`Invalid api_url "${rawUrl}". Expected a URL such as https://github.example.com`);
+      }
+      // github.com itself is stored in the plain form
+      if (apiUrl === DEFAULT_GITHUB_API_URL) apiUrl = undefined;
+    }
+    const caFile = typeof args?.ca_file === 'string' && args.ca_file.trim() !== '' ? args.ca_file.trim() : undefined;
+    return { apiUrl, caFile };
+  }
+
+  private async handleConfigureGitHub(args: any) {
+    const token = typeof args?.token === 'string' ? args.token.trim() : '';
+    const server = this.resolveGitHubServerArgs(args);
+    const host = githubWebUrl(server.apiUrl);
+    const connection = this.resolveConnectionArg(args);
+
+    if (token) {
+      // Validate before saving so a bad token is never persisted.
+      const github = this.githubClient(connection);
+      await github.initialize(token, server.apiUrl, server.caFile);
+
+      await this.tokenStorage.load();
+      await this.tokenStorage.setGitHubToken(token, server, connection);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ ${connectionLabel('github', connection)} configured with a personal access token for ${host} (authenticated as ${github.getUsername()}).
+
+You can now use fetch_github_activity to retrieve your GitHub activity.`,
+          },
+        ],
+      };
+    }
+
+    const clientId = await this.resolveGitHubClientId(args);
+    const deviceFlow = new GitHubDeviceFlow(
+      clientId,
+      host,
+      server.caFile ? await createFetchWithCa(server.caFile) : undefined
+    );
+    const deviceCode = await deviceFlow.requestDeviceCode(OAUTH_SCOPES.github.api);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Step 1 Complete: GitHub device code issued!
+
+1. Open ${deviceCode.verification_uri}
+2. Enter the code: ${deviceCode.user_code}
+
+Device Code: ${deviceCode.device_code}
+Interval: ${deviceCode.interval}
+Expires in: ${Math.round(deviceCode.expires_in / 60)} minutes
+
+Next step: Call complete_github_auth with this device code${server.apiUrl || server.caFile || connection !== DEFAULT_CONNECTION ? ' and the same api_url/ca_file/connection' : ''}. It waits until the code is authorized.`,
+        },
+      ],
+    };
+  }
+
+  private async handleCompleteGitHubAuth(args: any) {
+    try {
+      const deviceCode = args?.device_code;
+      if (!deviceCode) {
+        throw new Error('Missing required parameter: device_code');
+      }
+
+      const clientId = await this.resolveGitHubClientId(args);
+      const interval = typeof args?.interval === 'number' ? args.interval : 5;
+
+      const server = this.resolveGitHubServerArgs(args);
+
+      const deviceFlow = new GitHubDeviceFlow(
+        clientId,
+        githubWebUrl(server.apiUrl),
+        server.caFile ? await createFetchWithCa(server.caFile) : undefined
+      );
+      const token = await deviceFlow.pollForToken(deviceCode, interval, 300000); // 5 minutes
+
+      const connection = this.resolveConnectionArg(args);
+      const github = this.githubClient(connection);
+      await github.initialize(token, server.apiUrl, server.caFile);
+
+      await this.tokenStorage.load();
+      await this.tokenStorage.setGitHubToken(token, server, connection);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Step 2 Complete: Successfully authenticated with ${connectionLabel('github', connection)} as ${github.getUsername()}!
+
+You can now use fetch_github_activity to retrieve your GitHub activity.`,
+          },
+        ],
+      };
+    } catch (error: any) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Failed to complete GitHub authentication: ${error.message}
+
+Make sure you entered the code from configure_github on github.com before it expired.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  }
+
+  private async handleClearCache(args: any) {
+    await this.activityCache.load();
+    const scope = args?.scope || 'all';
+
+    let message = '';
+    switch (scope.toLowerCase()) {
+      case 'gitlab':
+        await this.activityCache.clearGitLab();
+        message = 'GitLab cache cleared successfully.';
+        break;
+      case 'github':
+        await this.activityCache.clearGitHub();
+        message = 'GitHub cache cleared successfully.';
+        break;
+      case 'bitbucket':
+        await this.activityCache.clearBitbucket();
+        message = 'Bitbucket cache cleared successfully.';
+        break;
+      case 'gitea':
+      case 'forgejo':
+        await this.activityCache.clearGitea();
+        message = 'Gitea cache cleared successfully.';
+        break;
+      case 'jira':
+        await this.activityCache.clearJira();
+        message = 'Jira cache cleared successfully.';
+        break;
+      case 'calendars':
+        await this.activityCache.clearCalendars();
+        message = 'Calendar caches cleared successfully.';
+        break;
+      case 'ics':
+      case 'ics_calendar':
+        await this.activityCache.clearIcsCalendar();
+        message = 'ICS calendar cache cleared successfully.';
+        break;
+      case 'azure_devops':
+      case 'azuredevops':
+      case 'ado':
+        await this.activityCache.clearAzureDevOps();
+        message = 'Azure DevOps cache cleared successfully.';
+        break;
+      case 'expired':
+        await this.activityCache.clearExpired();
+        message = 'Expired cache entries cleared successfully.';
+        break;
+      case 'all':
+      default:
+        await this.activityCache.clearAll();
+        message = 'All caches cleared successfully.';
+        break;
+    }
+
+    const info = this.activityCache.getCacheInfo();
+    message += `\n\nCache Status:\n- GitLab entries: ${info.gitlabEntries}\n- GitHub entries: ${info.githubEntries}\n- Bitbucket entries: ${info.bitbucketEntries}\n- Gitea entries: ${info.giteaEntries}\n- Jira entries: ${info.jiraEntries}\n- Google Calendar entries: ${info.googleCalendarEntries}\n- Outlook Calendar entries: ${info.outlookCalendarEntries}\n- ICS Calendar entries: ${info.icsCalendarEntries}\n- Azure DevOps entries: ${info.azureDevopsEntries}`;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: message,
+        },
+      ],
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Disconnect
+  // -------------------------------------------------------------------------
+
+  private async handleDisconnect(args: any) {
+    const provider = String(args?.provider ?? '').trim().toLowerCase();
+    const all = provider === 'all';
+    if (!all && !(DISCONNECT_PROVIDERS as readonly string[]).includes(provider)) {
+      throw new Error(`provider must be one of: ${[...DISCONNECT_PROVIDERS, 'all'].join(', ')}`);
+    }
+    const connection =
+      typeof args?.connection === 'string' && args.connection.trim() !== '' ? this.resolveConnectionArg(args) : undefined;
+    if (connection && !['gitlab', 'github', 'google'].includes(provider)) {
+      throw new Error('connection only applies to gitlab, github and google.');
+    }
+
+    await this.tokenStorage.load();
+    await this.activityCache.load();
+
+    const lines: string[] = [];
+    for (const source of all ? DISCONNECT_PROVIDERS : [provider as DisconnectProvider]) {
+      lines.push(...(await this.disconnectSource(source, connection)));
+    }
+    if (all) {
+      // Also forgets saved OAuth apps and calendar selections
+      await this.tokenStorage.clearAll();
+      await this.activityCache.clearAll();
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🔌 Disconnect results:\n${lines.join('\n')}`,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Revokes what the provider lets us revoke, then deletes the stored
+   * credentials and cached activity. Local data is deleted even when
+   * revocation fails; the line says where to finish the job by hand.
+   */
+  private async disconnectSource(source: DisconnectProvider, only?: string): Promise<string[]> {
+    const deleted = 'credentials and cached activity deleted';
+
+    if (source === 'gitlab' || source === 'github' || source === 'google') {
+      const stored = this.tokenStorage.listConnections(source);
+      if (only && !stored.includes(only)) {
+        throw new Error(`No ${CONNECTION_LABELS[source]} connection named "${only}". Configured: ${stored.join(', ') || 'none'}.`);
+      }
+      if (stored.length === 0) {
+        return [`- ${CONNECTION_LABELS[source]}: ℹ️ not connected`];
+      }
+
+      const lines: string[] = [];
+      for (const connection of only ? [only] : stored) {
+        const label = connectionLabel(source, connection);
+        let revocation: string;
+        if (source === 'gitlab') {
+          revocation = await this.revokeGitLab(connection);
+          await this.tokenStorage.removeConnection('gitlab', connection);
+          await this.activityCache.clearGitLab(connection);
+          this.gitlabClients.delete(connection);
+        } else if (source === 'github') {
+          // Revoking a GitHub token needs the OAuth app's secret, which a device-flow client does not have
+          const webUrl = githubWebUrl(this.tokenStorage.getGitHubConnection(connection)?.apiUrl);
+          revocation = `ℹ️ revoke the token at ${webUrl}/settings/tokens (or ${webUrl}/settings/applications after a device-flow sign-in)`;
+          await this.tokenStorage.removeConnection('github', connection);
+          await this.activityCache.clearGitHub(connection);
+          this.githubClients.delete(connection);
+        } else {
+          revocation = await this.revokeGoogle(connection);
+          await this.tokenStorage.removeConnection('google', connection);
+          await this.activityCache.clearGoogleCalendar(connection);
+          this.googleCalendarClients.delete(connection);
+        }
+        lines.push(`- ${label}: ${revocation}; ${deleted}`);
+      }
+      return lines;
+    }
+
+    switch (source) {
+      case 'outlook':
+        if (!this.tokenStorage.hasOutlookTokens()) return ['- Outlook Calendar: ℹ️ not connected'];
+        await this.tokenStorage.removeSource('outlook');
+        await this.activityCache.clearOutlookCalendar();
+        return [`- Outlook Calendar: ℹ️ Microsoft has no endpoint to revoke a single app's token; ${deleted}`];
+
+      case 'bitbucket': {
+        const settings = this.tokenStorage.getBitbucket();
+        if (!settings?.token) return ['- Bitbucket: ℹ️ not connected'];
+        await this.tokenStorage.removeSource('bitbucket');
+        await this.activityCache.clearBitbucket();
+        return [`- Bitbucket: ℹ️ revoke the app password or access token in ${settings.url || 'Bitbucket'} settings if no longer needed; ${deleted}`];
+      }
+
+      case 'gitea': {
+        const settings = this.tokenStorage.getGitea();
+        if (!settings?.token) return ['- Gitea / Forgejo: ℹ️ not connected'];
+        await this.tokenStorage.removeSource('gitea');
+        await this.activityCache.clearGitea();
+        return [`- Gitea / Forgejo: ℹ️ revoke the token at ${settings.url}/user/settings/applications; ${deleted}`];
+      }
+
+      case 'jira': {
+        const settings = this.tokenStorage.getJira();
+        if (!settings?.token) return ['- Jira: ℹ️ not connected'];
+        await this.tokenStorage.removeSource('jira');
+        await this.activityCache.clearJira();
+        return [
+          `- Jira: ℹ️ revoke the token ${settings.email ? 'at https://id.atlassian.com/manage-profile/security/api-tokens' : `under Profile → Personal Access Tokens at ${settings.url}`}; ${deleted}`,
+        ];
+      }
+
+      case 'azure_devops':
+        if (!this.tokenStorage.hasAzureDevOps()) return ['- Azure DevOps: ℹ️ not connected'];
+        await this.tokenStorage.removeSource('azureDevops');
+        await this.activityCache.clearAzureDevOps();
+        return [`- Azure DevOps: ℹ️ sign-in belongs to the Azure CLI, run \`az logout\` to end it; settings and cached activity deleted`];
+
+      case 'ics_calendar':
+        if (!this.tokenStorage.hasIcsCalendar()) return ['- ICS Calendar: ℹ️ not connected'];
+        await this.tokenStorage.removeSource('icsCalendar');
+        await this.activityCache.clearIcsCalendar();
+        return [`- ICS Calendar: ${deleted}`];
+    }
+  }
+
+  /** Revokes an OAuth connection's grant; personal access tokens are left to the user. */
+  private async revokeGitLab(connection: string): Promise<string> {
+    const credential = this.tokenStorage.getGitLabOAuthTokens(connection);
+    const config = await this.loadConfig();
+    const url = this.tokenStorage.getGitLabUrl(connection) || config.gitlab?.url || 'https://gitlab.com';
+    if (!credential || typeof credential === 'string') {
+      return `ℹ️ revoke the personal access token at ${url}/-/user_settings/personal_access_tokens if no longer needed`;
+    }
+
+    const issuer = await this.gitlabIssuer(connection, url);
+    if (!issuer) {
+      return `⚠️ the app that issued the token is no longer configured, remove it under ${url}/-/user_settings/applications`;
+    }
+    const { clientId, clientSecret } = issuer;
+    try {
+      await new GitLabOAuth({ applicationId: clientId, secret: clientSecret, gitlabUrl: url }).revokeToken(
+        credential.refresh_token || credential.access_token
+      );
+      return `✅ token revoked at ${url}`;
+    } catch (error: any) {
+      return `⚠️ could not revoke at ${url} (${error.message}), remove the app under ${url}/-/user_settings/applications`;
+    }
+  }
+
+  private async revokeGoogle(connection: string): Promise<string> {
+    const tokens = this.tokenStorage.getGoogleTokens(connection);
+    const token = tokens?.refresh_token || tokens?.access_token;
+    if (!token) {
+      return 'ℹ️ no token to revoke';
+    }
+    try {
+      await revokeGoogleToken(token);
+      return '✅ access revoked with Google';
+    } catch (error: any) {
+      return `⚠️ could not revoke with Google (${error.message}), remove access at https://myaccount.google.com/connections`;
+    }
+  }
+
+  // -------------------------------------------------------------------------
+  // Connections
+  // -------------------------------------------------------------------------
+
+  /** Reads the optional connection name accepted by the auth tools. */
+  private resolveConnectionArg(args: any): string {
+    const name = typeof args?.connection === 'string' ? args.connection.trim() : '';
+    if (!name) return DEFAULT_CONNECTION;
+    if (!isValidConnectionName(name)) {
+      throw new Error(`Invalid connection name "${name}". Use letters, digits, "-" or "_" (at most 40 characters).`);
+    }
+    return name;
+  }
+
+  /**
+   * Initializes every stored connection for a provider, or only the one named
+   * by the tool's connection argument. When aggregating, a connection that
+   * fails to initialize is reported and skipped so the others still load.
+   * Without `skipFailures` a provider none of whose connections load is an
+   * error; the timesheet sets it to carry on without that provider, as it
+   * does for Bitbucket, Gitea and Jira. A named connection always throws.
+   */
+  private async initConnections(
+    provider: ConnectionProvider,
+    args: any,
+    init: (connection: string) => Promise<void>,
+    skipFailures: boolean = false
+  ): Promise<string[]> {
+    const stored = this.tokenStorage.listConnections(provider);
+    const only = typeof args?.connection === 'string' && args.connection.trim() !== '' ? args.connection.trim() : undefined;
+    if (only && !stored.includes(only)) {
+      throw new Error(
+        `No ${CONNECTION_LABELS[provider]} connection named "${only}". Configured: ${stored.join(', ') || 'none'}.`
+      );
+    }
+
+    const ready: string[] = [];
+    let firstError: unknown;
+    for (const connection of only ? [only] : stored) {
+      try {
+        await init(connection);
+        ready.push(connection);
+      } catch (error: any) {
+        if (only) throw error;
+        firstError ??= error;
+        await this.sendProgress(`⚠️ ${connectionLabel(provider, connection)} skipped: ${error.message}`, 'warning');
+      }
+    }
+
+    if (ready.length === 0 && firstError && !skipFailures) throw firstError;
+    return ready;
+  }
+
+  private async initGitLabConnections(args?: any, skipFailures: boolean = false): Promise<string[]> {
+    const config = await this.loadConfig();
+    return this.initConnections('gitlab', args, async connection => {
+      const url = this.tokenStorage.getGitLabUrl(connection) || config.gitlab?.url || 'https://gitlab.com';
+      const credential = this.tokenStorage.getGitLabOAuthTokens(connection);
+      const oauth = credential && typeof credential === 'object' && credential.refresh_token;
+      const client = oauth ? await this.gitlabIssuer(connection, url) : undefined;
+      if (oauth && !client) {
+        throw new Error(
+          `The OAuth app that signed in this connection is no longer configured for ${url}. Run start_gitlab_auth again to reconnect.`
+        );
+      }
+      // OAuth connections renew their access token; personal access tokens are stored as strings
+      const session: GitLabOAuthSession | undefined =
+        client && typeof credential === 'object'
+          ? {
+              refresh_token: credential.refresh_token,
+              created_at: credential.created_at,
+              expires_in: credential.expires_in,
+              oauth: new GitLabOAuth({
+                applicationId: client.clientId,
+                secret: client.clientSecret,
+                gitlabUrl: url,
+              }),
+              // No reload first: connections refreshing in parallel would read each
+              // other's stale file and drop a rotated, single-use refresh token
+              onTokenRefresh: async tokens => {
+                await this.tokenStorage.setGitLabOAuthTokens(
+                  {
+                    access_token: tokens.access_token,
+                    refresh_token: tokens.refresh_token,
+                    created_at: tokens.created_at,
+                    expires_in: tokens.expires_in,
+                    url: credential.url,
+                    clientId: credential.clientId,
+                  },
+                  connection
+                );
+              },
+            }
+          : undefined;
+      await this.gitlabClient(connection).initialize(this.tokenStorage.getGitLabToken(connection)!, url, session);
+    }, skipFailures);
+  }
+
+  private async initGitHubConnections(args?: any, skipFailures: boolean = false): Promise<string[]> {
+    return this.initConnections('github', args, async connection => {
+      const github = this.tokenStorage.getGitHubConnection(connection)!;
+      await this.githubClient(connection).initialize(github.token, github.apiUrl, github.caFile);
+    }, skipFailures);
+  }
+
+  private async initGoogleConnections(args?: any, skipFailures: boolean = false): Promise<string[]> {
+    const client = await this.oauthClient('google');
+    return this.initConnections('google', args, async connection => {
+      await this.googleCalendarClient(connection).initialize(
+        client.clientId,
+        client.clientSecret,
+        'http://localhost:8080/callback', // redirectUri not used for token refresh
+        this.tokenStorage.getGoogleTokens(connection),
+        async (refreshedTokens) => {
+          await this.tokenStorage.setGoogleTokens(refreshedTokens, connection);
+        }
+      );
+    }, skipFailures);
+  }
+
+  // Raw API responses, keyed by connection once there is more than one
+  private gitlabDebugInfo(connections: string[]): any {
+    if (connections.length === 1) return this.gitlabClient(connections[0]).debugInfo;
+    const entries = connections
+      .map(connection => [connection, this.gitlabClient(connection).debugInfo])
+      .filter(([, info]) => info);
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+  }
+
+  // Fast granular fetch methods for building custom timesheets
+  private async handleFetchGitLabActivity(args: any) {
+    await this.tokenStorage.load();
+    await this.activityCache.load();
+
+    if (!this.tokenStorage.hasGitLabToken()) {
+      throw new Error('GitLab not configured. Please use configure_gitlab tool first.');
+    }
+
+    // Check if date range is provided
+    if (args.start_date && args.end_date) {
+      // Handle date range
+      return this.handleFetchGitLabActivityRange(args);
+    } else if (args.date) {
+      // Handle single date
+      return this.handleFetchGitLabActivitySingle(args);
+    } else {
+      throw new Error('Either date OR start_date+end_date must be provided');
+    }
+  }
+
+  private async handleFetchGitLabActivitySingle(args: any) {
+    // Validate date format
+    const dateStr = args.date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+    }
+
+    // Parse date to check if it's in the future
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const today = todayDate();
+    if (date > today) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⚠️ Cannot fetch GitLab activity for future date ${dateStr}\n\n**Commits (0):**\n  (none - future date)\n\n**Merge Requests (0):**\n  (none - future date)\n\n**Issues (0):**\n  (none - future date)\n\nℹ️ Git activity can only be fetched for past and present dates.`,
+          },
+        ],
+      };
+    }
+
+    const connections = await this.initGitLabConnections(args);
+
+    const forceRefresh = args?.force_refresh ?? false;
+    const { activity, fromCache } = await this.fetchGitLabActivityForConnections(dateStr, forceRefresh, connections);
+    const cacheIndicator = fromCache ? '📋 (from cache)' : '🔄 (fresh)';
+
+    // Get debug info from GitLab integration
+    const debugInfo = this.gitlabDebugInfo(connections);
+
+    // Format commits
+    const commitsText = activity.commits.length > 0
+      ? activity.commits.map((c: any) => `  - ${c.message} (${c.project}${commitDetails(c)})${accountSuffix(c)}`).join('\n')
+      : '  (none)';
+
+    // Format MRs
+    const mrsText = activity.mergeRequests.length > 0
+      ? activity.mergeRequests.map((mr: any) => `  - ${mr.action}: ${mr.title} (#${mr.id}) in ${mr.project}${accountSuffix(mr)}`).join('\n')
+      : '  (none)';
+
+    // Format issues
+    const issuesText = activity.issues.length > 0
+      ? activity.issues.map((issue: any) => `  - ${issue.action}: ${issue.title} (#${issue.id}) in ${issue.project}${accountSuffix(issue)}`).join('\n')
+      : '  (none)';
+
+    // Format debug info
+    const debugText = debugInfo ? `
+
+🔍 **DEBUG INFO:**
+\`\`\`json
+${JSON.stringify(debugInfo, null, 2)}
+\`\`\`` : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ GitLab activity fetched for ${dateStr} ${cacheIndicator}${describeConnections(connections)}
+
+**Commits (${activity.commits.length}):**
+${commitsText}
+
+**Merge Requests (${activity.mergeRequests.length}):**
+${mrsText}
+
+**Issues (${activity.issues.length}):**
+${issuesText}${debugText}`,
+        },
+      ],
+    };
+  }
+
+  private async handleFetchGitLabActivityRange(args: any) {
+    // Validate date formats
+    const startDateStr = args.start_date;
+    const endDateStr = args.end_date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDateStr) || !/^\d{4}-\d{2}-\d{2}$/.test(endDateStr)) {
+      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+    }
+
+    // Parse dates
+    const [startYear, startMonth, startDay] = startDateStr.split('-').map(Number);
+    const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
+    const startDate = new Date(startYear, startMonth - 1, startDay);
+    const endDate = new Date(endYear, endMonth - 1, endDay);
+
+    // Validate range
+    if (startDate > endDate) {
+      throw new Error('start_date must be before or equal to end_date');
+    }
+
+    const connections = await this.initGitLabConnections(args);
+
+    const forceRefresh = args?.force_refresh ?? false;
+    const today = todayDate();
+
+    // One Events API sweep covers every past day in the range
+    const pastDates: string[] = [];
+    for (const d = new Date(startDate); d <= endDate && d <= today; d.setDate(d.getDate() + 1)) {
+      pastDates.push(formatDate(d));
+    }
+    const fetched = pastDates.length > 0
+      ? await this.fetchGitLabRangeForConnections(pastDates, forceRefresh, connections)
+      : new Map<string, { activity: any; fromCache: boolean }>();
+
+    // Loop through all dates in range and collect activity
+    const allActivities: { [date: string]: any } = {};
+    let totalCommits = 0;
+    let totalMRs = 0;
+    let totalIssues = 0;
+    let cacheHits = 0;
+    let freshFetches = 0;
+
+    const currentDate = new Date(startDate);
+    while (currentDate <= endDate) {
+      const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
+
+      // Skip future dates
+      if (currentDate > today) {
+        allActivities[dateStr] = {
+          date: new Date(currentDate),
+          commits: [],
+          mergeRequests: [],
+          issues: [],
+          isFuture: true,
+        };
+      } else {
+        const { activity, fromCache } = fetched.get(dateStr)!;
+        allActivities[dateStr] = activity;
+        totalCommits += activity.commits.length;
+        totalMRs += activity.mergeRequests.length;
+        totalIssues += activity.issues.length;
+        if (fromCache) cacheHits++;
+        else freshFetches++;
+      }
+
+      // Move to next day
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    // Format output grouped by date
+    const dateEntries = Object.entries(allActivities)
+      .map(([dateStr, activity]) => {
+        if (activity.isFuture) {
+          return `📅 **${dateStr}** (future date)\n  - No activity (future date)`;
+        }
+
+        if (activity.commits.length === 0 && activity.mergeRequests.length === 0 && activity.issues.length === 0) {
+          return `📅 **${dateStr}**\n  - No activity`;
+        }
+
+        let details = `📅 **${dateStr}**\n\n`;
+
+        // Format commits with details
+        if (activity.commits.length > 0) {
+          details += `**Commits (${activity.commits.length}):**\n`;
+          details += activity.commits.map((c: any) => `  - ${c.message} (${c.project}${commitDetails(c)})${accountSuffix(c)}`).join('\n');
+          details += '\n\n';
+        }
+
+        // Format MRs with details
+        if (activity.mergeRequests.length > 0) {
+          details += `**Merge Requests (${activity.mergeRequests.length}):**\n`;
+          details += activity.mergeRequests.map((mr: any) => `  - ${mr.action}: ${mr.title} (#${mr.id}) in ${mr.project}${accountSuffix(mr)}`).join('\n');
+          details += '\n\n';
+        }
+
+        // Format issues with details
+        if (activity.issues.length > 0) {
+          details += `**Issues (${activity.issues.length}):**\n`;
+          details += activity.issues.map((issue: any) => `  - ${issue.action}: ${issue.title} (#${issue.id}) in ${issue.project}${accountSuffix(issue)}`).join('\n');
+        }
+
+        return details.trim();
+      })
+      .join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
+
+    const cacheInfo = cacheHits > 0 || freshFetches > 0
+      ? `📋 Cache: ${cacheHits} hit${cacheHits !== 1 ? 's' : ''}, ${freshFetches} fresh fetch${freshFetches !== 1 ? 'es' : ''}`
+      : '';
+
+    // Get debug info from GitLab integration
+    const debugInfo = this.gitlabDebugInfo(connections);
+    const debugText = debugInfo ? `
+
+🔍 **DEBUG INFO:**
+\`\`\`json
+${JSON.stringify(debugInfo, null, 2)}
+\`\`\`
 
-    // Outlook needs no credential at all, so the only question is whether this
-    // platform has a local bridge available.
-    if (OutlookLocalIntegration.isSupported()) {
-      lines.push('- Outlook Calendar: ✓ Available (reads local Outlook desktop, no setup required)');
-      if (process.platform === 'win32') {
-        lines.push(
-          '    Requires classic Outlook. The "new Outlook" app cannot be automated — if fetches fail,'
-        );
-        lines.push('    turn off the "New Outlook" toggle in Outlook and reopen it.');
-      }
+📊 **RAW ACTIVITY DATA:**
+\`\`\`json
+${JSON.stringify(allActivities, null, 2)}
+\`\`\`` : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ GitLab activity fetched for ${startDateStr} to ${endDateStr}${describeConnections(connections)}
+
+**Summary:**
+- Total Commits: ${totalCommits}
+- Total Merge Requests: ${totalMRs}
+- Total Issues: ${totalIssues}
+${cacheInfo}
+
+**Activity by Date:**
+${dateEntries}${debugText}`,
+        },
+      ],
+    };
+  }
+
+  private async handleFetchGitHubActivity(args: any) {
+    await this.tokenStorage.load();
+    await this.activityCache.load();
+
+    if (!this.tokenStorage.hasGitHubToken()) {
+      throw new Error('GitHub not configured. Please use configure_github tool first.');
+    }
+
+    // Check if date range is provided
+    if (args.start_date && args.end_date) {
+      // Handle date range
+      return this.handleFetchGitHubActivityRange(args);
+    } else if (args.date) {
+      // Handle single date
+      return this.handleFetchGitHubActivitySingle(args);
     } else {
-      lines.push(`- Outlook Calendar: ✗ Unsupported platform (${process.platform})`);
-      lines.push('    ' + OutlookLocalIntegration.unsupportedMessage().split('\n').join('\n    '));
+      throw new Error('Either date OR start_date+end_date must be provided');
     }
+  }
 
-    const ado = this.tokenStorage.getAzureDevOps();
-    if (ado?.organization) {
-      const scope = ado.projects?.length
-        ? `projects: ${ado.projects.join(', ')}`
-        : 'all visible projects (slower — narrow with configure_azure_devops)';
-      lines.push(`- Azure DevOps: ✓ Configured (org: ${ado.organization}, ${scope})`);
-      if (ado.tenant) lines.push(`    tenant: ${ado.tenant}`);
+  private async handleFetchGitHubActivitySingle(args: any) {
+    // Validate date format
+    const dateStr = args.date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+    }
+
+    // Parse date to check if it's in the future
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const today = todayDate();
+    if (date > today) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⚠️ Cannot fetch GitHub activity for future date ${dateStr}\n\n**Commits (0):**\n  (none - future date)\n\n**Pull Requests (0):**\n  (none - future date)\n\n**Issues (0):**\n  (none - future date)\n\nℹ️ Git activity can only be fetched for past and present dates.`,
+          },
+        ],
+      };
+    }
+
+    const connections = await this.initGitHubConnections(args);
+
+    const forceRefresh = args?.force_refresh ?? false;
+    const { activity, fromCache } = await this.fetchGitHubActivityForConnections(dateStr, forceRefresh, connections);
+    const cacheIndicator = fromCache ? '📋 (from cache)' : '🔄 (fresh)';
+
+    // Format commits
+    const commitsText = activity.commits.length > 0
+      ? activity.commits.map((c: any) => `  - ${c.message} (${c.project}${commitDetails(c)})${accountSuffix(c)}`).join('\n')
+      : '  (none)';
+
+    // Format PRs
+    const prsText = activity.mergeRequests.length > 0
+      ? activity.mergeRequests.map((pr: any) => `  - ${pr.action}: ${pr.title} (#${pr.id}) in ${pr.project}${accountSuffix(pr)}`).join('\n')
+      : '  (none)';
+
+    // Format issues
+    const issuesText = activity.issues.length > 0
+      ? activity.issues.map((issue: any) => `  - ${issue.action}: ${issue.title} (#${issue.id}) in ${issue.project}${accountSuffix(issue)}`).join('\n')
+      : '  (none)';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ GitHub activity fetched for ${dateStr} ${cacheIndicator}${describeConnections(connections)}
+
+**Commits (${activity.commits.length}):**
+${commitsText}
+
+**Pull Requests (${activity.mergeRequests.length}):**
+${prsText}
+
+**Issues (${activity.issues.length}):**
+${issuesText}`,
+        },
+      ],
+    };
+  }
+
+  private async handleFetchGitHubActivityRange(args: any) {
+    // Validate date formats
+    const startDateStr = args.start_date;
+    const endDateStr = args.end_date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDateStr) || !/^\d{4}-\d{2}-\d{2}$/.test(endDateStr)) {
+      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+    }
+
+    // Parse dates
+    const [startYear, startMonth, startDay] = startDateStr.split('-').map(Number);
+    const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
+    const startDate = new Date(startYear, startMonth - 1, startDay);
+    const endDate = new Date(endYear, endMonth - 1, endDay);
+
+    // Validate range
+    if (startDate > endDate) {
+      throw new Error('start_date must be before or equal to end_date');
+    }
+
+    const connections = await this.initGitHubConnections(args);
+
+    const forceRefresh = args?.force_refresh ?? false;
+    const today = todayDate();
+
+    // Loop through all dates in range and fetch activity
+    const allActivities: { [date: string]: any } = {};
+    let totalCommits = 0;
+    let totalPRs = 0;
+    let totalIssues = 0;
+    let cacheHits = 0;
+    let freshFetches = 0;
+
+    const currentDate = new Date(startDate);
+    while (currentDate <= endDate) {
+      const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
+
+      // Skip future dates
+      if (currentDate > today) {
+        allActivities[dateStr] = {
+          date: new Date(currentDate),
+          commits: [],
+          mergeRequests: [],
+          issues: [],
+          isFuture: true,
+        };
+      } else {
+        const { activity, fromCache } = await this.fetchGitHubActivityForConnections(dateStr, forceRefresh, connections);
+        allActivities[dateStr] = activity;
+        totalCommits += activity.commits.length;
+        totalPRs += activity.mergeRequests.length;
+        totalIssues += activity.issues.length;
+        if (fromCache) cacheHits++;
+        else freshFetches++;
+      }
+
+      // Move to next day
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    // Format output grouped by date
+    const dateEntries = Object.entries(allActivities)
+      .map(([dateStr, activity]) => {
+        if (activity.isFuture) {
+          return `📅 **${dateStr}** (future date)\n  - No activity (future date)`;
+        }
+
+        if (activity.commits.length === 0 && activity.mergeRequests.length === 0 && activity.issues.length === 0) {
+          return `📅 **${dateStr}**\n  - No activity`;
+        }
+
+        let details = `📅 **${dateStr}**\n\n`;
+
+        // Format commits with details
+        if (activity.commits.length > 0) {
+          details += `**Commits (${activity.commits.length}):**\n`;
+          details += activity.commits.map((c: any) => `  - ${c.message} (${c.project}${commitDetails(c)})${accountSuffix(c)}`).join('\n');
+          details += '\n\n';
+        }
+
+        // Format PRs with details
+        if (activity.mergeRequests.length > 0) {
+          details += `**Pull Requests (${activity.mergeRequests.length}):**\n`;
+          details += activity.mergeRequests.map((pr: any) => `  - ${pr.action}: ${pr.title} (#${pr.id}) in ${pr.project}${accountSuffix(pr)}`).join('\n');
+          details += '\n\n';
+        }
+
+        // Format issues with details
+        if (activity.issues.length > 0) {
+          details += `**Issues (${activity.issues.length}):**\n`;
+          details += activity.issues.map((issue: any) => `  - ${issue.action}: ${issue.title} (#${issue.id}) in ${issue.project}${accountSuffix(issue)}`).join('\n');
+        }
+
+        return details.trim();
+      })
+      .join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
+
+    const cacheInfo = cacheHits > 0 || freshFetches > 0
+      ? `📋 Cache: ${cacheHits} hit${cacheHits !== 1 ? 's' : ''}, ${freshFetches} fresh fetch${freshFetches !== 1 ? 'es' : ''}`
+      : '';
+
+    // Add debug info
+    const debugText = `
+
+📊 **RAW ACTIVITY DATA:**
+\`\`\`json
+${JSON.stringify(allActivities, null, 2)}
+\`\`\``;
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ GitHub activity fetched for ${startDateStr} to ${endDateStr}${describeConnections(connections)}
+
+**Summary:**
+- Total Commits: ${totalCommits}
+- Total Pull Requests: ${totalPRs}
+- Total Issues: ${totalIssues}
+${cacheInfo}
+
+**Activity by Date:**
+${dateEntries}${debugText}`,
+        },
+      ],
+    };
+  }
+
+  private async handleFetchGoogleCalendarEvents(args: any) {
+    await this.tokenStorage.load();
+    await this.activityCache.load();
+
+    if (!this.tokenStorage.hasGoogleTokens()) {
+      throw new Error('Google Calendar not configured. Please use authenticate_google tool first.');
+    }
+
+    // Check if date range is provided
+    if (args.start_date && args.end_date) {
+      // Handle date range
+      return this.handleFetchGoogleCalendarEventsRange(args);
+    } else if (args.date) {
+      // Handle single date
+      return this.handleFetchGoogleCalendarEventsSingle(args);
     } else {
-      lines.push('- Azure DevOps: ✗ Not configured');
-      lines.push('    ' + azSetupInstructions().split('\n').join('\n    '));
-      lines.push('    Then run configure_azure_devops with your organization name.');
+      throw new Error('Either date OR start_date+end_date must be provided');
+    }
+  }
+
+  private async handleFetchGoogleCalendarEventsSingle(args: any) {
+    // Validate date format
+    const dateStr = args.date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
     }
 
-    // Jira is deliberately not implemented here: it is served by the Atlassian
-    // MCP, which this server cannot call. An MCP server has no visibility into
-    // which other servers the client has loaded, so this notice is
-    // unconditional rather than a detected state.
-    lines.push('- Jira: ⓘ Provided by the Atlassian MCP, not by this server.');
-    lines.push('    If Jira tools are unavailable, install the Atlassian MCP:');
-    lines.push('      claude mcp add --transport sse atlassian https://mcp.atlassian.com/v1/sse');
-    lines.push('    then authorise in the browser when prompted.');
+    const connections = await this.initGoogleConnections(args);
+
+    const forceRefresh = args?.force_refresh ?? false;
+    const exclude = parseCalendarExclusions(args?.exclude);
+    const { meetings, fromCache } = await this.fetchCalendarEventsWithCache(dateStr, connections, false, false, forceRefresh, exclude);
+    const cacheIndicator = fromCache ? '📋 (from cache)' : '🔄 (fresh)';
+
+    // Format calendar events
+    const eventsText = meetings.length > 0
+      ? meetings.map((m: any) => `  - ${m.title || m.summary || 'Unnamed meeting'}${calendarSuffix(m, meetings)}${describeEventStatus(m)}${accountSuffix(m)}`).join('\n')
+      : '  (none)';
 
     return {
       content: [
         {
           type: 'text',
-          text: lines.join('\n'),
+          text: `✅ Google Calendar events fetched for ${dateStr} ${cacheIndicator}${describeConnections(connections)}
+
+**Calendar Events (${meetings.length}):**
+${eventsText}`,
         },
       ],
     };
   }
 
-  private async handleStartGoogleAuth() {
-    try {
-      // Load config to check for custom OAuth credentials
-      let clientId = BUNDLED_OAUTH_CREDENTIALS.google.clientId;
-      let clientSecret = BUNDLED_OAUTH_CREDENTIALS.google.clientSecret;
-
-      try {
-        const config = await this.loadConfig();
-        if (config.google?.clientId && config.google?.clientSecret) {
-          clientId = config.google.clientId;
-          clientSecret = config.google.clientSecret;
-        }
-      } catch (error) {
-        // Config file not found, use bundled credentials
-      }
-
-      // Run OAuth flow - only capture authorization code
-      const result = await runOAuthFlow((redirectUri) => {
-        // Create OAuth2 client to generate auth URL
-        const tempOAuth2Client = new OAuth2Client(
-          clientId,
-          clientSecret,
-          redirectUri
-        );
+  private async handleFetchGoogleCalendarEventsRange(args: any) {
+    // Validate date formats
+    const startDateStr = args.start_date;
+    const endDateStr = args.end_date;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDateStr) || !/^\d{4}-\d{2}-\d{2}$/.test(endDateStr)) {
+      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+    }
 
-        return tempOAuth2Client.generateAuthUrl({
-          access_type: 'offline',
-          scope: OAUTH_SCOPES.google.calendar,
-          prompt: 'consent',
-        });
-      });
+    // Parse dates
+    const [startYear, startMonth, startDay] = startDateStr.split('-').map(Number);
+    const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
+    const startDate = new Date(startYear, startMonth - 1, startDay);
+    const endDate = new Date(endYear, endMonth - 1, endDay);
 
-      if (result.error) {
-        throw new Error(`OAuth failed: ${result.error}`);
-      }
+    // Validate range
+    if (startDate > endDate) {
+      throw new Error('start_date must be before or equal to end_date');
+    }
 
-      if (!result.code) {
-        throw new Error('No authorization code received');
-      }
+    const connections = await this.initGoogleConnections(args);
 
-      const redirectUri = `http://localhost:${result.port}/callback`;
+    const forceRefresh = args?.force_refresh ?? false;
+    const exclude = parseCalendarExclusions(args?.exclude);
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `✅ Step 1 Complete: Authorization code received!
+    // Loop through all dates in range and fetch events
+    const allEvents: { [date: string]: any[] } = {};
+    let totalEvents = 0;
+    let cacheHits = 0;
+    let freshFetches = 0;
 
-Authorization Code: ${result.code}
-Redirect URI: ${redirectUri}
+    const currentDate = new Date(startDate);
+    while (currentDate <= endDate) {
+      const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
 
-Next step: Call complete_google_auth with these values to finish authentication.`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Google Calendar authorization failed: ${error.message}
+      const { meetings, fromCache } = await this.fetchCalendarEventsWithCache(dateStr, connections, false, false, forceRefresh, exclude);
+      allEvents[dateStr] = meetings;
+      totalEvents += meetings.length;
+      if (fromCache) cacheHits++;
+      else freshFetches++;
 
-Please try again. If the problem persists, check that:
-1. Your browser allows opening localhost URLs
-2. Ports 8080-8090 are not all blocked by firewall
-3. You authorized the application in the browser`,
-          },
-        ],
-        isError: true,
-      };
+      // Move to next day
+      currentDate.setDate(currentDate.getDate() + 1);
     }
-  }
-
-  private async handleCompleteGoogleAuth(args: any) {
-    try {
-      const code = args?.code;
-      const redirectUri = args?.redirect_uri;
-
-      if (!code) {
-        throw new Error('Missing required parameter: code');
-      }
-      if (!redirectUri) {
-        throw new Error('Missing required parameter: redirect_uri');
-      }
 
-      // Load config to check for custom OAuth credentials
-      let clientId = BUNDLED_OAUTH_CREDENTIALS.google.clientId;
-      let clientSecret = BUNDLED_OAUTH_CREDENTIALS.google.clientSecret;
-
-      try {
-        const config = await this.loadConfig();
-        if (config.google?.clientId && config.google?.clientSecret) {
-          clientId = config.google.clientId;
-          clientSecret = config.google.clientSecret;
+    // Format output grouped by date
+    const dateEntries = Object.entries(allEvents)
+      .map(([dateStr, meetings]) => {
+        if (meetings.length === 0) {
+          return `📅 **${dateStr}**\n  - No events`;
         }
-      } catch (error) {
-        // Config file not found, use bundled credentials
-      }
 
-      // Exchange code for tokens
-      await this.googleCalendar.initialize(clientId, clientSecret, redirectUri);
-      const tokens = await this.googleCalendar.setAuthorizationCode(code);
+        let details = `📅 **${dateStr}**\n\n**Calendar Events (${meetings.length}):**\n`;
+        details += meetings.map((m: any) => `  - ${m.title || m.summary || 'Unnamed meeting'}${calendarSuffix(m, meetings)}${describeEventStatus(m)}${accountSuffix(m)}`).join('\n');
+        return details;
+      })
+      .join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
 
-      // Save tokens
-      await this.tokenStorage.load();
-      await this.tokenStorage.setGoogleTokens(tokens);
+    const cacheInfo = cacheHits > 0 || freshFetches > 0
+      ? `📋 Cache: ${cacheHits} hit${cacheHits !== 1 ? 's' : ''}, ${freshFetches} fresh fetch${freshFetches !== 1 ? 'es' : ''}`
+      : '';
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `✅ Step 2 Complete: Successfully authenticated with Google Calendar!
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Google Calendar events fetched for ${startDateStr} to ${endDateStr}${describeConnections(connections)}
 
-Your access token has been saved and will be automatically refreshed when needed.
-You can now use fetch_google_calendar_events to retrieve calendar data.`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to complete Google Calendar authentication: ${error.message}
+**Summary:**
+- Total Events: ${totalEvents}
+${cacheInfo}
 
-Please make sure you provided the correct authorization code and redirect URI from start_google_auth.`,
-          },
-        ],
-        isError: true,
-      };
-    }
+**Events by Date:**
+${dateEntries}`,
+        },
+      ],
+    };
   }
 
-  private async handleStartGitLabAuth(args: any) {
-    try {
-      const gitlabUrl = args?.gitlab_url || 'https://gitlab.com';
-
-      // Get OAuth credentials
-      const applicationId = BUNDLED_OAUTH_CREDENTIALS.gitlab.applicationId;
-      const secret = BUNDLED_OAUTH_CREDENTIALS.gitlab.secret;
-
-      // Create GitLab OAuth helper
-      const gitlabOAuth = new GitLabOAuth({
-        applicationId,
-        secret,
-        gitlabUrl,
-      });
-
-      // Run OAuth flow - only capture authorization code
-      const result = await runOAuthFlow((redirectUri) => {
-        return gitlabOAuth.getAuthUrl(redirectUri, OAUTH_SCOPES.gitlab.api);
-      });
-
-      if (result.error) {
-        throw new Error(`OAuth failed: ${result.error}`);
-      }
-
-      if (!result.code) {
-        throw new Error('No authorization code received');
-      }
-
-      const redirectUri = `http://localhost:${result.port}/callback`;
-
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `✅ Step 1 Complete: Authorization code received!
-
-Authorization Code: ${result.code}
-Redirect URI: ${redirectUri}
-GitLab URL: ${gitlabUrl}
-
-Next step: Call complete_gitlab_auth with these values to finish authentication.`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ GitLab authorization failed: ${error.message}
+  private async handleListGoogleCalendars(args: any) {
+    await this.tokenStorage.load();
 
-Troubleshooting:
-1. Make sure you clicked "Authorize" in the browser
-2. Check that ports 8080-8090 are not blocked by firewall
-3. Verify the GitLab URL is correct: ${args?.gitlab_url || 'https://gitlab.com'}`,
-          },
-        ],
-        isError: true,
-      };
+    if (!this.tokenStorage.hasGoogleTokens()) {
+      throw new Error('Google Calendar not configured. Please use start_google_auth first.');
     }
-  }
-
-  private async handleCompleteGitLabAuth(args: any) {
-    try {
-      const code = args?.code;
-      const redirectUri = args?.redirect_uri;
-      const gitlabUrl = args?.gitlab_url || 'https://gitlab.com';
-
-      if (!code) {
-        throw new Error('Missing required parameter: code');
-      }
-      if (!redirectUri) {
-        throw new Error('Missing required parameter: redirect_uri');
-      }
-
-      // Get OAuth credentials
-      const applicationId = BUNDLED_OAUTH_CREDENTIALS.gitlab.applicationId;
-      const secret = BUNDLED_OAUTH_CREDENTIALS.gitlab.secret;
 
-      // Create GitLab OAuth helper
-      const gitlabOAuth = new GitLabOAuth({
-        applicationId,
-        secret,
-        gitlabUrl,
-      });
-
-      // Exchange code for tokens
-      const tokens = await gitlabOAuth.getTokenFromCode(code, redirectUri);
-
-      // Save tokens
-      await this.tokenStorage.load();
-      await this.tokenStorage.setGitLabOAuthTokens({
-        access_token: tokens.access_token,
-        refresh_token: tokens.refresh_token,
-        created_at: tokens.created_at,
-        expires_in: tokens.expires_in,
-      });
+    const connections = await this.initGoogleConnections(args);
+    const sections: string[] = [];
 
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `✅ Step 2 Complete: Successfully authenticated with GitLab (${gitlabUrl})!
+    for (const connection of connections) {
+      const calendars = await this.googleCalendarClient(connection).listCalendars();
+      const selected = this.tokenStorage.getGoogleCalendars(connection);
+      const isSelected = (c: GoogleCalendarInfo) =>
+        selected.includes(c.id) || (c.primary && selected.includes('primary'));
 
-Your access token has been saved and will be automatically refreshed when needed.
-You can now use fetch_gitlab_activity to retrieve your GitLab activity.
+      const lines = calendars.map(
+        c => `  - [${isSelected(c) ? 'x' : ' '}] ${c.name}${c.primary ? ' (primary)' : ''} — id: ${c.id}, access: ${c.accessRole}`
+      );
+      sections.push(`**${connectionLabel('google', connection)}** (${calendars.length} calendars):\n${lines.join('\n') || '  (none)'}`);
+    }
 
-Token info:
-- Access token saved: ${tokens.access_token.substring(0, 8)}...
-- Expires in: ${tokens.expires_in ? `${tokens.expires_in / 3600} hours` : 'N/A'}`,
-          },
-        ],
-      };
-    } catch (error: any) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to complete GitLab authentication: ${error.message}
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `📅 Google calendars ([x] = merged into fetches and timesheets)
 
-Please make sure you provided the correct authorization code, redirect URI, and GitLab URL from start_gitlab_auth.
+${sections.join('\n\n')}
 
-If the error mentions "redirect_uri_mismatch", the OAuth app may need to be reconfigured.`,
-          },
-        ],
-        isError: true,
-      };
-    }
+ℹ️ Use select_google_calendars with calendar IDs to change the selection.`,
+        },
+      ],
+    };
   }
 
-  private async handleClearCache(args: any) {
+  private async handleSelectGoogleCalendars(args: any) {
+    await this.tokenStorage.load();
     await this.activityCache.load();
-    const scope = args?.scope || 'all';
 
-    let message = '';
-    switch (scope.toLowerCase()) {
-      case 'gitlab':
-        await this.activityCache.clearGitLab();
-        message = 'GitLab cache cleared successfully.';
-        break;
-      case 'calendars':
-        await this.activityCache.clearCalendars();
-        message = 'Calendar caches cleared successfully.';
-        break;
-      case 'azure_devops':
-      case 'azuredevops':
-      case 'ado':
-        await this.activityCache.clearAzureDevOps();
-        message = 'Azure DevOps cache cleared successfully.';
-        break;
-      case 'expired':
-        await this.activityCache.clearExpired();
-        message = 'Expired cache entries cleared successfully.';
-        break;
-      case 'all':
-      default:
-        await this.activityCache.clearAll();
-        message = 'All caches cleared successfully.';
-        break;
+    const connection = this.resolveConnectionArg(args);
+    if (!this.tokenStorage.listConnections('google').includes(connection)) {
+      throw new Error(`No Google Calendar connection named "${connection}". Use start_google_auth first.`);
     }
 
-    const info = this.activityCache.getCacheInfo();
-    message += `\n\nCache Status:\n- GitLab entries: ${info.gitlabEntries}\n- Google Calendar entries: ${info.googleCalendarEntries}\n- Outlook Calendar entries: ${info.outlookCalendarEntries}\n- Azure DevOps entries: ${info.azureDevopsEntries}`;
+    const requested: string[] = Array.isArray(args?.calendar_ids)
+      ? [...new Set<string>(args.calendar_ids.map((id: unknown) => String(id).trim()).filter(Boolean))]
+      : [];
+    if (requested.length === 0) {
+      throw new Error('calendar_ids must list at least one calendar ID (use ["primary"] for your own calendar).');
+    }
+
+    // Validate against the account's calendar list so a typo is not saved silently
+    await this.initGoogleConnections({ connection });
+    const calendars = await this.googleCalendarClient(connection).listCalendars();
+    const unknown = requested.filter(id => id !== 'primary' && !calendars.some(c => c.id === id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown calendar ID(s): ${unknown.join(', ')}. Use list_google_calendars to see valid IDs.`);
+    }
+
+    await this.tokenStorage.setGoogleCalendars(requested, connection);
+    // Cached days were built from the previous selection
+    await this.activityCache.clearGoogleCalendar(connection);
+
+    const names = requested.map(id =>
+      id === 'primary' ? 'primary' : calendars.find(c => c.id === id)?.name ?? id
+    );
 
     return {
       content: [
         {
           type: 'text',
-          text: message,
+          text: `✅ ${connectionLabel('google', connection)} will now merge: ${names.join(', ')}
+
+Cached Google Calendar data for this connection was cleared.`,
         },
       ],
     };
   }
 
-  // Fast granular fetch methods for building custom timesheets
-  private async handleFetchGitLabActivity(args: any) {
+  private async handleFetchOutlookCalendarEvents(args: any) {
     await this.tokenStorage.load();
     await this.activityCache.load();
     const config = await this.loadConfig();
 
-    const gitlabToken = this.tokenStorage.getGitLabToken();
-    if (!gitlabToken) {
-      throw new Error('GitLab not configured. Please use configure_gitlab tool first.');
+    const outlookTokens = this.tokenStorage.getOutlookTokens();
+    if (!outlookTokens || !config.outlook) {
+      throw new Error('Outlook Calendar not configured. Please use configure_outlook_calendar tool first.');
     }
 
     // Check if date range is provided
     if (args.start_date && args.end_date) {
       // Handle date range
-      return this.handleFetchGitLabActivityRange(args, gitlabToken, config);
+      return this.handleFetchOutlookCalendarEventsRange(args, config, outlookTokens);
     } else if (args.date) {
       // Handle single date
-      return this.handleFetchGitLabActivitySingle(args, gitlabToken, config);
+      return this.handleFetchOutlookCalendarEventsSingle(args, config, outlookTokens);
     } else {
       throw new Error('Either date OR start_date+end_date must be provided');
     }
   }
 
-  private async handleFetchGitLabActivitySingle(args: any, gitlabToken: string, config: any) {
+  private async handleFetchOutlookCalendarEventsSingle(args: any, config: any, outlookTokens: any) {
     // Validate date format
     const dateStr = args.date;
     if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
       throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
     }
 
-    // Parse date to check if it's in the future
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const date = new Date(year, month - 1, day);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    if (date > today) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `⚠️ Cannot fetch GitLab activity for future date ${dateStr}\n\n**Commits (0):**\n  (none - future date)\n\n**Merge Requests (0):**\n  (none - future date)\n\n**Issues (0):**\n  (none - future date)\n\nℹ️ Git activity can only be fetched for past and present dates.`,
-          },
-        ],
-      };
-    }
-
-    await this.gitlab.initialize(gitlabToken, config.gitlab?.url || 'https://gitlab.com');
+    await this.outlookCalendar.initialize(
+      config.outlook.clientId,
+      config.outlook.clientSecret,
+      config.outlook.tenantId,
+      outlookTokens
+    );
 
     const forceRefresh = args?.force_refresh ?? false;
-    const { activity, fromCache } = await this.fetchGitLabActivityWithCache(dateStr, forceRefresh);
+    const exclude = parseCalendarExclusions(args?.exclude);
+    const { meetings, fromCache } = await this.fetchCalendarEventsWithCache(dateStr, [], true, false, forceRefresh, exclude);
     const cacheIndicator = fromCache ? '📋 (from cache)' : '🔄 (fresh)';
 
-    // Get debug info from GitLab integration
-    const debugInfo = this.gitlab.debugInfo;
-
-    // Format commits
-    const commitsText = activity.commits.length > 0
-      ? activity.commits.map((c: any) => `  - ${c.message} (${c.project})`).join('\n')
-      : '  (none)';
-
-    // Format MRs
-    const mrsText = activity.mergeRequests.length > 0
-      ? activity.mergeRequests.map((mr: any) => `  - ${mr.action}: ${mr.title} (#${mr.id}) in ${mr.project}`).join('\n')
-      : '  (none)';
-
-    // Format issues
-    const issuesText = activity.issues.length > 0
-      ? activity.issues.map((issue: any) => `  - ${issue.action}: ${issue.title} (#${issue.id}) in ${issue.project}`).join('\n')
-      : '  (none)';
-
-    // Format debug info
-    const debugText = debugInfo ? `
-
-🔍 **DEBUG INFO:**
-\`\`\`json
-${JSON.stringify(debugInfo, null, 2)}
-\`\`\`` : '';
-
     return {
       content: [
         {
           type: 'text',
-          text: `✅ GitLab activity fetched for ${dateStr} ${cacheIndicator}
-
-**Commits (${activity.commits.length}):**
-${commitsText}
-
-**Merge Requests (${activity.mergeRequests.length}):**
-${mrsText}
-
-**Issues (${activity.issues.length}):**
-${issuesText}${debugText}`,
+          text: `✅ Outlook Calendar events fetched for ${dateStr} ${cacheIndicator}\n\n**Events:** ${meetings.length}\n\nℹ️ **Next steps:** You can now combine this with Git activity to build a complete timesheet entry.`,
         },
       ],
     };
   }
 
-  private async handleFetchGitLabActivityRange(args: any, gitlabToken: string, config: any) {
+  private async handleFetchOutlookCalendarEventsRange(args: any, config: any, outlookTokens: any) {
     // Validate date formats
     const startDateStr = args.start_date;
     const endDateStr = args.end_date;
@@ -933,17 +3030,19 @@ ${issuesText}${debugText}`,
       throw new Error('start_date must be before or equal to end_date');
     }
 
-    await this.gitlab.initialize(gitlabToken, config.gitlab?.url || 'https://gitlab.com');
+    await this.outlookCalendar.initialize(
+      config.outlook.clientId,
+      config.outlook.clientSecret,
+      config.outlook.tenantId,
+      outlookTokens
+    );
 
     const forceRefresh = args?.force_refresh ?? false;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    const exclude = parseCalendarExclusions(args?.exclude);
 
-    // Loop through all dates in range and fetch activity
-    const allActivities: { [date: string]: any } = {};
-    let totalCommits = 0;
-    let totalMRs = 0;
-    let totalIssues = 0;
+    // Loop through all dates in range and fetch events
+    const allEvents: { [date: string]: any[] } = {};
+    let totalEvents = 0;
     let cacheHits = 0;
     let freshFetches = 0;
 
@@ -951,1009 +3050,1602 @@ ${issuesText}${debugText}`,
     while (currentDate <= endDate) {
       const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
 
-      // Skip future dates
-      if (currentDate > today) {
-        allActivities[dateStr] = {
-          date: new Date(currentDate),
-          commits: [],
-          mergeRequests: [],
-          issues: [],
-          isFuture: true,
-        };
-      } else {
-        const { activity, fromCache } = await this.fetchGitLabActivityWithCache(dateStr, forceRefresh);
-        allActivities[dateStr] = activity;
-        totalCommits += activity.commits.length;
-        totalMRs += activity.mergeRequests.length;
-        totalIssues += activity.issues.length;
-        if (fromCache) cacheHits++;
-        else freshFetches++;
+      const { meetings, fromCache } = await this.fetchCalendarEventsWithCache(dateStr, [], true, false, forceRefresh, exclude);
+      allEvents[dateStr] = meetings;
+      totalEvents += meetings.length;
+      if (fromCache) cacheHits++;
+      else freshFetches++;
+
+      // Move to next day
+      currentDate.setDate(currentDate.getDate() + 1);
+    }
+
+    // Format output grouped by date
+    const dateEntries = Object.entries(allEvents)
+      .map(([dateStr, meetings]) => {
+        if (meetings.length === 0) {
+          return `📅 **${dateStr}**\n  - No events`;
+        }
+
+        let details = `📅 **${dateStr}**\n\n**Calendar Events (${meetings.length}):**\n`;
+        details += meetings.map((m: any) => `  - ${m.title || m.summary || 'Unnamed meeting'}${describeEventStatus(m)}${accountSuffix(m)}`).join('\n');
+        return details;
+      })
+      .join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
+
+    const cacheInfo = cacheHits > 0 || freshFetches > 0
+      ? `📋 Cache: ${cacheHits} hit${cacheHits !== 1 ? 's' : ''}, ${freshFetches} fresh fetch${freshFetches !== 1 ? 'es' : ''}`
+      : '';
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Outlook Calendar events fetched for ${startDateStr} to ${endDateStr}
+
+**Summary:**
+- Total Events: ${totalEvents}
+${cacheInfo}
+
+**Events by Date:**
+${dateEntries}`,
+        },
+      ],
+    };
+  }
+
+  // Helper method to merge GitLab, GitHub, Bitbucket, Gitea and Jira activities
+  private mergeGitActivities(gitlabActivity: any, ...others: any[]): any {
+    const all = [gitlabActivity, ...others];
+    return {
+      date: gitlabActivity.date,
+      commits: all.flatMap(a => a.commits),
+      mergeRequests: all.flatMap(a => a.mergeRequests),
+      issues: all.flatMap(a => a.issues),
+    };
+  }
+
+  // Helper method to fetch GitLab activity with caching
+  private async fetchGitLabActivityWithCache(
+    dateStr: string,
+    forceRefresh: boolean,
+    connection: string = DEFAULT_CONNECTION
+  ): Promise<{ activity: any; fromCache: boolean }> {
+    // Parse date for cache lookup
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const label = connectionLabel('gitlab', connection);
+
+    if (!forceRefresh) {
+      const cached = this.activityCache.getGitLabActivity(date, connection);
+      if (cached) {
+        await this.sendProgress(`✓ ${label} (${dateStr}) - from cache`);
+        return { activity: cached, fromCache: true };
+      }
+    }
+
+    await this.sendProgress(`⏳ Fetching ${label} activity for ${dateStr}...`);
+    const activity = tagGitActivity(await this.gitlabClient(connection).getActivityForDate(dateStr), connection);
+    await this.activityCache.setGitLabActivity(date, activity, connection);
+    await this.sendProgress(`✓ ${label} (${dateStr}) - ${activity.commits.length} commits, ${activity.mergeRequests.length} MRs`);
+    return { activity, fromCache: false };
+  }
+
+  // Fetches one day from each GitLab connection and merges the results
+  private async fetchGitLabActivityForConnections(
+    dateStr: string,
+    forceRefresh: boolean,
+    connections: string[]
+  ): Promise<{ activity: any; fromCache: boolean }> {
+    const results = await Promise.all(
+      connections.map(connection => this.fetchGitLabActivityWithCache(dateStr, forceRefresh, connection))
+    );
+    if (results.length === 1) return results[0];
+
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return {
+      activity: mergeConnectionActivities(new Date(year, month - 1, day), results.map(r => r.activity)),
+      fromCache: results.every(r => r.fromCache),
+    };
+  }
+
+  /**
+   * Range counterpart of fetchGitLabActivityWithCache: the days missing from
+   * the cache are fetched in one Events API sweep and cached per day.
+   */
+  private async fetchGitLabRangeWithCache(
+    dateStrs: string[],
+    forceRefresh: boolean,
+    connection: string = DEFAULT_CONNECTION
+  ): Promise<Map<string, { activity: any; fromCache: boolean }>> {
+    const label = connectionLabel('gitlab', connection);
+    const results = new Map<string, { activity: any; fromCache: boolean }>();
+
+    for (const dateStr of dateStrs) {
+      const cached = forceRefresh ? null : this.activityCache.getGitLabActivity(parseDateInput(dateStr)!, connection);
+      if (cached) results.set(dateStr, { activity: cached, fromCache: true });
+    }
+
+    const missing = dateStrs.filter(d => !results.has(d)).sort();
+    if (missing.length === 0) {
+      await this.sendProgress(`✓ ${label} (${dateStrs.length} days) - from cache`);
+      return results;
+    }
+
+    const [first, last] = [missing[0], missing[missing.length - 1]];
+    await this.sendProgress(`⏳ Fetching ${label} activity for ${first} to ${last}...`);
+    const fetched = await this.gitlabClient(connection).getActivityForRange(first, last);
+
+    let commits = 0;
+    let mergeRequests = 0;
+    for (const dateStr of missing) {
+      const activity = tagGitActivity(fetched.get(dateStr)!, connection);
+      await this.activityCache.setGitLabActivity(activity.date, activity, connection);
+      results.set(dateStr, { activity, fromCache: false });
+      commits += activity.commits.length;
+      mergeRequests += activity.mergeRequests.length;
+    }
+
+    await this.sendProgress(`✓ ${label} (${first} to ${last}) - ${commits} commits, ${mergeRequests} MRs`);
+    return results;
+  }
+
+  // Fetches a set of days from each GitLab connection and merges them per day
+  private async fetchGitLabRangeForConnections(
+    dateStrs: string[],
+    forceRefresh: boolean,
+    connections: string[]
+  ): Promise<Map<string, { activity: any; fromCache: boolean }>> {
+    const perConnection = await Promise.all(
+      connections.map(connection => this.fetchGitLabRangeWithCache(dateStrs, forceRefresh, connection))
+    );
+    if (perConnection.length === 1) return perConnection[0];
+
+    return new Map(
+      dateStrs.map(dateStr => {
+        const results = perConnection.map(r => r.get(dateStr)!);
+        return [
+          dateStr,
+          {
+            activity: mergeConnectionActivities(parseDateInput(dateStr)!, results.map(r => r.activity)),
+            fromCache: results.every(r => r.fromCache),
+          },
+        ];
+      })
+    );
+  }
+
+  // Helper method to fetch GitHub activity with caching
+  private async fetchGitHubActivityWithCache(
+    dateStr: string,
+    forceRefresh: boolean,
+    connection: string = DEFAULT_CONNECTION
+  ): Promise<{ activity: any; fromCache: boolean }> {
+    // Parse date for cache lookup
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const label = connectionLabel('github', connection);
+
+    if (!forceRefresh) {
+      const cached = this.activityCache.getGitHubActivity(date, connection);
+      if (cached) {
+        await this.sendProgress(`✓ ${label} (${dateStr}) - from cache`);
+        return { activity: cached, fromCache: true };
       }
+    }
+
+    await this.sendProgress(`⏳ Fetching ${label} activity for ${dateStr}...`);
+    const activity = tagGitActivity(await this.githubClient(connection).getActivityForDate(dateStr), connection);
+    await this.activityCache.setGitHubActivity(date, activity, connection);
+    await this.sendProgress(`✓ ${label} (${dateStr}) - ${activity.commits.length} commits, ${activity.mergeRequests.length} PRs`);
+    return { activity, fromCache: false };
+  }
+
+  // Fetches one day from each GitHub connection and merges the results
+  private async fetchGitHubActivityForConnections(
+    dateStr: string,
+    forceRefresh: boolean,
+    connections: string[]
+  ): Promise<{ activity: any; fromCache: boolean }> {
+    const results = await Promise.all(
+      connections.map(connection => this.fetchGitHubActivityWithCache(dateStr, forceRefresh, connection))
+    );
+    if (results.length === 1) return results[0];
+
+    const [year, month, day] = dateStr.split('-').map(Number);
+    return {
+      activity: mergeConnectionActivities(new Date(year, month - 1, day), results.map(r => r.activity)),
+      fromCache: results.every(r => r.fromCache),
+    };
+  }
 
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
+  // Helper method to fetch one Google account's events with caching
+  private async fetchGoogleCalendarEventsWithCache(
+    dateStr: string,
+    forceRefresh: boolean,
+    connection: string
+  ): Promise<{ meetings: any[]; fromCache: boolean }> {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    const label = connectionLabel('google', connection);
+
+    if (!forceRefresh) {
+      const cached = this.activityCache.getGoogleCalendarEvents(date, connection);
+      if (cached) {
+        await this.sendProgress(`✓ ${label} (${dateStr}) - from cache`);
+        return { meetings: cached, fromCache: true };
+      }
     }
 
-    // Format output grouped by date
-    const dateEntries = Object.entries(allActivities)
-      .map(([dateStr, activity]) => {
-        if (activity.isFuture) {
-          return `📅 **${dateStr}** (future date)\n  - No activity (future date)`;
-        }
+    try {
+      await this.sendProgress(`⏳ Fetching ${label} events for ${dateStr}...`);
+      const meetings = tagCalendarEvents(
+        await this.googleCalendarClient(connection).getEventsForDate(
+          dateStr,
+          this.tokenStorage.getGoogleCalendars(connection)
+        ),
+        connection
+      );
+      await this.activityCache.setGoogleCalendarEvents(date, meetings, connection);
+      await this.sendProgress(`✓ ${label} (${dateStr}) - ${meetings.length} events`);
+      return { meetings, fromCache: false };
+    } catch (error) {
+      await this.sendProgress(`⚠️ ${label} (${dateStr}) - fetch failed`, 'warning');
+      console.error('Error fetching Google Calendar events:', error);
+      return { meetings: [], fromCache: false };
+    }
+  }
 
-        if (activity.commits.length === 0 && activity.mergeRequests.length === 0 && activity.issues.length === 0) {
-          return `📅 **${dateStr}**\n  - No activity`;
-        }
+  // Helper method to fetch calendar events with caching
+  private async fetchCalendarEventsWithCache(
+    dateStr: string,
+    googleConnections: string[],
+    outlookAuthenticated: boolean,
+    icsConfigured: boolean,
+    forceRefresh: boolean,
+    exclude: CalendarExclusion[] = DEFAULT_CALENDAR_EXCLUSIONS
+  ): Promise<{ meetings: any[]; fromCache: boolean }> {
+    // Parse date for cache lookup
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
 
-        let details = `📅 **${dateStr}**\n\n`;
+    let meetings: any[] = [];
+    let fromCache = false;
 
-        // Format commits with details
-        if (activity.commits.length > 0) {
-          details += `**Commits (${activity.commits.length}):**\n`;
-          details += activity.commits.map((c: any) => `  - ${c.message} (${c.project})`).join('\n');
-          details += '\n\n';
-        }
+    // Prioritize Google Calendar, merging every connected account and the ICS calendar
+    if (googleConnections.length > 0 || icsConfigured) {
+      const results = await Promise.all([
+        ...googleConnections.map(connection => this.fetchGoogleCalendarEventsWithCache(dateStr, forceRefresh, connection)),
+        ...(icsConfigured ? [this.fetchIcsCalendarOrEmpty(dateStr, forceRefresh)] : []),
+      ]);
+      meetings = mergeConnectionEvents(results.map(r => r.meetings));
+      if (results.every(r => r.fromCache)) {
+        return { meetings: applyCalendarExclusions(meetings, exclude), fromCache: true };
+      }
+    }
 
-        // Format MRs with details
-        if (activity.mergeRequests.length > 0) {
-          details += `**Merge Requests (${activity.mergeRequests.length}):**\n`;
-          details += activity.mergeRequests.map((mr: any) => `  - ${mr.action}: ${mr.title} (#${mr.id}) in ${mr.project}`).join('\n');
-          details += '\n\n';
+    // If no Google meetings, try Outlook
+    if (meetings.length === 0 && outlookAuthenticated) {
+      if (!forceRefresh) {
+        const cached = this.activityCache.getOutlookCalendarEvents(date);
+        if (cached) {
+          await this.sendProgress(`✓ Outlook Calendar (${dateStr}) - from cache`);
+          return { meetings: applyCalendarExclusions(cached, exclude), fromCache: true };
         }
+      }
 
-        // Format issues with details
-        if (activity.issues.length > 0) {
-          details += `**Issues (${activity.issues.length}):**\n`;
-          details += activity.issues.map((issue: any) => `  - ${issue.action}: ${issue.title} (#${issue.id}) in ${issue.project}`).join('\n');
-        }
+      try {
+        await this.sendProgress(`⏳ Fetching Outlook Calendar events for ${dateStr}...`);
+        meetings = await this.outlookCalendar.getEventsForDate(dateStr);
+        await this.activityCache.setOutlookCalendarEvents(date, meetings);
+        await this.sendProgress(`✓ Outlook Calendar (${dateStr}) - ${meetings.length} events`);
+      } catch (error) {
+        await this.sendProgress(`⚠️ Outlook Calendar (${dateStr}) - fetch failed`, 'warning');
+        console.error('Error fetching Outlook Calendar events:', error);
+      }
+    }
 
-        return details.trim();
-      })
-      .join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
+    // Cache holds every event; the exclusion policy is applied on the way out
+    return { meetings: applyCalendarExclusions(meetings, exclude), fromCache };
+  }
 
-    const cacheInfo = cacheHits > 0 || freshFetches > 0
-      ? `📋 Cache: ${cacheHits} hit${cacheHits !== 1 ? 's' : ''}, ${freshFetches} fresh fetch${freshFetches !== 1 ? 'es' : ''}`
-      : '';
+  // Batch parallel fetch for multiple days with error isolation
+  private async fetchMultipleDaysParallel(
+    dates: Date[],
+    gitlabConnections: string[],
+    githubConnections: string[],
+    bitbucketConfigured: boolean,
+    giteaConfigured: boolean,
+    localGitConfigured: boolean,
+    jiraConfigured: boolean,
+    googleConnections: string[],
+    outlookAuthenticated: boolean,
+    icsConfigured: boolean,
+    azureDevOpsConfigured: boolean,
+    forceRefresh: boolean,
+    calendarExclusions: CalendarExclusion[] = DEFAULT_CALENDAR_EXCLUSIONS
+  ): Promise<DayFetchResult[]> {
+    // Send detailed source notifications
+    const dateRange = dates.length > 1
+      ? `${formatDate(dates[0])} to ${formatDate(dates[dates.length - 1])}`
+      : formatDate(dates[0]);
 
-    // Get debug info from GitLab integration
-    const debugInfo = this.gitlab.debugInfo;
-    const debugText = debugInfo ? `
+    const sources: string[] = [];
+    if (gitlabConnections.length > 0) sources.push(`GitLab${describeConnections(gitlabConnections)}`);
+    if (githubConnections.length > 0) sources.push(`GitHub${describeConnections(githubConnections)}`);
+    if (bitbucketConfigured) sources.push('Bitbucket');
+    if (giteaConfigured) sources.push('Gitea');
+    if (localGitConfigured) sources.push('local git');
+    if (jiraConfigured) sources.push('Jira');
+    if (googleConnections.length > 0) sources.push(`Google Calendar${describeConnections(googleConnections)}`);
+    if (outlookAuthenticated) sources.push('Outlook Calendar');
+    if (icsConfigured) sources.push('ICS Calendar');
+    if (azureDevOpsConfigured) sources.push('Azure DevOps');
 
-🔍 **DEBUG INFO:**
-\`\`\`json
-${JSON.stringify(debugInfo, null, 2)}
-\`\`\`
+    if (sources.length > 0) {
+      await this.sendProgress(`🔄 Fetching from ${sources.join(', ')} for ${dateRange}...`);
+    }
 
-📊 **RAW ACTIVITY DATA:**
-\`\`\`json
-${JSON.stringify(allActivities, null, 2)}
-\`\`\`` : '';
+    // GitLab is fetched for the whole range in one sweep rather than once per day
+    const gitlabRange = gitlabConnections.length > 0 && dates.length > 1
+      ? this.fetchGitLabRangeForConnections(dates.map(formatDate), forceRefresh, gitlabConnections)
+      : null;
+    // Likewise one git log per repository for the whole range
+    const localGitRange = localGitConfigured && dates.length > 1
+      ? this.localGit.getActivityForDates(dates.map(formatDate))
+      : null;
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ GitLab activity fetched for ${startDateStr} to ${endDateStr}
+    // Fetch all days in parallel
+    const promises = dates.map(date => {
+      // Convert date to YYYY-MM-DD string
+      const year = date.getFullYear();
+      const month = String(date.getMonth() + 1).padStart(2, '0');
+      const day = String(date.getDate()).padStart(2, '0');
+      const dateStr = `${year}-${month}-${day}`;
 
-**Summary:**
-- Total Commits: ${totalCommits}
-- Total Merge Requests: ${totalMRs}
-- Total Issues: ${totalIssues}
-${cacheInfo}
+      return this.fetchDayActivityParallel(
+        dateStr,
+        gitlabConnections,
+        githubConnections,
+        bitbucketConfigured,
+        giteaConfigured,
+        localGitConfigured,
+        jiraConfigured,
+        googleConnections,
+        outlookAuthenticated,
+        icsConfigured,
+        azureDevOpsConfigured,
+        forceRefresh,
+        calendarExclusions,
+        gitlabRange?.then(byDate => byDate.get(dateStr)!),
+        localGitRange?.then(byDate => byDate.get(dateStr)!)
+      );
+    });
 
-**Activity by Date:**
-${dateEntries}${debugText}`,
-        },
-      ],
-    };
+    return await Promise.all(promises);
   }
 
-  private async handleFetchGitHubActivity(args: any) {
-    await this.tokenStorage.load();
-    await this.activityCache.load();
+  // Parallel fetch for a single day with error isolation
+  private async fetchDayActivityParallel(
+    dateStr: string,
+    gitlabConnections: string[],
+    githubConnections: string[],
+    bitbucketConfigured: boolean,
+    giteaConfigured: boolean,
+    localGitConfigured: boolean,
+    jiraConfigured: boolean,
+    googleConnections: string[],
+    outlookAuthenticated: boolean,
+    icsConfigured: boolean,
+    azureDevOpsConfigured: boolean,
+    forceRefresh: boolean,
+    calendarExclusions: CalendarExclusion[] = DEFAULT_CALENDAR_EXCLUSIONS,
+    gitlabPrefetch?: Promise<{ activity: any; fromCache: boolean }>,
+    localGitPrefetch?: Promise<GitLabActivity>
+  ): Promise<DayFetchResult> {
+    // Parse date for fallback data
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
 
-    const githubToken = this.tokenStorage.getGitHubToken();
-    if (!githubToken) {
-      throw new Error('GitHub not configured. Please use configure_github tool first.');
-    }
+    // Fetch all sources in parallel with error isolation
+    const [
+      gitlabResult,
+      githubResult,
+      bitbucketResult,
+      giteaResult,
+      localGitResult,
+      jiraResult,
+      calendarResult,
+      azureDevOpsResult,
+    ] = await Promise.allSettled([
+      gitlabPrefetch ??
+        (gitlabConnections.length > 0
+          ? this.fetchGitLabActivityForConnections(dateStr, forceRefresh, gitlabConnections)
+          : Promise.resolve(null)),
+      githubConnections.length > 0
+        ? this.fetchGitHubActivityForConnections(dateStr, forceRefresh, githubConnections)
+        : Promise.resolve(null),
+      bitbucketConfigured ? this.fetchBitbucketWithCache(dateStr, forceRefresh) : Promise.resolve(null),
+      giteaConfigured ? this.fetchGiteaWithCache(dateStr, forceRefresh) : Promise.resolve(null),
+      localGitPrefetch ?? (localGitConfigured ? this.localGit.getActivityForDate(dateStr) : Promise.resolve(null)),
+      jiraConfigured ? this.fetchJiraWithCache(dateStr, forceRefresh) : Promise.resolve(null),
+      this.fetchCalendarEventsWithCache(
+        dateStr,
+        googleConnections,
+        outlookAuthenticated,
+        icsConfigured,
+        forceRefresh,
+        calendarExclusions
+      ),
+      azureDevOpsConfigured ? this.fetchAzureDevOpsWithCache(dateStr, forceRefresh) : Promise.resolve(null),
+    ]);
 
-    // Check if date range is provided
-    if (args.start_date && args.end_date) {
-      // Handle date range
-      return this.handleFetchGitHubActivityRange(args, githubToken);
-    } else if (args.date) {
-      // Handle single date
-      return this.handleFetchGitHubActivitySingle(args, githubToken);
-    } else {
-      throw new Error('Either date OR start_date+end_date must be provided');
+    // Extract GitLab activity with error handling
+    let gitlabActivity = { date, commits: [], mergeRequests: [], issues: [] };
+    let gitlabCached = false;
+    if (gitlabResult.status === 'fulfilled' && gitlabResult.value) {
+      gitlabActivity = gitlabResult.value.activity;
+      gitlabCached = gitlabResult.value.fromCache;
+    } else if (gitlabResult.status === 'rejected') {
+      console.error(`GitLab fetch failed for ${dateStr}:`, gitlabResult.reason);
     }
-  }
 
-  private async handleFetchGitHubActivitySingle(args: any, githubToken: string) {
-    // Validate date format
-    const dateStr = args.date;
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+    // Extract GitHub activity with error handling
+    let githubActivity = { date, commits: [], mergeRequests: [], issues: [] };
+    let githubCached = false;
+    if (githubResult.status === 'fulfilled' && githubResult.value) {
+      githubActivity = githubResult.value.activity;
+      githubCached = githubResult.value.fromCache;
+    } else if (githubResult.status === 'rejected') {
+      console.error(`GitHub fetch failed for ${formatDate(date)}:`, githubResult.reason);
     }
 
-    // Parse date to check if it's in the future
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const date = new Date(year, month - 1, day);
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    if (date > today) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `⚠️ Cannot fetch GitHub activity for future date ${dateStr}\n\n**Commits (0):**\n  (none - future date)\n\n**Pull Requests (0):**\n  (none - future date)\n\n**Issues (0):**\n  (none - future date)\n\nℹ️ Git activity can only be fetched for past and present dates.`,
-          },
-        ],
-      };
+    // Extract Bitbucket activity with error handling
+    let bitbucketActivity: GitLabActivity = { date, commits: [], mergeRequests: [], issues: [] };
+    let bitbucketCached = false;
+    if (bitbucketResult.status === 'fulfilled' && bitbucketResult.value) {
+      bitbucketActivity = bitbucketResult.value.activity;
+      bitbucketCached = bitbucketResult.value.fromCache;
+    } else if (bitbucketResult.status === 'rejected') {
+      console.error(`Bitbucket fetch failed for ${dateStr}:`, bitbucketResult.reason);
     }
 
-    await this.github.initialize(githubToken);
-
-    const forceRefresh = args?.force_refresh ?? false;
-    const { activity, fromCache } = await this.fetchGitHubActivityWithCache(dateStr, forceRefresh);
-    const cacheIndicator = fromCache ? '📋 (from cache)' : '🔄 (fresh)';
+    // Extract Gitea activity with error handling
+    let giteaActivity: GitLabActivity = { date, commits: [], mergeRequests: [], issues: [] };
+    let giteaCached = false;
+    if (giteaResult.status === 'fulfilled' && giteaResult.value) {
+      giteaActivity = giteaResult.value.activity;
+      giteaCached = giteaResult.value.fromCache;
+    } else if (giteaResult.status === 'rejected') {
+      console.error(`Gitea fetch failed for ${dateStr}:`, giteaResult.reason);
+    }
 
-    // Format commits
-    const commitsText = activity.commits.length > 0
-      ? activity.commits.map((c: any) => `  - ${c.message} (${c.project})`).join('\n')
-      : '  (none)';
+    // Extract local git commits with error handling
+    let localCommits: GitLabActivity['commits'] = [];
+    if (localGitResult.status === 'fulfilled' && localGitResult.value) {
+      localCommits = localGitResult.value.commits;
+    } else if (localGitResult.status === 'rejected') {
+      console.error(`Local git scan failed for ${dateStr}:`, localGitResult.reason);
+    }
 
-    // Format PRs
-    const prsText = activity.mergeRequests.length > 0
-      ? activity.mergeRequests.map((pr: any) => `  - ${pr.action}: ${pr.title} (#${pr.id}) in ${pr.project}`).join('\n')
-      : '  (none)';
+    // Extract Jira issue activity with error handling
+    let jiraActivity: GitLabActivity = { date, commits: [], mergeRequests: [], issues: [] };
+    let jiraCached = false;
+    if (jiraResult.status === 'fulfilled' && jiraResult.value) {
+      jiraActivity = jiraResult.value.activity;
+      jiraCached = jiraResult.value.fromCache;
+    } else if (jiraResult.status === 'rejected') {
+      console.error(`Jira fetch failed for ${dateStr}:`, jiraResult.reason);
+    }
 
-    // Format issues
-    const issuesText = activity.issues.length > 0
-      ? activity.issues.map((issue: any) => `  - ${issue.action}: ${issue.title} (#${issue.id}) in ${issue.project}`).join('\n')
-      : '  (none)';
+    // Extract calendar events with error handling; leave markers are not meetings
+    let meetings: any[] = [];
+    let leave: any[] = [];
+    let calendarCached = false;
+    if (calendarResult.status === 'fulfilled') {
+      ({ meetings, leave } = splitLeaveEvents(calendarResult.value.meetings));
+      calendarCached = calendarResult.value.fromCache;
+    } else if (calendarResult.status === 'rejected') {
+      console.error(`Calendar fetch failed for ${formatDate(date)}:`, calendarResult.reason);
+    }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ GitHub activity fetched for ${dateStr} ${cacheIndicator}
+    // Extract Azure DevOps activity with error handling
+    let azureDevOpsActivity: AzureDevOpsActivity | undefined;
+    let azureDevOpsCached = false;
+    if (azureDevOpsResult.status === 'fulfilled' && azureDevOpsResult.value) {
+      azureDevOpsActivity = azureDevOpsResult.value.activity;
+      azureDevOpsCached = azureDevOpsResult.value.fromCache;
+    } else if (azureDevOpsResult.status === 'rejected') {
+      console.error(`Azure DevOps fetch failed for ${dateStr}:`, azureDevOpsResult.reason);
+    }
 
-**Commits (${activity.commits.length}):**
-${commitsText}
+    // Merge the hosted git activities, then local commits they did not report
+    const mergedActivity = this.mergeGitActivities(
+      gitlabActivity,
+      githubActivity,
+      bitbucketActivity,
+      giteaActivity,
+      jiraActivity
+    );
+    const remoteCommitCount = mergedActivity.commits.length;
+    mergedActivity.commits = mergeLocalCommits(mergedActivity.commits, localCommits);
 
-**Pull Requests (${activity.mergeRequests.length}):**
-${prsText}
+    // Record which sources actually answered, so a timesheet can be audited
+    const countGit = (a: any) => a.commits.length + a.mergeRequests.length + a.issues.length;
+    const sources: TimesheetSource[] = [];
+    if (gitlabResult.status === 'fulfilled' && gitlabResult.value) {
+      sources.push({ source: 'gitlab', items: countGit(gitlabActivity), fromCache: gitlabCached });
+    }
+    if (githubResult.status === 'fulfilled' && githubResult.value) {
+      sources.push({ source: 'github', items: countGit(githubActivity), fromCache: githubCached });
+    }
+    if (bitbucketResult.status === 'fulfilled' && bitbucketResult.value) {
+      sources.push({ source: 'bitbucket', items: countGit(bitbucketActivity), fromCache: bitbucketCached });
+    }
+    if (giteaResult.status === 'fulfilled' && giteaResult.value) {
+      sources.push({ source: 'gitea', items: countGit(giteaActivity), fromCache: giteaCached });
+    }
+    if (localGitResult.status === 'fulfilled' && localGitResult.value) {
+      sources.push({ source: 'local_git', items: mergedActivity.commits.length - remoteCommitCount, fromCache: false });
+    }
+    if (jiraResult.status === 'fulfilled' && jiraResult.value) {
+      sources.push({ source: 'jira', items: jiraActivity.issues.length, fromCache: jiraCached });
+    }
+    if (calendarResult.status === 'fulfilled' && (googleConnections.length > 0 || outlookAuthenticated || icsConfigured)) {
+      sources.push({ source: 'calendar', items: meetings.length + leave.length, fromCache: calendarCached });
+    }
+    if (azureDevOpsActivity) {
+      sources.push({
+        source: 'azure_devops',
+        items:
+          azureDevOpsActivity.workItems.length +
+          azureDevOpsActivity.pullRequests.length +
+          azureDevOpsActivity.commits.length,
+        fromCache: azureDevOpsCached,
+      });
+    }
 
-**Issues (${activity.issues.length}):**
-${issuesText}`,
-        },
-      ],
+    const dayOff = leaveDayOff(leave);
+    return {
+      activity: {
+        date,
+        meetings,
+        gitlabActivity: mergedActivity,
+        azureDevOpsActivity,
+        ...(dayOff ? { dayOff } : {}),
+        description: '',
+      },
+      cacheInfo: {
+        gitlab: gitlabCached,
+        github: githubCached,
+        calendar: calendarCached,
+        azureDevOps: azureDevOpsCached,
+      },
+      sources,
     };
   }
 
-  private async handleFetchGitHubActivityRange(args: any, githubToken: string) {
-    // Validate date formats
-    const startDateStr = args.start_date;
-    const endDateStr = args.end_date;
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDateStr) || !/^\d{4}-\d{2}-\d{2}$/.test(endDateStr)) {
-      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
-    }
-
-    // Parse dates
-    const [startYear, startMonth, startDay] = startDateStr.split('-').map(Number);
-    const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
-    const startDate = new Date(startYear, startMonth - 1, startDay);
-    const endDate = new Date(endYear, endMonth - 1, endDay);
+  // -------------------------------------------------------------------------
+  // Timesheet generation
+  // -------------------------------------------------------------------------
 
-    // Validate range
-    if (startDate > endDate) {
-      throw new Error('start_date must be before or equal to end_date');
-    }
+  /**
+   * Fetches, merges and narrates every source for the requested days. Shared by
+   * generate_timesheet and export_timesheet; no entries means no past working days.
+   */
+  private async buildTimesheet(
+    args: any
+  ): Promise<{ entries: TimesheetEntry[]; activities: DayActivity[]; label: string; distributionMessage: string }> {
+    await this.tokenStorage.load();
+    await this.activityCache.load();
 
-    await this.github.initialize(githubToken);
+    const config = await this.loadConfig();
+    const calendar = await loadWorkCalendar(config.workCalendar);
+    const { days, label } = resolveTimesheetDays(args, calendar);
+    if (days.length === 0) {
+      return { entries: [], activities: [], label, distributionMessage: '' };
+    }
 
-    const forceRefresh = args?.force_refresh ?? false;
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
+    // A provider that fails to connect is reported and left out, like Bitbucket below
+    const gitlabConnections = await this.initGitLabConnections({}, true);
+    const githubConnections = await this.initGitHubConnections({}, true);
+    const googleConnections = await this.initGoogleConnections({}, true);
+    const bitbucketConfigured = await this.initBitbucket();
+    const giteaConfigured = await this.initGitea();
+    const jiraConfigured = await this.initJira();
+
+    const azureDevOps = this.tokenStorage.getAzureDevOps();
+    if (azureDevOps?.organization) {
+      await this.azureDevOps.initialize(azureDevOps);
+    }
 
-    // Loop through all dates in range and fetch activity
-    const allActivities: { [date: string]: any } = {};
-    let totalCommits = 0;
-    let totalPRs = 0;
-    let totalIssues = 0;
-    let cacheHits = 0;
-    let freshFetches = 0;
+    const ics = this.tokenStorage.getIcsCalendar();
+    if (ics?.source) {
+      await this.icsCalendar.initialize(ics);
+    }
 
-    const currentDate = new Date(startDate);
-    while (currentDate <= endDate) {
-      const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
+    if (config.localGit) {
+      await this.localGit.initialize(config.localGit);
+    }
 
-      // Skip future dates
-      if (currentDate > today) {
-        allActivities[dateStr] = {
-          date: new Date(currentDate),
-          commits: [],
-          mergeRequests: [],
-          issues: [],
-          isFuture: true,
-        };
-      } else {
-        const { activity, fromCache } = await this.fetchGitHubActivityWithCache(dateStr, forceRefresh);
-        allActivities[dateStr] = activity;
-        totalCommits += activity.commits.length;
-        totalPRs += activity.mergeRequests.length;
-        totalIssues += activity.issues.length;
-        if (fromCache) cacheHits++;
-        else freshFetches++;
-      }
+    if (
+      gitlabConnections.length === 0 &&
+      githubConnections.length === 0 &&
+      !bitbucketConfigured &&
+      !giteaConfigured &&
+      !config.localGit &&
+      !jiraConfigured &&
+      googleConnections.length === 0 &&
+      !ics?.source &&
+      !azureDevOps?.organization
+    ) {
+      throw new Error(
+        'No activity sources configured. Use start_gitlab_auth, configure_github, configure_bitbucket, configure_gitea, configure_jira, start_google_auth, configure_ics_calendar or configure_azure_devops, or add localGit to the config file, then check_authentication_status.'
+      );
+    }
 
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
+    const forceRefresh = args?.force_refresh ?? false;
+    const hoursPerDay = args?.hours_per_day ?? DEFAULT_HOURS_PER_DAY;
+    if (typeof hoursPerDay !== 'number' || hoursPerDay <= 0 || hoursPerDay > 24) {
+      throw new Error('hours_per_day must be a number of hours between 0 and 24');
     }
 
-    // Format output grouped by date
-    const dateEntries = Object.entries(allActivities)
-      .map(([dateStr, activity]) => {
-        if (activity.isFuture) {
-          return `📅 **${dateStr}** (future date)\n  - No activity (future date)`;
-        }
+    // Graph Outlook stays out of the combined pipeline while its tools are disabled.
+    const results = await this.fetchMultipleDaysParallel(
+      days,
+      gitlabConnections,
+      githubConnections,
+      bitbucketConfigured,
+      giteaConfigured,
+      !!config.localGit,
+      jiraConfigured,
+      googleConnections,
+      false,
+      !!ics?.source,
+      !!azureDevOps?.organization,
+      forceRefresh,
+      parseCalendarExclusions(args?.exclude)
+    );
 
-        if (activity.commits.length === 0 && activity.mergeRequests.length === 0 && activity.issues.length === 0) {
-          return `📅 **${dateStr}**\n  - No activity`;
-        }
+    const { entries, activities, distributionMessage } = assembleTimesheet(results, calendar, {
+      distributeGaps: !!args?.distribute_gaps,
+      hoursPerDay,
+    });
 
-        let details = `📅 **${dateStr}**\n\n`;
+    return { entries, activities, label, distributionMessage };
+  }
 
-        // Format commits with details
-        if (activity.commits.length > 0) {
-          details += `**Commits (${activity.commits.length}):**\n`;
-          details += activity.commits.map((c: any) => `  - ${c.message} (${c.project})`).join('\n');
-          details += '\n\n';
-        }
+  private async handleGenerateTimesheet(args: any) {
+    const { entries, label, distributionMessage } = await this.buildTimesheet(args);
+    if (entries.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⚠️ No past working days in ${label} — nothing to generate yet.`,
+          },
+        ],
+      };
+    }
 
-        // Format PRs with details
-        if (activity.mergeRequests.length > 0) {
-          details += `**Pull Requests (${activity.mergeRequests.length}):**\n`;
-          details += activity.mergeRequests.map((pr: any) => `  - ${pr.action}: ${pr.title} (#${pr.id}) in ${pr.project}`).join('\n');
-          details += '\n\n';
-        }
+    const output = this.timesheetGenerator.formatTimesheetOutput(entries);
 
-        // Format issues with details
-        if (activity.issues.length > 0) {
-          details += `**Issues (${activity.issues.length}):**\n`;
-          details += activity.issues.map((issue: any) => `  - ${issue.action}: ${issue.title} (#${issue.id}) in ${issue.project}`).join('\n');
-        }
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Timesheet generated for ${label} (${entries.length} working day${entries.length !== 1 ? 's' : ''})
 
-        return details.trim();
-      })
-      .join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
+${output}${distributionMessage ? `ℹ️ ${distributionMessage}\n\n` : ''}📊 **TIMESHEET ENTRIES:**
+\`\`\`json
+${JSON.stringify(entries, null, 2)}
+\`\`\``,
+        },
+      ],
+    };
+  }
 
-    const cacheInfo = cacheHits > 0 || freshFetches > 0
-      ? `📋 Cache: ${cacheHits} hit${cacheHits !== 1 ? 's' : ''}, ${freshFetches} fresh fetch${freshFetches !== 1 ? 'es' : ''}`
-      : '';
+  private async handleExportTimesheet(args: any) {
+    // Validate the file arguments before spending time on fetches
+    const filePath = resolveExportPath(args?.path);
+    const format = resolveExportFormat(filePath, args?.format);
+    const rows: ExportRows = args?.rows ?? 'day';
+    if (rows !== 'day' && rows !== 'project') {
+      throw new Error('rows must be "day" or "project"');
+    }
+    const columns = parseColumnMapping(args?.columns);
 
-    // Add debug info
-    const debugText = `
+    const { entries, label, distributionMessage } = await this.buildTimesheet(args);
+    if (entries.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⚠️ No past working days in ${label} — nothing to export yet.`,
+          },
+        ],
+      };
+    }
 
-📊 **RAW ACTIVITY DATA:**
-\`\`\`json
-${JSON.stringify(allActivities, null, 2)}
-\`\`\``;
+    await writeTimesheetExport(filePath, renderTimesheet(entries, format, columns, rows), args?.overwrite ?? false);
+
+    const totalHours = entries.reduce((sum, e) => sum + (e.hours ?? []).reduce((s, h) => s + h.hours, 0), 0);
+    const headers = (columns ?? []).map(c => c.header);
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ GitHub activity fetched for ${startDateStr} to ${endDateStr}
-
-**Summary:**
-- Total Commits: ${totalCommits}
-- Total Pull Requests: ${totalPRs}
-- Total Issues: ${totalIssues}
-${cacheInfo}
+          text: `✅ Exported timesheet for ${label} to ${filePath}
 
-**Activity by Date:**
-${dateEntries}${debugText}`,
+Format: ${format}, one row per ${rows}
+Days: ${entries.length}, hours: ${totalHours}
+${headers.length > 0 ? `Columns: ${headers.join(', ')}\n` : ''}${distributionMessage ? `\nℹ️ ${distributionMessage}\n` : ''}`,
         },
       ],
     };
   }
 
-  private async handleFetchGoogleCalendarEvents(args: any) {
-    await this.tokenStorage.load();
-    await this.activityCache.load();
-
-    const googleTokens = this.tokenStorage.getGoogleTokens();
-    if (!googleTokens) {
-      throw new Error('Google Calendar not configured. Please use authenticate_google tool first.');
+  private async handleExportTempoWorklogs(args: any) {
+    const config = await this.loadConfig();
+    const dryRun = args?.dry_run ?? false;
+    const filePath = dryRun ? undefined : resolveExportPath(args?.path);
+
+    const defaultIssue = args?.default_issue ?? config.jira?.defaultIssue;
+    const meetingIssue = args?.meeting_issue ?? config.jira?.meetingIssue;
+    for (const [name, value] of [['default_issue', defaultIssue], ['meeting_issue', meetingIssue]]) {
+      if (value !== undefined && !isIssueKey(value)) {
+        throw new Error(`${name} must be a Jira issue key such as PROJ-123 (got "${value}")`);
+      }
     }
-
-    // Check if date range is provided
-    if (args.start_date && args.end_date) {
-      // Handle date range
-      return this.handleFetchGoogleCalendarEventsRange(args, googleTokens);
-    } else if (args.date) {
-      // Handle single date
-      return this.handleFetchGoogleCalendarEventsSingle(args, googleTokens);
-    } else {
-      throw new Error('Either date OR start_date+end_date must be provided');
+    const projectKeys = args?.project_keys ?? config.jira?.projectKeys;
+    if (projectKeys !== undefined && !isProjectKeyList(projectKeys)) {
+      throw new Error(`project_keys must be a list of Jira project keys such as ["PROJ", "OPS"] (got ${JSON.stringify(projectKeys)})`);
     }
-  }
+    const dayStart = args?.day_start ?? '09:00';
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(dayStart)) {
+      throw new Error('day_start must be a local time in HH:mm format (e.g. "09:00")');
+    }
+    const options: WorklogOptions = {
+      defaultIssue,
+      meetingIssue,
+      projectKeys,
+      dayStart,
+    };
 
-  private async handleFetchGoogleCalendarEventsSingle(args: any, googleTokens: any) {
-    // Validate date format
-    const dateStr = args.date;
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+    const { entries, activities, label } = await this.buildTimesheet(args);
+    if (entries.length === 0) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `⚠️ No past working days in ${label} — nothing to export yet.`,
+          },
+        ],
+      };
     }
 
-    await this.googleCalendar.initialize(
-      BUNDLED_OAUTH_CREDENTIALS.google.clientId,
-      BUNDLED_OAUTH_CREDENTIALS.google.clientSecret,
-      'http://localhost:8080/callback', // redirectUri not used for token refresh
-      googleTokens,
-      async (refreshedTokens) => {
-        await this.tokenStorage.setGoogleTokens(refreshedTokens);
+    const hoursByDate = new Map(entries.map(e => [e.date, e.hours ?? []]));
+    const days = activities.map(a => buildDayWorklogs(a, hoursByDate.get(formatDate(a.date)) ?? [], options));
+    const worklogs = days.flatMap(d => d.worklogs);
+    const loggedHours = roundToQuarterHour(worklogs.reduce((sum, w) => sum + w.timeSpentSeconds, 0) / 3600);
+    const unmatchedHours = roundToQuarterHour(days.reduce((sum, d) => sum + d.unmatchedHours, 0));
+
+    const lines: string[] = [];
+    for (const day of days) {
+      lines.push(`**${day.date}**`);
+      for (const w of day.worklogs) {
+        lines.push(`  - ${w.started.slice(11, 16)} ${w.issueKey} ${roundToQuarterHour(w.timeSpentSeconds / 3600)}h — ${w.comment}`);
       }
-    );
+      if (day.unmatchedHours > 0) lines.push(`  - ⚠️ ${roundToQuarterHour(day.unmatchedHours)}h matched no issue`);
+      if (day.worklogs.length === 0 && day.unmatchedHours === 0) lines.push('  (nothing to log)');
+    }
 
-    const forceRefresh = args?.force_refresh ?? false;
-    const { meetings, fromCache } = await this.fetchCalendarEventsWithCache(dateStr, true, false, forceRefresh);
-    const cacheIndicator = fromCache ? '📋 (from cache)' : '🔄 (fresh)';
+    if (filePath) {
+      await writeTimesheetExport(filePath, JSON.stringify(worklogs, null, 2) + '\n', args?.overwrite ?? false);
+    }
 
-    // Format calendar events
-    const eventsText = meetings.length > 0
-      ? meetings.map((m: any) => `  - ${m.title || m.summary || 'Unnamed meeting'}`).join('\n')
-      : '  (none)';
+    const header = filePath
+      ? `✅ Wrote ${worklogs.length} worklog${worklogs.length !== 1 ? 's' : ''} (${loggedHours}h) for ${label} to ${filePath}`
+      : `📋 Dry run: ${worklogs.length} worklog${worklogs.length !== 1 ? 's' : ''} (${loggedHours}h) for ${label} — nothing written`;
+    const unmatchedNote =
+      unmatchedHours > 0
+        ? `\n\n⚠️ ${unmatchedHours}h matched no issue key and was left out. Set default_issue (or jira.defaultIssue in the config file) to log it.`
+        : '';
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Google Calendar events fetched for ${dateStr} ${cacheIndicator}
+          text: `${header}
 
-**Calendar Events (${meetings.length}):**
-${eventsText}`,
+${lines.join('\n')}${unmatchedNote}
+
+\`\`\`json
+${JSON.stringify(worklogs, null, 2)}
+\`\`\``,
         },
       ],
     };
   }
 
-  private async handleFetchGoogleCalendarEventsRange(args: any, googleTokens: any) {
-    // Validate date formats
-    const startDateStr = args.start_date;
-    const endDateStr = args.end_date;
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDateStr) || !/^\d{4}-\d{2}-\d{2}$/.test(endDateStr)) {
-      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+  // -------------------------------------------------------------------------
+  // Azure DevOps
+  // -------------------------------------------------------------------------
+
+  private async handleConfigureAzureDevOps(args: any) {
+    const organization = args?.organization;
+    if (!organization || typeof organization !== 'string') {
+      throw new Error('organization is required (the segment after dev.azure.com/ in your browser URL)');
     }
 
-    // Parse dates
-    const [startYear, startMonth, startDay] = startDateStr.split('-').map(Number);
-    const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
-    const startDate = new Date(startYear, startMonth - 1, startDay);
-    const endDate = new Date(endYear, endMonth - 1, endDay);
+    const projects = Array.isArray(args?.projects)
+      ? args.projects.filter((p: unknown) => typeof p === 'string' && p.trim() !== '')
+      : undefined;
+    const tenant = typeof args?.tenant === 'string' && args.tenant.trim() !== '' ? args.tenant : undefined;
 
-    // Validate range
-    if (startDate > endDate) {
-      throw new Error('start_date must be before or equal to end_date');
+    await this.azureDevOps.initialize({ organization, projects, tenant });
+
+    // Validate before saving so a bad organization name is never persisted.
+    const { identity, projects: visible } = await this.azureDevOps.validate();
+
+    await this.tokenStorage.load();
+    await this.tokenStorage.setAzureDevOps({ organization, projects, tenant });
+
+    const lines = [
+      `✅ Azure DevOps configured for organization "${organization}"`,
+      '',
+      `Authenticated as: ${identity.displayName}${identity.email ? ` <${identity.email}>` : ''}`,
+      `Projects visible: ${visible.length}`,
+    ];
+
+    if (visible.length > 0) {
+      lines.push(`  ${visible.slice(0, 25).join(', ')}${visible.length > 25 ? ', …' : ''}`);
     }
 
-    await this.googleCalendar.initialize(
-      BUNDLED_OAUTH_CREDENTIALS.google.clientId,
-      BUNDLED_OAUTH_CREDENTIALS.google.clientSecret,
-      'http://localhost:8080/callback', // redirectUri not used for token refresh
-      googleTokens,
-      async (refreshedTokens) => {
-        await this.tokenStorage.setGoogleTokens(refreshedTokens);
+    if (projects?.length) {
+      lines.push('', `Scanning limited to: ${projects.join(', ')}`);
+      const unknown = projects.filter((p: string) => !visible.includes(p));
+      if (unknown.length > 0) {
+        lines.push(`⚠ Not found among visible projects: ${unknown.join(', ')}`);
       }
+    } else if (visible.length > 3) {
+      lines.push(
+        '',
+        `⚠ No project scope set, so commit fetching will sweep all ${visible.length} projects and will be slow.`,
+        '  Narrow it by re-running configure_azure_devops with a projects list.'
+      );
+    }
+
+    if (!identity.email) {
+      lines.push(
+        '',
+        '⚠ No account email resolved, so commit lookups will be skipped (commit search matches on author alias).'
+      );
+    }
+
+    lines.push('', 'No token was stored — access is minted on demand via the Azure CLI.');
+
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
+  }
+
+  private async ensureAzureDevOpsReady(): Promise<void> {
+    await this.tokenStorage.load();
+    const settings = this.tokenStorage.getAzureDevOps();
+    if (!settings?.organization) {
+      throw new Error(
+        `Azure DevOps not configured.\n\n${azSetupInstructions()}\n\nThen run configure_azure_devops with your organization name.`
+      );
+    }
+    await this.azureDevOps.initialize(settings);
+  }
+
+  private formatAzureDevOpsActivity(activity: any): string {
+    const parts: string[] = [];
+
+    parts.push(`**Work Items (${activity.workItems.length}):**`);
+    parts.push(
+      activity.workItems.length > 0
+        ? activity.workItems
+            .map((w: any) => {
+              const transition =
+                w.stateTo && w.stateFrom
+                  ? ` (${w.stateFrom} → ${w.stateTo})`
+                  : w.stateTo
+                    ? ` (→ ${w.stateTo})`
+                    : '';
+              return `  - [${w.actions.join(', ')}] ${w.type} #${w.id}: ${w.title}${transition} in ${w.project}`;
+            })
+            .join('\n')
+        : '  (none)'
+    );
+
+    parts.push('');
+    parts.push(`**Pull Requests (${activity.pullRequests.length}):**`);
+    parts.push(
+      activity.pullRequests.length > 0
+        ? activity.pullRequests
+            .map((pr: any) => `  - ${pr.action}: ${pr.title} (#${pr.id}) in ${pr.repository}/${pr.project}`)
+            .join('\n')
+        : '  (none)'
     );
 
-    const forceRefresh = args?.force_refresh ?? false;
+    parts.push('');
+    parts.push(`**Commits (${activity.commits.length}):**`);
+    parts.push(
+      activity.commits.length > 0
+        ? activity.commits.map((c: any) => `  - ${c.message} (${c.repository})`).join('\n')
+        : '  (none)'
+    );
 
-    // Loop through all dates in range and fetch events
-    const allEvents: { [date: string]: any[] } = {};
-    let totalEvents = 0;
-    let cacheHits = 0;
-    let freshFetches = 0;
+    // Never let a partial sweep look like full coverage.
+    const scanned = activity.scanned;
+    parts.push('');
+    parts.push(
+      `ℹ Scanned ${scanned.projects.length} project(s), ${scanned.repositories} repositor${scanned.repositories === 1 ? 'y' : 'ies'}.` +
+        (scanned.commitsSkipped ? ' Commits skipped (no account email resolved).' : '')
+    );
 
-    const currentDate = new Date(startDate);
-    while (currentDate <= endDate) {
-      const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
+    return parts.join('\n');
+  }
 
-      const { meetings, fromCache } = await this.fetchCalendarEventsWithCache(dateStr, true, false, forceRefresh);
-      allEvents[dateStr] = meetings;
-      totalEvents += meetings.length;
-      if (fromCache) cacheHits++;
-      else freshFetches++;
+  private async fetchAzureDevOpsWithCache(
+    dateStr: string,
+    forceRefresh: boolean
+  ): Promise<{ activity: AzureDevOpsActivity; fromCache: boolean }> {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
 
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
+    if (!forceRefresh) {
+      const cached = this.activityCache.getAzureDevOpsActivity(date);
+      if (cached) {
+        await this.sendProgress(`✓ Azure DevOps (${dateStr}) - from cache`);
+        return { activity: cached, fromCache: true };
+      }
     }
 
-    // Format output grouped by date
-    const dateEntries = Object.entries(allEvents)
-      .map(([dateStr, meetings]) => {
-        if (meetings.length === 0) {
-          return `📅 **${dateStr}**\n  - No events`;
-        }
-
-        let details = `📅 **${dateStr}**\n\n**Calendar Events (${meetings.length}):**\n`;
-        details += meetings.map((m: any) => `  - ${m.title || m.summary || 'Unnamed meeting'}`).join('\n');
-        return details;
-      })
-      .join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
-
-    const cacheInfo = cacheHits > 0 || freshFetches > 0
-      ? `📋 Cache: ${cacheHits} hit${cacheHits !== 1 ? 's' : ''}, ${freshFetches} fresh fetch${freshFetches !== 1 ? 'es' : ''}`
-      : '';
-
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `✅ Google Calendar events fetched for ${startDateStr} to ${endDateStr}
-
-**Summary:**
-- Total Events: ${totalEvents}
-${cacheInfo}
-
-**Events by Date:**
-${dateEntries}`,
-        },
-      ],
-    };
+    await this.sendProgress(`⏳ Fetching Azure DevOps activity for ${dateStr}...`);
+    const activity = await this.azureDevOps.getActivityForDate(dateStr);
+    await this.activityCache.setAzureDevOpsActivity(date, activity);
+    await this.sendProgress(
+      `✓ Azure DevOps (${dateStr}) - ${activity.workItems.length} work items, ${activity.pullRequests.length} PRs, ${activity.commits.length} commits`
+    );
+    return { activity, fromCache: false };
   }
 
-  private async handleFetchOutlookCalendarEvents(args: any) {
-    await this.tokenStorage.load();
+  private async handleFetchAzureDevOpsActivity(args: any) {
     await this.activityCache.load();
-    const config = await this.loadConfig();
+    await this.ensureAzureDevOpsReady();
 
-    const outlookTokens = this.tokenStorage.getOutlookTokens();
-    if (!outlookTokens || !config.outlook) {
-      throw new Error('Outlook Calendar not configured. Please use configure_outlook_calendar tool first.');
-    }
+    const forceRefresh = args?.force_refresh ?? false;
+    const dates = this.resolveDateArgs(args);
 
-    // Check if date range is provided
-    if (args.start_date && args.end_date) {
-      // Handle date range
-      return this.handleFetchOutlookCalendarEventsRange(args, config, outlookTokens);
-    } else if (args.date) {
-      // Handle single date
-      return this.handleFetchOutlookCalendarEventsSingle(args, config, outlookTokens);
-    } else {
-      throw new Error('Either date OR start_date+end_date must be provided');
+    if (dates.length === 1) {
+      const dateStr = dates[0];
+      const { activity, fromCache } = await this.fetchAzureDevOpsWithCache(dateStr, forceRefresh);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Azure DevOps activity for ${dateStr} ${fromCache ? '📋 (from cache)' : '🔄 (fresh)'}\n\n${this.formatAzureDevOpsActivity(activity)}`,
+          },
+        ],
+      };
     }
-  }
 
-  private async handleFetchOutlookCalendarEventsSingle(args: any, config: any, outlookTokens: any) {
-    // Validate date format
-    const dateStr = args.date;
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
-      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
-    }
+    const sections: string[] = [];
+    let totalWorkItems = 0;
+    let totalPRs = 0;
+    let totalCommits = 0;
 
-    await this.outlookCalendar.initialize(
-      config.outlook.clientId,
-      config.outlook.clientSecret,
-      config.outlook.tenantId,
-      outlookTokens
-    );
+    for (const dateStr of dates) {
+      const { activity } = await this.fetchAzureDevOpsWithCache(dateStr, forceRefresh);
+      totalWorkItems += activity.workItems.length;
+      totalPRs += activity.pullRequests.length;
+      totalCommits += activity.commits.length;
 
-    const forceRefresh = args?.force_refresh ?? false;
-    const { meetings, fromCache } = await this.fetchCalendarEventsWithCache(dateStr, false, true, forceRefresh);
-    const cacheIndicator = fromCache ? '📋 (from cache)' : '🔄 (fresh)';
+      if (
+        activity.workItems.length === 0 &&
+        activity.pullRequests.length === 0 &&
+        activity.commits.length === 0
+      ) {
+        sections.push(`📅 **${dateStr}**\n  - No activity`);
+      } else {
+        sections.push(`📅 **${dateStr}**\n\n${this.formatAzureDevOpsActivity(activity)}`);
+      }
+    }
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Outlook Calendar events fetched for ${dateStr} ${cacheIndicator}\n\n**Events:** ${meetings.length}\n\nℹ️ **Next steps:** You can now combine this with Git activity to build a complete timesheet entry.`,
+          text:
+            `✅ Azure DevOps activity for ${dates[0]} to ${dates[dates.length - 1]}\n\n` +
+            `**Summary:**\n- Total Work Items: ${totalWorkItems}\n- Total Pull Requests: ${totalPRs}\n- Total Commits: ${totalCommits}\n\n` +
+            `**Activity by Date:**\n${sections.join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n')}`,
         },
       ],
     };
   }
 
-  private async handleFetchOutlookCalendarEventsRange(args: any, config: any, outlookTokens: any) {
-    // Validate date formats
-    const startDateStr = args.start_date;
-    const endDateStr = args.end_date;
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(startDateStr) || !/^\d{4}-\d{2}-\d{2}$/.test(endDateStr)) {
-      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
-    }
-
-    // Parse dates
-    const [startYear, startMonth, startDay] = startDateStr.split('-').map(Number);
-    const [endYear, endMonth, endDay] = endDateStr.split('-').map(Number);
-    const startDate = new Date(startYear, startMonth - 1, startDay);
-    const endDate = new Date(endYear, endMonth - 1, endDay);
-
-    // Validate range
-    if (startDate > endDate) {
-      throw new Error('start_date must be before or equal to end_date');
-    }
+  // -------------------------------------------------------------------------
+  // Outlook (local desktop client)
+  // -------------------------------------------------------------------------
 
-    await this.outlookCalendar.initialize(
-      config.outlook.clientId,
-      config.outlook.clientSecret,
-      config.outlook.tenantId,
-      outlookTokens
-    );
+  private formatCalendarEvents(events: any[]): string {
+    if (events.length === 0) return '  (none)';
+    return events
+      .map((e: any) => {
+        const start = new Date(e.start);
+        const end = new Date(e.end);
+        const hhmm = (d: Date) =>
+          `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+        const attendees = e.attendees ? ` (${e.attendees} attendees)` : '';
+        return `  - ${hhmm(start)}-${hhmm(end)}  ${e.title}${attendees}${describeEventStatus(e)}`;
+      })
+      .join('\n');
+  }
 
-    const forceRefresh = args?.force_refresh ?? false;
+  private async fetchOutlookLocalWithCache(
+    dateStr: string,
+    forceRefresh: boolean,
+    exclude: CalendarExclusion[] = DEFAULT_CALENDAR_EXCLUSIONS
+  ): Promise<{ events: any[]; fromCache: boolean }> {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
 
-    // Loop through all dates in range and fetch events
-    const allEvents: { [date: string]: any[] } = {};
-    let totalEvents = 0;
-    let cacheHits = 0;
-    let freshFetches = 0;
+    if (!forceRefresh) {
+      const cached = this.activityCache.getOutlookCalendarEvents(date);
+      if (cached) {
+        await this.sendProgress(`✓ Outlook Calendar (${dateStr}) - from cache`);
+        return { events: applyCalendarExclusions(cached, exclude), fromCache: true };
+      }
+    }
 
-    const currentDate = new Date(startDate);
-    while (currentDate <= endDate) {
-      const dateStr = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}-${String(currentDate.getDate()).padStart(2, '0')}`;
+    await this.sendProgress(`⏳ Reading local Outlook calendar for ${dateStr}...`);
+    const events = await this.outlookLocal.getEventsForDate(dateStr);
+    await this.activityCache.setOutlookCalendarEvents(date, events);
+    await this.sendProgress(`✓ Outlook Calendar (${dateStr}) - ${events.length} events`);
+    return { events: applyCalendarExclusions(events, exclude), fromCache: false };
+  }
 
-      const { meetings, fromCache } = await this.fetchCalendarEventsWithCache(dateStr, false, true, forceRefresh);
-      allEvents[dateStr] = meetings;
-      totalEvents += meetings.length;
-      if (fromCache) cacheHits++;
-      else freshFetches++;
+  private async handleFetchOutlookLocalEvents(args: any) {
+    await this.activityCache.load();
 
-      // Move to next day
-      currentDate.setDate(currentDate.getDate() + 1);
+    if (!OutlookLocalIntegration.isSupported()) {
+      throw new Error(OutlookLocalIntegration.unsupportedMessage());
     }
 
-    // Format output grouped by date
-    const dateEntries = Object.entries(allEvents)
-      .map(([dateStr, meetings]) => {
-        if (meetings.length === 0) {
-          return `📅 **${dateStr}**\n  - No events`;
-        }
+    const forceRefresh = args?.force_refresh ?? false;
+    const exclude = parseCalendarExclusions(args?.exclude);
+    const dates = this.resolveDateArgs(args);
 
-        let details = `📅 **${dateStr}**\n\n**Calendar Events (${meetings.length}):**\n`;
-        details += meetings.map((m: any) => `  - ${m.title || m.summary || 'Unnamed meeting'}`).join('\n');
-        return details;
-      })
-      .join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n');
+    if (dates.length === 1) {
+      const dateStr = dates[0];
+      const { events, fromCache } = await this.fetchOutlookLocalWithCache(dateStr, forceRefresh, exclude);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Outlook Calendar events for ${dateStr} ${fromCache ? '📋 (from cache)' : '🔄 (fresh)'}\n\n**Calendar Events (${events.length}):**\n${this.formatCalendarEvents(events)}`,
+          },
+        ],
+      };
+    }
 
-    const cacheInfo = cacheHits > 0 || freshFetches > 0
-      ? `📋 Cache: ${cacheHits} hit${cacheHits !== 1 ? 's' : ''}, ${freshFetches} fresh fetch${freshFetches !== 1 ? 'es' : ''}`
-      : '';
+    const sections: string[] = [];
+    let total = 0;
+
+    for (const dateStr of dates) {
+      const { events } = await this.fetchOutlookLocalWithCache(dateStr, forceRefresh, exclude);
+      total += events.length;
+      sections.push(
+        events.length === 0
+          ? `📅 **${dateStr}**\n  - No events`
+          : `📅 **${dateStr}**\n\n**Calendar Events (${events.length}):**\n${this.formatCalendarEvents(events)}`
+      );
+    }
 
     return {
       content: [
         {
           type: 'text',
-          text: `✅ Outlook Calendar events fetched for ${startDateStr} to ${endDateStr}
-
-**Summary:**
-- Total Events: ${totalEvents}
-${cacheInfo}
-
-**Events by Date:**
-${dateEntries}`,
+          text:
+            `✅ Outlook Calendar events for ${dates[0]} to ${dates[dates.length - 1]}\n\n` +
+            `**Summary:**\n- Total Events: ${total}\n\n` +
+            `**Events by Date:**\n${sections.join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n')}`,
         },
       ],
     };
   }
 
-  // Helper method to merge GitLab and GitHub activities
-  private mergeGitActivities(gitlabActivity: any, githubActivity: any): any {
-    return {
-      date: gitlabActivity.date,
-      commits: [...gitlabActivity.commits, ...githubActivity.commits],
-      mergeRequests: [...gitlabActivity.mergeRequests, ...githubActivity.mergeRequests],
-      issues: [...gitlabActivity.issues, ...githubActivity.issues],
-    };
-  }
+  // -------------------------------------------------------------------------
+  // Bitbucket
+  // -------------------------------------------------------------------------
 
-  // Helper method to fetch GitLab activity with caching
-  private async fetchGitLabActivityWithCache(dateStr: string, forceRefresh: boolean): Promise<{ activity: any; fromCache: boolean }> {
-    // Parse date for cache lookup
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const date = new Date(year, month - 1, day);
+  private async handleConfigureBitbucket(args: any) {
+    const token = typeof args?.token === 'string' ? args.token.trim() : '';
+    if (!token) {
+      throw new Error('token is required: a Bitbucket app password (with username) or an access token');
+    }
+    const optional = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined);
+    const url = optional(args?.url);
+    if (url && !/^https?:\/\//i.test(url)) {
+      throw new Error(`Invalid url "${url}". Expected a URL such as https://bitbucket.example.com`);
+    }
+    const settings = { token, username: optional(args?.username), url };
 
-    if (!forceRefresh) {
-      const cached = this.activityCache.getGitLabActivity(date);
-      if (cached) {
-        await this.sendProgress(`✓ GitLab (${dateStr}) - from cache`);
-        return { activity: cached, fromCache: true };
-      }
+    // Validate before saving so rejected credentials are never persisted.
+    const identity = await this.bitbucket.initialize(settings);
+
+    await this.tokenStorage.load();
+    await this.tokenStorage.setBitbucket(settings);
+    await this.activityCache.load();
+    await this.activityCache.clearBitbucket();
+
+    const lines = [
+      `✅ Bitbucket configured for ${this.bitbucket.describe()} (authenticated as ${identity.displayName}).`,
+      '',
+      `Authentication: ${settings.username ? `${settings.username} with an app password / password` : 'access token'}`,
+    ];
+    if (url && !identity.email) {
+      lines.push(
+        '',
+        '⚠ Your Bitbucket profile shows no email address, so commits are matched on your user name only.'
+      );
     }
 
-    await this.sendProgress(`⏳ Fetching GitLab activity for ${dateStr}...`);
-    const activity = await this.gitlab.getActivityForDate(dateStr);
-    await this.activityCache.setGitLabActivity(date, activity);
-    await this.sendProgress(`✓ GitLab (${dateStr}) - ${activity.commits.length} commits, ${activity.mergeRequests.length} MRs`);
-    return { activity, fromCache: false };
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
   }
 
-  // Helper method to fetch GitHub activity with caching
-  private async fetchGitHubActivityWithCache(dateStr: string, forceRefresh: boolean): Promise<{ activity: any; fromCache: boolean }> {
-    // Parse date for cache lookup
+  /** Initializes the stored Bitbucket account, if any. A failure is reported and skipped. */
+  private async initBitbucket(): Promise<boolean> {
+    const settings = this.tokenStorage.getBitbucket();
+    if (!settings?.token) return false;
+    try {
+      await this.bitbucket.initialize(settings);
+      return true;
+    } catch (error: any) {
+      await this.sendProgress(`⚠️ Bitbucket skipped: ${error.message}`, 'warning');
+      return false;
+    }
+  }
+
+  private async fetchBitbucketWithCache(
+    dateStr: string,
+    forceRefresh: boolean
+  ): Promise<{ activity: GitLabActivity; fromCache: boolean }> {
     const [year, month, day] = dateStr.split('-').map(Number);
     const date = new Date(year, month - 1, day);
 
     if (!forceRefresh) {
-      const cached = this.activityCache.getGitLabActivity(date); // Reuse same cache structure
+      const cached = this.activityCache.getBitbucketActivity(date);
       if (cached) {
-        await this.sendProgress(`✓ GitHub (${dateStr}) - from cache`);
+        await this.sendProgress(`✓ Bitbucket (${dateStr}) - from cache`);
         return { activity: cached, fromCache: true };
       }
     }
 
-    await this.sendProgress(`⏳ Fetching GitHub activity for ${dateStr}...`);
-    const activity = await this.github.getActivityForDate(dateStr);
-    await this.activityCache.setGitLabActivity(date, activity); // Reuse same cache structure
-    await this.sendProgress(`✓ GitHub (${dateStr}) - ${activity.commits.length} commits, ${activity.mergeRequests.length} PRs`);
+    await this.sendProgress(`⏳ Fetching Bitbucket activity for ${dateStr}...`);
+    const activity = await this.bitbucket.getActivityForDate(dateStr);
+    await this.activityCache.setBitbucketActivity(date, activity);
+    await this.sendProgress(`✓ Bitbucket (${dateStr}) - ${activity.commits.length} commits, ${activity.mergeRequests.length} PRs`);
     return { activity, fromCache: false };
   }
 
-  // Helper method to fetch calendar events with caching
-  private async fetchCalendarEventsWithCache(
-    dateStr: string,
-    googleAuthenticated: boolean,
-    outlookAuthenticated: boolean,
-    forceRefresh: boolean
-  ): Promise<{ meetings: any[]; fromCache: boolean }> {
-    // Parse date for cache lookup
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const date = new Date(year, month - 1, day);
+  private formatBitbucketActivity(activity: GitLabActivity): string {
+    const commitsText = activity.commits.length > 0
+      ? activity.commits.map(c => `  - ${c.message} (${c.project}${commitDetails(c)})`).join('\n')
+      : '  (none)';
+    const prsText = activity.mergeRequests.length > 0
+      ? activity.mergeRequests.map(pr => `  - ${pr.action}: ${pr.title} (#${pr.id}) in ${pr.project}`).join('\n')
+      : '  (none)';
 
-    let meetings: any[] = [];
-    let fromCache = false;
+    return `**Commits (${activity.commits.length}):**\n${commitsText}\n\n**Pull Requests (${activity.mergeRequests.length}):**\n${prsText}`;
+  }
 
-    // Prioritize Google Calendar
-    if (googleAuthenticated) {
-      if (!forceRefresh) {
-        const cached = this.activityCache.getGoogleCalendarEvents(date);
-        if (cached) {
-          await this.sendProgress(`✓ Google Calendar (${dateStr}) - from cache`);
-          return { meetings: cached, fromCache: true };
-        }
-      }
+  private async handleFetchBitbucketActivity(args: any) {
+    await this.tokenStorage.load();
+    await this.activityCache.load();
 
-      try {
-        await this.sendProgress(`⏳ Fetching Google Calendar events for ${dateStr}...`);
-        meetings = await this.googleCalendar.getEventsForDate(dateStr);
-        await this.activityCache.setGoogleCalendarEvents(date, meetings);
-        await this.sendProgress(`✓ Google Calendar (${dateStr}) - ${meetings.length} events`);
-      } catch (error) {
-        await this.sendProgress(`⚠️ Google Calendar (${dateStr}) - fetch failed`, 'warning');
-        console.error('Error fetching Google Calendar events:', error);
-      }
+    const settings = this.tokenStorage.getBitbucket();
+    if (!settings?.token) {
+      throw new Error('Bitbucket not configured. Please use configure_bitbucket tool first.');
     }
+    await this.bitbucket.initialize(settings);
 
-    // If no Google meetings, try Outlook
-    if (meetings.length === 0 && outlookAuthenticated) {
-      if (!forceRefresh) {
-        const cached = this.activityCache.getOutlookCalendarEvents(date);
-        if (cached) {
-          await this.sendProgress(`✓ Outlook Calendar (${dateStr}) - from cache`);
-          return { meetings: cached, fromCache: true };
-        }
-      }
-
-      try {
-        await this.sendProgress(`⏳ Fetching Outlook Calendar events for ${dateStr}...`);
-        meetings = await this.outlookCalendar.getEventsForDate(dateStr);
-        await this.activityCache.setOutlookCalendarEvents(date, meetings);
-        await this.sendProgress(`✓ Outlook Calendar (${dateStr}) - ${meetings.length} events`);
-      } catch (error) {
-        await this.sendProgress(`⚠️ Outlook Calendar (${dateStr}) - fetch failed`, 'warning');
-        console.error('Error fetching Outlook Calendar events:', error);
-      }
+    const forceRefresh = args?.force_refresh ?? false;
+    const today = formatDate(todayDate());
+    const dates = this.resolveDateArgs(args).filter(dateStr => dateStr <= today);
+    if (dates.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'ℹ️ Git activity can only be fetched for past and present dates.' }],
+      };
     }
 
-    return { meetings, fromCache };
-  }
-
-  // Batch parallel fetch for multiple days with error isolation
-  private async fetchMultipleDaysParallel(
-    dates: Date[],
-    gitlabAuthenticated: boolean,
-    githubAuthenticated: boolean,
-    googleAuthenticated: boolean,
-    outlookAuthenticated: boolean,
-    forceRefresh: boolean
-  ): Promise<Array<{ activity: DayActivity; cacheInfo: { gitlab: boolean; github: boolean; calendar: boolean } }>> {
-    // Send detailed source notifications
-    const dateRange = dates.length > 1
-      ? `${dates[0].toISOString().split('T')[0]} to ${dates[dates.length - 1].toISOString().split('T')[0]}`
-      : dates[0].toISOString().split('T')[0];
-
-    const sources: string[] = [];
-    if (gitlabAuthenticated) sources.push('GitLab');
-    if (githubAuthenticated) sources.push('GitHub');
-    if (googleAuthenticated) sources.push('Google Calendar');
-    if (outlookAuthenticated) sources.push('Outlook Calendar');
-
-    if (sources.length > 0) {
-      await this.sendProgress(`🔄 Fetching from ${sources.join(', ')} for ${dateRange}...`);
+    if (dates.length === 1) {
+      const dateStr = dates[0];
+      const { activity, fromCache } = await this.fetchBitbucketWithCache(dateStr, forceRefresh);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Bitbucket activity for ${dateStr} ${fromCache ? '📋 (from cache)' : '🔄 (fresh)'}\n\n${this.formatBitbucketActivity(activity)}`,
+          },
+        ],
+      };
     }
 
-    // Fetch all days in parallel
-    const promises = dates.map(date => {
-      // Convert date to YYYY-MM-DD string
-      const year = date.getFullYear();
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const day = String(date.getDate()).padStart(2, '0');
-      const dateStr = `${year}-${month}-${day}`;
+    const sections: string[] = [];
+    let totalCommits = 0;
+    let totalPRs = 0;
 
-      return this.fetchDayActivityParallel(
-        dateStr,
-        gitlabAuthenticated,
-        githubAuthenticated,
-        googleAuthenticated,
-        outlookAuthenticated,
-        forceRefresh
+    for (const dateStr of dates) {
+      const { activity } = await this.fetchBitbucketWithCache(dateStr, forceRefresh);
+      totalCommits += activity.commits.length;
+      totalPRs += activity.mergeRequests.length;
+      sections.push(
+        activity.commits.length === 0 && activity.mergeRequests.length === 0
+          ? `📅 **${dateStr}**\n  - No activity`
+          : `📅 **${dateStr}**\n\n${this.formatBitbucketActivity(activity)}`
       );
-    });
+    }
 
-    return await Promise.all(promises);
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `✅ Bitbucket activity for ${dates[0]} to ${dates[dates.length - 1]}\n\n` +
+            `**Summary:**\n- Total Commits: ${totalCommits}\n- Total Pull Requests: ${totalPRs}\n\n` +
+            `**Activity by Date:**\n${sections.join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n')}`,
+        },
+      ],
+    };
   }
 
-  // Parallel fetch for a single day with error isolation
-  private async fetchDayActivityParallel(
-    dateStr: string,
-    gitlabAuthenticated: boolean,
-    githubAuthenticated: boolean,
-    googleAuthenticated: boolean,
-    outlookAuthenticated: boolean,
-    forceRefresh: boolean
-  ): Promise<{ activity: DayActivity; cacheInfo: { gitlab: boolean; github: boolean; calendar: boolean } }> {
-    // Parse date for fallback data
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const date = new Date(year, month - 1, day);
-
-    // Fetch all sources in parallel with error isolation
-    const [gitlabResult, githubResult, calendarResult] = await Promise.allSettled([
-      gitlabAuthenticated ? this.fetchGitLabActivityWithCache(dateStr, forceRefresh) : Promise.resolve(null),
-      githubAuthenticated ? this.fetchGitHubActivityWithCache(dateStr, forceRefresh) : Promise.resolve(null),
-      this.fetchCalendarEventsWithCache(dateStr, googleAuthenticated, outlookAuthenticated, forceRefresh),
-    ]);
+  // -------------------------------------------------------------------------
+  // Gitea / Forgejo
+  // -------------------------------------------------------------------------
 
-    // Extract GitLab activity with error handling
-    let gitlabActivity = { date, commits: [], mergeRequests: [], issues: [] };
-    let gitlabCached = false;
-    if (gitlabResult.status === 'fulfilled' && gitlabResult.value) {
-      gitlabActivity = gitlabResult.value.activity;
-      gitlabCached = gitlabResult.value.fromCache;
-    } else if (gitlabResult.status === 'rejected') {
-      console.error(`GitLab fetch failed for ${dateStr}:`, gitlabResult.reason);
+  private async handleConfigureGitea(args: any) {
+    const optional = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined);
+    const url = optional(args?.url);
+    const token = optional(args?.token);
+    if (!url || !/^https?:\/\//i.test(url)) {
+      throw new Error('url is required: your Gitea or Forgejo instance, e.g. https://gitea.example.com');
     }
-
-    // Extract GitHub activity with error handling
-    let githubActivity = { date, commits: [], mergeRequests: [], issues: [] };
-    let githubCached = false;
-    if (githubResult.status === 'fulfilled' && githubResult.value) {
-      githubActivity = githubResult.value.activity;
-      githubCached = githubResult.value.fromCache;
-    } else if (githubResult.status === 'rejected') {
-      console.error(`GitHub fetch failed for ${date.toISOString()}:`, githubResult.reason);
+    if (!token) {
+      throw new Error('token is required: an access token from Settings → Applications');
     }
 
-    // Extract calendar events with error handling
-    let meetings: any[] = [];
-    let calendarCached = false;
-    if (calendarResult.status === 'fulfilled') {
-      meetings = calendarResult.value.meetings;
-      calendarCached = calendarResult.value.fromCache;
-    } else if (calendarResult.status === 'rejected') {
-      console.error(`Calendar fetch failed for ${date.toISOString()}:`, calendarResult.reason);
-    }
+    // Validate before saving so a rejected token is never persisted.
+    const identity = await this.gitea.initialize({ url, token });
+
+    await this.tokenStorage.load();
+    await this.tokenStorage.setGitea({ url: this.gitea.describe(), token });
+    await this.activityCache.load();
+    await this.activityCache.clearGitea();
 
-    // Merge GitLab and GitHub activities
-    const mergedActivity = this.mergeGitActivities(gitlabActivity, githubActivity);
+    const lines = [`✅ Gitea configured for ${this.gitea.describe()} (authenticated as ${identity.login}).`];
+    if (identity.emails.length === 0) {
+      lines.push(
+        '',
+        '⚠ No email address was readable for your account, so pushed commits are matched on your name only.'
+      );
+    }
 
-    return {
-      activity: {
-        date,
-        meetings,
-        gitlabActivity: mergedActivity,
-        description: '',
-      },
-      cacheInfo: {
-        gitlab: gitlabCached,
-        github: githubCached,
-        calendar: calendarCached,
-      },
-    };
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
   }
 
-  // -------------------------------------------------------------------------
-  // Azure DevOps
-  // -------------------------------------------------------------------------
-
-  private async handleConfigureAzureDevOps(args: any) {
-    const organization = args?.organization;
-    if (!organization || typeof organization !== 'string') {
-      throw new Error('organization is required (the segment after dev.azure.com/ in your browser URL)');
+  /** Initializes the stored Gitea instance, if any. A failure is reported and skipped. */
+  private async initGitea(): Promise<boolean> {
+    const settings = this.tokenStorage.getGitea();
+    if (!settings?.token) return false;
+    try {
+      await this.gitea.initialize(settings);
+      return true;
+    } catch (error: any) {
+      await this.sendProgress(`⚠️ Gitea skipped: ${error.message}`, 'warning');
+      return false;
     }
+  }
 
-    const projects = Array.isArray(args?.projects)
-      ? args.projects.filter((p: unknown) => typeof p === 'string' && p.trim() !== '')
-      : undefined;
-    const tenant = typeof args?.tenant === 'string' && args.tenant.trim() !== '' ? args.tenant : undefined;
+  private async fetchGiteaWithCache(
+    dateStr: string,
+    forceRefresh: boolean
+  ): Promise<{ activity: GitLabActivity; fromCache: boolean }> {
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
 
-    await this.azureDevOps.initialize({ organization, projects, tenant });
+    if (!forceRefresh) {
+      const cached = this.activityCache.getGiteaActivity(date);
+      if (cached) {
+        await this.sendProgress(`✓ Gitea (${dateStr}) - from cache`);
+        return { activity: cached, fromCache: true };
+      }
+    }
 
-    // Validate before saving so a bad organization name is never persisted.
-    const { identity, projects: visible } = await this.azureDevOps.validate();
+    await this.sendProgress(`⏳ Fetching Gitea activity for ${dateStr}...`);
+    const activity = await this.gitea.getActivityForDate(dateStr);
+    await this.activityCache.setGiteaActivity(date, activity);
+    await this.sendProgress(`✓ Gitea (${dateStr}) - ${activity.commits.length} commits, ${activity.mergeRequests.length} PRs`);
+    return { activity, fromCache: false };
+  }
 
-    await this.tokenStorage.load();
-    await this.tokenStorage.setAzureDevOps({ organization, projects, tenant });
+  private formatGiteaActivity(activity: GitLabActivity): string {
+    const commitsText = activity.commits.length > 0
+      ? activity.commits.map(c => `  - ${c.message} (${c.project} @ ${c.branch})`).join('\n')
+      : '  (none)';
+    const prsText = activity.mergeRequests.length > 0
+      ? activity.mergeRequests.map(pr => `  - ${pr.action}: ${pr.title} (#${pr.id}) in ${pr.project}`).join('\n')
+      : '  (none)';
+    const issuesText = activity.issues.length > 0
+      ? activity.issues.map(i => `  - ${i.action}: ${i.title} (#${i.id}) in ${i.project}`).join('\n')
+      : '  (none)';
 
-    const lines = [
-      `✅ Azure DevOps configured for organization "${organization}"`,
-      '',
-      `Authenticated as: ${identity.displayName}${identity.email ? ` <${identity.email}>` : ''}`,
-      `Projects visible: ${visible.length}`,
-    ];
+    return (
+      `**Commits (${activity.commits.length}):**\n${commitsText}\n\n` +
+      `**Pull Requests (${activity.mergeRequests.length}):**\n${prsText}\n\n` +
+      `**Issues (${activity.issues.length}):**\n${issuesText}`
+    );
+  }
 
-    if (visible.length > 0) {
-      lines.push(`  ${visible.slice(0, 25).join(', ')}${visible.length > 25 ? ', …' : ''}`);
-    }
+  private async handleFetchGiteaActivity(args: any) {
+    await this.tokenStorage.load();
+    await this.activityCache.load();
 
-    if (projects?.length) {
-      lines.push('', `Scanning limited to: ${projects.join(', ')}`);
-      const unknown = projects.filter((p: string) => !visible.includes(p));
-      if (unknown.length > 0) {
-        lines.push(`⚠ Not found among visible projects: ${unknown.join(', ')}`);
-      }
-    } else if (visible.length > 3) {
-      lines.push(
-        '',
-        `⚠ No project scope set, so commit fetching will sweep all ${visible.length} projects and will be slow.`,
-        '  Narrow it by re-running configure_azure_devops with a projects list.'
-      );
+    const settings = this.tokenStorage.getGitea();
+    if (!settings?.token) {
+      throw new Error('Gitea not configured. Please use configure_gitea tool first.');
     }
+    await this.gitea.initialize(settings);
 
-    if (!identity.email) {
-      lines.push(
-        '',
-        '⚠ No account email resolved, so commit lookups will be skipped (commit search matches on author alias).'
-      );
+    const forceRefresh = args?.force_refresh ?? false;
+    const today = formatDate(todayDate());
+    const dates = this.resolveDateArgs(args).filter(dateStr => dateStr <= today);
+    if (dates.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'ℹ️ Git activity can only be fetched for past and present dates.' }],
+      };
     }
 
-    lines.push('', 'No token was stored — access is minted on demand via the Azure CLI.');
+    if (dates.length === 1) {
+      const dateStr = dates[0];
+      const { activity, fromCache } = await this.fetchGiteaWithCache(dateStr, forceRefresh);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Gitea activity for ${dateStr} ${fromCache ? '📋 (from cache)' : '🔄 (fresh)'}\n\n${this.formatGiteaActivity(activity)}`,
+          },
+        ],
+      };
+    }
 
-    return { content: [{ type: 'text', text: lines.join('\n') }] };
-  }
+    const sections: string[] = [];
+    let totalCommits = 0;
+    let totalPRs = 0;
+    let totalIssues = 0;
 
-  private async ensureAzureDevOpsReady(): Promise<void> {
-    await this.tokenStorage.load();
-    const settings = this.tokenStorage.getAzureDevOps();
-    if (!settings?.organization) {
-      throw new Error(
-        `Azure DevOps not configured.\n\n${azSetupInstructions()}\n\nThen run configure_azure_devops with your organization name.`
+    for (const dateStr of dates) {
+      const { activity } = await this.fetchGiteaWithCache(dateStr, forceRefresh);
+      totalCommits += activity.commits.length;
+      totalPRs += activity.mergeRequests.length;
+      totalIssues += activity.issues.length;
+      sections.push(
+        activity.commits.length + activity.mergeRequests.length + activity.issues.length === 0
+          ? `📅 **${dateStr}**\n  - No activity`
+          : `📅 **${dateStr}**\n\n${this.formatGiteaActivity(activity)}`
       );
     }
-    await this.azureDevOps.initialize(settings);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `✅ Gitea activity for ${dates[0]} to ${dates[dates.length - 1]}\n\n` +
+            `**Summary:**\n- Total Commits: ${totalCommits}\n- Total Pull Requests: ${totalPRs}\n- Total Issues: ${totalIssues}\n\n` +
+            `**Activity by Date:**\n${sections.join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n')}`,
+        },
+      ],
+    };
   }
 
-  private formatAzureDevOpsActivity(activity: any): string {
-    const parts: string[] = [];
+  // -------------------------------------------------------------------------
+  // Jira
+  // -------------------------------------------------------------------------
 
-    parts.push(`**Work Items (${activity.workItems.length}):**`);
-    parts.push(
-      activity.workItems.length > 0
-        ? activity.workItems
-            .map((w: any) => {
-              const transition =
-                w.stateTo && w.stateFrom
-                  ? ` (${w.stateFrom} → ${w.stateTo})`
-                  : w.stateTo
-                    ? ` (→ ${w.stateTo})`
-                    : '';
-              return `  - [${w.actions.join(', ')}] ${w.type} #${w.id}: ${w.title}${transition} in ${w.project}`;
-            })
-            .join('\n')
-        : '  (none)'
-    );
+  private async handleConfigureJira(args: any) {
+    const optional = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined);
+    const url = optional(args?.url);
+    const token = optional(args?.token);
+    if (!url || !/^https?:\/\//i.test(url)) {
+      throw new Error('url is required: your Jira site, e.g. https://acme.atlassian.net');
+    }
+    if (!token) {
+      throw new Error('token is required: an API token (Jira Cloud) or a personal access token (Data Center)');
+    }
+    const settings = { url, token, email: optional(args?.email) };
 
-    parts.push('');
-    parts.push(`**Pull Requests (${activity.pullRequests.length}):**`);
-    parts.push(
-      activity.pullRequests.length > 0
-        ? activity.pullRequests
-            .map((pr: any) => `  - ${pr.action}: ${pr.title} (#${pr.id}) in ${pr.repository}/${pr.project}`)
-            .join('\n')
-        : '  (none)'
-    );
+    // Validate before saving so rejected credentials are never persisted.
+    const identity = await this.jira.initialize(settings);
 
-    parts.push('');
-    parts.push(`**Commits (${activity.commits.length}):**`);
-    parts.push(
-      activity.commits.length > 0
-        ? activity.commits.map((c: any) => `  - ${c.message} (${c.repository})`).join('\n')
-        : '  (none)'
-    );
+    await this.tokenStorage.load();
+    await this.tokenStorage.setJira({ ...settings, url: this.jira.describe() });
+    await this.activityCache.load();
+    await this.activityCache.clearJira();
 
-    // Never let a partial sweep look like full coverage.
-    const scanned = activity.scanned;
-    parts.push('');
-    parts.push(
-      `ℹ Scanned ${scanned.projects.length} project(s), ${scanned.repositories} repositor${scanned.repositories === 1 ? 'y' : 'ies'}.` +
-        (scanned.commitsSkipped ? ' Commits skipped (no account email resolved).' : '')
-    );
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Jira configured for ${this.jira.describe()} (authenticated as ${identity.displayName}).\n\nIssues you create, transition, comment on or log work against are now part of fetch_jira_activity and generate_timesheet.`,
+        },
+      ],
+    };
+  }
 
-    return parts.join('\n');
+  /** Initializes the stored Jira site, if any. A failure is reported and skipped. */
+  private async initJira(): Promise<boolean> {
+    const settings = this.tokenStorage.getJira();
+    if (!settings?.token) return false;
+    try {
+      await this.jira.initialize(settings);
+      return true;
+    } catch (error: any) {
+      await this.sendProgress(`⚠️ Jira skipped: ${error.message}`, 'warning');
+      return false;
+    }
   }
 
-  private async fetchAzureDevOpsWithCache(
+  private async fetchJiraWithCache(
     dateStr: string,
     forceRefresh: boolean
-  ): Promise<{ activity: any; fromCache: boolean }> {
+  ): Promise<{ activity: GitLabActivity; fromCache: boolean }> {
     const [year, month, day] = dateStr.split('-').map(Number);
     const date = new Date(year, month - 1, day);
 
     if (!forceRefresh) {
-      const cached = this.activityCache.getAzureDevOpsActivity(date);
+      const cached = this.activityCache.getJiraActivity(date);
       if (cached) {
-        await this.sendProgress(`✓ Azure DevOps (${dateStr}) - from cache`);
+        await this.sendProgress(`✓ Jira (${dateStr}) - from cache`);
         return { activity: cached, fromCache: true };
       }
     }
 
-    await this.sendProgress(`⏳ Fetching Azure DevOps activity for ${dateStr}...`);
-    const activity = await this.azureDevOps.getActivityForDate(dateStr);
-    await this.activityCache.setAzureDevOpsActivity(date, activity);
-    await this.sendProgress(
-      `✓ Azure DevOps (${dateStr}) - ${activity.workItems.length} work items, ${activity.pullRequests.length} PRs, ${activity.commits.length} commits`
-    );
+    await this.sendProgress(`⏳ Fetching Jira activity for ${dateStr}...`);
+    const activity = await this.jira.getActivityForDate(dateStr);
+    await this.activityCache.setJiraActivity(date, activity);
+    await this.sendProgress(`✓ Jira (${dateStr}) - ${activity.issues.length} issue updates`);
     return { activity, fromCache: false };
   }
 
-  private async handleFetchAzureDevOpsActivity(args: any) {
+  private formatJiraIssues(issues: GitLabActivity['issues']): string {
+    if (issues.length === 0) return '  (none)';
+    return issues
+      .map(i => `  - ${i.action}: ${i.title} in ${i.project}${i.details ? ` (${i.details})` : ''}`)
+      .join('\n');
+  }
+
+  private async handleFetchJiraActivity(args: any) {
+    await this.tokenStorage.load();
     await this.activityCache.load();
-    await this.ensureAzureDevOpsReady();
+
+    const settings = this.tokenStorage.getJira();
+    if (!settings?.token) {
+      throw new Error('Jira not configured. Please use configure_jira tool first.');
+    }
+    await this.jira.initialize(settings);
 
     const forceRefresh = args?.force_refresh ?? false;
-    const dates = this.resolveDateArgs(args);
+    const today = formatDate(todayDate());
+    const dates = this.resolveDateArgs(args).filter(dateStr => dateStr <= today);
+    if (dates.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'ℹ️ Jira activity can only be fetched for past and present dates.' }],
+      };
+    }
 
     if (dates.length === 1) {
       const dateStr = dates[0];
-      const { activity, fromCache } = await this.fetchAzureDevOpsWithCache(dateStr, forceRefresh);
+      const { activity, fromCache } = await this.fetchJiraWithCache(dateStr, forceRefresh);
       return {
         content: [
           {
             type: 'text',
-            text: `✅ Azure DevOps activity for ${dateStr} ${fromCache ? '📋 (from cache)' : '🔄 (fresh)'}\n\n${this.formatAzureDevOpsActivity(activity)}`,
+            text: `✅ Jira activity for ${dateStr} ${fromCache ? '📋 (from cache)' : '🔄 (fresh)'}\n\n**Issues (${activity.issues.length}):**\n${this.formatJiraIssues(activity.issues)}`,
           },
         ],
       };
     }
 
     const sections: string[] = [];
-    let totalWorkItems = 0;
-    let totalPRs = 0;
-    let totalCommits = 0;
+    let total = 0;
 
     for (const dateStr of dates) {
-      const { activity } = await this.fetchAzureDevOpsWithCache(dateStr, forceRefresh);
-      totalWorkItems += activity.workItems.length;
-      totalPRs += activity.pullRequests.length;
-      totalCommits += activity.commits.length;
+      const { activity } = await this.fetchJiraWithCache(dateStr, forceRefresh);
+      total += activity.issues.length;
+      sections.push(
+        activity.issues.length === 0
+          ? `📅 **${dateStr}**\n  - No activity`
+          : `📅 **${dateStr}**\n\n**Issues (${activity.issues.length}):**\n${this.formatJiraIssues(activity.issues)}`
+      );
+    }
 
-      if (
-        activity.workItems.length === 0 &&
-        activity.pullRequests.length === 0 &&
-        activity.commits.length === 0
-      ) {
-        sections.push(`📅 **${dateStr}**\n  - No activity`);
-      } else {
-        sections.push(`📅 **${dateStr}**\n\n${this.formatAzureDevOpsActivity(activity)}`);
-      }
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `✅ Jira activity for ${dates[0]} to ${dates[dates.length - 1]}\n\n` +
+            `**Summary:**\n- Total Issue Updates: ${total}\n\n` +
+            `**Activity by Date:**\n${sections.join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n')}`,
+        },
+      ],
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Local git repositories
+  // -------------------------------------------------------------------------
+
+  private async handleFetchLocalGitActivity(args: any) {
+    const config = await this.loadConfig();
+    if (!config.localGit) {
+      throw new Error(
+        'Local git not configured. Add a "localGit" block to the config file, e.g. {"localGit": {"directories": ["~/code"]}}.'
+      );
+    }
+    await this.localGit.initialize(config.localGit);
+
+    const today = formatDate(todayDate());
+    const dates = this.resolveDateArgs(args).filter(dateStr => dateStr <= today);
+    if (dates.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'ℹ️ Git activity can only be fetched for past and present dates.' }],
+      };
+    }
+
+    const repositories = await this.localGit.getRepositories();
+    await this.sendProgress(`⏳ Reading ${repositories.length} local repositories for ${dates[0]}${dates.length > 1 ? ` to ${dates[dates.length - 1]}` : ''}...`);
+    const byDate = await this.localGit.getActivityForDates(dates);
+
+    const formatCommits = (commits: GitLabActivity['commits']) =>
+      commits.length > 0
+        ? commits.map(c => `  - ${c.message} (${c.project} @ ${c.branch}${commitDetails(c)})`).join('\n')
+        : '  (none)';
+    const header = `📂 Repositories scanned: ${repositories.length}`;
+
+    if (dates.length === 1) {
+      const { commits } = byDate.get(dates[0])!;
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Local git activity for ${dates[0]}\n${header}\n\n**Commits (${commits.length}):**\n${formatCommits(commits)}`,
+          },
+        ],
+      };
     }
 
+    let total = 0;
+    const sections = dates.map(dateStr => {
+      const { commits } = byDate.get(dateStr)!;
+      total += commits.length;
+      return commits.length === 0
+        ? `📅 **${dateStr}**\n  - No commits`
+        : `📅 **${dateStr}**\n\n**Commits (${commits.length}):**\n${formatCommits(commits)}`;
+    });
+
     return {
       content: [
         {
           type: 'text',
           text:
-            `✅ Azure DevOps activity for ${dates[0]} to ${dates[dates.length - 1]}\n\n` +
-            `**Summary:**\n- Total Work Items: ${totalWorkItems}\n- Total Pull Requests: ${totalPRs}\n- Total Commits: ${totalCommits}\n\n` +
+            `✅ Local git activity for ${dates[0]} to ${dates[dates.length - 1]}\n${header}\n\n` +
+            `**Summary:**\n- Total Commits: ${total}\n\n` +
             `**Activity by Date:**\n${sections.join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n')}`,
         },
       ],
@@ -1961,63 +4653,108 @@ ${dateEntries}`,
   }
 
   // -------------------------------------------------------------------------
-  // Outlook (local desktop client)
+  // ICS / CalDAV calendar
   // -------------------------------------------------------------------------
 
-  private formatCalendarEvents(events: any[]): string {
-    if (events.length === 0) return '  (none)';
-    return events
-      .map((e: any) => {
-        const start = new Date(e.start);
-        const end = new Date(e.end);
-        const hhmm = (d: Date) =>
-          `${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
-        const attendees = e.attendees ? ` (${e.attendees} attendees)` : '';
-        return `  - ${hhmm(start)}-${hhmm(end)}  ${e.title}${attendees}`;
-      })
-      .join('\n');
+  private async handleConfigureIcsCalendar(args: any) {
+    const source = typeof args?.source === 'string' ? args.source.trim() : '';
+    if (!source) {
+      throw new Error('source is required: a path to an .ics file, or an iCalendar or CalDAV URL');
+    }
+    const optional = (value: unknown) => (typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined);
+    const settings = {
+      source,
+      username: optional(args?.username),
+      password: typeof args?.password === 'string' && args.password !== '' ? args.password : undefined,
+      email: optional(args?.email),
+    };
+
+    await this.icsCalendar.initialize(settings);
+
+    // Validate before saving so an unreadable source is never persisted.
+    const today = formatDate(todayDate());
+    const events = await this.icsCalendar.getEventsForDate(today);
+
+    await this.tokenStorage.load();
+    await this.tokenStorage.setIcsCalendar(settings);
+    await this.activityCache.load();
+    await this.activityCache.clearIcsCalendar();
+
+    const lines = [
+      `✅ ICS calendar configured: ${this.icsCalendar.describeSource()}`,
+      '',
+      `Events today (${today}): ${events.length}`,
+      this.formatCalendarEvents(events),
+    ];
+    if (!settings.email) {
+      lines.push(
+        '',
+        'ℹ️ No email set, so invitations are not filtered by your RSVP. Re-run with email to skip declined meetings.'
+      );
+    }
+
+    return { content: [{ type: 'text', text: lines.join('\n') }] };
   }
 
-  private async fetchOutlookLocalWithCache(
+  private async fetchIcsCalendarWithCache(
     dateStr: string,
     forceRefresh: boolean
-  ): Promise<{ events: any[]; fromCache: boolean }> {
+  ): Promise<{ meetings: any[]; fromCache: boolean }> {
     const [year, month, day] = dateStr.split('-').map(Number);
     const date = new Date(year, month - 1, day);
 
     if (!forceRefresh) {
-      const cached = this.activityCache.getOutlookCalendarEvents(date);
+      const cached = this.activityCache.getIcsCalendarEvents(date);
       if (cached) {
-        await this.sendProgress(`✓ Outlook Calendar (${dateStr}) - from cache`);
-        return { events: cached, fromCache: true };
+        await this.sendProgress(`✓ ICS Calendar (${dateStr}) - from cache`);
+        return { meetings: cached, fromCache: true };
       }
     }
 
-    await this.sendProgress(`⏳ Reading local Outlook calendar for ${dateStr}...`);
-    const events = await this.outlookLocal.getEventsForDate(dateStr);
-    await this.activityCache.setOutlookCalendarEvents(date, events);
-    await this.sendProgress(`✓ Outlook Calendar (${dateStr}) - ${events.length} events`);
-    return { events, fromCache: false };
+    await this.sendProgress(`⏳ Fetching ICS Calendar events for ${dateStr}...`);
+    const meetings = await this.icsCalendar.getEventsForDate(dateStr);
+    await this.activityCache.setIcsCalendarEvents(date, meetings);
+    await this.sendProgress(`✓ ICS Calendar (${dateStr}) - ${meetings.length} events`);
+    return { meetings, fromCache: false };
   }
 
-  private async handleFetchOutlookLocalEvents(args: any) {
+  /** As fetchIcsCalendarWithCache, but a failure leaves the day without ICS events instead of failing it. */
+  private async fetchIcsCalendarOrEmpty(
+    dateStr: string,
+    forceRefresh: boolean
+  ): Promise<{ meetings: any[]; fromCache: boolean }> {
+    try {
+      return await this.fetchIcsCalendarWithCache(dateStr, forceRefresh);
+    } catch (error) {
+      await this.sendProgress(`⚠️ ICS Calendar (${dateStr}) - fetch failed`, 'warning');
+      console.error('Error fetching ICS Calendar events:', error);
+      return { meetings: [], fromCache: false };
+    }
+  }
+
+  private async handleFetchIcsCalendarEvents(args: any) {
+    await this.tokenStorage.load();
     await this.activityCache.load();
 
-    if (!OutlookLocalIntegration.isSupported()) {
-      throw new Error(OutlookLocalIntegration.unsupportedMessage());
+    const settings = this.tokenStorage.getIcsCalendar();
+    if (!settings?.source) {
+      throw new Error('ICS calendar not configured. Please use configure_ics_calendar tool first.');
     }
+    await this.icsCalendar.initialize(settings);
 
     const forceRefresh = args?.force_refresh ?? false;
+    const exclude = parseCalendarExclusions(args?.exclude);
     const dates = this.resolveDateArgs(args);
 
     if (dates.length === 1) {
       const dateStr = dates[0];
-      const { events, fromCache } = await this.fetchOutlookLocalWithCache(dateStr, forceRefresh);
+      const { meetings, fromCache } = await this.fetchIcsCalendarWithCache(dateStr, forceRefresh);
+      const events = applyCalendarExclusions(meetings, exclude);
       return {
         content: [
           {
             type: 'text',
-            text: `✅ Outlook Calendar events for ${dateStr} ${fromCache ? '📋 (from cache)' : '🔄 (fresh)'}\n\n**Calendar Events (${events.length}):**\n${this.formatCalendarEvents(events)}`,
+            text: `✅ ICS Calendar events for ${dateStr} ${fromCache ? '📋 (from cache)' : '🔄 (fresh)'}\n\n**Calendar Events (${events.length}):**\n${this.formatCalendarEvents(events)}`,
           },
         ],
       };
@@ -2027,7 +4764,8 @@ ${dateEntries}`,
     let total = 0;
 
     for (const dateStr of dates) {
-      const { events } = await this.fetchOutlookLocalWithCache(dateStr, forceRefresh);
+      const { meetings } = await this.fetchIcsCalendarWithCache(dateStr, forceRefresh);
+      const events = applyCalendarExclusions(meetings, exclude);
       total += events.length;
       sections.push(
         events.length === 0
@@ -2041,7 +4779,7 @@ ${dateEntries}`,
         {
           type: 'text',
           text:
-            `✅ Outlook Calendar events for ${dates[0]} to ${dates[dates.length - 1]}\n\n` +
+            `✅ ICS Calendar events for ${dates[0]} to ${dates[dates.length - 1]}\n\n` +
             `**Summary:**\n- Total Events: ${total}\n\n` +
             `**Events by Date:**\n${sections.join('\n\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n\n')}`,
         },
@@ -1,5 +1,6 @@
 import { exec } from 'child_process';
 import { AzureDevOpsActivity } from '../types/index.js';
+import { zonedDayBounds } from '../utils/timezone.js';
 
 /**
  * Azure DevOps activity via the Azure CLI.
@@ -481,14 +482,13 @@ export class AzureDevOpsIntegration {
 
     const settings = this.requireSettings();
     const [year, month, day] = dateStr.split('-').map(Number);
-    const dayStart = new Date(year, month - 1, day, 0, 0, 0);
-    const dayEnd = new Date(year, month - 1, day + 1, 0, 0, 0);
+    const { start: dayStart, end: dayEnd } = zonedDayBounds(dateStr);
 
     const identity = await this.getIdentity();
     const projects = await this.resolveProjects();
 
     const activity: AzureDevOpsActivity = {
-      date: dayStart,
+      date: new Date(year, month - 1, day),
       workItems: [],
       pullRequests: [],
       commits: [],
@@ -0,0 +1,413 @@
+import { GitLabActivity } from '../types/index.js';
+import { zonedDateKey, zonedDayBounds } from '../utils/timezone.js';
+
+/**
+ * Bitbucket Cloud (bitbucket.org) and Bitbucket Data Center / Server.
+ *
+ * Cloud authenticates with a username and app password, or an access token;
+ * Data Center with an HTTP access token, or a username and password. The two
+ * products share a name but not an API, so each has its own fetch path
+ * producing the shared activity shape.
+ */
+
+export const BITBUCKET_CLOUD_URL = 'https://bitbucket.org';
+const CLOUD_API_URL = 'https://api.bitbucket.org/2.0';
+const FETCH_TIMEOUT_MS = 30_000;
+/** Repositories scanned per day, most recently updated first (as GitHub's 50). */
+const MAX_REPOSITORIES = 50;
+/** Pages of commits read per repository before giving up on reaching the day. */
+const MAX_COMMIT_PAGES = 5;
+
+export interface BitbucketSettings {
+  /** Web URL of a Data Center instance. Absent means Bitbucket Cloud. */
+  url?: string;
+  /** Username for basic auth (app password or password). Absent means `token` is a bearer access token. */
+  username?: string;
+  token: string;
+}
+
+export interface BitbucketIdentity {
+  /** Cloud account UUID ("{…}") or Data Center user slug */
+  id: string;
+  displayName: string;
+  /** Data Center only: the name and email commits are authored with */
+  name?: string;
+  email?: string;
+}
+
+type MergeRequestAction = GitLabActivity['mergeRequests'][number]['action'];
+
+/**
+ * Cloud for bitbucket.org (and its API host), else a Data Center instance
+ * whose REST API lives under /rest/api/1.0 of the pasted web URL.
+ */
+export function resolveBitbucketUrls(url?: string): { cloud: boolean; webUrl: string; apiUrl: string } {
+  if (!url || !url.trim()) {
+    return { cloud: true, webUrl: BITBUCKET_CLOUD_URL, apiUrl: CLOUD_API_URL };
+  }
+
+  const parsed = new URL(url.trim());
+  if (parsed.hostname === 'bitbucket.org' || parsed.hostname === 'api.bitbucket.org') {
+    return { cloud: true, webUrl: BITBUCKET_CLOUD_URL, apiUrl: CLOUD_API_URL };
+  }
+
+  const webUrl = `${parsed.origin}${parsed.pathname.replace(/\/+$/, '').replace(/\/rest\/api\/1\.0$/, '')}`;
+  return { cloud: false, webUrl, apiUrl: `${webUrl}/rest/api/1.0` };
+}
+
+// ---------------------------------------------------------------------------
+// Pure mapping helpers. Separated from transport so they can be tested against
+// fixture JSON with no network.
+// ---------------------------------------------------------------------------
+
+function inDay(timestamp: string | number | undefined, dateStr: string): boolean {
+  return timestamp !== undefined && timestamp !== null && zonedDateKey(timestamp) === dateStr;
+}
+
+/**
+ * What you did on a Cloud pull request during the day, from its /activity
+ * entries. A request-changes counts as a review.
+ */
+export function mapCloudPullRequestActivity(values: any[], myUuid: string, dateStr: string): MergeRequestAction[] {
+  const actions = new Set<MergeRequestAction>();
+
+  for (const value of values ?? []) {
+    if (value.approval?.user?.uuid === myUuid && inDay(value.approval.date, dateStr)) {
+      actions.add('approved');
+    }
+    if (value.changes_requested?.user?.uuid === myUuid && inDay(value.changes_requested.date, dateStr)) {
+      actions.add('reviewed');
+    }
+    if (value.comment?.user?.uuid === myUuid && inDay(value.comment.created_on, dateStr)) {
+      actions.add('commented');
+    }
+    const update = value.update;
+    if (update?.author?.uuid === myUuid && inDay(update.date, dateStr)) {
+      if (update.state === 'MERGED') actions.add('merged');
+      if (update.state === 'DECLINED') actions.add('closed');
+    }
+  }
+
+  return [...actions];
+}
+
+const DATA_CENTER_ACTIONS: Record<string, MergeRequestAction> = {
+  OPENED: 'created',
+  APPROVED: 'approved',
+  REVIEWED: 'reviewed',
+  COMMENTED: 'commented',
+  MERGED: 'merged',
+  DECLINED: 'closed',
+};
+
+/** What you did on a Data Center pull request during the day, from its /activities entries. */
+export function mapDataCenterPullRequestActivities(values: any[], mySlug: string, dateStr: string): MergeRequestAction[] {
+  const actions = new Set<MergeRequestAction>();
+
+  for (const value of values ?? []) {
+    const action = DATA_CENTER_ACTIONS[value.action];
+    if (action && value.user?.slug === mySlug && inDay(value.createdDate, dateStr)) {
+      actions.add(action);
+    }
+  }
+
+  return [...actions];
+}
+
+/**
+ * Cloud commits authored by you on the day. Commits from email addresses not
+ * linked to your account carry no user and are skipped. The commits listing
+ * spans all branches without saying which, so `branch` is the repository's main branch.
+ */
+export function mapCloudCommits(
+  values: any[],
+  myUuid: string,
+  dateStr: string,
+  project: string,
+  branch: string
+): GitLabActivity['commits'] {
+  return (values ?? [])
+    .filter(commit => commit.author?.user?.uuid === myUuid && inDay(commit.date, dateStr))
+    .filter(commit => (commit.parents?.length ?? 0) < 2)
+    .map(commit => ({
+      message: String(commit.message ?? '').split('\n')[0],
+      project,
+      branch,
+      sha: commit.hash,
+      url: commit.links?.html?.href,
+    }));
+}
+
+/** Data Center commits authored by you (matched on email, else user name) on the day. */
+export function mapDataCenterCommits(
+  values: any[],
+  identity: BitbucketIdentity,
+  dateStr: string,
+  project: string,
+  branch: string,
+  commitUrl: (sha: string) => string
+): GitLabActivity['commits'] {
+  const email = identity.email?.toLowerCase();
+  const isMine = (author: any) =>
+    (email && String(author?.emailAddress ?? '').toLowerCase() === email) ||
+    (!!identity.name && author?.name === identity.name);
+
+  return (values ?? [])
+    .filter(commit => isMine(commit.author) && inDay(commit.authorTimestamp, dateStr))
+    .filter(commit => (commit.parents?.length ?? 0) < 2)
+    .map(commit => ({
+      message: String(commit.message ?? '').split('\n')[0],
+      project,
+      branch,
+      sha: commit.id,
+      url: commitUrl(commit.id),
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+export class BitbucketIntegration {
+  private settings: BitbucketSettings | null = null;
+  private urls = resolveBitbucketUrls();
+  private identity: BitbucketIdentity | null = null;
+
+  /** Stores the settings and checks them by reading the authenticated user. */
+  async initialize(settings: BitbucketSettings): Promise<BitbucketIdentity> {
+    if (!settings.token) {
+      throw new Error('A Bitbucket app password or HTTP access token is required.');
+    }
+    this.settings = settings;
+    this.urls = resolveBitbucketUrls(settings.url);
+    this.identity = null;
+
+    this.identity = this.urls.cloud ? await this.cloudIdentity() : await this.dataCenterIdentity();
+    return this.identity;
+  }
+
+  getIdentity(): BitbucketIdentity | null {
+    return this.identity;
+  }
+
+  /** "Bitbucket Cloud" or the Data Center host, for status output. */
+  describe(): string {
+    return this.urls.cloud ? 'Bitbucket Cloud' : this.urls.webUrl;
+  }
+
+  private requireReady(): { settings: BitbucketSettings; identity: BitbucketIdentity } {
+    if (!this.settings || !this.identity) {
+      throw new Error('Bitbucket client not initialized');
+    }
+    return { settings: this.settings, identity: this.identity };
+  }
+
+  private async request(pathOrUrl: string): Promise<{ body: any; headers: Headers }> {
+    if (!this.settings) {
+      throw new Error('Bitbucket client not initialized');
+    }
+    const url = pathOrUrl.startsWith('http') ? pathOrUrl : `${this.urls.apiUrl}${pathOrUrl}`;
+    const authorization = this.settings.username
+      ? `Basic ${Buffer.from(`${this.settings.username}:${this.settings.token}`).toString('base64')}`
+      : `Bearer ${this.settings.token}`;
+
+    const response = await fetch(url, {
+      headers: { Authorization: authorization, Accept: 'application/json' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `Bitbucket rejected the credentials (HTTP ${response.status}) at ${this.describe()}. ` +
+          (this.urls.cloud
+            ? 'Use your Bitbucket username with an app password (Account and Repository read, Pull requests read), or an access token without a username.'
+            : 'Use an HTTP access token with read permissions, or your username and password.')
+      );
+    }
+    if (!response.ok) {
+      throw new Error(`Bitbucket API error ${response.status} for ${url}`);
+    }
+    return { body: await response.json(), headers: response.headers };
+  }
+
+  // Cloud pages carry a `next` URL; Data Center pages `isLastPage`/`nextPageStart`.
+  private async *cloudPages(path: string, maxPages: number): AsyncGenerator<any[]> {
+    let next: string | undefined = path;
+    for (let page = 0; next && page < maxPages; page++) {
+      const { body } = await this.request(next);
+      yield body.values ?? [];
+      next = body.next;
+    }
+  }
+
+  private async *dataCenterPages(path: string, maxPages: number): AsyncGenerator<any[]> {
+    let start = 0;
+    for (let page = 0; page < maxPages; page++) {
+      const separator = path.includes('?') ? '&' : '?';
+      const { body } = await this.request(`${path}${separator}start=${start}`);
+      yield body.values ?? [];
+      if (body.isLastPage !== false || body.nextPageStart === undefined) return;
+      start = body.nextPageStart;
+    }
+  }
+
+  private async cloudIdentity(): Promise<BitbucketIdentity> {
+    const { body } = await this.request('/user');
+    return { id: body.uuid, displayName: body.display_name || body.nickname || body.username || body.uuid };
+  }
+
+  private async dataCenterIdentity(): Promise<BitbucketIdentity> {
+    // Data Center has no "current user" resource; every authenticated
+    // response names the user in X-AUSERNAME
+    const { headers } = await this.request('/application-properties');
+    const slug = headers.get('x-ausername') || this.settings?.username;
+    if (!slug) {
+      throw new Error(`Bitbucket at ${this.urls.webUrl} did not identify the token's user. Pass username as well.`);
+    }
+    const { body } = await this.request(`/users/${encodeURIComponent(slug)}`);
+    return { id: body.slug ?? slug, displayName: body.displayName || slug, name: body.name, email: body.emailAddress };
+  }
+
+  async getActivityForDate(dateStr: string): Promise<GitLabActivity> {
+    this.requireReady();
+
+    // Validate YYYY-MM-DD format
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      throw new Error('Date must be in YYYY-MM-DD format (e.g., "2025-12-01")');
+    }
+
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const activity: GitLabActivity = {
+      date: new Date(year, month - 1, day),
+      commits: [],
+      mergeRequests: [],
+      issues: [],
+    };
+
+    try {
+      if (this.urls.cloud) {
+        await this.fetchCloudActivity(dateStr, activity);
+      } else {
+        await this.fetchDataCenterActivity(dateStr, activity);
+      }
+    } catch (error) {
+      console.error('Error fetching Bitbucket activity:', error);
+    }
+
+    return activity;
+  }
+
+  private async fetchCloudActivity(dateStr: string, activity: GitLabActivity): Promise<void> {
+    const { identity } = this.requireReady();
+    const { start: dayStart } = zonedDayBounds(dateStr);
+    const since = dayStart.toISOString();
+
+    // Anything touched that day was updated on or after its start
+    const repoQuery = encodeURIComponent(`updated_on >= ${since}`);
+    const repos: any[] = [];
+    for await (const page of this.cloudPages(
+      `/repositories?role=member&sort=-updated_on&pagelen=50&q=${repoQuery}`,
+      Math.ceil(MAX_REPOSITORIES / 50)
+    )) {
+      repos.push(...page);
+    }
+
+    for (const repo of repos.slice(0, MAX_REPOSITORIES)) {
+      const fullName: string = repo.full_name;
+      try {
+        // Commits on every branch, newest first; stop once a page is older than the day
+        for await (const page of this.cloudPages(`/repositories/${fullName}/commits?pagelen=100`, MAX_COMMIT_PAGES)) {
+          const commits = mapCloudCommits(page, identity.id, dateStr, fullName, repo.mainbranch?.name || 'main');
+          const seen = new Set(activity.commits.map(c => c.sha));
+          activity.commits.push(...commits.filter(c => !seen.has(c.sha)));
+          if (page.length === 0 || page.every(c => new Date(c.date) < dayStart)) break;
+        }
+
+        const prQuery = encodeURIComponent(`updated_on >= ${since}`);
+        for await (const page of this.cloudPages(
+          `/repositories/${fullName}/pullrequests?state=OPEN&state=MERGED&state=DECLINED&state=SUPERSEDED&pagelen=50&q=${prQuery}`,
+          2
+        )) {
+          for (const pr of page) {
+            const actions = new Set<MergeRequestAction>();
+            if (pr.author?.uuid === identity.id && inDay(pr.created_on, dateStr)) actions.add('created');
+
+            const { body } = await this.request(`/repositories/${fullName}/pullrequests/${pr.id}/activity?pagelen=50`);
+            for (const action of mapCloudPullRequestActivity(body.values, identity.id, dateStr)) actions.add(action);
+
+            for (const action of actions) {
+              activity.mergeRequests.push({
+                action,
+                title: pr.title || 'PR',
+                project: fullName,
+                id: pr.id,
+                url: pr.links?.html?.href,
+              });
+            }
+          }
+        }
+      } catch (error) {
+        // Skip repos we can't read
+        continue;
+      }
+    }
+  }
+
+  private async fetchDataCenterActivity(dateStr: string, activity: GitLabActivity): Promise<void> {
+    const { identity } = this.requireReady();
+    const { start: dayStart } = zonedDayBounds(dateStr);
+
+    // Pull requests you authored or reviewed, most recently updated first
+    for (const role of ['AUTHOR', 'REVIEWER'] as const) {
+      pages: for await (const page of this.dataCenterPages(
+        `/dashboard/pull-requests?role=${role}&state=ALL&order=NEWEST&limit=50`,
+        4
+      )) {
+        for (const pr of page) {
+          if (pr.updatedDate < dayStart.getTime()) break pages;
+
+          const repo = pr.toRef?.repository;
+          const project = repo ? `${repo.project?.key}/${repo.slug}` : 'Unknown';
+          const { body } = await this.request(
+            `/projects/${encodeURIComponent(repo.project.key)}/repos/${encodeURIComponent(repo.slug)}/pull-requests/${pr.id}/activities?limit=100`
+          );
+          for (const action of mapDataCenterPullRequestActivities(body.values, identity.id, dateStr)) {
+            if (activity.mergeRequests.some(m => m.id === pr.id && m.project === project && m.action === action)) continue;
+            activity.mergeRequests.push({
+              action,
+              title: pr.title || 'PR',
+              project,
+              id: pr.id,
+              url: pr.links?.self?.[0]?.href,
+            });
+          }
+        }
+      }
+    }
+
+    // Commits on the default branch of repositories you used recently
+    const repos: any[] = [];
+    for await (const page of this.dataCenterPages('/profile/recent/repos?limit=25', 2)) {
+      repos.push(...page);
+    }
+
+    for (const repo of repos.slice(0, MAX_REPOSITORIES)) {
+      const base = `/projects/${encodeURIComponent(repo.project.key)}/repos/${encodeURIComponent(repo.slug)}`;
+      const project = `${repo.project.key}/${repo.slug}`;
+      const commitUrl = (sha: string) =>
+        `${this.urls.webUrl}/projects/${repo.project.key}/repos/${repo.slug}/commits/${sha}`;
+      try {
+        const { body: branch } = await this.request(`${base}/default-branch`).catch(() => ({ body: {} as any }));
+        for await (const page of this.dataCenterPages(`${base}/commits?limit=100`, MAX_COMMIT_PAGES)) {
+          activity.commits.push(
+            ...mapDataCenterCommits(page, identity, dateStr, project, branch.displayId || 'main', commitUrl)
+          );
+          if (page.every(c => c.authorTimestamp < dayStart.getTime())) break;
+        }
+      } catch (error) {
+        // Skip repos we can't read, and empty ones
+        continue;
+      }
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import { GitLabActivity } from '../types/index.js';
+import { zonedDateKey } from '../utils/timezone.js';
+
+/**
+ * Gitea and Forgejo (which shares Gitea's API). Activity comes from the
+ * user's activity feed, the same action log behind the profile page, mapped
+ * into the shape GitLab events produce. The contribution heatmap is read
+ * first so days with nothing on them cost one cached request.
+ */
+
+const FETCH_TIMEOUT_MS = 30_000;
+/** Feed pages read per server date before giving up. */
+const MAX_FEED_PAGES = 10;
+const FEED_PAGE_SIZE = 50;
+const HEATMAP_TTL_MS = 5 * 60 * 1000;
+
+export interface GiteaSettings {
+  /** Instance URL, e.g. https://gitea.example.com */
+  url: string;
+  token: string;
+}
+
+export interface GiteaIdentity {
+  id: number;
+  login: string;
+  /** Lower-cased emails and the names commits may be authored under */
+  emails: string[];
+  names: string[];
+}
+
+type MergeRequestAction = GitLabActivity['mergeRequests'][number]['action'];
+type IssueAction = GitLabActivity['issues'][number]['action'];
+
+const PULL_REQUEST_ACTIONS: Record<string, MergeRequestAction> = {
+  create_pull_request: 'created',
+  merge_pull_request: 'merged',
+  auto_merge_pull_request: 'merged',
+  close_pull_request: 'closed',
+  approve_pull_request: 'approved',
+  reject_pull_request: 'reviewed',
+  comment_pull: 'commented',
+};
+
+const ISSUE_ACTIONS: Record<string, IssueAction> = {
+  create_issue: 'opened',
+  close_issue: 'closed',
+  reopen_issue: 'status_changed',
+  comment_issue: 'commented',
+};
+
+/** Actions whose content names the issue or PR by number only, not by title. */
+const UNTITLED_ACTIONS = new Set([
+  'close_pull_request',
+  'approve_pull_request',
+  'reject_pull_request',
+  'comment_pull',
+  'close_issue',
+  'reopen_issue',
+  'comment_issue',
+]);
+
+// ---------------------------------------------------------------------------
+// Pure mapping helpers. Separated from transport so they can be tested against
+// fixture JSON with no network.
+// ---------------------------------------------------------------------------
+
+/** Web URL without a trailing slash or a pasted /api/v1 suffix. */
+export function normalizeGiteaUrl(url: string): string {
+  const parsed = new URL(url.trim());
+  return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '').replace(/\/api\/v1$/, '')}`;
+}
+
+/** Splits "12|Fix login" into the issue number and the text after it. */
+function splitContent(content: unknown): { index?: number; text: string } {
+  const match = String(content ?? '').match(/^(\d+)\|([\s\S]*)$/);
+  return match ? { index: Number(match[1]), text: match[2] } : { text: String(content ?? '') };
+}
+
+/** "owner/repo#12" for issues and PRs whose title must be looked up. */
+export function giteaTitleRefs(items: any[]): string[] {
+  const refs = new Set<string>();
+  for (const item of items) {
+    const { index, text } = splitContent(item.content);
+    if (index !== undefined && item.repo?.full_name && (UNTITLED_ACTIONS.has(item.op_type) || text === '')) {
+      refs.add(`${item.repo.full_name}#${index}`);
+    }
+  }
+  return [...refs];
+}
+
+/**
+ * Adds one activity feed entry to the day's activity. Pushes carry up to a
+ * few commits as JSON; only those you authored count, as a push can carry
+ * other people's work after a merge. `titles` holds looked-up titles by
+ * giteaTitleRefs key.
+ */
+export function mapGiteaActivity(
+  item: any,
+  identity: GiteaIdentity,
+  activity: GitLabActivity,
+  titles: Map<string, string> = new Map()
+): void {
+  const project: string = item.repo?.full_name ?? 'Unknown';
+  const repoUrl: string | undefined = item.repo?.html_url;
+
+  if (item.op_type === 'commit_repo') {
+    let push: any;
+    try {
+      push = JSON.parse(item.content || '{}');
+    } catch {
+      return;
+    }
+    const branch = String(item.ref_name ?? '').replace(/^refs\/heads\//, '') || 'unknown';
+    const isMine = (c: any) =>
+      identity.emails.includes(String(c.AuthorEmail ?? '').toLowerCase()) || identity.names.includes(String(c.AuthorName ?? ''));
+    const seen = new Set(activity.commits.map(c => c.sha));
+
+    for (const commit of push.Commits ?? []) {
+      if (!isMine(commit) || seen.has(commit.Sha1)) continue;
+      seen.add(commit.Sha1);
+      activity.commits.push({
+        message: String(commit.Message ?? '').split('\n')[0] || 'Commit',
+        project,
+        branch,
+        sha: commit.Sha1,
+        url: repoUrl ? `${repoUrl}/commit/${commit.Sha1}` : undefined,
+      });
+    }
+    return;
+  }
+
+  const { index, text } = splitContent(item.content);
+  const lookedUp = index !== undefined ? titles.get(`${project}#${index}`) : undefined;
+  const title = lookedUp || (UNTITLED_ACTIONS.has(item.op_type) ? '' : text.split('\n')[0]);
+
+  const prAction = PULL_REQUEST_ACTIONS[item.op_type];
+  if (prAction) {
+    if (activity.mergeRequests.some(m => m.project === project && m.id === index && m.action === prAction)) return;
+    activity.mergeRequests.push({
+      action: prAction,
+      title: title || 'PR',
+      project,
+      id: index,
+      url: repoUrl && index !== undefined ? `${repoUrl}/pulls/${index}` : undefined,
+    });
+    return;
+  }
+
+  const issueAction = ISSUE_ACTIONS[item.op_type];
+  if (issueAction) {
+    if (activity.issues.some(i => i.project === project && i.id === index && i.action === issueAction)) return;
+    activity.issues.push({
+      action: issueAction,
+      title: title || 'Issue',
+      project,
+      id: index,
+      ...(item.op_type === 'reopen_issue' ? { details: 'reopened' } : {}),
+      url: repoUrl && index !== undefined ? `${repoUrl}/issues/${index}` : undefined,
+    });
+  }
+}
+
+function shiftDate(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+export class GiteaIntegration {
+  private settings: GiteaSettings | null = null;
+  private webUrl = '';
+  private identity: GiteaIdentity | null = null;
+  private heatmap: { fetchedAt: number; days: Promise<Set<string> | null> } | null = null;
+
+  /** Stores the settings and checks them by reading the authenticated user. */
+  async initialize(settings: GiteaSettings): Promise<GiteaIdentity> {
+    if (!settings.url) {
+      throw new Error('A Gitea or Forgejo instance URL is required, e.g. https://gitea.example.com');
+    }
+    if (!settings.token) {
+      throw new Error('A Gitea or Forgejo access token is required.');
+    }
+    this.settings = settings;
+    this.webUrl = normalizeGiteaUrl(settings.url);
+    this.identity = null;
+    this.heatmap = null;
+
+    const user = await this.request('/user');
+    // Listing emails needs the read:user scope; the profile email is enough without it
+    const emails: any[] = await this.request('/user/emails').catch(() => []);
+    this.identity = {
+      id: user.id,
+      login: user.login,
+      emails: [user.email, ...emails.map(e => e.email)]
+        .filter((e): e is string => typeof e === 'string' && e !== '')
+        .map(e => e.toLowerCase()),
+      names: [user.full_name, user.login].filter((n): n is string => typeof n === 'string' && n !== ''),
+    };
+    return this.identity;
+  }
+
+  getIdentity(): GiteaIdentity | null {
+    return this.identity;
+  }
+
+  /** The instance URL, for status output. */
+  describe(): string {
+    return this.webUrl;
+  }
+
+  private async request(path: string): Promise<any> {
+    if (!this.settings) {
+      throw new Error('Gitea client not initialized');
+    }
+    const url = `${this.webUrl}/api/v1${path}`;
+    const response = await fetch(url, {
+      headers: { Authorization: `token ${this.settings.token}`, Accept: 'application/json' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `${this.webUrl} rejected the access token (HTTP ${response.status}). ` +
+          'Create one under Settings → Applications with read access to user, repository and issue.'
+      );
+    }
+    if (!response.ok) {
+      throw new Error(`Gitea API error ${response.status} for ${url}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Days (in the configured timezone) the heatmap shows contributions on, or
+   * null when the heatmap is hidden or unavailable and every day must be read.
+   */
+  private contributionDays(): Promise<Set<string> | null> {
+    // Shared by the days of a range, which are fetched in parallel
+    if (!this.heatmap || Date.now() - this.heatmap.fetchedAt > HEATMAP_TTL_MS) {
+      const days = this.request(`/users/${encodeURIComponent(this.identity!.login)}/heatmap`).then(
+        (cells: any[]) => new Set(cells.filter(c => c.contributions > 0).map(c => zonedDateKey(c.timestamp * 1000))),
+        error => {
+          console.error('Gitea heatmap unavailable, reading the activity feed instead:', error);
+          return null;
+        }
+      );
+      this.heatmap = { fetchedAt: Date.now(), days };
+    }
+    return this.heatmap.days;
+  }
+
+  async getActivityForDate(dateStr: string): Promise<GitLabActivity> {
+    if (!this.identity) {
+      throw new Error('Gitea client not initialized');
+    }
+    const identity = this.identity;
+
+    // Validate YYYY-MM-DD format
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      throw new Error('Date must be in YYYY-MM-DD format (e.g., "2025-12-01")');
+    }
+
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const activity: GitLabActivity = {
+      date: new Date(year, month - 1, day),
+      commits: [],
+      mergeRequests: [],
+      issues: [],
+    };
+
+    try {
+      const days = await this.contributionDays();
+      if (days && !days.has(dateStr)) return activity;
+
+      // The feed's date filter uses the server's timezone, which need not be
+      // ours, so the neighbouring server dates are read too and trimmed here
+      const items = new Map<number, any>();
+      for (const serverDate of [shiftDate(dateStr, -1), dateStr, shiftDate(dateStr, 1)]) {
+        for (let page = 1; page <= MAX_FEED_PAGES; page++) {
+          const feed: any[] = await this.request(
+            `/users/${encodeURIComponent(identity.login)}/activities/feeds?only-performed-by=true&date=${serverDate}&page=${page}&limit=${FEED_PAGE_SIZE}`
+          );
+          for (const item of feed) {
+            if (item.act_user_id === identity.id && item.created && zonedDateKey(item.created) === dateStr) {
+              items.set(item.id, item);
+            }
+          }
+          if (feed.length < FEED_PAGE_SIZE) break;
+        }
+      }
+
+      // Oldest first, so a day reads in the order it happened
+      const ordered = [...items.values()].sort((a, b) => Date.parse(a.created) - Date.parse(b.created));
+      const titles = new Map<string, string>();
+      for (const ref of giteaTitleRefs(ordered)) {
+        const [repo, index] = ref.split('#');
+        try {
+          const issue = await this.request(`/repos/${repo}/issues/${index}`);
+          titles.set(ref, issue.title);
+        } catch {
+          // Deleted or no longer visible; the entry keeps a generic title
+        }
+      }
+
+      for (const item of ordered) {
+        mapGiteaActivity(item, identity, activity, titles);
+      }
+    } catch (error) {
+      console.error('Error fetching Gitea activity:', error);
+    }
+
+    return activity;
+  }
+}
@@ -1,13 +1,79 @@
 import { Octokit } from '@octokit/rest';
+import { Agent } from 'https';
+import * as fs from 'fs/promises';
+import nodeFetch from 'node-fetch';
 import { GitLabActivity } from '../types/index.js';
+import { getTimeZone, zonedDateKey, zonedDayBounds } from '../utils/timezone.js';
+
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * A day in the user's timezone as a search qualifier range, e.g.
+ * "2026-07-28T04:00:00Z..2026-07-29T03:59:59Z". A bare date in `created:` is
+ * read as a UTC day, which files evening work under the wrong date.
+ */
+export function githubSearchDayRange(dateStr: string, timeZone: string = getTimeZone()): string {
+  const { start, end } = zonedDayBounds(dateStr, timeZone);
+  const toQualifier = (d: Date) => d.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return `${toQualifier(start)}..${toQualifier(new Date(end.getTime() - 1000))}`;
+}
+
+/**
+ * Normalises a GitHub or GitHub Enterprise Server URL into its REST API base.
+ *
+ * Users naturally paste the browser URL ("https://github.example.com"), but
+ * GHES serves the API under /api/v3 while github.com uses a separate host.
+ */
+export function normalizeGitHubApiUrl(url?: string): string {
+  if (!url || !url.trim()) return DEFAULT_GITHUB_API_URL;
+
+  const parsed = new URL(url.trim());
+  if (parsed.hostname === 'github.com' || parsed.hostname === 'api.github.com') {
+    return DEFAULT_GITHUB_API_URL;
+  }
+
+  const path = parsed.pathname.replace(/\/+$/, '');
+  return `${parsed.origin}${path.includes('/api/') || path.endsWith('/api') ? path : `${path}/api/v3`}`;
+}
+
+/**
+ * The browser-facing base for an API URL. The OAuth device flow lives on the
+ * web host, not under /api/v3.
+ */
+export function githubWebUrl(apiUrl?: string): string {
+  const normalized = normalizeGitHubApiUrl(apiUrl);
+  if (normalized === DEFAULT_GITHUB_API_URL) return 'https://github.com';
+  return normalized.replace(/\/api(\/v3)?$/, '');
+}
+
+/**
+ * A fetch that trusts the given PEM bundle, for GHES instances signed by an
+ * internal CA. Only the enterprise host is reached through it, so replacing
+ * the default roots rather than extending them is acceptable.
+ */
+export async function createFetchWithCa(caFile: string): Promise<typeof fetch> {
+  let ca: string;
+  try {
+    ca = await fs.readFile(caFile, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Could not read CA bundle at ${caFile}: ${error.message}`);
+  }
+
+  const agent = new Agent({ ca });
+  return ((url: any, init?: any) => nodeFetch(url, { ...init, agent })) as unknown as typeof fetch;
+}
 
 export class GitHubIntegration {
   private client: Octokit | null = null;
   private username: string | null = null;
+  private webUrl = 'https://github.com';
 
-  async initialize(token: string): Promise<void> {
+  async initialize(token: string, apiUrl: string = DEFAULT_GITHUB_API_URL, caFile?: string): Promise<void> {
+    this.webUrl = githubWebUrl(apiUrl);
     this.client = new Octokit({
       auth: token,
+      baseUrl: normalizeGitHubApiUrl(apiUrl),
+      ...(caFile ? { request: { fetch: await createFetchWithCa(caFile) } } : {}),
     });
 
     // Get current user
@@ -15,6 +81,10 @@ export class GitHubIntegration {
     this.username = user.login;
   }
 
+  getUsername(): string | null {
+    return this.username;
+  }
+
   async getActivityForDate(dateStr: string): Promise<GitLabActivity> {
     if (!this.client || !this.username) {
       throw new Error('GitHub client not initialized');
@@ -46,8 +116,8 @@ export class GitHubIntegration {
       for (const event of events) {
         if (!event.created_at) continue;
 
-        // Filter by date - extract YYYY-MM-DD from event timestamp
-        const eventDateStr = (event.created_at as string).split('T')[0];
+        // Filter by the day the event happened on in the user's timezone
+        const eventDateStr = zonedDateKey(event.created_at as string);
         if (eventDateStr !== dateStr) continue;
 
         const repoName = event.repo?.name || 'Unknown';
@@ -62,6 +132,8 @@ export class GitHubIntegration {
                   message: commit.message,
                   project: repoName,
                   branch: payload.ref?.replace('refs/heads/', '') || 'main',
+                  sha: commit.sha,
+                  url: commit.sha ? `${this.webUrl}/${repoName}/commit/${commit.sha}` : undefined,
                 });
               }
             }
@@ -83,6 +155,7 @@ export class GitHubIntegration {
                 action,
                 title: pr?.title || 'PR',
                 project: repoName,
+                url: pr?.html_url,
               });
             }
             break;
@@ -104,6 +177,7 @@ export class GitHubIntegration {
                 action,
                 title: pr?.title || 'PR',
                 project: repoName,
+                url: pr?.html_url,
               });
             }
             break;
@@ -117,6 +191,7 @@ export class GitHubIntegration {
                 action: 'commented',
                 title: pr?.title || 'PR',
                 project: repoName,
+                url: pr?.html_url,
               });
             }
             break;
@@ -132,6 +207,7 @@ export class GitHubIntegration {
                   title: issue?.title || 'Issue',
                   project: repoName,
                   details: 'opened',
+                  url: issue?.html_url,
                 });
               } else if (payload.action === 'closed') {
                 activity.issues.push({
@@ -139,6 +215,7 @@ export class GitHubIntegration {
                   title: issue?.title || 'Issue',
                   project: repoName,
                   details: 'closed',
+                  url: issue?.html_url,
                 });
               }
             }
@@ -155,12 +232,14 @@ export class GitHubIntegration {
                   action: 'commented',
                   title: issue.title || 'PR',
                   project: repoName,
+                  url: issue.html_url,
                 });
               } else {
                 activity.issues.push({
                   action: 'commented',
                   title: issue?.title || 'Issue',
                   project: repoName,
+                  url: issue?.html_url,
                 });
               }
             }
@@ -185,13 +264,8 @@ export class GitHubIntegration {
     if (!this.client || !this.username) return;
 
     try {
-      // Parse date for API parameters
-      const [year, month, day] = dateStr.split('-').map(Number);
-      const date = new Date(year, month - 1, day);
-
-      // Create start and end timestamps in ISO format for API
-      const dayStart = new Date(year, month - 1, day, 0, 0, 0);
-      const dayEnd = new Date(year, month - 1, day, 23, 59, 59);
+      // The day's bounds in the user's timezone, as instants for the API
+      const { start: dayStart, end: dayEnd } = zonedDayBounds(dateStr);
 
       // Get all repos the user has access to
       const { data: repos } = await this.client.repos.listForAuthenticatedUser({
@@ -210,9 +284,9 @@ export class GitHubIntegration {
           });
 
           for (const commit of commits) {
-            // Filter by date - extract YYYY-MM-DD from commit timestamp
+            // Filter by the day the commit was authored in the user's timezone
             if (commit.commit.author?.date) {
-              const commitDateStr = commit.commit.author.date.split('T')[0];
+              const commitDateStr = zonedDateKey(commit.commit.author.date);
               if (commitDateStr !== dateStr) continue;
             }
 
@@ -223,6 +297,7 @@ export class GitHubIntegration {
                 message: commit.commit.message,
                 project: repo.full_name,
                 branch: repo.default_branch || 'main',
+                url: commit.html_url,
               });
             }
           }
@@ -240,8 +315,10 @@ export class GitHubIntegration {
     if (!this.client || !this.username) return;
 
     try {
+      const dayRange = githubSearchDayRange(dateStr);
+
       // Search for PRs created by user on this date
-      const createdQuery = `author:${this.username} is:pr created:${dateStr}`;
+      const createdQuery = `author:${this.username} is:pr created:${dayRange}`;
       const { data: createdResults } = await this.client.search.issuesAndPullRequests({
         q: createdQuery,
         per_page: 100,
@@ -258,13 +335,14 @@ export class GitHubIntegration {
               action: 'created',
               title: pr.title,
               project: repoName,
+              url: pr.html_url,
             });
           }
         }
       }
 
       // Search for PRs reviewed by user on this date
-      const reviewedQuery = `reviewed-by:${this.username} is:pr updated:${dateStr}`;
+      const reviewedQuery = `reviewed-by:${this.username} is:pr updated:${dayRange}`;
       const { data: reviewedResults } = await this.client.search.issuesAndPullRequests({
         q: reviewedQuery,
         per_page: 100,
@@ -281,6 +359,7 @@ export class GitHubIntegration {
               action: 'reviewed',
               title: pr.title,
               project: repoName,
+              url: pr.html_url,
             });
           }
         }
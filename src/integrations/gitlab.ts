@@ -1,26 +1,192 @@
 import { Gitlab } from '@gitbeaker/rest';
+import { eachDayOfInterval } from 'date-fns';
 import { GitLabActivity } from '../types/index.js';
+import { formatDate } from '../utils/dateUtils.js';
+import { GitLabOAuth, GitLabOAuthTokens } from '../utils/gitlabOAuth.js';
+import { getTimeZone, zonedDateKey } from '../utils/timezone.js';
+
+interface GitLabProject {
+  name: string;
+  webUrl?: string;
+}
+
+/** Browser link to a commit, MR or issue, when the project's web URL is known. */
+function webLink(project: GitLabProject, path: 'commit' | 'merge_requests' | 'issues', ref: unknown): string | undefined {
+  return project.webUrl && ref ? `${project.webUrl}/-/${path}/${ref}` : undefined;
+}
+
+/** Cap on commits listed per push; a larger push is a merge or import, not a day's work. */
+const MAX_PUSH_COMMITS = 100;
+
+/** Who counts as "me" when filtering commits by author. */
+export interface CommitIdentity {
+  emails: string[];
+  names: string[];
+}
+
+/**
+ * Maps Commits API results for one push to activity commits, keeping only
+ * those authored by the user: a push can carry other people's commits after
+ * a rebase or a merge from the default branch. Exported for tests.
+ */
+export function mapPushCommits(
+  commits: any[],
+  identity: CommitIdentity,
+  projectName: string,
+  branch: string
+): GitLabActivity['commits'] {
+  const isMine = (commit: any) =>
+    identity.emails.includes(String(commit.author_email ?? '').toLowerCase()) ||
+    identity.names.includes(String(commit.author_name ?? ''));
+
+  return commits.filter(isMine).map(commit => ({
+    message: String(commit.title || String(commit.message ?? '').split('\n')[0] || 'Commit'),
+    project: projectName,
+    branch,
+    sha: commit.id,
+    additions: commit.stats?.additions,
+    deletions: commit.stats?.deletions,
+    url: commit.web_url,
+  }));
+}
+
+function parseLocalDate(dateStr: string): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Events API bounds for a local-date range. `after` and `before` are exclusive
+ * and compared against UTC dates, so each side is widened by a further day to
+ * keep events near midnight in zones far from UTC; bucketing trims the excess.
+ * Exported for tests.
+ */
+export function gitlabEventWindow(startStr: string, endStr: string): { after: string; before: string } {
+  const after = parseLocalDate(startStr);
+  after.setDate(after.getDate() - 2);
+  const before = parseLocalDate(endStr);
+  before.setDate(before.getDate() + 2);
+  return { after: formatDate(after), before: formatDate(before) };
+}
+
+/** Groups the user's own events by the day they happened on in the user's timezone. Exported for tests. */
+export function groupEventsByLocalDay(
+  events: any[],
+  userId: number,
+  timeZone: string = getTimeZone()
+): Map<string, any[]> {
+  const byDay = new Map<string, any[]>();
+  for (const event of events) {
+    // Only process events by the current user
+    if (event.author_id !== userId || !event.created_at) continue;
+
+    const dateStr = zonedDateKey(event.created_at as string, timeZone);
+    byDay.set(dateStr, [...(byDay.get(dateStr) ?? []), event]);
+  }
+  return byDay;
+}
+
+/** What an OAuth connection needs to renew its access token. */
+export interface GitLabOAuthSession {
+  refresh_token: string;
+  /** Seconds since the epoch, as GitLab returns it */
+  created_at: number;
+  expires_in?: number;
+  oauth: GitLabOAuth;
+  /** Persists the rotated pair; GitLab invalidates the old refresh token. */
+  onTokenRefresh?: (tokens: GitLabOAuthTokens) => Promise<void>;
+}
+
+/** Refresh this long before expiry so a token never lapses mid-sweep. */
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+/** True when an access token issued at `createdAt` (seconds) is expired or about to be. */
+export function isGitLabTokenExpired(createdAt: number, expiresIn: number | undefined, now: number = Date.now()): boolean {
+  if (!expiresIn) return false;
+  return (createdAt + expiresIn) * 1000 - REFRESH_MARGIN_MS <= now;
+}
+
+function isUnauthorized(error: any): boolean {
+  return error?.cause?.response?.status === 401;
+}
 
 export class GitLabIntegration {
   private client: InstanceType<typeof Gitlab> | null = null;
   private userId: number | null = null;
+  private identity: CommitIdentity = { emails: [], names: [] };
   private token: string = '';
   private gitlabUrl: string = '';
+  private session: GitLabOAuthSession | null = null;
+  private refreshing: Promise<void> | null = null;
   public debugInfo: any = null; // For debugging API responses
 
-  async initialize(token: string, gitlabUrl: string = 'https://gitlab.com'): Promise<void> {
-    this.token = token;
+  /**
+   * @param session for OAuth connections; without it an expired token is not renewed
+   */
+  async initialize(token: string, gitlabUrl: string = 'https://gitlab.com', session?: GitLabOAuthSession): Promise<void> {
+    this.session = session ?? null;
     this.gitlabUrl = gitlabUrl;
+    this.setToken(token);
+
+    // Lazy load user ID - will be fetched when needed
+    this.userId = null;
+  }
+
+  private setToken(token: string): void {
+    this.token = token;
 
     // Use oauthToken for OAuth tokens (bearer), token for personal access tokens
     const isOAuthToken = !token.startsWith('glpat-') && !token.startsWith('glp');
     this.client = new Gitlab({
-      host: gitlabUrl,
+      host: this.gitlabUrl,
       ...(isOAuthToken ? { oauthToken: token } : { token }),
     });
+  }
 
-    // Lazy load user ID - will be fetched when needed
-    this.userId = null;
+  /**
+   * Exchanges the refresh token for a new pair and persists it. Concurrent
+   * callers share one exchange, as the first one spends the refresh token.
+   */
+  async refreshAccessToken(): Promise<void> {
+    if (!this.session) {
+      throw new Error('GitLab token expired and cannot be refreshed. Run start_gitlab_auth again or use a new personal access token.');
+    }
+    const session = this.session;
+
+    this.refreshing ??= (async () => {
+      try {
+        const tokens = await session.oauth.refreshToken(session.refresh_token);
+        session.refresh_token = tokens.refresh_token;
+        session.created_at = tokens.created_at;
+        session.expires_in = tokens.expires_in;
+        this.setToken(tokens.access_token);
+
+        // Persist refreshed tokens if callback is provided
+        if (session.onTokenRefresh) {
+          await session.onTokenRefresh(tokens);
+        }
+      } finally {
+        this.refreshing = null;
+      }
+    })();
+    return this.refreshing;
+  }
+
+  /**
+   * Runs a request with a current access token: refreshes first when the
+   * token has expired, and once more if GitLab still answers 401.
+   */
+  private async withFreshToken<T>(request: () => Promise<T>): Promise<T> {
+    if (this.session && isGitLabTokenExpired(this.session.created_at, this.session.expires_in)) {
+      await this.refreshAccessToken();
+    }
+    try {
+      return await request();
+    } catch (error) {
+      if (!this.session || !isUnauthorized(error)) throw error;
+      await this.refreshAccessToken();
+      return request();
+    }
   }
 
   private async ensureUserId(): Promise<void> {
@@ -34,14 +200,31 @@ export class GitLabIntegration {
 
     try {
       // Use Gitbeaker's Users.showCurrentUser() which handles OAuth/PAT tokens correctly
-      const user = await this.client.Users.showCurrentUser();
+      const user = await this.withFreshToken(() => this.client!.Users.showCurrentUser());
       this.userId = user.id;
+      this.identity = {
+        emails: [user.email, user.commit_email, user.public_email]
+          .filter((e): e is string => typeof e === 'string' && e !== '')
+          .map(e => e.toLowerCase()),
+        names: [user.name, user.username].filter((n): n is string => typeof n === 'string' && n !== ''),
+      };
     } catch (error: any) {
       throw new Error(`Failed to get GitLab user info: ${error.message}. Make sure your token has the required permissions (read_user or read_api scope).`);
     }
   }
 
   async getActivityForDate(dateStr: string): Promise<GitLabActivity> {
+    const activities = await this.getActivityForRange(dateStr, dateStr);
+    return activities.get(dateStr)!;
+  }
+
+  /**
+   * Fetches every day from start to end (inclusive, YYYY-MM-DD) in one paged
+   * sweep of the Events API. The result has an entry for every day in the
+   * range, empty or not, so callers can cache each day from a single fetch.
+   * Throws when any page fails, so no day of an incomplete sweep is returned.
+   */
+  async getActivityForRange(startStr: string, endStr: string): Promise<Map<string, GitLabActivity>> {
     if (!this.client) {
       throw new Error('GitLab client not initialized');
     }
@@ -50,50 +233,45 @@ export class GitLabIntegration {
     await this.ensureUserId();
 
     // Validate YYYY-MM-DD format
-    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(startStr) || !/^\d{4}-\d{2}-\d{2}$/.test(endStr)) {
       throw new Error('Date must be in YYYY-MM-DD format (e.g., "2025-12-01")');
     }
 
-    // Parse date to create Date object for activity
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const date = new Date(year, month - 1, day);
-
-    const activity: GitLabActivity = {
-      date,
-      commits: [],
-      mergeRequests: [],
-      issues: [],
-    };
+    const days = eachDayOfInterval({ start: parseLocalDate(startStr), end: parseLocalDate(endStr) });
+    const activities = new Map<string, GitLabActivity>(
+      days.map(date => [formatDate(date), { date, commits: [], mergeRequests: [], issues: [] }])
+    );
 
     try {
-      // Calculate week before date for API 'after' parameter
-      const weekBeforeDate = new Date(year, month - 1, day);
-      weekBeforeDate.setDate(weekBeforeDate.getDate() - 7);
-      const wy = weekBeforeDate.getFullYear();
-      const wm = String(weekBeforeDate.getMonth() + 1).padStart(2, '0');
-      const wd = String(weekBeforeDate.getDate()).padStart(2, '0');
-      const afterDate = `${wy}-${wm}-${wd}`;
+      const { after, before } = gitlabEventWindow(startStr, endStr);
 
       // Fetch all pages of events
       let page = 1;
       const perPage = 100; // Max per page
       let hasMorePages = true;
+      let eventsReturned = 0;
 
       while (hasMorePages) {
-        const events = await this.client.Events.all({
-          after: afterDate,
-          page,
-          perPage,
-        });
+        const events = await this.withFreshToken(() =>
+          this.client!.Events.all({
+            after,
+            before,
+            page,
+            perPage,
+          })
+        );
+        eventsReturned += events.length;
 
         // Store complete RAW API response
         if (page === 1) {
           this.debugInfo = {
-            dateRange: { after: afterDate },
-            targetDay: dateStr,
-            eventsReturned: events.length,
-            rawApiResponse: events // ALL events, complete raw response
+            dateRange: { after, before },
+            targetDays: startStr === endStr ? startStr : `${startStr} to ${endStr}`,
+            eventsReturned,
+            rawApiResponse: events // First page, complete raw response
           };
+        } else {
+          this.debugInfo.eventsReturned = eventsReturned;
         }
 
         // If we get less than perPage, this is the last page
@@ -101,45 +279,53 @@ export class GitLabIntegration {
           hasMorePages = false;
         }
 
-        // Process events
-        for (const event of events) {
-          // Only process events by the current user
-          if (event.author_id !== this.userId) continue;
+        for (const [dateStr, dayEvents] of groupEventsByLocalDay(events, this.userId!)) {
+          const activity = activities.get(dateStr);
+          if (!activity) continue;
 
-          // Filter by date - extract YYYY-MM-DD from event timestamp
-          const eventDateStr = (event.created_at as string).split('T')[0];
-          if (eventDateStr !== dateStr) continue;
+          for (const event of dayEvents) {
+            // Get project name and web URL (cached)
+            const project = event.project_id && typeof event.project_id === 'number'
+              ? await this.getProject(event.project_id)
+              : { name: 'Unknown' };
 
-          // Get project name (cached)
-          const projectName = event.project_id && typeof event.project_id === 'number'
-            ? await this.getProjectName(event.project_id)
-            : 'Unknown';
-
-          // Process based on action type
-          this.processEvent(event, projectName, activity);
+            // Process based on action type
+            await this.processEvent(event, project, activity);
+          }
         }
 
         page++;
       }
 
-    } catch (error) {
-      console.error('Error fetching GitLab activity:', error);
+    } catch (error: any) {
+      // A partial sweep must not pass for empty days, or they would be cached as such
+      throw new Error(`Failed to fetch GitLab activity for ${startStr} to ${endStr}: ${error.message}`);
     }
 
-    return activity;
+    return activities;
   }
 
-  private processEvent(event: any, projectName: string, activity: GitLabActivity): void {
+  private async processEvent(event: any, project: GitLabProject, activity: GitLabActivity): Promise<void> {
+    const projectName = project.name;
+
     switch (event.action_name) {
       case 'pushed to':
       case 'pushed new':
         if (event.push_data && typeof event.push_data === 'object') {
           const pushData = event.push_data as any;
-          activity.commits.push({
-            message: String(pushData.commit_title || 'Commit'),
-            project: projectName,
-            branch: String(pushData.ref || 'unknown'),
-          });
+          const expanded = await this.expandPush(event.project_id, pushData, project);
+          if (expanded) {
+            // The same commit pushed to two branches is still one piece of work
+            const seen = new Set(activity.commits.map(c => c.sha).filter(Boolean));
+            activity.commits.push(...expanded.filter(c => !seen.has(c.sha)));
+          } else {
+            activity.commits.push({
+              message: String(pushData.commit_title || 'Commit'),
+              project: projectName,
+              branch: String(pushData.ref || 'unknown'),
+              url: webLink(project, 'commit', pushData.commit_to),
+            });
+          }
         }
         break;
 
@@ -150,6 +336,7 @@ export class GitLabIntegration {
             title: String(event.target_title || 'MR'),
             project: projectName,
             id: event.target_iid,
+            url: webLink(project, 'merge_requests', event.target_iid),
           });
         } else if (event.target_type === 'Issue') {
           activity.issues.push({
@@ -157,6 +344,7 @@ export class GitLabIntegration {
             title: String(event.target_title || 'Issue'),
             project: projectName,
             id: event.target_iid,
+            url: webLink(project, 'issues', event.target_iid),
           });
         }
         break;
@@ -174,6 +362,7 @@ export class GitLabIntegration {
               title: String(event.target_title || 'MR'),
               project: projectName,
               id: noteableIid || event.target_iid,
+              url: webLink(project, 'merge_requests', noteableIid || event.target_iid),
             });
           } else if (noteableType === 'Issue') {
             activity.issues.push({
@@ -181,6 +370,7 @@ export class GitLabIntegration {
               title: String(event.target_title || 'Issue'),
               project: projectName,
               id: noteableIid || event.target_iid,
+              url: webLink(project, 'issues', noteableIid || event.target_iid),
             });
           }
         } else {
@@ -191,6 +381,7 @@ export class GitLabIntegration {
               title: String(event.target_title || 'MR'),
               project: projectName,
               id: event.target_iid,
+              url: webLink(project, 'merge_requests', event.target_iid),
             });
           } else if (event.target_type === 'Issue') {
             activity.issues.push({
@@ -198,6 +389,7 @@ export class GitLabIntegration {
               title: String(event.target_title || 'Issue'),
               project: projectName,
               id: event.target_iid,
+              url: webLink(project, 'issues', event.target_iid),
             });
           }
         }
@@ -211,6 +403,7 @@ export class GitLabIntegration {
             title: String(event.target_title || 'MR'),
             project: projectName,
             id: event.target_iid,
+            url: webLink(project, 'merge_requests', event.target_iid),
           });
         }
         break;
@@ -222,6 +415,7 @@ export class GitLabIntegration {
             title: String(event.target_title || 'MR'),
             project: projectName,
             id: event.target_iid,
+            url: webLink(project, 'merge_requests', event.target_iid),
           });
         } else if (event.target_type === 'Issue') {
           activity.issues.push({
@@ -229,6 +423,7 @@ export class GitLabIntegration {
             title: String(event.target_title || 'Issue'),
             project: projectName,
             id: event.target_iid,
+            url: webLink(project, 'issues', event.target_iid),
           });
         }
         break;
@@ -240,25 +435,64 @@ export class GitLabIntegration {
             title: String(event.target_title || 'MR'),
             project: projectName,
             id: event.target_iid,
+            url: webLink(project, 'merge_requests', event.target_iid),
           });
         }
         break;
     }
   }
 
-  private projectNameCache = new Map<number, string>();
+  /**
+   * Lists the commits a push carried, with stats, in one Commits API call.
+   * Returns null when the push cannot be expanded (tag or branch deletion,
+   * no access to the repository) or none of its commits match the user's
+   * identity, so the caller keeps the push summary.
+   */
+  private async expandPush(
+    projectId: unknown,
+    pushData: any,
+    project: GitLabProject
+  ): Promise<GitLabActivity['commits'] | null> {
+    const count = Number(pushData.commit_count) || 0;
+    if (typeof projectId !== 'number' || !pushData.commit_to || count === 0 || pushData.ref_type === 'tag') {
+      return null;
+    }
+
+    // A new branch has no commit_from; listing back from commit_to is bounded by commit_count
+    const from = pushData.commit_from && !/^0+$/.test(pushData.commit_from) ? pushData.commit_from : null;
+
+    try {
+      const commits = (await this.client!.Commits.all(projectId, {
+        refName: from ? `${from}..${pushData.commit_to}` : pushData.commit_to,
+        withStats: true,
+        perPage: Math.min(count, MAX_PUSH_COMMITS),
+        maxPages: 1,
+      })) as any[];
+      if (commits.length === 0) return null;
+
+      // Commits made under a local git identity GitLab does not know are still the user's push
+      const mine = mapPushCommits(commits, this.identity, project.name, String(pushData.ref || 'unknown'));
+      return mine.length > 0 ? mine : null;
+    } catch (error) {
+      console.error(`Could not expand push to ${project.name}:`, error);
+      return null;
+    }
+  }
+
+  private projectCache = new Map<number, GitLabProject>();
 
-  private async getProjectName(projectId: number): Promise<string> {
-    if (this.projectNameCache.has(projectId)) {
-      return this.projectNameCache.get(projectId)!;
+  private async getProject(projectId: number): Promise<GitLabProject> {
+    if (this.projectCache.has(projectId)) {
+      return this.projectCache.get(projectId)!;
     }
 
     try {
       const project = await this.client!.Projects.show(projectId);
-      this.projectNameCache.set(projectId, project.name);
-      return project.name;
+      const info = { name: project.name, webUrl: project.web_url as string | undefined };
+      this.projectCache.set(projectId, info);
+      return info;
     } catch {
-      return `Project ${projectId}`;
+      return { name: `Project ${projectId}` };
     }
   }
 }
@@ -1,6 +1,114 @@
 import { google, calendar_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
-import { CalendarEvent } from '../types/index.js';
+import { CalendarEvent, CalendarResponseStatus } from '../types/index.js';
+import { getTimeZone, zonedDayBounds, zonedTimeToInstant } from '../utils/timezone.js';
+import { isLeaveMarker } from '../utils/calendarPolicy.js';
+
+export interface GoogleCalendarInfo {
+  id: string;
+  name: string;
+  primary: boolean;
+  accessRole: string;
+  /** Whether the calendar is ticked in the Google Calendar web UI. */
+  shownInGoogle: boolean;
+}
+
+/** Maps calendarList entries, primary calendar first. Exported for tests. */
+export function mapCalendarList(items: calendar_v3.Schema$CalendarListEntry[]): GoogleCalendarInfo[] {
+  return items
+    .filter(item => item.id && !item.deleted)
+    .map(item => ({
+      id: item.id!,
+      name: item.summaryOverride || item.summary || item.id!,
+      primary: !!item.primary,
+      accessRole: item.accessRole || 'unknown',
+      shownInGoogle: !!item.selected,
+    }))
+    .sort((a, b) => Number(b.primary) - Number(a.primary) || a.name.localeCompare(b.name));
+}
+
+const GOOGLE_RESPONSE_STATUS: Record<string, CalendarResponseStatus> = {
+  accepted: 'accepted',
+  tentative: 'tentative',
+  declined: 'declined',
+  needsAction: 'needs_action',
+};
+
+/**
+ * Reads your own RSVP from the attendee list. Events you created without
+ * guests have no attendee entry for you, which counts as accepted.
+ */
+function googleResponseStatus(event: calendar_v3.Schema$Event): CalendarResponseStatus {
+  const self = event.attendees?.find(a => a.self);
+  if (self?.responseStatus) {
+    return GOOGLE_RESPONSE_STATUS[self.responseStatus] ?? 'none';
+  }
+  return event.organizer?.self ? 'accepted' : 'none';
+}
+
+/**
+ * Merges one day of events.list results from several calendars.
+ *
+ * An invitation on a shared team calendar also lands on the invitee's
+ * primary calendar, so events are de-duplicated by iCalUID and start time,
+ * keeping the copy from the first calendar listed. Exported for tests.
+ */
+export function mergeGoogleEvents(
+  sources: Array<{ calendar: string; items: calendar_v3.Schema$Event[] }>
+): CalendarEvent[] {
+  const seen = new Set<string>();
+  const events: CalendarEvent[] = [];
+
+  for (const { calendar, items } of sources) {
+    for (const event of items) {
+      // All-day events carry a date instead of a dateTime
+      const startKey = event.start?.dateTime ?? event.start?.date;
+      const endKey = event.end?.dateTime ?? event.end?.date;
+      if (!startKey || !endKey) continue;
+
+      const allDay = !event.start?.dateTime;
+      const title = event.summary || (event.eventType === 'outOfOffice' ? 'Out of office' : 'Untitled Event');
+      const start = allDay ? zonedTimeToInstant(startKey) : new Date(startKey);
+      const end = allDay ? zonedTimeToInstant(endKey) : new Date(endKey);
+      const leave = isLeaveMarker({ title, start, end, allDay, outOfOffice: event.eventType === 'outOfOffice' });
+
+      // Other all-day entries (birthdays, sprint names) and short out-of-office
+      // blocks are neither meetings nor a day off
+      if (!leave && (allDay || event.eventType === 'outOfOffice')) continue;
+
+      const key = `${event.iCalUID ?? event.id}|${startKey}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      events.push({
+        title,
+        start,
+        end,
+        attendees: event.attendees?.length || 0,
+        responseStatus: googleResponseStatus(event),
+        showAs: event.transparency === 'transparent' ? 'free' : 'busy',
+        isOrganizer: !!event.organizer?.self,
+        calendar,
+        ...(leave ? { leave } : {}),
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * Revokes a Google token. Revoking the refresh token ends the whole grant,
+ * access tokens included. A token Google no longer knows needs no revoking.
+ */
+export async function revokeGoogleToken(token: string): Promise<void> {
+  try {
+    await new OAuth2Client().revokeToken(token);
+  } catch (error: any) {
+    if (error.response?.data?.error === 'invalid_token') return;
+    throw error;
+  }
+}
 
 export class GoogleCalendarIntegration {
   private oauth2Client: OAuth2Client | null = null;
@@ -9,7 +117,7 @@ export class GoogleCalendarIntegration {
 
   async initialize(
     clientId: string,
-    clientSecret: string,
+    clientSecret: string | undefined,
     redirectUri: string,
     tokens?: { access_token: string; refresh_token: string; expiry_date: number },
     onTokenRefresh?: (tokens: { access_token: string; refresh_token: string; expiry_date: number }) => Promise<void>
@@ -36,7 +144,10 @@ export class GoogleCalendarIntegration {
     });
   }
 
-  async setAuthorizationCode(code: string): Promise<{
+  /**
+   * @param codeVerifier PKCE verifier from the authorization request, if it sent a challenge
+   */
+  async setAuthorizationCode(code: string, codeVerifier?: string): Promise<{
     access_token: string;
     refresh_token: string;
     expiry_date: number;
@@ -45,7 +156,7 @@ export class GoogleCalendarIntegration {
       throw new Error('OAuth2 client not initialized');
     }
 
-    const { tokens } = await this.oauth2Client.getToken(code);
+    const { tokens } = await this.oauth2Client.getToken({ code, codeVerifier });
     this.oauth2Client.setCredentials(tokens);
 
     if (!tokens.access_token || !tokens.refresh_token || !tokens.expiry_date) {
@@ -88,7 +199,31 @@ export class GoogleCalendarIntegration {
     return tokens;
   }
 
-  async getEventsForDate(dateStr: string): Promise<CalendarEvent[]> {
+  async listCalendars(): Promise<GoogleCalendarInfo[]> {
+    if (!this.calendar || !this.oauth2Client) {
+      throw new Error('Google Calendar not initialized');
+    }
+
+    const expiryDate = this.oauth2Client.credentials.expiry_date;
+    if (expiryDate && expiryDate < Date.now()) {
+      await this.refreshAccessToken();
+    }
+
+    const items: calendar_v3.Schema$CalendarListEntry[] = [];
+    let pageToken: string | undefined;
+    do {
+      const response = await this.calendar.calendarList.list({ pageToken, maxResults: 250 });
+      items.push(...(response.data.items || []));
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return mapCalendarList(items);
+  }
+
+  /**
+   * @param calendarIds calendars to merge; "primary" is the signed-in user's own
+   */
+  async getEventsForDate(dateStr: string, calendarIds: string[] = ['primary']): Promise<CalendarEvent[]> {
     if (!this.calendar || !this.oauth2Client) {
       throw new Error('Google Calendar not initialized');
     }
@@ -98,10 +233,8 @@ export class GoogleCalendarIntegration {
       throw new Error('Date must be in YYYY-MM-DD format (e.g., "2025-12-01")');
     }
 
-    // Parse date for local day start/end times
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const dayStart = new Date(year, month - 1, day, 0, 0, 0);
-    const dayEnd = new Date(year, month - 1, day, 23, 59, 59);
+    // Day start/end in the user's timezone
+    const { start: dayStart, end: dayEnd } = zonedDayBounds(dateStr);
 
     try {
       // Check if token needs refresh
@@ -110,32 +243,36 @@ export class GoogleCalendarIntegration {
         await this.refreshAccessToken();
       }
 
-      const response = await this.calendar.events.list({
-        calendarId: 'primary',
-        timeMin: dayStart.toISOString(),
-        timeMax: dayEnd.toISOString(),
-        singleEvents: true,
-        orderBy: 'startTime',
-      });
-
-      const events = response.data.items || [];
-
-      return events
-        .filter(event => {
-          // Filter out all-day events and events without start/end times
-          return event.start?.dateTime && event.end?.dateTime;
+      const calendar = this.calendar;
+      const sources = await Promise.all(
+        calendarIds.map(async calendarId => {
+          try {
+            const response = await calendar.events.list({
+              calendarId,
+              timeMin: dayStart.toISOString(),
+              timeMax: dayEnd.toISOString(),
+              timeZone: getTimeZone(),
+              singleEvents: true,
+              orderBy: 'startTime',
+            });
+            return { calendar: response.data.summary || calendarId, items: response.data.items || [] };
+          } catch (error: any) {
+            // A selected calendar that was since unshared must not hide the others
+            if (error.code === 404) {
+              console.error(`Google calendar ${calendarId} not found, skipping`);
+              return { calendar: calendarId, items: [] };
+            }
+            throw error;
+          }
         })
-        .map(event => ({
-          title: event.summary || 'Untitled Event',
-          start: new Date(event.start!.dateTime!),
-          end: new Date(event.end!.dateTime!),
-          attendees: event.attendees?.length || 0,
-        }));
+      );
+
+      return mergeGoogleEvents(sources);
     } catch (error: any) {
       if (error.code === 401) {
         // Token expired, try to refresh
         await this.refreshAccessToken();
-        return this.getEventsForDate(dateStr);
+        return this.getEventsForDate(dateStr, calendarIds);
       }
       throw error;
     }
@@ -0,0 +1,389 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+import { CalendarEvent, CalendarResponseStatus } from '../types/index.js';
+import { getTimeZone, zonedDayBounds, zonedTimeToInstant } from '../utils/timezone.js';
+import { isLeaveMarker } from '../utils/calendarPolicy.js';
+import {
+  IcsProperty,
+  IcsTime,
+  dateKeyOf,
+  dayNumber,
+  expandRecurrence,
+  icsInstant,
+  icsProperty,
+  parseIcsDuration,
+  parseIcsEvents,
+  parseIcsTime,
+  parseIcsTimes,
+  parseRRule,
+  unescapeIcsText,
+} from '../utils/ics.js';
+
+/**
+ * Calendars that are neither Google nor Outlook: Fastmail, Nextcloud, iCloud
+ * and anything else that publishes iCalendar. The source is a local .ics file,
+ * a subscription URL (webcal:// or https://) or a CalDAV collection; the last
+ * two accept basic auth, usually with an app password.
+ */
+
+/** A whole-feed download is reused for this long, so a week's timesheet fetches it once. */
+const FEED_TTL_MS = 5 * 60_000;
+const FETCH_TIMEOUT_MS = 30_000;
+
+export interface IcsCalendarSettings {
+  /** Path to an .ics file, or an http(s)/webcal URL of a feed or CalDAV calendar */
+  source: string;
+  username?: string;
+  password?: string;
+  /** Your address in ATTENDEE/ORGANIZER lines, used to read your RSVP */
+  email?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Pure mapping helpers. Separated from transport so they can be tested against
+// fixture .ics text with no network.
+// ---------------------------------------------------------------------------
+
+const PARTSTAT: Record<string, CalendarResponseStatus> = {
+  ACCEPTED: 'accepted',
+  TENTATIVE: 'tentative',
+  DECLINED: 'declined',
+  'NEEDS-ACTION': 'needs_action',
+};
+
+function mailto(value: string): string {
+  return value.replace(/^mailto:/i, '').trim().toLowerCase();
+}
+
+/**
+ * Your RSVP from the ATTENDEE lines. Without a configured address, or with
+ * no guests at all, an event on your own calendar counts as accepted.
+ */
+function icsResponseStatus(
+  event: IcsProperty[],
+  email: string | undefined
+): { responseStatus: CalendarResponseStatus; isOrganizer: boolean } {
+  const attendees = event.filter(p => p.name === 'ATTENDEE');
+  const organizer = icsProperty(event, 'ORGANIZER');
+
+  if (email) {
+    const me = email.toLowerCase();
+    const isOrganizer = !!organizer && mailto(organizer.value) === me;
+    const self = attendees.find(a => mailto(a.value) === me);
+    if (self?.params.PARTSTAT) {
+      return { responseStatus: PARTSTAT[self.params.PARTSTAT.toUpperCase()] ?? 'none', isOrganizer };
+    }
+    if (isOrganizer) return { responseStatus: 'accepted', isOrganizer };
+  }
+  return { responseStatus: attendees.length === 0 ? 'accepted' : 'none', isOrganizer: false };
+}
+
+/** Start of an occurrence of the event on `date`, at DTSTART's time of day. */
+function occurrenceStart(start: IcsTime, date: string): Date {
+  return icsInstant({ ...start, date });
+}
+
+/** End of an occurrence: all-day events keep their length in days, timed ones in milliseconds. */
+function occurrenceEnd(event: IcsProperty[], start: IcsTime, zone: string): (occurrence: IcsTime) => Date {
+  const endProp = icsProperty(event, 'DTEND');
+  const end = endProp ? parseIcsTime(endProp, zone) : null;
+  const durationProp = icsProperty(event, 'DURATION');
+
+  if (start.allDay) {
+    const days = end?.allDay
+      ? Math.max(1, dayNumber(end.date) - dayNumber(start.date))
+      : Math.max(1, Math.round((durationProp ? parseIcsDuration(durationProp.value) : 0) / 86_400_000));
+    return occurrence => zonedTimeToInstant(dateKeyOf(dayNumber(occurrence.date) + days), 0, 0, occurrence.timeZone);
+  }
+
+  const length = end
+    ? icsInstant(end).getTime() - icsInstant(start).getTime()
+    : durationProp
+      ? parseIcsDuration(durationProp.value)
+      : 0;
+  return occurrence => new Date(icsInstant(occurrence).getTime() + Math.max(0, length));
+}
+
+/**
+ * The events of one day (in the user's timezone) from iCalendar text.
+ *
+ * Recurring events are expanded from their RRULE, skipping EXDATEs and
+ * occurrences replaced by a RECURRENCE-ID override; cancelled events and
+ * cancelled occurrences are dropped. As with the other providers, all-day
+ * entries are kept only when they mark leave. Exported for tests.
+ */
+export function eventsForDay(
+  text: string,
+  dateStr: string,
+  options: { timeZone?: string; email?: string } = {}
+): CalendarEvent[] {
+  const zone = options.timeZone ?? getTimeZone();
+  const { start: dayStart, end: dayEnd } = zonedDayBounds(dateStr, zone);
+  const dayNum = dayNumber(dateStr);
+
+  const events = parseIcsEvents(text);
+
+  // Occurrences moved or cancelled individually, by UID and original start
+  const overridden = new Map<string, Set<number>>();
+  for (const event of events) {
+    const uid = icsProperty(event, 'UID')?.value;
+    const recurrenceId = icsProperty(event, 'RECURRENCE-ID');
+    const original = recurrenceId && parseIcsTime(recurrenceId, zone);
+    if (!uid || !original) continue;
+    if (!overridden.has(uid)) overridden.set(uid, new Set());
+    overridden.get(uid)!.add(icsInstant(original).getTime());
+  }
+
+  const result: CalendarEvent[] = [];
+
+  for (const event of events) {
+    if (icsProperty(event, 'STATUS')?.value.toUpperCase() === 'CANCELLED') continue;
+
+    const startProp = icsProperty(event, 'DTSTART');
+    const start = startProp && parseIcsTime(startProp, zone);
+    if (!start) continue;
+    const endOf = occurrenceEnd(event, start, zone);
+
+    // Candidate dates in the event's own zone. Events can start up to a day
+    // either side of the user's date once zones differ, and long events can
+    // start earlier still, so widen the window by the event's length.
+    const span = Math.ceil((endOf(start).getTime() - icsInstant(start).getTime()) / 86_400_000);
+    const from = dayNum - Math.max(1, span) - 1;
+    const through = dateKeyOf(dayNum + 1);
+
+    const rrule = icsProperty(event, 'RRULE');
+    const rule = rrule && !icsProperty(event, 'RECURRENCE-ID') ? parseRRule(rrule.value, zone) : null;
+    let dates = rule ? expandRecurrence(rule, start, through) : [start.date];
+    dates = dates.filter(date => dayNumber(date) >= from && dayNumber(date) <= dayNum + 1);
+    if (dates.length === 0) continue;
+
+    const uid = icsProperty(event, 'UID')?.value;
+    const skipped = new Set(rule && uid ? overridden.get(uid) : undefined);
+    const skippedDates = new Set<string>();
+    for (const exdate of event.filter(p => p.name === 'EXDATE')) {
+      for (const time of parseIcsTimes(exdate, start.timeZone)) {
+        if (time.allDay) skippedDates.add(time.date);
+        else skipped.add(icsInstant(time).getTime());
+      }
+    }
+
+    const summary = icsProperty(event, 'SUMMARY');
+    const title = (summary && unescapeIcsText(summary.value).trim()) || 'Untitled Event';
+    const outOfOffice = icsProperty(event, 'X-MICROSOFT-CDO-BUSYSTATUS')?.value.toUpperCase() === 'OOF';
+    const free = icsProperty(event, 'TRANSP')?.value.toUpperCase() === 'TRANSPARENT';
+    const rsvp = icsResponseStatus(event, options.email);
+
+    for (const date of dates) {
+      const occurrence = { ...start, date };
+      const occStart = occurrenceStart(start, date);
+      if (skippedDates.has(date) || skipped.has(occStart.getTime())) continue;
+
+      const occEnd = endOf(occurrence);
+      const overlaps =
+        occEnd > occStart ? occStart < dayEnd && occEnd > dayStart : occStart >= dayStart && occStart < dayEnd;
+      if (!overlaps) continue;
+
+      const leave = isLeaveMarker({ title, start: occStart, end: occEnd, allDay: start.allDay, outOfOffice });
+      // Other all-day entries are reminders, not meetings
+      if (!leave && start.allDay) continue;
+
+      result.push({
+        title,
+        start: occStart,
+        end: occEnd,
+        attendees: event.filter(p => p.name === 'ATTENDEE').length,
+        responseStatus: rsvp.responseStatus,
+        showAs: free ? 'free' : 'busy',
+        isOrganizer: rsvp.isOrganizer,
+        ...(leave ? { leave } : {}),
+      });
+    }
+  }
+
+  return result.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/** The iCalendar objects in a CalDAV multistatus response, joined into one text. */
+export function calendarDataFromMultistatus(xml: string): string {
+  const blocks: string[] = [];
+  const pattern = /<(?:[\w-]+:)?calendar-data\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/g;
+  for (const match of xml.matchAll(pattern)) {
+    const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+    blocks.push(
+      cdata
+        ? cdata[1]
+        : match[1]
+            .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(Number(code)))
+            .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, '&')
+    );
+  }
+  return blocks.join('\n');
+}
+
+function icsUtc(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+export class IcsCalendarIntegration {
+  private settings: IcsCalendarSettings | null = null;
+  /** Set once a URL turns out to be a CalDAV collection rather than a feed */
+  private caldav = false;
+  /** The download in flight or done; null text means the URL is not a feed */
+  private feed: { text: Promise<string | null>; fetchedAt: number } | null = null;
+
+  async initialize(settings: IcsCalendarSettings): Promise<void> {
+    if (!settings.source?.trim()) {
+      throw new Error('ICS calendar source is required: a path to an .ics file or a calendar URL.');
+    }
+    this.settings = { ...settings, source: settings.source.trim() };
+    this.caldav = false;
+    this.feed = null;
+  }
+
+  isConfigured(): boolean {
+    return this.settings !== null;
+  }
+
+  /** The source with any credentials in the URL removed, for status output. */
+  describeSource(): string {
+    if (!this.settings) return 'not configured';
+    if (!isUrl(this.settings.source)) return this.settings.source;
+    const url = new URL(this.settings.source.replace(/^webcals?:\/\//i, 'https://'));
+    url.username = '';
+    url.password = '';
+    return url.toString();
+  }
+
+  private requireSettings(): IcsCalendarSettings {
+    if (!this.settings) {
+      throw new Error('ICS calendar not configured. Use configure_ics_calendar first.');
+    }
+    return this.settings;
+  }
+
+  async getEventsForDate(dateStr: string): Promise<CalendarEvent[]> {
+    const settings = this.requireSettings();
+
+    // Validate YYYY-MM-DD format
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      throw new Error('Date must be in YYYY-MM-DD format (e.g., "2025-12-01")');
+    }
+
+    const text = await this.loadCalendar(dateStr);
+    return eventsForDay(text, dateStr, { email: settings.email });
+  }
+
+  private async loadCalendar(dateStr: string): Promise<string> {
+    const settings = this.requireSettings();
+
+    if (!isUrl(settings.source)) {
+      const file = settings.source.startsWith('~/') ? path.join(homedir(), settings.source.slice(2)) : settings.source;
+      try {
+        return await fs.readFile(file, 'utf-8');
+      } catch (error: any) {
+        throw new Error(`Could not read ICS calendar file (${file}): ${error.message}`);
+      }
+    }
+
+    if (this.caldav) {
+      return this.calendarQuery(dateStr);
+    }
+    // Shared by the days of a range, which are fetched in parallel
+    if (!this.feed || Date.now() - this.feed.fetchedAt >= FEED_TTL_MS) {
+      const text = this.downloadFeed();
+      this.feed = { text, fetchedAt: Date.now() };
+      // A failed download is not reused; the next day tries again
+      text.catch(() => {
+        if (this.feed?.text === text) this.feed = null;
+      });
+    }
+
+    const text = await this.feed.text;
+    if (text !== null) {
+      return text;
+    }
+
+    // A CalDAV collection answers GET with an HTML listing, an error or nothing
+    this.caldav = true;
+    return this.calendarQuery(dateStr);
+  }
+
+  /** The whole feed, or null when the URL answers with something else. */
+  private async downloadFeed(): Promise<string | null> {
+    const response = await this.request('GET', { Accept: 'text/calendar' });
+    const text = await response.text();
+    return response.ok && text.includes('BEGIN:VCALENDAR') ? text : null;
+  }
+
+  /** CalDAV calendar-query for the events overlapping the day. */
+  private async calendarQuery(dateStr: string): Promise<string> {
+    const { start, end } = zonedDayBounds(dateStr);
+    const body =
+      '<?xml version="1.0" encoding="utf-8"?>\n' +
+      '<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">\n' +
+      '  <d:prop><c:calendar-data/></d:prop>\n' +
+      '  <c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">\n' +
+      `    <c:time-range start="${icsUtc(start)}" end="${icsUtc(end)}"/>\n` +
+      '  </c:comp-filter></c:comp-filter></c:filter>\n' +
+      '</c:calendar-query>';
+
+    const response = await this.request('REPORT', { Depth: '1', 'Content-Type': 'application/xml; charset=utf-8' }, body);
+    const xml = await response.text();
+    if (!response.ok) {
+      throw new Error(
+        `${this.describeSource()} returned HTTP ${response.status} and is neither an iCalendar feed nor a CalDAV calendar.`
+      );
+    }
+    return calendarDataFromMultistatus(xml);
+  }
+
+  private async request(method: string, headers: Record<string, string>, body?: string): Promise<Response> {
+    const settings = this.requireSettings();
+    const url = new URL(settings.source.replace(/^webcals?:\/\//i, 'https://'));
+
+    // fetch refuses URLs with credentials in them; send those as basic auth
+    const username = settings.username ?? (url.username ? decodeURIComponent(url.username) : undefined);
+    const password = settings.password ?? (url.password ? decodeURIComponent(url.password) : undefined);
+    url.username = '';
+    url.password = '';
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers: {
+          ...headers,
+          ...(username !== undefined
+            ? { Authorization: `Basic ${Buffer.from(`${username}:${password ?? ''}`).toString('base64')}` }
+            : {}),
+        },
+        body,
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      throw new Error(`Could not reach ${url.toString()}: ${error.message}`);
+    }
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `${url.toString()} rejected the credentials (HTTP ${response.status}). ` +
+          'Check the username, and use an app password where the provider requires one.'
+      );
+    }
+    return response;
+  }
+}
+
+function isUrl(source: string): boolean {
+  return /^(https?|webcals?):\/\//i.test(source);
+}
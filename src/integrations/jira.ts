@@ -0,0 +1,306 @@
+import { GitLabActivity } from '../types/index.js';
+import { zonedDateKey } from '../utils/timezone.js';
+
+/**
+ * Jira Cloud and Jira Data Center / Server issue activity: issues you
+ * created, transitioned, commented on or logged work against. Cloud
+ * authenticates with your Atlassian email and an API token, Data Center with
+ * a personal access token.
+ */
+
+const FETCH_TIMEOUT_MS = 30_000;
+/** Issues read per day, most recently updated first. */
+const MAX_ISSUES = 100;
+const SEARCH_FIELDS = 'summary,project,created,creator,reporter,comment,worklog';
+
+export interface JiraSettings {
+  /** Site URL, e.g. https://acme.atlassian.net or https://jira.example.com */
+  url: string;
+  /** Atlassian account email, for Cloud API tokens. Absent means `token` is a Data Center personal access token. */
+  email?: string;
+  token: string;
+}
+
+export interface JiraIdentity {
+  /** Cloud account ID */
+  accountId?: string;
+  /** Data Center user key and name */
+  key?: string;
+  name?: string;
+  displayName: string;
+}
+
+type IssueActivity = GitLabActivity['issues'][number];
+
+// ---------------------------------------------------------------------------
+// Pure mapping helpers. Separated from transport so they can be tested against
+// fixture JSON with no network.
+// ---------------------------------------------------------------------------
+
+/** Site URL without a trailing slash or a pasted /browse/… or /rest/… path. */
+export function normalizeJiraUrl(url: string): string {
+  const parsed = new URL(url.trim());
+  const path = parsed.pathname.replace(/\/(browse|rest|secure|jira\/software)(\/.*)?$/, '').replace(/\/+$/, '');
+  return `${parsed.origin}${path}`;
+}
+
+function shiftDate(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * JQL for issues you may have touched on the day. Jira reads dates in the
+ * timezone of your Jira profile, which need not be ours, so the window runs a
+ * day either side and the activity itself is matched to the day afterwards.
+ * Data Center has no updatedBy(); comments are found through the watcher
+ * list, which Jira adds commenters to by default.
+ */
+export function buildActivityJql(dateStr: string, cloud: boolean): string {
+  const from = shiftDate(dateStr, -1);
+  const to = shiftDate(dateStr, 1);
+  const clauses = [
+    `status CHANGED BY currentUser() DURING ("${from}", "${to}")`,
+    `(worklogAuthor = currentUser() AND worklogDate >= "${from}" AND worklogDate <= "${to}")`,
+    `(creator = currentUser() AND created >= "${from}" AND created <= "${to}")`,
+    cloud
+      ? `issue in updatedBy(currentUser(), "${from}", "${to}")`
+      : `(watcher = currentUser() AND updated >= "${from}")`,
+  ];
+  return `${clauses.join(' OR ')} ORDER BY updated DESC`;
+}
+
+export function isJiraUser(user: any, me: JiraIdentity): boolean {
+  if (!user) return false;
+  if (me.accountId) return user.accountId === me.accountId;
+  return (!!me.key && user.key === me.key) || (!!me.name && user.name === me.name);
+}
+
+/** "1h 30m" from seconds, as Jira writes durations. */
+export function formatJiraDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return [hours ? `${hours}h` : '', minutes ? `${minutes}m` : ''].filter(Boolean).join(' ') || '0m';
+}
+
+/**
+ * What you did on one issue during the day. `issue` is a search result with
+ * the changelog expanded and its comment and worklog fields complete. Several
+ * transitions in a day read as one, from the first status to the last.
+ */
+export function mapJiraIssueActivity(issue: any, me: JiraIdentity, dateStr: string, webUrl: string): IssueActivity[] {
+  const fields = issue.fields ?? {};
+  const inDay = (timestamp: string | undefined) => !!timestamp && zonedDateKey(timestamp) === dateStr;
+  const base = {
+    title: `${issue.key}: ${fields.summary ?? 'Issue'}`,
+    project: fields.project?.name || String(issue.key).split('-')[0],
+    url: `${webUrl}/browse/${issue.key}`,
+  };
+  const activities: IssueActivity[] = [];
+
+  if (inDay(fields.created) && isJiraUser(fields.creator ?? fields.reporter, me)) {
+    activities.push({ action: 'opened', ...base });
+  }
+
+  // Histories arrive newest first on Cloud and oldest first on Data Center
+  const transitions = (issue.changelog?.histories ?? [])
+    .filter((h: any) => isJiraUser(h.author, me) && inDay(h.created))
+    .flatMap((h: any) =>
+      (h.items ?? []).filter((i: any) => i.field === 'status').map((i: any) => ({ at: Date.parse(h.created), item: i }))
+    )
+    .sort((a: any, b: any) => a.at - b.at);
+  if (transitions.length > 0) {
+    const from = transitions[0].item.fromString;
+    const to = transitions[transitions.length - 1].item.toString;
+    activities.push({ action: 'status_changed', ...base, details: from ? `${from} → ${to}` : `→ ${to}` });
+  }
+
+  if ((fields.comment?.comments ?? []).some((c: any) => isJiraUser(c.author, me) && inDay(c.created))) {
+    activities.push({ action: 'commented', ...base });
+  }
+
+  const logged = (fields.worklog?.worklogs ?? [])
+    .filter((w: any) => isJiraUser(w.author, me) && inDay(w.started))
+    .reduce((total: number, w: any) => total + (Number(w.timeSpentSeconds) || 0), 0);
+  if (logged > 0) {
+    activities.push({ action: 'logged_work', ...base, details: formatJiraDuration(logged) });
+  }
+
+  return activities;
+}
+
+// ---------------------------------------------------------------------------
+// Transport
+// ---------------------------------------------------------------------------
+
+export class JiraIntegration {
+  private settings: JiraSettings | null = null;
+  private webUrl = '';
+  private cloud = false;
+  private identity: JiraIdentity | null = null;
+
+  /** Stores the settings and checks them by reading the authenticated user. */
+  async initialize(settings: JiraSettings): Promise<JiraIdentity> {
+    if (!settings.url) {
+      throw new Error('A Jira site URL is required, e.g. https://acme.atlassian.net');
+    }
+    if (!settings.token) {
+      throw new Error('A Jira API token (Cloud) or personal access token (Data Center) is required.');
+    }
+    this.settings = settings;
+    this.webUrl = normalizeJiraUrl(settings.url);
+    this.identity = null;
+
+    const { body: server } = await this.request('/serverInfo');
+    this.cloud = server.deploymentType === 'Cloud';
+    if (this.cloud && !settings.email) {
+      throw new Error('Jira Cloud API tokens are used with your Atlassian account email. Pass email as well.');
+    }
+
+    const { body: me } = await this.request('/myself');
+    this.identity = {
+      accountId: me.accountId,
+      key: me.key,
+      name: me.name,
+      displayName: me.displayName || me.name || me.accountId,
+    };
+    return this.identity;
+  }
+
+  getIdentity(): JiraIdentity | null {
+    return this.identity;
+  }
+
+  /** The site URL, for status output. */
+  describe(): string {
+    return this.webUrl;
+  }
+
+  private async request(path: string): Promise<{ body: any }> {
+    if (!this.settings) {
+      throw new Error('Jira client not initialized');
+    }
+    const url = `${this.webUrl}/rest/api/2${path}`;
+    const authorization = this.settings.email
+      ? `Basic ${Buffer.from(`${this.settings.email}:${this.settings.token}`).toString('base64')}`
+      : `Bearer ${this.settings.token}`;
+
+    const response = await fetch(url, {
+      headers: { Authorization: authorization, Accept: 'application/json' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(
+        `Jira rejected the credentials (HTTP ${response.status}) at ${this.webUrl}. ` +
+          'Use your Atlassian email with an API token for Jira Cloud, or a personal access token for Data Center.'
+      );
+    }
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      const messages = (() => {
+        try {
+          return JSON.parse(text).errorMessages?.join(' ');
+        } catch {
+          return '';
+        }
+      })();
+      throw new Error(`Jira API error ${response.status} for ${url}${messages ? `: ${messages}` : ''}`);
+    }
+    return { body: await response.json() };
+  }
+
+  /** Issues matching the JQL, with changelogs. Cloud pages by token, Data Center by offset. */
+  private async search(jql: string): Promise<any[]> {
+    const issues: any[] = [];
+    const query = `jql=${encodeURIComponent(jql)}&fields=${SEARCH_FIELDS}&expand=changelog&maxResults=50`;
+
+    if (this.cloud) {
+      let token: string | undefined;
+      do {
+        const { body } = await this.request(
+          `/search/jql?${query}${token ? `&nextPageToken=${encodeURIComponent(token)}` : ''}`
+        );
+        issues.push(...(body.issues ?? []));
+        token = body.isLast === false ? body.nextPageToken : undefined;
+      } while (token && issues.length < MAX_ISSUES);
+    } else {
+      let startAt = 0;
+      do {
+        const { body } = await this.request(`/search?${query}&startAt=${startAt}`);
+        issues.push(...(body.issues ?? []));
+        startAt += body.issues?.length ?? 0;
+        if (!body.issues?.length || startAt >= body.total) break;
+      } while (issues.length < MAX_ISSUES);
+    }
+
+    return issues.slice(0, MAX_ISSUES);
+  }
+
+  /** Every entry of an offset-paged list, e.g. an issue's comments. */
+  private async readAll(path: string, listKey: string): Promise<any[]> {
+    const values: any[] = [];
+    for (;;) {
+      const separator = path.includes('?') ? '&' : '?';
+      const { body } = await this.request(`${path}${separator}startAt=${values.length}&maxResults=100`);
+      const page = body[listKey] ?? [];
+      values.push(...page);
+      if (page.length === 0 || body.isLast === true || values.length >= (body.total ?? 0)) return values;
+    }
+  }
+
+  /**
+   * Search results embed only the first comments, worklogs and (on Cloud)
+   * changelog entries of an issue; reads the rest where they were cut short.
+   */
+  private async completeIssue(issue: any): Promise<void> {
+    const fields = issue.fields ?? {};
+    const key = encodeURIComponent(issue.key);
+
+    if (fields.comment && fields.comment.total > (fields.comment.comments?.length ?? 0)) {
+      fields.comment.comments = await this.readAll(`/issue/${key}/comment`, 'comments');
+    }
+    if (fields.worklog && fields.worklog.total > (fields.worklog.worklogs?.length ?? 0)) {
+      fields.worklog.worklogs = await this.readAll(`/issue/${key}/worklog`, 'worklogs');
+    }
+    const changelog = issue.changelog;
+    if (this.cloud && changelog && changelog.total > (changelog.histories?.length ?? 0)) {
+      changelog.histories = await this.readAll(`/issue/${key}/changelog`, 'values');
+    }
+  }
+
+  async getActivityForDate(dateStr: string): Promise<GitLabActivity> {
+    if (!this.identity) {
+      throw new Error('Jira client not initialized');
+    }
+
+    // Validate YYYY-MM-DD format
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+      throw new Error('Date must be in YYYY-MM-DD format (e.g., "2025-12-01")');
+    }
+
+    const [year, month, day] = dateStr.split('-').map(Number);
+    const activity: GitLabActivity = {
+      date: new Date(year, month - 1, day),
+      commits: [],
+      mergeRequests: [],
+      issues: [],
+    };
+
+    try {
+      for (const issue of await this.search(buildActivityJql(dateStr, this.cloud))) {
+        try {
+          await this.completeIssue(issue);
+        } catch (error) {
+          // Fall back to what the search returned
+          console.error(`Error reading Jira issue ${issue.key}:`, error);
+        }
+        activity.issues.push(...mapJiraIssueActivity(issue, this.identity, dateStr, this.webUrl));
+      }
+    } catch (error) {
+      console.error('Error fetching Jira activity:', error);
+    }
+
+    return activity;
+  }
+}
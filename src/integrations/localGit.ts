@@ -0,0 +1,282 @@
+import { execFile } from 'child_process';
+import type { Dirent } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+import { GitLabActivity, LocalGitConfig } from '../types/index.js';
+import { zonedDateKey, zonedDayBounds } from '../utils/timezone.js';
+
+/**
+ * Commits read straight from repositories on disk, for work on servers this
+ * MCP cannot reach and commits that were never pushed. Nothing is cached:
+ * git answers from local files, and a cache would hide commits made since.
+ */
+
+const GIT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_DEPTH = 3;
+/** Directories that hold dependencies or build output, never your repositories. */
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'vendor', 'dist', 'build', 'target', '__pycache__']);
+
+type Commit = GitLabActivity['commits'][number];
+
+// ---------------------------------------------------------------------------
+// Pure parsing helpers. Separated from process spawning so they can be tested
+// against fixture output with no repository.
+// ---------------------------------------------------------------------------
+
+/** Format passed to `git log`: one record per commit, then its --numstat lines. */
+export const LOG_FORMAT = '%x1e%H%x1f%aI%x1f%S%x1f%s';
+
+export interface LocalCommit extends Commit {
+  sha: string;
+  /** Author date, ISO 8601 with offset */
+  authoredAt: string;
+}
+
+/** Strips refs/heads/, refs/remotes/<remote>/ and refs/tags/ from a ref name. */
+function shortRefName(ref: string): string {
+  return ref.replace(/^refs\/heads\//, '').replace(/^refs\/remotes\/[^/]+\//, '').replace(/^refs\/tags\//, '');
+}
+
+/**
+ * Reads `git log --format=LOG_FORMAT --numstat` output. `branches` maps
+ * commit hashes to the branch they were made on; commits missing from it
+ * fall back to the ref git reached them through (%S).
+ */
+export function parseGitLog(output: string, project: string, branches: Map<string, string> = new Map()): LocalCommit[] {
+  const commits: LocalCommit[] = [];
+
+  for (const record of output.split('\x1e')) {
+    const [header, ...stats] = record.split('\n');
+    const [sha, authoredAt, source, ...subject] = header.split('\x1f');
+    if (!sha || !authoredAt) continue;
+
+    let additions = 0;
+    let deletions = 0;
+    for (const line of stats) {
+      // Binary files report "-" for both counts
+      const match = line.match(/^(\d+)\t(\d+)\t/);
+      if (match) {
+        additions += Number(match[1]);
+        deletions += Number(match[2]);
+      }
+    }
+
+    commits.push({
+      message: subject.join('\x1f'),
+      project,
+      branch: branches.get(sha) ?? (source ? shortRefName(source) : 'HEAD'),
+      sha,
+      additions,
+      deletions,
+      authoredAt,
+    });
+  }
+
+  return commits;
+}
+
+/**
+ * Which branch each commit was made on, from `git log -g --all
+ * --format=%H%x1f%gD%x1f%gs`. Only entries that record a commit being
+ * created on a branch count; checkouts and resets move a ref without saying
+ * where a commit was written. The newest entry wins, so an amended commit is
+ * filed under the branch it was amended on.
+ */
+export function parseReflogBranches(output: string): Map<string, string> {
+  const branches = new Map<string, string>();
+
+  for (const line of output.split('\n')) {
+    const [sha, selector, subject] = line.split('\x1f');
+    if (!sha || !selector || !subject) continue;
+
+    const ref = selector.match(/^refs\/heads\/(.+)@\{\d+\}$/);
+    if (!ref) continue;
+    if (!/^(commit|cherry-pick|merge|pull|rebase|revert)\b/.test(subject)) continue;
+
+    if (!branches.has(sha)) branches.set(sha, ref[1]);
+  }
+
+  return branches;
+}
+
+/**
+ * Adds local commits to activity from GitLab/GitHub, leaving out any the
+ * remote already reported (matched by hash, or by the hash in its URL) so
+ * pushed work is not counted twice.
+ */
+export function mergeLocalCommits(remote: Commit[], local: Commit[]): Commit[] {
+  const known = remote.map(c => c.sha ?? c.url?.match(/\/commits?\/([0-9a-f]{7,40})\b/)?.[1]).filter(Boolean) as string[];
+  const isKnown = (sha: string) => known.some(k => sha.startsWith(k) || k.startsWith(sha));
+  return [...remote, ...local.filter(c => !c.sha || !isKnown(c.sha))];
+}
+
+// ---------------------------------------------------------------------------
+// Repository discovery and git
+// ---------------------------------------------------------------------------
+
+function expandHome(dir: string): string {
+  return dir.startsWith('~/') ? path.join(homedir(), dir.slice(2)) : dir;
+}
+
+/**
+ * Repositories in and under the directories, up to `maxDepth` levels down.
+ * A directory with a .git entry (a folder, or a file for worktrees and
+ * submodules) is a repository and is not searched further.
+ */
+export async function findRepositories(directories: string[], maxDepth: number = DEFAULT_MAX_DEPTH): Promise<string[]> {
+  const found: string[] = [];
+
+  const visit = async (dir: string, depth: number): Promise<void> => {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    if (entries.some(e => e.name === '.git')) {
+      found.push(dir);
+      return;
+    }
+    if (depth >= maxDepth) return;
+
+    for (const entry of entries) {
+      if (!entry.isDirectory() || entry.name.startsWith('.') || SKIPPED_DIRECTORIES.has(entry.name)) continue;
+      await visit(path.join(dir, entry.name), depth + 1);
+    }
+  };
+
+  for (const dir of directories) {
+    await visit(path.resolve(expandHome(dir)), 0);
+  }
+  return [...new Set(found)].sort();
+}
+
+function git(repo: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      ['-C', repo, ...args],
+      { timeout: GIT_TIMEOUT_MS, maxBuffer: 50 * 1024 * 1024, windowsHide: true },
+      (error, stdout, stderr) => {
+        if (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return reject(new Error('git was not found on PATH. Install git to read local repositories.'));
+          }
+          return reject(new Error(`git ${args[0]} failed in ${repo}: ${(stderr || error.message).trim()}`));
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
+
+export class LocalGitIntegration {
+  private settings: LocalGitConfig | null = null;
+  private repositories: string[] | null = null;
+
+  async initialize(settings: LocalGitConfig): Promise<void> {
+    if (
+      !Array.isArray(settings.directories) ||
+      settings.directories.length === 0 ||
+      settings.directories.some(d => typeof d !== 'string' || d.trim() === '')
+    ) {
+      throw new Error('localGit.directories must be a non-empty list of folders, e.g. ["~/code"]');
+    }
+    if (settings.authors !== undefined && (!Array.isArray(settings.authors) || settings.authors.some(a => typeof a !== 'string'))) {
+      throw new Error('localGit.authors must be a list of names or emails, e.g. ["me@example.com"]');
+    }
+    this.settings = settings;
+    this.repositories = null;
+  }
+
+  private requireSettings(): LocalGitConfig {
+    if (!this.settings) {
+      throw new Error('Local git not configured. Add a "localGit" block with "directories" to the config file.');
+    }
+    return this.settings;
+  }
+
+  async getRepositories(): Promise<string[]> {
+    const settings = this.requireSettings();
+    this.repositories ??= await findRepositories(settings.directories, settings.maxDepth ?? DEFAULT_MAX_DEPTH);
+    return this.repositories;
+  }
+
+  /**
+   * Your identities in a repository: the configured authors, else the
+   * repository's user.email (which may differ between work and personal repos).
+   */
+  private async authorsFor(repo: string): Promise<string[]> {
+    const configured = this.requireSettings().authors?.filter(a => a.trim() !== '');
+    if (configured?.length) return configured;
+    const email = (await git(repo, ['config', 'user.email']).catch(() => '')).trim();
+    return email ? [email] : [];
+  }
+
+  async getActivityForDate(dateStr: string): Promise<GitLabActivity> {
+    return (await this.getActivityForDates([dateStr])).get(dateStr)!;
+  }
+
+  /**
+   * Commits you authored on each of the days, across every repository. Days
+   * are matched on the author date, so rebased or amended work stays on the
+   * day it was written.
+   */
+  async getActivityForDates(dateStrs: string[]): Promise<Map<string, GitLabActivity>> {
+    const byDate = new Map<string, GitLabActivity>();
+    for (const dateStr of dateStrs) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(dateStr)) {
+        throw new Error('Date must be in YYYY-MM-DD format (e.g., "2025-12-01")');
+      }
+      const [year, month, day] = dateStr.split('-').map(Number);
+      byDate.set(dateStr, { date: new Date(year, month - 1, day), commits: [], mergeRequests: [], issues: [] });
+    }
+    if (dateStrs.length === 0) return byDate;
+
+    // Committer dates are never earlier than author dates, so this bound on
+    // the committer date cannot miss a commit authored in the range
+    const since = zonedDayBounds([...dateStrs].sort()[0]).start.toISOString();
+
+    for (const repo of await this.getRepositories()) {
+      const authors = await this.authorsFor(repo);
+      if (authors.length === 0) {
+        console.error(`Local git: no author configured for ${repo}; set localGit.authors or git user.email`);
+        continue;
+      }
+
+      let commits: LocalCommit[];
+      try {
+        const [log, reflog] = await Promise.all([
+          git(repo, [
+            'log',
+            '--exclude=refs/stash',
+            '--all',
+            '--source',
+            '--no-merges',
+            '--fixed-strings',
+            ...authors.map(a => `--author=${a}`),
+            `--since=${since}`,
+            `--format=${LOG_FORMAT}`,
+            '--numstat',
+          ]),
+          git(repo, ['log', '-g', '--all', '--format=%H%x1f%gD%x1f%gs']).catch(() => ''),
+        ]);
+        commits = parseGitLog(log, path.basename(repo), parseReflogBranches(reflog));
+      } catch (error: any) {
+        // An empty repository has no commits to log; anything else is worth a note
+        if (!/does not have any commits|bad default revision/.test(error.message)) {
+          console.error(`Local git: ${error.message}`);
+        }
+        continue;
+      }
+
+      for (const { authoredAt, ...commit } of commits) {
+        byDate.get(zonedDateKey(authoredAt))?.commits.push(commit);
+      }
+    }
+
+    return byDate;
+  }
+}
@@ -1,6 +1,44 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { ConfidentialClientApplication } from '@azure/msal-node';
-import { CalendarEvent } from '../types/index.js';
+import { CalendarEvent, CalendarResponseStatus } from '../types/index.js';
+import { zonedDayBounds } from '../utils/timezone.js';
+import { isLeaveMarker } from '../utils/calendarPolicy.js';
+
+const GRAPH_RESPONSE_STATUS: Record<string, CalendarResponseStatus> = {
+  organizer: 'accepted',
+  accepted: 'accepted',
+  tentativelyAccepted: 'tentative',
+  declined: 'declined',
+  notResponded: 'needs_action',
+  none: 'none',
+};
+
+/** Maps a calendarView page into CalendarEvent[]. Exported for tests. */
+export function mapGraphEvents(events: any[]): CalendarEvent[] {
+  return events
+    .filter((event: any) => event.start?.dateTime && event.end?.dateTime)
+    .map((event: any) => {
+      const mapped: CalendarEvent = {
+        title: event.subject || 'Untitled Event',
+        start: new Date(event.start.dateTime + 'Z'), // Add Z for UTC
+        end: new Date(event.end.dateTime + 'Z'),
+        attendees: event.attendees?.length || 0,
+        responseStatus: GRAPH_RESPONSE_STATUS[event.responseStatus?.response] ?? 'none',
+        // oof and tentative still block time; only an explicit "free" does not
+        showAs: event.showAs === 'free' || event.showAs === 'workingElsewhere' ? 'free' : 'busy',
+        isOrganizer: !!event.isOrganizer,
+      };
+      const allDay = !!event.isAllDay;
+      if (isLeaveMarker({ ...mapped, allDay, outOfOffice: event.showAs === 'oof' })) {
+        mapped.leave = true;
+      } else if (allDay) {
+        // Other all-day entries are reminders, not meetings
+        return null;
+      }
+      return mapped;
+    })
+    .filter((event): event is CalendarEvent => event !== null);
+}
 
 export class OutlookCalendarIntegration {
   private msalClient: ConfidentialClientApplication | null = null;
@@ -116,10 +154,8 @@ export class OutlookCalendarIntegration {
       throw new Error('Date must be in YYYY-MM-DD format (e.g., "2025-12-01")');
     }
 
-    // Parse date for local day start/end times
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const dayStart = new Date(year, month - 1, day, 0, 0, 0);
-    const dayEnd = new Date(year, month - 1, day, 23, 59, 59);
+    // Day start/end in the user's timezone
+    const { start: dayStart, end: dayEnd } = zonedDayBounds(dateStr);
 
     try {
       const response = await this.graphClient
@@ -128,23 +164,11 @@ export class OutlookCalendarIntegration {
           startDateTime: dayStart.toISOString(),
           endDateTime: dayEnd.toISOString(),
         })
-        .select('subject,start,end,attendees')
+        .select('subject,start,end,attendees,isAllDay,responseStatus,showAs,isOrganizer')
         .orderby('start/dateTime')
         .get();
 
-      const events = response.value || [];
-
-      return events
-        .filter((event: any) => {
-          // Filter out all-day events
-          return event.start?.dateTime && event.end?.dateTime;
-        })
-        .map((event: any) => ({
-          title: event.subject || 'Untitled Event',
-          start: new Date(event.start.dateTime + 'Z'), // Add Z for UTC
-          end: new Date(event.end.dateTime + 'Z'),
-          attendees: event.attendees?.length || 0,
-        }));
+      return mapGraphEvents(response.value || []);
     } catch (error: any) {
       if (error.statusCode === 401) {
         throw new Error('Authentication expired. Please re-authenticate.');
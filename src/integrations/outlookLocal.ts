@@ -1,5 +1,7 @@
 import { execFile } from 'child_process';
-import { CalendarEvent } from '../types/index.js';
+import { CalendarEvent, CalendarResponseStatus } from '../types/index.js';
+import { zonedDayBounds } from '../utils/timezone.js';
+import { isLeaveMarker } from '../utils/calendarPolicy.js';
 
 /**
  * Reads the local Outlook desktop calendar with no authentication at all.
@@ -19,6 +21,32 @@ interface RawEvent {
   end?: string | null;
   attendees?: number | null;
   allDay?: boolean | null;
+  /** OlResponseStatus number from COM; absent from the macOS bridge. */
+  responseStatus?: number | null;
+  /** OlBusyStatus number from COM, or Outlook for Mac's free/busy keyword. */
+  busyStatus?: number | string | null;
+}
+
+// OlResponseStatus: 1 = olResponseOrganized, 5 = olResponseNotResponded
+const OL_RESPONSE_STATUS: Record<number, CalendarResponseStatus> = {
+  0: 'none',
+  1: 'accepted',
+  2: 'tentative',
+  3: 'accepted',
+  4: 'declined',
+  5: 'needs_action',
+};
+
+/** OlBusyStatus 0 (free) and 4 (working elsewhere) do not block time. */
+function isFree(busyStatus: RawEvent['busyStatus']): boolean {
+  if (typeof busyStatus === 'number') return busyStatus === 0 || busyStatus === 4;
+  return typeof busyStatus === 'string' && /^free$/i.test(busyStatus.trim());
+}
+
+/** OlBusyStatus 3 is olOutOfOffice; Outlook for Mac says "out of office". */
+function isOutOfOffice(busyStatus: RawEvent['busyStatus']): boolean {
+  if (typeof busyStatus === 'number') return busyStatus === 3;
+  return typeof busyStatus === 'string' && /out.?of.?office|^oof$/i.test(busyStatus.trim());
 }
 
 /**
@@ -51,16 +79,35 @@ export function parseCalendarJson(stdout: string): CalendarEvent[] {
 
   const raw: RawEvent[] = Array.isArray(parsed) ? parsed : [parsed as RawEvent];
 
-  return raw
-    // All-day entries are holidays/OOF markers, not worked meetings. The Graph
-    // integration filtered these out too, so behaviour stays consistent.
-    .filter((e) => e && !e.allDay && e.start && e.end)
-    .map((e) => ({
+  const events: CalendarEvent[] = [];
+  for (const e of raw) {
+    if (!e || !e.start || !e.end) continue;
+
+    const event: CalendarEvent = {
       title: e.subject?.trim() || 'Untitled Event',
       start: new Date(e.start as string),
       end: new Date(e.end as string),
       attendees: typeof e.attendees === 'number' ? e.attendees : 0,
-    }));
+    };
+    if (typeof e.responseStatus === 'number') {
+      event.responseStatus = OL_RESPONSE_STATUS[e.responseStatus] ?? 'none';
+      event.isOrganizer = e.responseStatus === 1;
+    }
+    if (e.busyStatus !== undefined && e.busyStatus !== null) {
+      event.showAs = isFree(e.busyStatus) ? 'free' : 'busy';
+    }
+
+    // All-day entries are holidays, OOF markers or reminders, never worked
+    // meetings; the first two mark the day as leave, the rest are dropped.
+    // The Graph integration classifies them the same way.
+    if (isLeaveMarker({ ...event, allDay: !!e.allDay, outOfOffice: isOutOfOffice(e.busyStatus) })) {
+      event.leave = true;
+    } else if (e.allDay) {
+      continue;
+    }
+    events.push(event);
+  }
+  return events;
 }
 
 function run(command: string, args: string[]): Promise<string> {
@@ -116,7 +163,8 @@ function buildPowerShellScript(dayStart: Date, dayEnd: Date): string {
   // Ordering below is load-bearing: Sort('[Start]') MUST precede
   // IncludeRecurrences = $true, or recurring meetings are silently omitted.
   // Only Recipients.Count is read - touching Recipients[].Address trips
-  // Outlook's programmatic-access guard and pops a dialog.
+  // Outlook's programmatic-access guard and pops a dialog. ResponseStatus and
+  // BusyStatus are plain enums and do not.
   return `
 $ErrorActionPreference = 'Stop'
 $outlook = New-Object -ComObject Outlook.Application
@@ -127,11 +175,13 @@ $found = $items.Restrict("${filter.replace(/"/g, '`"')}")
 $result = New-Object System.Collections.ArrayList
 foreach ($appt in $found) {
   $null = $result.Add([pscustomobject]@{
-    subject   = $appt.Subject
-    start     = $appt.Start.ToString('yyyy-MM-ddTHH:mm:ss')
-    end       = $appt.End.ToString('yyyy-MM-ddTHH:mm:ss')
-    attendees = $appt.Recipients.Count
-    allDay    = [bool]$appt.AllDayEvent
+    subject        = $appt.Subject
+    start          = $appt.Start.ToString('yyyy-MM-ddTHH:mm:ss')
+    end            = $appt.End.ToString('yyyy-MM-ddTHH:mm:ss')
+    attendees      = $appt.Recipients.Count
+    allDay         = [bool]$appt.AllDayEvent
+    responseStatus = [int]$appt.ResponseStatus
+    busyStatus     = [int]$appt.BusyStatus
   })
 }
 ConvertTo-Json -InputObject @($result.ToArray()) -Depth 3 -Compress
@@ -159,12 +209,17 @@ for (let i = 0; i < events.length; i++) {
   try { attendees = ev.attendees().length; } catch (err) { attendees = 0; }
   let allDay = false;
   try { allDay = !!ev.allDayFlag(); } catch (err) { allDay = false; }
+  // Outlook for Mac exposes free/busy but no reliable RSVP state, so declined
+  // filtering on macOS depends on Outlook having removed the declined event.
+  let busyStatus = null;
+  try { busyStatus = String(ev.freeBusyStatus()); } catch (err) { busyStatus = null; }
   out.push({
     subject: ev.subject(),
     start: s.toISOString(),
     end: e.toISOString(),
     attendees: attendees,
-    allDay: allDay
+    allDay: allDay,
+    busyStatus: busyStatus
   });
 }
 JSON.stringify(out);
@@ -196,9 +251,8 @@ export class OutlookLocalIntegration {
       throw new Error(OutlookLocalIntegration.unsupportedMessage());
     }
 
-    const [year, month, day] = dateStr.split('-').map(Number);
-    const dayStart = new Date(year, month - 1, day, 0, 0, 0);
-    const dayEnd = new Date(year, month - 1, day + 1, 0, 0, 0);
+    // Instants, so Outlook (on this machine) reads them in its own zone
+    const { start: dayStart, end: dayEnd } = zonedDayBounds(dateStr);
 
     if (process.platform === 'win32') {
       const stdout = await run('powershell.exe', [
@@ -0,0 +1,130 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  mapCloudCommits,
+  mapCloudPullRequestActivity,
+  mapDataCenterCommits,
+  mapDataCenterPullRequestActivities,
+  resolveBitbucketUrls,
+} from '../integrations/bitbucket.js';
+import { setTimeZone } from '../utils/timezone.js';
+
+const ME = '{5f1c0a2e-8d1b-4c3e-9f2a-7b6d5e4c3b2a}';
+const OTHER = '{0a9b8c7d-6e5f-4a3b-2c1d-0e9f8a7b6c5d}';
+
+test.before(() => setTimeZone('Europe/Berlin'));
+test.after(() => setTimeZone(undefined));
+
+// ---------------------------------------------------------------------------
+// Server URLs
+// ---------------------------------------------------------------------------
+
+test('resolveBitbucketUrls: Cloud by default, Data Center REST API under the web URL', () => {
+  assert.deepEqual(resolveBitbucketUrls(), {
+    cloud: true,
+    webUrl: 'https://bitbucket.org',
+    apiUrl: 'https://api.bitbucket.org/2.0',
+  });
+  assert.equal(resolveBitbucketUrls('https://api.bitbucket.org/2.0').cloud, true);
+  assert.deepEqual(resolveBitbucketUrls('https://git.example.com/bitbucket/rest/api/1.0/'), {
+    cloud: false,
+    webUrl: 'https://git.example.com/bitbucket',
+    apiUrl: 'https://git.example.com/bitbucket/rest/api/1.0',
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pull requests
+// ---------------------------------------------------------------------------
+
+test('mapCloudPullRequestActivity: reads your approvals, reviews, comments and merges on the day', () => {
+  const values = [
+    { approval: { date: '2026-03-10T09:00:00+00:00', user: { uuid: ME } } },
+    { approval: { date: '2026-03-10T09:30:00+00:00', user: { uuid: OTHER } } },
+    { changes_requested: { date: '2026-03-10T10:00:00+00:00', user: { uuid: ME } } },
+    // 23:30 UTC is already the 11th in Berlin
+    { comment: { created_on: '2026-03-10T23:30:00+00:00', user: { uuid: ME } } },
+    { update: { date: '2026-03-10T16:00:00+00:00', state: 'MERGED', author: { uuid: ME } } },
+    { update: { date: '2026-03-10T15:00:00+00:00', state: 'OPEN', author: { uuid: ME } } },
+  ];
+
+  assert.deepEqual(mapCloudPullRequestActivity(values, ME, '2026-03-10'), ['approved', 'reviewed', 'merged']);
+  assert.deepEqual(mapCloudPullRequestActivity(values, ME, '2026-03-11'), ['commented']);
+  assert.deepEqual(mapCloudPullRequestActivity(values, OTHER, '2026-03-10'), ['approved']);
+});
+
+test('mapDataCenterPullRequestActivities: maps activity actions by user slug', () => {
+  const day = Date.parse('2026-03-10T12:00:00Z');
+  const values = [
+    { action: 'OPENED', createdDate: day, user: { slug: 'jdoe' } },
+    { action: 'COMMENTED', createdDate: day, user: { slug: 'jdoe' } },
+    { action: 'COMMENTED', createdDate: day + 60_000, user: { slug: 'jdoe' } },
+    { action: 'RESCOPED', createdDate: day, user: { slug: 'jdoe' } },
+    { action: 'APPROVED', createdDate: day, user: { slug: 'asmith' } },
+    { action: 'DECLINED', createdDate: day - 86_400_000, user: { slug: 'jdoe' } },
+  ];
+
+  assert.deepEqual(mapDataCenterPullRequestActivities(values, 'jdoe', '2026-03-10'), ['created', 'commented']);
+});
+
+// ---------------------------------------------------------------------------
+// Commits
+// ---------------------------------------------------------------------------
+
+test('mapCloudCommits: keeps your non-merge commits on the day', () => {
+  const values = [
+    {
+      hash: 'a46d6905421a0bfa2db2a8e289db96b6a9f2bf4b',
+      date: '2026-03-10T08:15:00+00:00',
+      message: 'Add invoice export\n\nLong description',
+      author: { user: { uuid: ME } },
+      parents: [{ hash: 'c7ee725e' }],
+      links: { html: { href: 'https://bitbucket.org/acme/billing/commits/a46d6905421a0bfa2db2a8e289db96b6a9f2bf4b' } },
+    },
+    {
+      hash: 'c7ee725e3dfe32002ca2d384bcfabeb5d000951c',
+      date: '2026-03-10T09:00:00+00:00',
+      message: 'Merge branch main',
+      author: { user: { uuid: ME } },
+      parents: [{ hash: 'a' }, { hash: 'b' }],
+    },
+    // An email not linked to any account carries a raw author only
+    { hash: '6504b8f7', date: '2026-03-10T09:00:00+00:00', message: 'Untracked', author: { raw: 'Me <me@home>' } },
+    { hash: '11111111', date: '2026-03-09T09:00:00+00:00', message: 'Yesterday', author: { user: { uuid: ME } } },
+  ];
+
+  assert.deepEqual(mapCloudCommits(values, ME, '2026-03-10', 'acme/billing', 'main'), [
+    {
+      message: 'Add invoice export',
+      project: 'acme/billing',
+      branch: 'main',
+      sha: 'a46d6905421a0bfa2db2a8e289db96b6a9f2bf4b',
+      url: 'https://bitbucket.org/acme/billing/commits/a46d6905421a0bfa2db2a8e289db96b6a9f2bf4b',
+    },
+  ]);
+});
+
+test('mapDataCenterCommits: matches on email, else on user name', () => {
+  const at = Date.parse('2026-03-10T12:00:00Z');
+  const values = [
+    { id: 'aaa', message: 'By email', authorTimestamp: at, author: { name: 'other', emailAddress: 'J.Doe@Example.com' } },
+    { id: 'bbb', message: 'By name', authorTimestamp: at, author: { name: 'jdoe', emailAddress: 'jdoe@laptop' } },
+    { id: 'ccc', message: 'Not mine', authorTimestamp: at, author: { name: 'asmith', emailAddress: 'a@example.com' } },
+  ];
+  const commitUrl = (sha: string) => `https://git.example.com/projects/PAY/repos/api/commits/${sha}`;
+
+  const byEmail = mapDataCenterCommits(
+    values,
+    { id: 'jdoe', displayName: 'Jo Doe', name: 'jdoe', email: 'j.doe@example.com' },
+    '2026-03-10',
+    'PAY/api',
+    'master',
+    commitUrl
+  );
+  assert.deepEqual(byEmail.map(c => c.message), ['By email', 'By name']);
+  assert.equal(byEmail[0].url, 'https://git.example.com/projects/PAY/repos/api/commits/aaa');
+
+  const nameOnly = mapDataCenterCommits(values, { id: 'jdoe', displayName: 'Jo Doe', name: 'jdoe' }, '2026-03-10', 'PAY/api', 'master', commitUrl);
+  assert.deepEqual(nameOnly.map(c => c.message), ['By name']);
+});
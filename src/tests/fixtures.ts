@@ -0,0 +1,18 @@
+import { DayActivity } from '../types/index.js';
+
+/** Shared builders for the timesheet tests. Not a test file itself. */
+
+/** The day most fixtures are set on, a Tuesday. */
+export const DATE = new Date(2026, 6, 28);
+
+/** A working day with no activity, on DATE unless `overrides.date` says otherwise. */
+export function day(overrides: Partial<DayActivity> = {}): DayActivity {
+  const date = overrides.date ?? DATE;
+  return {
+    date,
+    meetings: [],
+    gitlabActivity: { date, commits: [], mergeRequests: [], issues: [] },
+    description: '',
+    ...overrides,
+  };
+}
@@ -0,0 +1,189 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+import { GiteaIntegration, giteaTitleRefs, mapGiteaActivity, normalizeGiteaUrl } from '../integrations/gitea.js';
+import { GitLabActivity } from '../types/index.js';
+import { setTimeZone } from '../utils/timezone.js';
+
+const TOKEN = 'fixture-token';
+const ME = { id: 7, login: 'jdoe', emails: ['jdoe@example.com'], names: ['Jo Doe', 'jdoe'] };
+
+function emptyActivity(): GitLabActivity {
+  return { date: new Date(2026, 2, 10), commits: [], mergeRequests: [], issues: [] };
+}
+
+function repo(fullName: string, baseUrl = 'https://gitea.example.com') {
+  return { full_name: fullName, html_url: `${baseUrl}/${fullName}` };
+}
+
+function push(commits: Array<{ sha: string; message: string; email: string; name?: string }>): string {
+  return JSON.stringify({
+    Commits: commits.map(c => ({ Sha1: c.sha, Message: c.message, AuthorEmail: c.email, AuthorName: c.name ?? '' })),
+    Len: commits.length,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Feed mapping
+// ---------------------------------------------------------------------------
+
+test('normalizeGiteaUrl: strips a pasted API path and trailing slashes', () => {
+  assert.equal(normalizeGiteaUrl('https://git.example.com/gitea/api/v1/'), 'https://git.example.com/gitea');
+  assert.equal(normalizeGiteaUrl('https://codeberg.org/'), 'https://codeberg.org');
+});
+
+test('mapGiteaActivity: keeps your commits from a push, once each', () => {
+  const activity = emptyActivity();
+  const item = {
+    op_type: 'commit_repo',
+    ref_name: 'refs/heads/feature/export',
+    repo: repo('infra/billing'),
+    content: push([
+      { sha: 'aaa111', message: 'Add export\n\nDetails', email: 'JDoe@Example.com' },
+      { sha: 'bbb222', message: 'Merged from main', email: 'someone@example.com' },
+      { sha: 'ccc333', message: 'Fix typo', email: 'jdoe@laptop.local', name: 'Jo Doe' },
+    ]),
+  };
+
+  mapGiteaActivity(item, ME, activity);
+  mapGiteaActivity({ ...item, ref_name: 'main' }, ME, activity);
+
+  assert.deepEqual(activity.commits, [
+    {
+      message: 'Add export',
+      project: 'infra/billing',
+      branch: 'feature/export',
+      sha: 'aaa111',
+      url: 'https://gitea.example.com/infra/billing/commit/aaa111',
+    },
+    {
+      message: 'Fix typo',
+      project: 'infra/billing',
+      branch: 'feature/export',
+      sha: 'ccc333',
+      url: 'https://gitea.example.com/infra/billing/commit/ccc333',
+    },
+  ]);
+});
+
+test('mapGiteaActivity: maps pull request and issue actions, with looked-up titles', () => {
+  const items = [
+    { op_type: 'create_pull_request', repo: repo('infra/billing'), content: '12|Add invoice export' },
+    { op_type: 'approve_pull_request', repo: repo('infra/web'), content: '4|LGTM' },
+    { op_type: 'comment_issue', repo: repo('infra/web'), content: '9|Can reproduce on staging' },
+    { op_type: 'reopen_issue', repo: repo('infra/web'), content: '9|' },
+    { op_type: 'star_repo', repo: repo('infra/web'), content: '' },
+  ];
+  assert.deepEqual(giteaTitleRefs(items), ['infra/web#4', 'infra/web#9']);
+
+  const activity = emptyActivity();
+  const titles = new Map([['infra/web#4', 'Cache assets']]);
+  for (const item of items) mapGiteaActivity(item, ME, activity, titles);
+
+  assert.deepEqual(
+    activity.mergeRequests.map(m => [m.action, m.title, m.id, m.url]),
+    [
+      ['created', 'Add invoice export', 12, 'https://gitea.example.com/infra/billing/pulls/12'],
+      ['approved', 'Cache assets', 4, 'https://gitea.example.com/infra/web/pulls/4'],
+    ]
+  );
+  // Comment text is not a title; without a lookup the issue gets a generic one
+  assert.deepEqual(
+    activity.issues.map(i => [i.action, i.title, i.details]),
+    [
+      ['commented', 'Issue', undefined],
+      ['status_changed', 'Issue', 'reopened'],
+    ]
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Fixture server
+// ---------------------------------------------------------------------------
+
+test('GiteaIntegration: reads a day from the heatmap, feed and issue API', async () => {
+  setTimeZone('Europe/Berlin');
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, 'http://fixture');
+    requests.push(`${url.pathname}${url.searchParams.has('date') ? `?date=${url.searchParams.get('date')}` : ''}`);
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    if (req.headers.authorization !== `token ${TOKEN}`) return send(401, { message: 'token is required' });
+
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    switch (url.pathname) {
+      case '/api/v1/user':
+        return send(200, { id: 7, login: 'jdoe', full_name: 'Jo Doe', email: 'jdoe@example.com' });
+      case '/api/v1/user/emails':
+        return send(403, { message: 'token does not have scope read:user' });
+      case '/api/v1/users/jdoe/heatmap':
+        // 2026-03-10 09:00 Berlin; nothing on the 9th
+        return send(200, [{ timestamp: Date.parse('2026-03-10T08:00:00Z') / 1000, contributions: 3 }]);
+      case '/api/v1/users/jdoe/activities/feeds':
+        if (url.searchParams.get('date') !== '2026-03-10') return send(200, []);
+        return send(200, [
+          {
+            id: 3,
+            act_user_id: 7,
+            op_type: 'close_issue',
+            repo: repo('infra/web', base),
+            content: '21|',
+            created: '2026-03-10T15:00:00Z',
+          },
+          {
+            id: 2,
+            act_user_id: 7,
+            op_type: 'commit_repo',
+            ref_name: 'refs/heads/main',
+            repo: repo('infra/web', base),
+            content: push([{ sha: 'ddd444', message: 'Tune cache headers', email: 'jdoe@example.com' }]),
+            created: '2026-03-10T08:00:00Z',
+          },
+          // 23:30 UTC is already the 11th in Berlin
+          {
+            id: 1,
+            act_user_id: 7,
+            op_type: 'create_issue',
+            repo: repo('infra/web', base),
+            content: '22|Late night bug',
+            created: '2026-03-10T23:30:00Z',
+          },
+        ]);
+      case '/api/v1/repos/infra/web/issues/21':
+        return send(200, { number: 21, title: 'Stale assets after deploy' });
+      default:
+        return send(404, { message: 'not found' });
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const gitea = new GiteaIntegration();
+    const { port } = server.address() as AddressInfo;
+    const identity = await gitea.initialize({ url: `http://127.0.0.1:${port}/api/v1`, token: TOKEN });
+    assert.deepEqual(identity.emails, ['jdoe@example.com']);
+
+    const quiet = await gitea.getActivityForDate('2026-03-09');
+    assert.equal(quiet.commits.length + quiet.mergeRequests.length + quiet.issues.length, 0);
+    assert.ok(!requests.some(r => r.includes('/activities/feeds')), 'a day without contributions reads no feed');
+
+    const activity = await gitea.getActivityForDate('2026-03-10');
+    assert.deepEqual(activity.commits.map(c => [c.message, c.branch]), [['Tune cache headers', 'main']]);
+    assert.deepEqual(activity.issues.map(i => [i.action, i.title, i.id]), [['closed', 'Stale assets after deploy', 21]]);
+    assert.deepEqual(
+      requests.filter(r => r.includes('/activities/feeds')),
+      ['/api/v1/users/jdoe/activities/feeds?date=2026-03-09', '/api/v1/users/jdoe/activities/feeds?date=2026-03-10', '/api/v1/users/jdoe/activities/feeds?date=2026-03-11']
+    );
+    assert.equal(requests.filter(r => r.endsWith('/heatmap')).length, 1);
+
+    await assert.rejects(gitea.initialize({ url: `http://127.0.0.1:${port}`, token: 'wrong' }), /rejected the access token \(HTTP 401\)/);
+  } finally {
+    server.close();
+    setTimeZone(undefined);
+  }
+});
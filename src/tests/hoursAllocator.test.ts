@@ -0,0 +1,142 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { ActivityDistributor } from '../utils/activityDistributor.js';
+import { HoursAllocator, meetingHoursFor, roundToQuarterHour } from '../utils/hoursAllocator.js';
+import { CalendarEvent, GitLabActivity } from '../types/index.js';
+import { DATE, day } from './fixtures.js';
+
+function meeting(start: string, end: string): CalendarEvent {
+  return { title: 'Sync', start: new Date(`2026-07-28T${start}:00`), end: new Date(`2026-07-28T${end}:00`) };
+}
+
+function commits(project: string, count: number): GitLabActivity['commits'] {
+  return Array.from({ length: count }, (_, i) => ({ message: `Change ${i}`, project, branch: 'main' }));
+}
+
+// ---------------------------------------------------------------------------
+// Meeting time
+// ---------------------------------------------------------------------------
+
+test('meetingHoursFor: counts overlapping meetings once', () => {
+  assert.equal(meetingHoursFor([meeting('09:00', '10:00'), meeting('09:30', '11:00'), meeting('14:00', '14:30')]), 2.5);
+});
+
+test('meetingHoursFor: accepts string dates from the cache', () => {
+  const cached = JSON.parse(JSON.stringify([meeting('10:00', '10:45')]));
+  assert.equal(meetingHoursFor(cached), 0.75);
+});
+
+// ---------------------------------------------------------------------------
+// Allocation
+// ---------------------------------------------------------------------------
+
+test('allocateDay: spreads the time left after meetings by activity weight', () => {
+  const hours = new HoursAllocator(8).allocateDay(
+    day({
+      meetings: [meeting('09:00', '11:00')],
+      gitlabActivity: { date: DATE, commits: [...commits('web', 2), ...commits('api', 1)], mergeRequests: [], issues: [] },
+    })
+  );
+
+  assert.deepEqual(hours, [
+    { project: 'Meetings', hours: 2, meetings: true },
+    { project: 'web', hours: 4 },
+    { project: 'api', hours: 2 },
+  ]);
+});
+
+test('allocateDay: quarter-hour shares always add up to the working day', () => {
+  const hours = new HoursAllocator(7.5).allocateDay(
+    day({
+      gitlabActivity: {
+        date: DATE,
+        commits: [...commits('a', 1), ...commits('b', 1), ...commits('c', 1)],
+        mergeRequests: [],
+        issues: [],
+      },
+    })
+  );
+
+  assert.equal(hours.reduce((sum, h) => sum + h.hours, 0), 7.5);
+  assert.ok(hours.every(h => h.hours % 0.25 === 0));
+});
+
+test('allocateDay: authored MRs outweigh reviews and Azure DevOps work counts by project', () => {
+  const hours = new HoursAllocator(8).allocateDay(
+    day({
+      gitlabActivity: {
+        date: DATE,
+        commits: [],
+        mergeRequests: [
+          { action: 'created', title: 'Add login', project: 'web' },
+          { action: 'reviewed', title: 'Fix cache', project: 'api' },
+        ],
+        issues: [],
+      },
+      azureDevOpsActivity: {
+        date: DATE,
+        workItems: [{ id: 1, title: 'Bug', type: 'Bug', project: 'Retail', actions: ['commented'] }],
+        pullRequests: [],
+        commits: [],
+        scanned: { projects: ['Retail'], repositories: 1, commitsSkipped: false },
+      },
+    })
+  );
+
+  assert.deepEqual(hours, [
+    { project: 'web', hours: 4 },
+    { project: 'api', hours: 2 },
+    { project: 'Retail', hours: 2 },
+  ]);
+});
+
+test('allocateDay: a meetings-only day does not invent project time', () => {
+  const hours = new HoursAllocator(8).allocateDay(day({ meetings: [meeting('13:00', '14:00')] }));
+  assert.deepEqual(hours, [{ project: 'Meetings', hours: 1, meetings: true }]);
+});
+
+test('allocateDay: meetings filling the day leave nothing to spread', () => {
+  const hours = new HoursAllocator(4).allocateDay(
+    day({
+      meetings: [meeting('09:00', '14:00')],
+      gitlabActivity: { date: DATE, commits: commits('web', 3), mergeRequests: [], issues: [] },
+    })
+  );
+  assert.deepEqual(hours, [{ project: 'Meetings', hours: 5, meetings: true }]);
+});
+
+test('allocateDay: the note left by distribute_gaps is not billed as a project', () => {
+  const monday = new Date(2026, 6, 27);
+  const { activities } = new ActivityDistributor().distributeActivities([
+    day({ date: monday }),
+    day({ gitlabActivity: { date: DATE, commits: commits('web', 4), mergeRequests: [], issues: [] } }),
+  ]);
+  const allocator = new HoursAllocator(8);
+
+  assert.ok(activities[1].gitlabActivity.commits.some(c => c.project === 'System'));
+  assert.deepEqual(activities.map(a => allocator.allocateDay(a)), [
+    [{ project: 'web', hours: 8 }],
+    [{ project: 'web', hours: 8 }],
+  ]);
+});
+
+test('allocateDay: a project named Meetings stays apart from calendar time', () => {
+  const hours = new HoursAllocator(8).allocateDay(
+    day({
+      meetings: [meeting('09:00', '11:00')],
+      gitlabActivity: { date: DATE, commits: commits('Meetings', 1), mergeRequests: [], issues: [] },
+    })
+  );
+
+  assert.deepEqual(hours, [
+    { project: 'Meetings', hours: 2, meetings: true },
+    { project: 'Meetings', hours: 6 },
+  ]);
+});
+
+test('roundToQuarterHour: clears float noise from summed hours', () => {
+  assert.equal(roundToQuarterHour(0.1 + 0.2 + 7.2), 7.5);
+  assert.equal(roundToQuarterHour(7.499999999), 7.5);
+  assert.equal(roundToQuarterHour(1.1), 1);
+});
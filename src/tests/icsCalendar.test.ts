@@ -0,0 +1,210 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+import { expandRecurrence, parseIcsTime, parseRRule } from '../utils/ics.js';
+import { IcsCalendarIntegration, calendarDataFromMultistatus, eventsForDay } from '../integrations/icsCalendar.js';
+
+const ZONE = 'America/New_York';
+
+function expand(rrule: string, dtstart: string, through: string): string[] {
+  const start = parseIcsTime({ name: 'DTSTART', params: {}, value: dtstart }, ZONE)!;
+  return expandRecurrence(parseRRule(rrule, ZONE)!, start, through);
+}
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', ...events.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+}
+
+// ---------------------------------------------------------------------------
+// Recurrence rules
+// ---------------------------------------------------------------------------
+
+test('expandRecurrence: fortnightly on several weekdays with COUNT', () => {
+  // Monday 2026-03-02
+  assert.deepEqual(expand('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR;COUNT=5', '20260302T090000', '2026-12-31'), [
+    '2026-03-02',
+    '2026-03-04',
+    '2026-03-06',
+    '2026-03-16',
+    '2026-03-18',
+  ]);
+});
+
+test('expandRecurrence: monthly by weekday ordinal and by set position', () => {
+  assert.deepEqual(expand('FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20260430T235959Z', '20260130T150000', '2026-12-31'), [
+    '2026-01-30',
+    '2026-02-27',
+    '2026-03-27',
+    '2026-04-24',
+  ]);
+  // Last working day of the month
+  assert.deepEqual(expand('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '20260130T160000', '2026-05-31'), [
+    '2026-01-30',
+    '2026-02-27',
+    '2026-03-31',
+    '2026-04-30',
+    '2026-05-29',
+  ]);
+});
+
+test('expandRecurrence: BYMONTHDAY skips months without that day', () => {
+  assert.deepEqual(expand('FREQ=MONTHLY;BYMONTHDAY=31', '20260131', '2026-06-30'), [
+    '2026-01-31',
+    '2026-03-31',
+    '2026-05-31',
+  ]);
+});
+
+test('parseRRule: sub-daily rules are not expanded', () => {
+  assert.equal(parseRRule('FREQ=HOURLY;INTERVAL=2', ZONE), null);
+  assert.equal(parseRRule('FREQ=DAILY;BYHOUR=9,17', ZONE), null);
+});
+
+// ---------------------------------------------------------------------------
+// Events for a day
+// ---------------------------------------------------------------------------
+
+const standup = [
+  'UID:standup@example.com',
+  'DTSTART;TZID=Europe/Berlin:20260302T093000',
+  'DTEND;TZID=Europe/Berlin:20260302T094500',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+  'EXDATE;TZID=Europe/Berlin:20260304T093000',
+  'SUMMARY:Daily standup',
+  'ATTENDEE;PARTSTAT=ACCEPTED:mailto:me@example.com',
+  'ATTENDEE;PARTSTAT=ACCEPTED:mailto:lead@example.com',
+];
+
+test('eventsForDay: expands a recurring event in its own zone across DST', () => {
+  // New York moves to summer time on 8 March, Berlin on 29 March
+  const before = eventsForDay(calendar(standup), '2026-03-06', { timeZone: ZONE });
+  const between = eventsForDay(calendar(standup), '2026-03-09', { timeZone: ZONE });
+  const after = eventsForDay(calendar(standup), '2026-03-30', { timeZone: ZONE });
+
+  assert.equal(before[0].start.toISOString(), '2026-03-06T08:30:00.000Z');
+  assert.equal(between[0].start.toISOString(), '2026-03-09T08:30:00.000Z');
+  assert.equal(after[0].start.toISOString(), '2026-03-30T07:30:00.000Z');
+  assert.equal(after[0].end.getTime() - after[0].start.getTime(), 15 * 60_000);
+  assert.equal(after[0].attendees, 2);
+  assert.deepEqual(eventsForDay(calendar(standup), '2026-03-07', { timeZone: ZONE }), []);
+});
+
+test('eventsForDay: honours EXDATE, moved and cancelled occurrences', () => {
+  const moved = [
+    'UID:standup@example.com',
+    'RECURRENCE-ID;TZID=Europe/Berlin:20260305T093000',
+    'DTSTART;TZID=Europe/Berlin:20260305T140000',
+    'DTEND;TZID=Europe/Berlin:20260305T141500',
+    'SUMMARY:Daily standup (moved)',
+  ];
+  const cancelled = [
+    'UID:standup@example.com',
+    'RECURRENCE-ID;TZID=Europe/Berlin:20260306T093000',
+    'DTSTART;TZID=Europe/Berlin:20260306T093000',
+    'STATUS:CANCELLED',
+  ];
+  const text = calendar(standup, moved, cancelled);
+
+  assert.deepEqual(eventsForDay(text, '2026-03-04', { timeZone: 'Europe/Berlin' }), []);
+  assert.deepEqual(
+    eventsForDay(text, '2026-03-05', { timeZone: 'Europe/Berlin' }).map(e => e.title),
+    ['Daily standup (moved)']
+  );
+  assert.deepEqual(eventsForDay(text, '2026-03-06', { timeZone: 'Europe/Berlin' }), []);
+});
+
+test('eventsForDay: reads your RSVP when an email is configured', () => {
+  const review = [
+    'UID:review@example.com',
+    'DTSTART:20260310T150000Z',
+    'DURATION:PT1H',
+    'SUMMARY:Design review',
+    'ORGANIZER:mailto:lead@example.com',
+    'ATTENDEE;CN=Me;PARTSTAT=DECLINED:mailto:Me@Example.com',
+    'TRANSP:TRANSPARENT',
+  ];
+
+  const [mine] = eventsForDay(calendar(review), '2026-03-10', { timeZone: ZONE, email: 'me@example.com' });
+  assert.equal(mine.responseStatus, 'declined');
+  assert.equal(mine.showAs, 'free');
+  assert.equal(mine.isOrganizer, false);
+  assert.equal(mine.end.getTime() - mine.start.getTime(), 3_600_000);
+
+  const [unknown] = eventsForDay(calendar(review), '2026-03-10', { timeZone: ZONE });
+  assert.equal(unknown.responseStatus, 'none');
+});
+
+test('eventsForDay: keeps all-day leave and drops other all-day entries', () => {
+  const text = calendar(
+    ['UID:v@example.com', 'DTSTART;VALUE=DATE:20260810', 'DTEND;VALUE=DATE:20260815', 'SUMMARY:Vacation'],
+    ['UID:s@example.com', 'DTSTART;VALUE=DATE:20260810', 'DTEND;VALUE=DATE:20260824', 'SUMMARY:Sprint 42'],
+    ['UID:o@example.com', 'DTSTART;VALUE=DATE:20260817', 'SUMMARY:Away', 'X-MICROSOFT-CDO-BUSYSTATUS:OOF']
+  );
+
+  const [vacation] = eventsForDay(text, '2026-08-14', { timeZone: ZONE });
+  assert.equal(vacation.title, 'Vacation');
+  assert.equal(vacation.leave, true);
+  assert.equal(vacation.start.toISOString(), '2026-08-10T04:00:00.000Z');
+  assert.deepEqual(eventsForDay(text, '2026-08-15', { timeZone: ZONE }), []);
+  assert.deepEqual(eventsForDay(text, '2026-08-17', { timeZone: ZONE }).map(e => e.title), ['Away']);
+});
+
+// ---------------------------------------------------------------------------
+// CalDAV
+// ---------------------------------------------------------------------------
+
+test('calendarDataFromMultistatus: extracts and unescapes calendar-data', () => {
+  const xml = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">',
+    '<d:response><d:propstat><d:prop><cal:calendar-data>BEGIN:VCALENDAR&#13;',
+    'BEGIN:VEVENT&#13;',
+    'UID:a&#13;',
+    'DTSTART:20260310T150000Z&#13;',
+    'SUMMARY:Q&amp;A &lt;live&gt;&#13;',
+    'END:VEVENT&#13;',
+    'END:VCALENDAR</cal:calendar-data></d:prop></d:propstat></d:response>',
+    '<d:response><d:propstat><d:prop><C:calendar-data xmlns:C="urn:ietf:params:xml:ns:caldav"><![CDATA[BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:b',
+    'DTSTART:20260310T170000Z',
+    'SUMMARY:1:1',
+    'END:VEVENT',
+    'END:VCALENDAR]]></C:calendar-data></d:prop></d:propstat></d:response>',
+    '</d:multistatus>',
+  ].join('\n');
+
+  const events = eventsForDay(calendarDataFromMultistatus(xml), '2026-03-10', { timeZone: ZONE });
+  assert.deepEqual(events.map(e => e.title), ['Q&A <live>', '1:1']);
+});
+
+// ---------------------------------------------------------------------------
+// Feed downloads
+// ---------------------------------------------------------------------------
+
+test('IcsCalendarIntegration: days fetched in parallel share one download, a failed one is retried', async () => {
+  let downloads = 0;
+  const server = http.createServer((req, res) => {
+    downloads++;
+    // The first connection drops, as a flaky network would
+    if (downloads === 1) return req.socket.destroy();
+    res.writeHead(200, { 'Content-Type': 'text/calendar' });
+    res.end(calendar(['UID:a', 'DTSTART:20260310T150000Z', 'DTEND:20260310T160000Z', 'SUMMARY:Standup']));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const ics = new IcsCalendarIntegration();
+    await ics.initialize({ source: `http://127.0.0.1:${(server.address() as AddressInfo).port}/team.ics` });
+
+    await assert.rejects(ics.getEventsForDate('2026-03-09'));
+    const days = await Promise.all(['2026-03-09', '2026-03-10', '2026-03-11'].map(d => ics.getEventsForDate(d)));
+
+    assert.equal(downloads, 2);
+    assert.deepEqual(days.map(events => events.length), [0, 1, 0]);
+  } finally {
+    server.close();
+  }
+});
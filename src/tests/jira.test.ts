@@ -0,0 +1,108 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildActivityJql, formatJiraDuration, mapJiraIssueActivity, normalizeJiraUrl } from '../integrations/jira.js';
+import { setTimeZone } from '../utils/timezone.js';
+
+const ME = { accountId: '5b10ac8d82e05b22cc7d4ef5', displayName: 'Jo Doe' };
+const OTHER = { accountId: '557058:f58131cb-b67d-43c7-b30d-6b58d40bd077' };
+const WEB_URL = 'https://acme.atlassian.net';
+
+test.before(() => setTimeZone('Europe/Berlin'));
+test.after(() => setTimeZone(undefined));
+
+function issue(fields: any = {}, histories: any[] = []): any {
+  return {
+    key: 'PAY-3',
+    fields: { summary: 'Invoice export', project: { key: 'PAY', name: 'Payments' }, created: '2026-02-01T10:00:00.000+0000', ...fields },
+    changelog: { total: histories.length, histories },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Queries
+// ---------------------------------------------------------------------------
+
+test('normalizeJiraUrl: strips pasted paths and trailing slashes', () => {
+  assert.equal(normalizeJiraUrl('https://acme.atlassian.net/browse/PAY-3'), 'https://acme.atlassian.net');
+  assert.equal(normalizeJiraUrl('https://jira.example.com/jira/rest/api/2/'), 'https://jira.example.com/jira');
+  assert.equal(normalizeJiraUrl('https://jira.example.com/'), 'https://jira.example.com');
+});
+
+test('buildActivityJql: widens the window a day either side, across month ends', () => {
+  const cloud = buildActivityJql('2026-03-01', true);
+  assert.match(cloud, /status CHANGED BY currentUser\(\) DURING \("2026-02-28", "2026-03-02"\)/);
+  assert.match(cloud, /issue in updatedBy\(currentUser\(\), "2026-02-28", "2026-03-02"\)/);
+  assert.match(cloud, / ORDER BY updated DESC$/);
+
+  const dataCenter = buildActivityJql('2026-03-01', false);
+  assert.doesNotMatch(dataCenter, /updatedBy/);
+  assert.match(dataCenter, /watcher = currentUser\(\) AND updated >= "2026-02-28"/);
+});
+
+// ---------------------------------------------------------------------------
+// Issue activity
+// ---------------------------------------------------------------------------
+
+test('mapJiraIssueActivity: reads creation, transitions, comments and worklogs on the day', () => {
+  const activities = mapJiraIssueActivity(
+    issue(
+      {
+        created: '2026-03-10T08:00:00.000+0000',
+        creator: ME,
+        comment: {
+          total: 2,
+          comments: [
+            { author: OTHER, created: '2026-03-10T09:00:00.000+0000' },
+            { author: ME, created: '2026-03-10T11:00:00.000+0000' },
+          ],
+        },
+        worklog: {
+          total: 3,
+          worklogs: [
+            { author: ME, started: '2026-03-10T07:00:00.000+0000', timeSpentSeconds: 5400 },
+            { author: ME, started: '2026-03-10T13:00:00.000+0000', timeSpentSeconds: 3600 },
+            { author: OTHER, started: '2026-03-10T13:00:00.000+0000', timeSpentSeconds: 7200 },
+          ],
+        },
+      },
+      [
+        // Newest first, as Cloud returns them
+        { author: ME, created: '2026-03-10T16:00:00.000+0000', items: [{ field: 'status', fromString: 'In Review', toString: 'Done' }] },
+        { author: ME, created: '2026-03-10T09:30:00.000+0000', items: [{ field: 'assignee' }, { field: 'status', fromString: 'To Do', toString: 'In Progress' }] },
+        { author: OTHER, created: '2026-03-10T12:00:00.000+0000', items: [{ field: 'status', fromString: 'In Progress', toString: 'In Review' }] },
+      ]
+    ),
+    ME,
+    '2026-03-10',
+    WEB_URL
+  );
+
+  const base = { title: 'PAY-3: Invoice export', project: 'Payments', url: 'https://acme.atlassian.net/browse/PAY-3' };
+  assert.deepEqual(activities, [
+    { action: 'opened', ...base },
+    { action: 'status_changed', ...base, details: 'To Do → Done' },
+    { action: 'commented', ...base },
+    { action: 'logged_work', ...base, details: '2h 30m' },
+  ]);
+});
+
+test('mapJiraIssueActivity: matches the day in the configured timezone', () => {
+  // 23:30 UTC on the 10th is already the 11th in Berlin
+  const late = issue({ comment: { total: 1, comments: [{ author: ME, created: '2026-03-10T23:30:00.000+0000' }] } });
+
+  assert.deepEqual(mapJiraIssueActivity(late, ME, '2026-03-10', WEB_URL), []);
+  assert.deepEqual(mapJiraIssueActivity(late, ME, '2026-03-11', WEB_URL).map(a => a.action), ['commented']);
+});
+
+test('mapJiraIssueActivity: Data Center users are matched by key or name', () => {
+  const me = { key: 'JIRAUSER10100', name: 'jdoe', displayName: 'Jo Doe' };
+  const dcIssue = issue({}, [
+    { author: { key: 'JIRAUSER10100', name: 'jdoe' }, created: '2026-03-10T10:00:00.000+0100', items: [{ field: 'status', toString: 'Open' }] },
+  ]);
+
+  const [transition] = mapJiraIssueActivity(dcIssue, me, '2026-03-10', 'https://jira.example.com');
+  assert.equal(transition.details, '→ Open');
+  assert.equal(transition.url, 'https://jira.example.com/browse/PAY-3');
+  assert.equal(formatJiraDuration(900), '15m');
+});
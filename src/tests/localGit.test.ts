@@ -0,0 +1,114 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+import { findRepositories, mergeLocalCommits, parseGitLog, parseReflogBranches } from '../integrations/localGit.js';
+
+const SHA_A = 'a46d6905421a0bfa2db2a8e289db96b6a9f2bf4b';
+const SHA_B = 'c7ee725e3dfe32002ca2d384bcfabeb5d000951c';
+const SHA_C = '6504b8f70bb191f6825d826237dd8f48795be079';
+
+// ---------------------------------------------------------------------------
+// git output
+// ---------------------------------------------------------------------------
+
+test('parseGitLog: reads commits with their line stats', () => {
+  const output = [
+    `\x1e${SHA_B}\x1f2026-03-10T17:20:00+01:00\x1frefs/heads/feature/login\x1fAdd login form`,
+    '',
+    '40\t2\tsrc/login.ts',
+    '-\t-\tassets/logo.png',
+    '3\t1\tREADME.md',
+    `\x1e${SHA_A}\x1f2026-03-10T09:05:00+01:00\x1frefs/remotes/origin/main\x1fFix \x1f in subject`,
+    '',
+    '1\t0\ta',
+  ].join('\n');
+
+  const commits = parseGitLog(output, 'billing', new Map([[SHA_A, 'hotfix']]));
+
+  assert.deepEqual(commits[0], {
+    message: 'Add login form',
+    project: 'billing',
+    branch: 'feature/login',
+    sha: SHA_B,
+    additions: 43,
+    deletions: 3,
+    authoredAt: '2026-03-10T17:20:00+01:00',
+  });
+  // The reflog's branch wins over the ref git walked in from
+  assert.equal(commits[1].branch, 'hotfix');
+  assert.equal(commits[1].message, 'Fix \x1f in subject');
+});
+
+test('parseReflogBranches: files commits under the branch they were made on', () => {
+  const output = [
+    `${SHA_B}\x1frefs/heads/feature@{0}\x1fcommit (amend): feat b2`,
+    `${SHA_C}\x1frefs/heads/feature@{1}\x1fcommit: feat b`,
+    `${SHA_A}\x1frefs/heads/feature@{2}\x1fbranch: Created from HEAD`,
+    `${SHA_A}\x1frefs/heads/main@{0}\x1fcommit (initial): first`,
+    `${SHA_B}\x1fHEAD@{1}\x1fcommit (amend): feat b2`,
+    `${SHA_C}\x1frefs/heads/release@{0}\x1freset: moving to ${SHA_C}`,
+  ].join('\n');
+
+  assert.deepEqual(
+    [...parseReflogBranches(output)],
+    [
+      [SHA_B, 'feature'],
+      [SHA_C, 'feature'],
+      [SHA_A, 'main'],
+    ]
+  );
+});
+
+test('mergeLocalCommits: drops commits the remote already reported', () => {
+  const local = [
+    { message: 'pushed to GitLab', project: 'billing', branch: 'main', sha: SHA_A },
+    { message: 'pushed to GitHub', project: 'billing', branch: 'main', sha: SHA_B },
+    { message: 'not pushed', project: 'billing', branch: 'wip', sha: SHA_C },
+  ];
+  const remote = [
+    { message: 'pushed to GitLab', project: 'group/billing', branch: 'main', sha: SHA_A.slice(0, 8) },
+    {
+      message: 'pushed to GitHub',
+      project: 'me/billing',
+      branch: 'main',
+      url: `https://github.com/me/billing/commit/${SHA_B}`,
+    },
+  ];
+
+  assert.deepEqual(
+    mergeLocalCommits(remote, local).map(c => c.message),
+    ['pushed to GitLab', 'pushed to GitHub', 'not pushed']
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Repository discovery
+// ---------------------------------------------------------------------------
+
+test('findRepositories: stops at repositories and skips dependency folders', async () => {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'local-git-'));
+  try {
+    const dirs = [
+      'client-a/api/.git',
+      'client-a/api/packages/nested/.git',
+      'client-b/web/node_modules/dep/.git',
+      'too/deep/to/find/.git',
+      'notes',
+    ];
+    for (const dir of dirs) await fs.mkdir(path.join(root, dir), { recursive: true });
+    // Worktrees and submodules have a .git file instead of a folder
+    await fs.mkdir(path.join(root, 'client-b', 'web'), { recursive: true });
+    await fs.writeFile(path.join(root, 'client-b', 'web', '.git'), 'gitdir: ../../.bare/web');
+
+    const repositories = await findRepositories([root], 3);
+    assert.deepEqual(
+      repositories.map(r => path.relative(root, r)),
+      [path.join('client-a', 'api'), path.join('client-b', 'web')]
+    );
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+});
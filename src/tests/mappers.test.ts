@@ -1,5 +1,7 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
 
 import { parseCalendarJson } from '../integrations/outlookLocal.js';
 import {
@@ -9,6 +11,33 @@ import {
   isValidTenant,
   toWiqlDate,
 } from '../integrations/azureDevOps.js';
+import { parseDeviceTokenResponse } from '../utils/githubDeviceFlow.js';
+import { normalizeGitHubApiUrl, githubSearchDayRange, githubWebUrl } from '../integrations/github.js';
+import { isValidConnectionName } from '../utils/tokenStorage.js';
+import { mapCalendarList, mergeGoogleEvents } from '../integrations/googleCalendar.js';
+import { mapGraphEvents } from '../integrations/outlookCalendar.js';
+import {
+  applyCalendarExclusions,
+  isLeaveMarker,
+  leaveDayOff,
+  parseCalendarExclusions,
+  splitLeaveEvents,
+} from '../utils/calendarPolicy.js';
+import {
+  accountSuffix,
+  mergeConnectionActivities,
+  mergeConnectionEvents,
+  tagGitActivity,
+} from '../utils/connections.js';
+import {
+  GitLabIntegration,
+  gitlabEventWindow,
+  groupEventsByLocalDay,
+  isGitLabTokenExpired,
+  mapPushCommits,
+} from '../integrations/gitlab.js';
+import { GitLabOAuth, GitLabOAuthTokens } from '../utils/gitlabOAuth.js';
+import { setTimeZone } from '../utils/timezone.js';
 
 // ---------------------------------------------------------------------------
 // parseCalendarJson - the shell-bridge output shapes that actually vary
@@ -51,16 +80,21 @@ test('parseCalendarJson: empty and null output mean no events', () => {
   assert.deepEqual(parseCalendarJson('[]'), []);
 });
 
-test('parseCalendarJson: drops all-day entries and untitled events get a fallback', () => {
+test('parseCalendarJson: all-day holidays become leave, other all-day entries are dropped', () => {
   const events = parseCalendarJson(
     JSON.stringify([
       { subject: 'Bank Holiday', start: '2026-07-28T00:00:00', end: '2026-07-29T00:00:00', allDay: true },
+      { subject: 'Sprint 42', start: '2026-07-28T00:00:00', end: '2026-07-29T00:00:00', allDay: true },
       { subject: '   ', start: '2026-07-28T10:00:00', end: '2026-07-28T10:30:00', allDay: false },
+      { subject: 'Away', start: '2026-07-28T09:00:00', end: '2026-07-28T17:00:00', busyStatus: 3 },
     ])
   );
 
-  assert.equal(events.length, 1);
-  assert.equal(events[0].title, 'Untitled Event');
+  assert.deepEqual(events.map(e => [e.title, !!e.leave]), [
+    ['Bank Holiday', true],
+    ['Untitled Event', false],
+    ['Away', true],
+  ]);
 });
 
 test('parseCalendarJson: rejects non-JSON output loudly', () => {
@@ -399,3 +433,549 @@ test('isValidTenant: rejects shell metacharacters and separators', () => {
     assert.equal(isValidTenant(bad), false, `should reject: ${JSON.stringify(bad)}`);
   }
 });
+
+// ---------------------------------------------------------------------------
+// parseDeviceTokenResponse - GitHub signals every poll outcome with HTTP 200
+// ---------------------------------------------------------------------------
+
+test('parseDeviceTokenResponse: returns the token once granted', () => {
+  const result = parseDeviceTokenResponse({ access_token: 'gho_abc', token_type: 'bearer', scope: 'repo,read:user' });
+
+  assert.deepEqual(result, { status: 'granted', accessToken: 'gho_abc', scope: 'repo,read:user' });
+});
+
+test('parseDeviceTokenResponse: pending and slow_down keep polling', () => {
+  assert.deepEqual(parseDeviceTokenResponse({ error: 'authorization_pending' }), { status: 'pending' });
+  assert.deepEqual(parseDeviceTokenResponse({ error: 'slow_down', interval: 10 }), { status: 'slow_down', interval: 10 });
+  assert.deepEqual(parseDeviceTokenResponse({ error: 'slow_down' }), { status: 'slow_down', interval: undefined });
+});
+
+test('parseDeviceTokenResponse: terminal errors stop polling with a readable reason', () => {
+  for (const error of ['expired_token', 'access_denied', 'device_flow_disabled', 'something_new']) {
+    const result = parseDeviceTokenResponse({ error });
+    assert.equal(result.status, 'failed', `should fail on: ${error}`);
+  }
+
+  const denied = parseDeviceTokenResponse({ error: 'access_denied' });
+  assert.ok(denied.status === 'failed' && /denied/.test(denied.error));
+});
+
+// ---------------------------------------------------------------------------
+// normalizeGitHubApiUrl / githubWebUrl - GHES serves the API under /api/v3
+// ---------------------------------------------------------------------------
+
+test('normalizeGitHubApiUrl: github.com in any form maps to api.github.com', () => {
+  assert.equal(normalizeGitHubApiUrl(), 'https://api.github.com');
+  assert.equal(normalizeGitHubApiUrl(''), 'https://api.github.com');
+  assert.equal(normalizeGitHubApiUrl('https://github.com'), 'https://api.github.com');
+  assert.equal(normalizeGitHubApiUrl('https://api.github.com/'), 'https://api.github.com');
+});
+
+test('normalizeGitHubApiUrl: appends /api/v3 to a bare enterprise host', () => {
+  assert.equal(normalizeGitHubApiUrl('https://github.example.com'), 'https://github.example.com/api/v3');
+  assert.equal(normalizeGitHubApiUrl('https://github.example.com/'), 'https://github.example.com/api/v3');
+  assert.equal(normalizeGitHubApiUrl('https://github.example.com/api/v3/'), 'https://github.example.com/api/v3');
+});
+
+test('githubWebUrl: strips the API suffix for the device flow host', () => {
+  assert.equal(githubWebUrl(), 'https://github.com');
+  assert.equal(githubWebUrl('https://github.example.com/api/v3'), 'https://github.example.com');
+  assert.equal(githubWebUrl('https://github.example.com'), 'https://github.example.com');
+});
+
+test('githubSearchDayRange: searches the local day as a UTC range', () => {
+  assert.equal(githubSearchDayRange('2026-07-28', 'America/New_York'), '2026-07-28T04:00:00Z..2026-07-29T03:59:59Z');
+  assert.equal(githubSearchDayRange('2026-07-28', 'UTC'), '2026-07-28T00:00:00Z..2026-07-28T23:59:59Z');
+});
+
+// ---------------------------------------------------------------------------
+// Named connections - tagging and merging one provider's accounts
+// ---------------------------------------------------------------------------
+
+test('isValidConnectionName: accepts short identifiers only', () => {
+  for (const name of ['default', 'work', 'client-acme', 'acme_2']) {
+    assert.equal(isValidConnectionName(name), true, `should accept: ${name}`);
+  }
+  for (const name of ['', '-work', 'a/b', 'two words', 'x'.repeat(41)]) {
+    assert.equal(isValidConnectionName(name), false, `should reject: ${name}`);
+  }
+});
+
+test('tagGitActivity + mergeConnectionActivities: items keep their account', () => {
+  const date = new Date(2026, 6, 28);
+  const merged = mergeConnectionActivities(date, [
+    tagGitActivity(
+      { date, commits: [{ message: 'Fix build', project: 'web', branch: 'main' }], mergeRequests: [], issues: [] },
+      'default'
+    ),
+    tagGitActivity(
+      {
+        date,
+        commits: [{ message: 'Add export', project: 'billing', branch: 'feat' }],
+        mergeRequests: [{ action: 'created', title: 'Export', project: 'billing', id: 3 }],
+        issues: [],
+      },
+      'acme'
+    ),
+  ]);
+
+  assert.deepEqual(merged.commits.map(c => c.account), ['default', 'acme']);
+  assert.equal(merged.mergeRequests[0].account, 'acme');
+  assert.equal(accountSuffix(merged.commits[0]), '');
+  assert.equal(accountSuffix(merged.commits[1]), ' [acme]');
+});
+
+test('mergeConnectionEvents: interleaves accounts by start time, including cached string dates', () => {
+  const events = mergeConnectionEvents([
+    [{ title: 'Planning', start: new Date('2026-07-28T14:00:00Z'), end: new Date('2026-07-28T15:00:00Z'), account: 'default' }],
+    [
+      // Cache round-trips dates through JSON
+      { title: 'Standup', start: '2026-07-28T09:00:00Z' as any, end: '2026-07-28T09:15:00Z' as any, account: 'acme' },
+    ],
+  ]);
+
+  assert.deepEqual(events.map(e => e.title), ['Standup', 'Planning']);
+});
+
+// ---------------------------------------------------------------------------
+// Google calendar list and multi-calendar merge
+// ---------------------------------------------------------------------------
+
+test('mapCalendarList: primary first, user overrides win, deleted entries dropped', () => {
+  const calendars = mapCalendarList([
+    { id: 'team@group.calendar.google.com', summary: 'Team', summaryOverride: 'Platform team', accessRole: 'reader' },
+    { id: 'me@example.com', summary: 'me@example.com', primary: true, accessRole: 'owner', selected: true },
+    { id: 'old@group.calendar.google.com', summary: 'Old', deleted: true },
+  ]);
+
+  assert.deepEqual(calendars.map(c => c.name), ['me@example.com', 'Platform team']);
+  assert.equal(calendars[0].primary, true);
+  assert.equal(calendars[0].shownInGoogle, true);
+  assert.equal(calendars[1].accessRole, 'reader');
+});
+
+test('mergeGoogleEvents: records the source calendar and drops all-day events', () => {
+  const events = mergeGoogleEvents([
+    {
+      calendar: 'Focus time',
+      items: [
+        { id: 'f1', summary: 'Deep work', start: { dateTime: '2026-07-28T13:00:00Z' }, end: { dateTime: '2026-07-28T15:00:00Z' } },
+        { id: 'f2', summary: 'Offsite', start: { date: '2026-07-28' }, end: { date: '2026-07-29' } },
+      ],
+    },
+    {
+      calendar: 'me@example.com',
+      items: [
+        { id: 'p1', summary: 'Standup', start: { dateTime: '2026-07-28T09:00:00Z' }, end: { dateTime: '2026-07-28T09:15:00Z' } },
+      ],
+    },
+  ]);
+
+  assert.deepEqual(events.map(e => [e.title, e.calendar]), [
+    ['Standup', 'me@example.com'],
+    ['Deep work', 'Focus time'],
+  ]);
+});
+
+test('mergeGoogleEvents: out-of-office and vacation entries are kept as leave', () => {
+  const events = mergeGoogleEvents([
+    {
+      calendar: 'me@example.com',
+      items: [
+        { id: 'v', summary: 'Vacation', start: { date: '2026-07-27' }, end: { date: '2026-07-31' }, transparency: 'transparent' },
+        {
+          id: 'o',
+          eventType: 'outOfOffice',
+          start: { dateTime: '2026-07-28T08:00:00Z' },
+          end: { dateTime: '2026-07-28T18:00:00Z' },
+        },
+        {
+          id: 'd',
+          summary: 'Dentist',
+          eventType: 'outOfOffice',
+          start: { dateTime: '2026-07-28T14:00:00Z' },
+          end: { dateTime: '2026-07-28T15:00:00Z' },
+        },
+      ],
+    },
+  ]);
+
+  assert.deepEqual(events.map(e => [e.title, e.leave]), [
+    ['Vacation', true],
+    ['Out of office', true],
+  ]);
+});
+
+test('mergeGoogleEvents: an invite on both a team and the primary calendar counts once', () => {
+  const invite = {
+    iCalUID: 'abc@google.com',
+    summary: 'Sprint review',
+    start: { dateTime: '2026-07-28T10:00:00Z' },
+    end: { dateTime: '2026-07-28T11:00:00Z' },
+  };
+
+  const events = mergeGoogleEvents([
+    { calendar: 'me@example.com', items: [{ ...invite, id: 'copy-1' }] },
+    { calendar: 'Team', items: [{ ...invite, id: 'copy-2' }] },
+  ]);
+
+  assert.equal(events.length, 1);
+  assert.equal(events[0].calendar, 'me@example.com');
+});
+
+// ---------------------------------------------------------------------------
+// RSVP, free/busy and the calendar exclusion policy
+// ---------------------------------------------------------------------------
+
+test('mergeGoogleEvents: reads your RSVP, transparency and organizer flag', () => {
+  const slot = { start: { dateTime: '2026-07-28T10:00:00Z' }, end: { dateTime: '2026-07-28T11:00:00Z' } };
+  const [declined, own, shared] = mergeGoogleEvents([
+    {
+      calendar: 'me@example.com',
+      items: [
+        { ...slot, id: 'a', attendees: [{ self: true, responseStatus: 'declined' }, { email: 'x@example.com' }] },
+        { ...slot, id: 'b', organizer: { self: true }, transparency: 'transparent' },
+        { ...slot, id: 'c', organizer: { email: 'team@example.com' } },
+      ],
+    },
+  ]);
+
+  assert.equal(declined.responseStatus, 'declined');
+  assert.equal(declined.showAs, 'busy');
+  assert.equal(own.responseStatus, 'accepted');
+  assert.equal(own.isOrganizer, true);
+  assert.equal(own.showAs, 'free');
+  assert.equal(shared.responseStatus, 'none');
+});
+
+test('mapGraphEvents: maps responseStatus/showAs and drops all-day events other than leave', () => {
+  const events = mapGraphEvents([
+    {
+      subject: 'Sync',
+      start: { dateTime: '2026-07-28T09:00:00' },
+      end: { dateTime: '2026-07-28T09:30:00' },
+      responseStatus: { response: 'tentativelyAccepted' },
+      showAs: 'tentative',
+    },
+    {
+      subject: 'Planning',
+      start: { dateTime: '2026-07-28T10:00:00' },
+      end: { dateTime: '2026-07-28T11:00:00' },
+      responseStatus: { response: 'organizer' },
+      showAs: 'free',
+      isOrganizer: true,
+    },
+    { subject: 'Holiday', isAllDay: true, start: { dateTime: '2026-07-28T00:00:00' }, end: { dateTime: '2026-07-29T00:00:00' } },
+    { subject: 'Release day', isAllDay: true, start: { dateTime: '2026-07-28T00:00:00' }, end: { dateTime: '2026-07-29T00:00:00' } },
+  ]);
+
+  // The holiday is kept as leave, not as a meeting
+  assert.equal(events.length, 3);
+  assert.deepEqual([events[2].title, events[2].leave], ['Holiday', true]);
+  assert.deepEqual([events[0].responseStatus, events[0].showAs], ['tentative', 'busy']);
+  assert.deepEqual([events[1].responseStatus, events[1].showAs, events[1].isOrganizer], ['accepted', 'free', true]);
+});
+
+test('parseCalendarJson: maps COM ResponseStatus and BusyStatus numbers', () => {
+  const [declined, organized, free] = parseCalendarJson(
+    JSON.stringify([
+      { subject: 'A', start: '2026-07-28T09:00:00', end: '2026-07-28T10:00:00', responseStatus: 4, busyStatus: 2 },
+      { subject: 'B', start: '2026-07-28T10:00:00', end: '2026-07-28T11:00:00', responseStatus: 1, busyStatus: 2 },
+      { subject: 'C', start: '2026-07-28T11:00:00', end: '2026-07-28T12:00:00', busyStatus: 'free' },
+    ])
+  );
+
+  assert.equal(declined.responseStatus, 'declined');
+  assert.equal(organized.isOrganizer, true);
+  assert.equal(organized.responseStatus, 'accepted');
+  assert.equal(free.showAs, 'free');
+  // The macOS bridge reports no RSVP at all
+  assert.equal(free.responseStatus, undefined);
+});
+
+test('splitLeaveEvents + leaveDayOff: leave is separated from meetings and labels the day', () => {
+  const at = new Date(2026, 6, 28, 9);
+  const { meetings, leave } = splitLeaveEvents([
+    { title: 'Standup', start: at, end: at },
+    { title: 'Public Holiday', start: at, end: at, showAs: 'free', leave: true },
+  ]);
+
+  assert.deepEqual(meetings.map(m => m.title), ['Standup']);
+  assert.deepEqual(leaveDayOff(leave), { kind: 'holiday', label: 'Public Holiday' });
+  assert.deepEqual(leaveDayOff([{ title: 'OOO', start: at, end: at, leave: true }]), { kind: 'time_off', label: 'OOO' });
+  assert.equal(leaveDayOff([]), undefined);
+  // A free-marked vacation survives the "free" exclusion
+  assert.equal(applyCalendarExclusions(leave, ['free']).length, 1);
+});
+
+test('isLeaveMarker: "leave" needs a leave phrase, and a timed marker most of the day', () => {
+  const at = (hour: number) => new Date(2026, 6, 28, hour);
+  const marker = (title: string, hours: number, outOfOffice = false) =>
+    isLeaveMarker({ title, start: at(9), end: at(9 + hours), allDay: false, outOfOffice });
+
+  assert.equal(marker('Leave planning workshop', 4), false);
+  assert.equal(marker('Parental leave policy review', 8), false);
+  assert.equal(marker('On leave', 8), true);
+  assert.equal(marker('Annual leave', 8), true);
+  assert.equal(isLeaveMarker({ title: 'Sick leave', start: at(0), end: at(0), allDay: true, outOfOffice: false }), true);
+  // A half day away is not a day off
+  assert.equal(marker('Vacation', 4), false);
+  assert.equal(marker('Away', 4, true), false);
+  assert.equal(marker('Away', 6, true), true);
+});
+
+test('applyCalendarExclusions: default drops declined only; unknown status is kept', () => {
+  const at = new Date(2026, 6, 28, 9);
+  const events = [
+    { title: 'Declined', start: at, end: at, responseStatus: 'declined' as const },
+    { title: 'Maybe', start: at, end: at, responseStatus: 'tentative' as const },
+    { title: 'Focus', start: at, end: at, responseStatus: 'accepted' as const, showAs: 'free' as const },
+    { title: 'Cached before RSVP support', start: at, end: at },
+  ];
+
+  const titles = (exclude: unknown) =>
+    applyCalendarExclusions(events, parseCalendarExclusions(exclude)).map(e => e.title);
+
+  assert.deepEqual(titles(undefined), ['Maybe', 'Focus', 'Cached before RSVP support']);
+  assert.deepEqual(titles(['declined', 'tentative', 'free']), ['Cached before RSVP support']);
+  assert.equal(titles([]).length, 4);
+  assert.throws(() => parseCalendarExclusions(['busy']), /Unknown exclude value/);
+});
+
+// ---------------------------------------------------------------------------
+// GitLab range fetch - one Events API sweep bucketed by local day
+// ---------------------------------------------------------------------------
+
+test('gitlabEventWindow: exclusive bounds widened past the UTC date line', () => {
+  assert.deepEqual(gitlabEventWindow('2026-07-28', '2026-08-03'), { after: '2026-07-26', before: '2026-08-05' });
+});
+
+test('groupEventsByLocalDay: buckets own events by local date', () => {
+  const late = new Date(2026, 6, 28, 23, 30).toISOString();
+  const early = new Date(2026, 6, 29, 0, 15).toISOString();
+  const byDay = groupEventsByLocalDay(
+    [
+      { author_id: 7, created_at: late, action_name: 'opened' },
+      { author_id: 7, created_at: early, action_name: 'merged' },
+      { author_id: 8, created_at: early, action_name: 'opened' },
+    ],
+    7
+  );
+
+  assert.deepEqual([...byDay.keys()], ['2026-07-28', '2026-07-29']);
+  assert.equal(byDay.get('2026-07-29')!.length, 1);
+});
+
+test('groupEventsByLocalDay: uses the configured timezone, not UTC', () => {
+  const events = [{ author_id: 7, created_at: '2026-07-29T02:30:00Z', action_name: 'opened' }];
+
+  assert.deepEqual([...groupEventsByLocalDay(events, 7, 'America/New_York').keys()], ['2026-07-28']);
+  assert.deepEqual([...groupEventsByLocalDay(events, 7, 'UTC').keys()], ['2026-07-29']);
+});
+
+test('mapPushCommits: keeps my commits with SHA, stats and link', () => {
+  const commits = mapPushCommits(
+    [
+      {
+        id: 'a1b2c3d4e5f6',
+        title: 'Fix login redirect',
+        author_email: 'Dev@Example.com',
+        author_name: 'Dev One',
+        stats: { additions: 12, deletions: 3, total: 15 },
+        web_url: 'https://gitlab.com/acme/web/-/commit/a1b2c3d4e5f6',
+      },
+      { id: 'ffff', title: 'Merge main', author_email: 'someone@example.com', author_name: 'Someone' },
+      { id: 'eeee', message: 'Tidy\n\nlong body', author_email: 'other@example.com', author_name: 'devone' },
+    ],
+    { emails: ['dev@example.com'], names: ['Dev One', 'devone'] },
+    'web',
+    'feature/login'
+  );
+
+  assert.deepEqual(commits, [
+    {
+      message: 'Fix login redirect',
+      project: 'web',
+      branch: 'feature/login',
+      sha: 'a1b2c3d4e5f6',
+      additions: 12,
+      deletions: 3,
+      url: 'https://gitlab.com/acme/web/-/commit/a1b2c3d4e5f6',
+    },
+    {
+      message: 'Tidy',
+      project: 'web',
+      branch: 'feature/login',
+      sha: 'eeee',
+      additions: undefined,
+      deletions: undefined,
+      url: undefined,
+    },
+  ]);
+});
+
+// ---------------------------------------------------------------------------
+// GitLab OAuth refresh - access tokens last two hours
+// ---------------------------------------------------------------------------
+
+test('isGitLabTokenExpired: expires a minute early; tokens without a lifetime never do', () => {
+  const createdAt = 1_700_000_000;
+  assert.equal(isGitLabTokenExpired(createdAt, 7200, (createdAt + 7000) * 1000), false);
+  assert.equal(isGitLabTokenExpired(createdAt, 7200, (createdAt + 7150) * 1000), true);
+  assert.equal(isGitLabTokenExpired(createdAt, undefined, (createdAt + 10 ** 6) * 1000), false);
+});
+
+test('GitLabIntegration: refreshes an expired token once, persists the new pair and retries a 401', async () => {
+  let accessToken = 'access-1';
+  let refreshes = 0;
+  const requests: string[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, 'http://fixture');
+    requests.push(`${req.method} ${url.pathname} ${req.headers.authorization ?? ''}`);
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/oauth/token') {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        if (params.get('grant_type') !== 'refresh_token' || params.get('refresh_token') !== `refresh-${refreshes + 1}`) {
+          return send(400, { error: 'invalid_grant' });
+        }
+        refreshes++;
+        accessToken = `access-${refreshes + 1}`;
+        send(200, {
+          access_token: accessToken,
+          token_type: 'Bearer',
+          refresh_token: `refresh-${refreshes + 1}`,
+          created_at: Math.floor(Date.now() / 1000),
+          expires_in: 7200,
+        });
+      });
+      return;
+    }
+    if (req.headers.authorization !== `Bearer ${accessToken}`) return send(401, { message: '401 Unauthorized' });
+    if (url.pathname === '/api/v4/user') return send(200, { id: 5, name: 'Dev One', username: 'devone' });
+    if (url.pathname === '/api/v4/events') return send(200, []);
+    send(404, { message: '404 Not Found' });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const gitlabUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const persisted: GitLabOAuthTokens[] = [];
+    const gitlab = new GitLabIntegration();
+    await gitlab.initialize('access-1', gitlabUrl, {
+      refresh_token: 'refresh-1',
+      // Issued three hours ago with a two-hour lifetime
+      created_at: Math.floor(Date.now() / 1000) - 3 * 3600,
+      expires_in: 7200,
+      oauth: new GitLabOAuth({ applicationId: 'app', secret: 'secret', gitlabUrl }),
+      onTokenRefresh: async tokens => {
+        persisted.push(tokens);
+      },
+    });
+
+    // Parallel fetches share one refresh, as the first spends the refresh token
+    await Promise.all([gitlab.getActivityForDate('2026-03-10'), gitlab.refreshAccessToken()]);
+    assert.equal(refreshes, 1);
+    assert.deepEqual(persisted.map(t => [t.access_token, t.refresh_token]), [['access-2', 'refresh-2']]);
+
+    // Revoked before its expiry: the 401 triggers one refresh and a retry
+    accessToken = 'access-revoked';
+    requests.length = 0;
+    await gitlab.getActivityForDate('2026-03-11');
+    assert.equal(refreshes, 2);
+    assert.deepEqual(persisted.map(t => t.refresh_token), ['refresh-2', 'refresh-3']);
+    assert.deepEqual(
+      requests.filter(r => r.startsWith('GET /api/v4/events')),
+      ['GET /api/v4/events Bearer access-2', 'GET /api/v4/events Bearer access-3']
+    );
+  } finally {
+    server.close();
+  }
+});
+
+test('GitLabIntegration: a failed page fails the whole range instead of returning empty days', async () => {
+  const pages: string[] = [];
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, 'http://fixture');
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/api/v4/user') return send(200, { id: 5, name: 'Dev One', username: 'devone' });
+    if (url.pathname === '/api/v4/events') {
+      pages.push(url.searchParams.get('page')!);
+      // A full first page of someone else's events, then a server error
+      if (url.searchParams.get('page') === '1') {
+        return send(200, Array.from({ length: 100 }, (_, id) => ({ id, author_id: 9, created_at: '2026-03-10T10:00:00Z' })));
+      }
+      return send(500, { message: '500 Internal Server Error' });
+    }
+    send(404, { message: '404 Not Found' });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const gitlab = new GitLabIntegration();
+    await gitlab.initialize('token', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+
+    await assert.rejects(
+      gitlab.getActivityForRange('2026-03-01', '2026-03-20'),
+      /Failed to fetch GitLab activity for 2026-03-01 to 2026-03-20/
+    );
+    assert.deepEqual(pages, ['1', '2']);
+  } finally {
+    server.close();
+  }
+});
+
+test('GitLabIntegration: a push of commits under an unknown git identity keeps its summary', async () => {
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url!, 'http://fixture');
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (url.pathname === '/api/v4/user') return send(200, { id: 5, name: 'Dev One', username: 'devone', email: 'dev@example.com' });
+    if (url.pathname === '/api/v4/events') {
+      return send(200, [
+        {
+          id: 1,
+          author_id: 5,
+          project_id: 42,
+          action_name: 'pushed to',
+          created_at: '2026-03-10T10:00:00Z',
+          push_data: { commit_count: 1, ref: 'main', ref_type: 'branch', commit_from: 'aaaa', commit_to: 'bbbb', commit_title: 'Fix the build' },
+        },
+      ]);
+    }
+    if (url.pathname === '/api/v4/projects/42') return send(200, { id: 42, name: 'web', web_url: 'https://gitlab.example.com/acme/web' });
+    if (url.pathname === '/api/v4/projects/42/repository/commits') {
+      // Committed with a laptop's local git identity
+      return send(200, [{ id: 'bbbb', title: 'Fix the build', author_email: 'dev@laptop.local', author_name: 'dev' }]);
+    }
+    send(404, { message: '404 Not Found' });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const gitlab = new GitLabIntegration();
+    await gitlab.initialize('token', `http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    setTimeZone('UTC');
+
+    const activity = await gitlab.getActivityForDate('2026-03-10');
+    assert.deepEqual(activity.commits, [
+      { message: 'Fix the build', project: 'web', branch: 'main', url: 'https://gitlab.example.com/acme/web/-/commit/bbbb' },
+    ]);
+  } finally {
+    setTimeZone(undefined);
+    server.close();
+  }
+});
@@ -0,0 +1,174 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'crypto';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+import { gitlabInstanceKey, resolveGitLabIssuer, resolveOAuthClient } from '../config/oauth.js';
+import { GitLabOAuth } from '../utils/gitlabOAuth.js';
+import { createOAuthRequest, verifyOAuthClient } from '../utils/oauthFlow.js';
+import { OAuthServer } from '../utils/oauthServer.js';
+
+// ---------------------------------------------------------------------------
+// State and PKCE
+// ---------------------------------------------------------------------------
+
+test('createOAuthRequest: a fresh state and an S256 challenge of the verifier', () => {
+  const first = createOAuthRequest();
+  const second = createOAuthRequest();
+
+  assert.notEqual(first.state, second.state);
+  assert.notEqual(first.codeVerifier, second.codeVerifier);
+  // RFC 7636: 43 to 128 unreserved characters
+  assert.match(first.codeVerifier, /^[A-Za-z0-9_-]{43,128}$/);
+  assert.equal(first.codeChallenge, createHash('sha256').update(first.codeVerifier).digest('base64url'));
+  assert.equal(first.codeChallengeMethod, 'S256');
+});
+
+test('OAuthServer: refuses a callback with the wrong state and waits for the right one', async () => {
+  const server = new OAuthServer();
+  const port = await server.start({ startPort: 18180, endPort: 18190, timeout: 5000, expectedState: 'expected' });
+  const callback = server.waitForCallback();
+
+  const get = (query: string) =>
+    new Promise<number>((resolve, reject) => {
+      http.get(`http://localhost:${port}/callback?${query}`, res => {
+        res.resume();
+        resolve(res.statusCode!);
+      }).on('error', reject);
+    });
+
+  assert.equal(await get('code=forged&state=other'), 400);
+  assert.equal(await get('code=forged'), 400);
+  assert.equal(await get('code=genuine&state=expected'), 200);
+  assert.deepEqual(await callback, { code: 'genuine', state: 'expected' });
+});
+
+// ---------------------------------------------------------------------------
+// Clients
+// ---------------------------------------------------------------------------
+
+test('resolveOAuthClient: your own app from the config, public when it has no secret', () => {
+  assert.deepEqual(resolveOAuthClient('gitlab', { gitlab: { url: 'https://gitlab.example.com', applicationId: 'mine' } }), {
+    clientId: 'mine',
+    clientSecret: undefined,
+  });
+  assert.deepEqual(resolveOAuthClient('google', { google: { clientId: 'mine.apps', clientSecret: 'shh' } }), {
+    clientId: 'mine.apps',
+    clientSecret: 'shh',
+  });
+  assert.ok(resolveOAuthClient('gitlab', {}).clientSecret, 'the bundled app is confidential');
+
+  // configure_oauth_client takes precedence over the config file
+  const saved = { clientId: 'saved.apps.googleusercontent.com', redirectPorts: { start: 9000, end: 9004 } };
+  assert.equal(resolveOAuthClient('google', { google: { clientId: 'mine.apps' } }, saved), saved);
+});
+
+test('resolveGitLabIssuer: a connection refreshes with the app that signed it in', () => {
+  const config = { gitlab: { url: 'https://gitlab.example.com', applicationId: 'from-config', secret: 's' } };
+  const saved = { clientId: 'saved-for-instance' };
+
+  assert.equal(resolveGitLabIssuer(config, saved, 'saved-for-instance'), saved);
+  // Signed in before the instance got its own app
+  assert.deepEqual(resolveGitLabIssuer(config, saved, 'from-config'), { clientId: 'from-config', clientSecret: 's' });
+  assert.equal(resolveGitLabIssuer(config, saved, 'removed-app'), undefined);
+  // Older connections did not record their app
+  assert.equal(resolveGitLabIssuer(config, saved, undefined), saved);
+});
+
+test('gitlabInstanceKey: one key however the instance URL is written', () => {
+  assert.equal(gitlabInstanceKey('https://GitLab.Example.com/'), 'https://gitlab.example.com');
+  assert.equal(gitlabInstanceKey(' https://example.com/gitlab// '), 'https://example.com/gitlab');
+});
+
+test('verifyOAuthClient: an accepted client reaches invalid_grant, an unknown one is reported', async () => {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const params = new URLSearchParams(body);
+      const known = params.get('client_id') === 'known' && params.has('code_verifier');
+      res.writeHead(known ? 400 : 401, { 'Content-Type': 'application/json' });
+      res.end(
+        JSON.stringify(
+          known
+            ? { error: 'invalid_grant', error_description: 'The provided authorization grant is invalid.' }
+            : { error: 'invalid_client', error_description: 'Client authentication failed.' }
+        )
+      );
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const tokenUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oauth/token`;
+    await verifyOAuthClient(tokenUrl, { clientId: 'known' }, 'http://localhost:8080/callback');
+    await assert.rejects(
+      verifyOAuthClient(tokenUrl, { clientId: 'unknown', clientSecret: 'x' }, 'http://localhost:8080/callback'),
+      /did not accept the client \(Client authentication failed\.\)/
+    );
+  } finally {
+    server.close();
+  }
+});
+
+test('GitLabOAuth: a public application sends the PKCE pair and no secret', async () => {
+  let tokenRequest: URLSearchParams | undefined;
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      tokenRequest = new URLSearchParams(body);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ access_token: 'a', token_type: 'Bearer', refresh_token: 'r', created_at: 1, expires_in: 7200 }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const gitlabUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const oauth = new GitLabOAuth({ applicationId: 'app', gitlabUrl });
+    const request = createOAuthRequest();
+
+    const authUrl = new URL(oauth.getAuthUrl('http://localhost:8080/callback', ['read_api'], request));
+    assert.equal(authUrl.searchParams.get('state'), request.state);
+    assert.equal(authUrl.searchParams.get('code_challenge'), request.codeChallenge);
+    assert.equal(authUrl.searchParams.get('code_challenge_method'), 'S256');
+
+    await oauth.getTokenFromCode('code', 'http://localhost:8080/callback', request.codeVerifier);
+    assert.equal(tokenRequest?.get('code_verifier'), request.codeVerifier);
+    assert.equal(tokenRequest?.get('client_id'), 'app');
+    assert.equal(tokenRequest?.has('client_secret'), false);
+  } finally {
+    server.close();
+  }
+});
+
+test('GitLabOAuth: revokes a token with the client credentials', async () => {
+  const requests: Array<{ path: string; params: URLSearchParams }> = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      requests.push({ path: req.url!, params: new URLSearchParams(body) });
+      const known = requests[requests.length - 1].params.get('client_secret') === 'secret';
+      res.writeHead(known ? 200 : 403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(known ? {} : { error: 'unauthorized_client' }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  try {
+    const gitlabUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    await new GitLabOAuth({ applicationId: 'app', secret: 'secret', gitlabUrl }).revokeToken('refresh-1');
+    assert.equal(requests[0].path, '/oauth/revoke');
+    assert.equal(requests[0].params.get('token'), 'refresh-1');
+
+    await assert.rejects(
+      new GitLabOAuth({ applicationId: 'app', secret: 'wrong', gitlabUrl }).revokeToken('refresh-1'),
+      /Failed to revoke GitLab token \(403\)/
+    );
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,151 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { tmpdir } from 'os';
+
+import {
+  EncryptedFileBackend,
+  PlaintextFileBackend,
+  SecretBackend,
+  migratePlaintextTokens,
+  passphraseKeySource,
+} from '../utils/secretStore.js';
+import { TokenStorage } from '../utils/tokenStorage.js';
+
+async function withTempDir(run: (dir: string) => Promise<void>): Promise<void> {
+  const dir = await fs.mkdtemp(path.join(tmpdir(), 'activity-collector-secrets-'));
+  try {
+    await run(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+function passphraseBackend(file: string, passphrase: string): EncryptedFileBackend {
+  return new EncryptedFileBackend(file, passphraseKeySource(passphrase), 'a test passphrase');
+}
+
+test('EncryptedFileBackend: round-trips through a file holding no plaintext', () =>
+  withTempDir(async dir => {
+    const file = path.join(dir, 'tokens.enc');
+    const backend = passphraseBackend(file, 'correct horse');
+    assert.equal(await backend.read(), null);
+
+    await backend.write('{"github":"ghp_secret"}');
+    await backend.write('{"github":"ghp_rotated"}');
+
+    const raw = await fs.readFile(file, 'utf-8');
+    assert.doesNotMatch(raw, /ghp_/);
+    assert.equal(JSON.parse(raw).keySource, 'passphrase');
+    assert.equal((await fs.stat(file)).mode & 0o777, 0o600);
+    // A fresh instance derives the same key from the stored salt
+    assert.equal(await passphraseBackend(file, 'correct horse').read(), '{"github":"ghp_rotated"}');
+  }));
+
+test('EncryptedFileBackend: a wrong passphrase or another key source is reported, not read as empty', () =>
+  withTempDir(async dir => {
+    const file = path.join(dir, 'tokens.enc');
+    await passphraseBackend(file, 'correct horse').write('{}');
+
+    await assert.rejects(passphraseBackend(file, 'battery staple').read(), /wrong passphrase/);
+
+    const keychain = new EncryptedFileBackend(
+      file,
+      { kind: 'keychain', getKey: async () => Buffer.alloc(32) },
+      'a test keychain'
+    );
+    await assert.rejects(keychain.read(), /encrypted with a passphrase/);
+  }));
+
+test('migratePlaintextTokens: moves the plaintext file once and removes it', () =>
+  withTempDir(async dir => {
+    const plaintextFile = path.join(dir, 'tokens.json');
+    const backend = passphraseBackend(path.join(dir, 'tokens.enc'), 'correct horse');
+    await fs.writeFile(plaintextFile, '{"gitlab":"glpat-old"}');
+
+    assert.equal(await migratePlaintextTokens(backend, plaintextFile), true);
+    assert.equal(await backend.read(), '{"gitlab":"glpat-old"}');
+    await assert.rejects(fs.access(plaintextFile));
+
+    // A plaintext file that reappears never replaces what is already stored
+    await fs.writeFile(plaintextFile, '{"gitlab":"glpat-stale"}');
+    assert.equal(await migratePlaintextTokens(backend, plaintextFile), false);
+    assert.equal(await backend.read(), '{"gitlab":"glpat-old"}');
+
+    assert.equal(await migratePlaintextTokens(new PlaintextFileBackend(plaintextFile), plaintextFile), false);
+  }));
+
+test('TokenStorage: refuses to save over tokens it could not read', async () => {
+  const written: string[] = [];
+  let failing = true;
+  const backend: SecretBackend = {
+    description: 'a test backend',
+    encrypted: true,
+    read: async () => {
+      if (failing) throw new Error('Cannot decrypt the token file');
+      return '{"github":"ghp_secret"}';
+    },
+    write: async data => {
+      written.push(data);
+    },
+  };
+  const storage = new TokenStorage(async () => backend);
+
+  await assert.rejects(storage.load(), /Cannot decrypt/);
+  await assert.rejects(storage.setJira({ url: 'https://jira.example.com', token: 'pat' }), /Cannot decrypt/);
+  assert.deepEqual(written, []);
+
+  failing = false;
+  await storage.load();
+  assert.equal(storage.getGitHubToken(), 'ghp_secret');
+  assert.equal(await storage.describeStorage(), '🔒 a test backend');
+});
+
+test('TokenStorage: removing a connection leaves the other accounts and sources', async () => {
+  let stored =
+    '{"google":{"access_token":"a","refresh_token":"r","expiry_date":1},' +
+    '"connections":{"google":{"work":{"access_token":"b","refresh_token":"s","expiry_date":1}}},' +
+    '"googleCalendars":{"default":["primary","team"],"work":["primary"]},' +
+    '"jira":{"url":"https://jira.example.com","token":"pat"}}';
+  const storage = new TokenStorage(async () => ({
+    description: 'a test backend',
+    encrypted: true,
+    read: async () => stored,
+    write: async data => {
+      stored = data;
+    },
+  }));
+
+  await storage.load();
+  await storage.removeConnection('google', 'default');
+  await storage.removeSource('jira');
+  await storage.load();
+
+  assert.deepEqual(storage.listConnections('google'), ['work']);
+  assert.deepEqual(storage.getGoogleCalendars('default'), ['primary']);
+  assert.deepEqual(storage.getGoogleCalendars('work'), ['primary']);
+  assert.equal(storage.hasJira(), false);
+});
+
+test('TokenStorage: GitLab OAuth apps are kept per instance', async () => {
+  let stored = '{}';
+  const storage = new TokenStorage(async () => ({
+    description: 'a test backend',
+    encrypted: true,
+    read: async () => stored,
+    write: async data => {
+      stored = data;
+    },
+  }));
+
+  await storage.load();
+  await storage.setOAuthClient('gitlab', { clientId: 'company' }, 'https://gitlab.example.com/');
+  await storage.setOAuthClient('gitlab', { clientId: 'public' });
+  await storage.setOAuthClient('gitlab', undefined, 'https://gitlab.com');
+  await storage.load();
+
+  assert.deepEqual(storage.getOAuthClient('gitlab', 'https://GITLAB.example.com'), { clientId: 'company' });
+  assert.equal(storage.getOAuthClient('gitlab', 'https://gitlab.com'), undefined);
+  assert.equal(storage.getOAuthClient('google'), undefined);
+});
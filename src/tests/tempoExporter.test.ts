@@ -0,0 +1,79 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildDayWorklogs, extractIssueKeys, isProjectKeyList } from '../utils/tempoExporter.js';
+import { DATE, day } from './fixtures.js';
+
+// ---------------------------------------------------------------------------
+// Issue keys
+// ---------------------------------------------------------------------------
+
+test('extractIssueKeys: finds keys in order, once each', () => {
+  assert.deepEqual(extractIssueKeys('PROJ-12: fix login (see PROJ-12, OPS-3)'), ['PROJ-12', 'OPS-3']);
+  assert.deepEqual(extractIssueKeys('feature/proj-12-login'), []);
+});
+
+test('extractIssueKeys: project keys rule out look-alikes', () => {
+  assert.deepEqual(extractIssueKeys('Switch to UTF-8 for PROJ-7', ['PROJ']), ['PROJ-7']);
+});
+
+test('isProjectKeyList: only a list of project keys, never a bare string', () => {
+  assert.equal(isProjectKeyList(['PROJ', 'OPS_2']), true);
+  assert.equal(isProjectKeyList('PROJ'), false);
+  assert.equal(isProjectKeyList(['proj']), false);
+  assert.equal(isProjectKeyList(['PROJ-1']), false);
+});
+
+// ---------------------------------------------------------------------------
+// Worklogs
+// ---------------------------------------------------------------------------
+
+test('buildDayWorklogs: splits project hours by issue and stacks start times', () => {
+  const { worklogs, unmatchedHours } = buildDayWorklogs(
+    day({
+      meetings: [{ title: 'Standup', start: new Date(2026, 6, 28, 9), end: new Date(2026, 6, 28, 10) }],
+      gitlabActivity: {
+        date: DATE,
+        commits: [
+          { message: 'Fix login', project: 'web', branch: 'feature/PROJ-12-login' },
+          { message: 'Tidy styles', project: 'web', branch: 'main' },
+        ],
+        mergeRequests: [{ action: 'created', title: 'PROJ-12 Login fixes', project: 'web' }],
+        issues: [],
+      },
+    }),
+    [
+      { project: 'Meetings', hours: 1, meetings: true },
+      { project: 'web', hours: 4 },
+    ],
+    { defaultIssue: 'PROJ-1' }
+  );
+
+  assert.equal(unmatchedHours, 0);
+  assert.deepEqual(
+    worklogs.map(w => [w.issueKey, w.started.slice(11, 16), w.timeSpentSeconds]),
+    [
+      ['PROJ-1', '09:00', 7200],
+      ['PROJ-12', '11:00', 10800],
+    ]
+  );
+  assert.equal(worklogs[0].comment, 'Meetings: Standup; Tidy styles (web)');
+  assert.equal(worklogs[1].comment, 'Fix login (web); PROJ-12 Login fixes (web)');
+});
+
+test('buildDayWorklogs: without a default issue, unmatched time is reported', () => {
+  const { worklogs, unmatchedHours } = buildDayWorklogs(
+    day({
+      gitlabActivity: {
+        date: DATE,
+        commits: [{ message: 'Tidy styles', project: 'web', branch: 'main' }],
+        mergeRequests: [],
+        issues: [],
+      },
+    }),
+    [{ project: 'web', hours: 8 }]
+  );
+
+  assert.deepEqual(worklogs, []);
+  assert.equal(unmatchedHours, 8);
+});
@@ -0,0 +1,92 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { FetchedDay, assembleTimesheet, resolveTimesheetDays } from '../utils/timesheetBuilder.js';
+import { formatDate } from '../utils/dateUtils.js';
+import { parseWorkCalendar } from '../utils/workCalendar.js';
+import { GitLabActivity } from '../types/index.js';
+import { DATE, day } from './fixtures.js';
+
+const WEEKDAYS = parseWorkCalendar({ workingDays: ['mon', 'tue', 'wed', 'thu', 'fri'] });
+const MONDAY = new Date(2026, 6, 27);
+
+function commits(count: number): GitLabActivity['commits'] {
+  return Array.from({ length: count }, (_, i) => ({ message: `Change ${i}`, project: 'web', branch: 'main' }));
+}
+
+// ---------------------------------------------------------------------------
+// Days
+// ---------------------------------------------------------------------------
+
+test('resolveTimesheetDays: a month stops at today', () => {
+  const { days, label } = resolveTimesheetDays({ month: '2026-07' }, WEEKDAYS, new Date(2026, 6, 8));
+
+  assert.equal(label, '2026-07');
+  assert.deepEqual(days.map(formatDate), ['2026-07-01', '2026-07-02', '2026-07-03', '2026-07-06', '2026-07-07', '2026-07-08']);
+});
+
+test('resolveTimesheetDays: a week is labelled by its first working day', () => {
+  const { days, label } = resolveTimesheetDays({ week: '2026-07-30' }, WEEKDAYS, DATE);
+
+  assert.equal(label, 'week of 2026-07-27');
+  assert.deepEqual(days.map(formatDate), ['2026-07-27', '2026-07-28']);
+});
+
+test('resolveTimesheetDays: a range keeps working days only, and nothing in the future', () => {
+  const { days, label } = resolveTimesheetDays({ start_date: '2026-07-24', end_date: '2026-08-05' }, WEEKDAYS, DATE);
+
+  assert.equal(label, '2026-07-24 to 2026-08-05');
+  assert.deepEqual(days.map(formatDate), ['2026-07-24', '2026-07-27', '2026-07-28']);
+  assert.deepEqual(resolveTimesheetDays({ month: '2026-09' }, WEEKDAYS, DATE).days, []);
+});
+
+test('resolveTimesheetDays: rejects malformed and missing periods', () => {
+  assert.throws(() => resolveTimesheetDays({ month: '2026-13' }, WEEKDAYS, DATE), /Invalid month format/);
+  assert.throws(() => resolveTimesheetDays({ week: 'last week' }, WEEKDAYS, DATE), /Invalid week format/);
+  assert.throws(
+    () => resolveTimesheetDays({ start_date: '2026-07-28', end_date: '2026-07-01' }, WEEKDAYS, DATE),
+    /start_date must be before or equal to end_date/
+  );
+  assert.throws(() => resolveTimesheetDays({ start_date: '2026-07-01' }, WEEKDAYS, DATE), /Provide one of/);
+});
+
+// ---------------------------------------------------------------------------
+// Entries
+// ---------------------------------------------------------------------------
+
+test('assembleTimesheet: only a day that was empty before gap filling is marked distributed', () => {
+  const fetched = (): FetchedDay[] => [
+    { activity: day({ date: MONDAY }), sources: [] },
+    {
+      activity: day({ gitlabActivity: { date: DATE, commits: commits(4), mergeRequests: [], issues: [] } }),
+      sources: [{ source: 'gitlab', items: 4, fromCache: false }],
+    },
+  ];
+
+  const { entries, distributionMessage } = assembleTimesheet(fetched(), WEEKDAYS, { distributeGaps: true });
+  assert.deepEqual(entries.map(e => e.distributed), [true, false]);
+  assert.deepEqual(entries.map(e => e.hours), [[{ project: 'web', hours: 8 }], [{ project: 'web', hours: 8 }]]);
+  assert.deepEqual(entries[1].sources, [{ source: 'gitlab', items: 4, fromCache: false }]);
+  assert.match(distributionMessage, /1 day\(s\) had no recorded activity/);
+
+  const plain = assembleTimesheet(fetched(), WEEKDAYS, { hoursPerDay: 6 });
+  assert.deepEqual(plain.entries.map(e => e.distributed), [false, false]);
+  assert.deepEqual(plain.entries.map(e => e.hours), [[], [{ project: 'web', hours: 6 }]]);
+  assert.equal(plain.distributionMessage, '');
+});
+
+test('assembleTimesheet: a holiday from the work calendar is labelled and never filled', () => {
+  const calendar = parseWorkCalendar({ holidays: [{ date: '2026-07-27', name: 'Company day' }] });
+  const { entries } = assembleTimesheet(
+    [
+      { activity: day({ date: MONDAY }), sources: [] },
+      { activity: day({ gitlabActivity: { date: DATE, commits: commits(4), mergeRequests: [], issues: [] } }), sources: [] },
+    ],
+    calendar,
+    { distributeGaps: true }
+  );
+
+  assert.deepEqual(entries[0].dayOff, { kind: 'holiday', label: 'Company day' });
+  assert.equal(entries[0].distributed, false);
+  assert.deepEqual(entries[0].hours, []);
+});
@@ -0,0 +1,122 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { homedir } from 'os';
+import * as path from 'path';
+
+import {
+  parseColumnMapping,
+  renderTimesheet,
+  resolveExportFormat,
+  resolveExportPath,
+} from '../utils/timesheetExporter.js';
+import { TimesheetEntry } from '../types/index.js';
+
+const ENTRY: TimesheetEntry = {
+  date: '2026-07-28',
+  dayOfWeek: 'Tuesday',
+  description: 'Attended Standup. Worked on web: "Fix login, again".',
+  wordCount: 53,
+  sources: [
+    { source: 'gitlab', items: 2, fromCache: false },
+    { source: 'calendar', items: 1, fromCache: true },
+  ],
+  hours: [
+    { project: 'Meetings', hours: 0.5 },
+    { project: 'web', hours: 7.5 },
+  ],
+  links: ['https://gitlab.com/acme/web/-/merge_requests/7'],
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+// ---------------------------------------------------------------------------
+
+test('renderTimesheet: default CSV quotes commas and quotes', () => {
+  const csv = renderTimesheet([ENTRY], 'csv');
+
+  assert.equal(
+    csv,
+    'Date,Day,Hours,Hours Breakdown,Description,Sources,Links\n' +
+      '2026-07-28,Tuesday,8,Meetings 0.5h; web 7.5h,"Attended Standup. Worked on web: ""Fix login, again"".",' +
+      'gitlab (2); calendar (1),https://gitlab.com/acme/web/-/merge_requests/7\n'
+  );
+});
+
+test('renderTimesheet: column mapping renames and reorders', () => {
+  const columns = parseColumnMapping({ 'Work Date': 'date', Comments: 'description', Effort: 'totalHours' });
+  const [header, row] = renderTimesheet([ENTRY], 'csv', columns).trim().split('\n');
+
+  assert.equal(header, 'Work Date,Comments,Effort');
+  assert.ok(row.startsWith('2026-07-28,"Attended'));
+  assert.ok(row.endsWith(',8'));
+});
+
+test('renderTimesheet: project rows split the day by the hours breakdown', () => {
+  const csv = renderTimesheet([ENTRY], 'csv', parseColumnMapping({ Date: 'date', Project: 'project', Hours: 'totalHours' }), 'project');
+  assert.equal(csv, 'Date,Project,Hours\n2026-07-28,Meetings,0.5\n2026-07-28,web,7.5\n');
+});
+
+test('renderTimesheet: project rows keep a day without hours as one row', () => {
+  const holiday: TimesheetEntry = {
+    date: '2026-07-27',
+    dayOfWeek: 'Monday',
+    description: 'Public holiday.',
+    wordCount: 15,
+    hours: [],
+    dayOff: { kind: 'holiday', label: 'Company day' },
+  };
+  const columns = parseColumnMapping({ Date: 'date', Project: 'project', Hours: 'totalHours', Off: 'dayOff' });
+
+  assert.equal(
+    renderTimesheet([holiday, ENTRY], 'csv', columns, 'project'),
+    'Date,Project,Hours,Off\n2026-07-27,,0,Company day\n2026-07-28,Meetings,0.5,\n2026-07-28,web,7.5,\n'
+  );
+});
+
+test('renderTimesheet: excel_csv adds a BOM and CRLF line endings', () => {
+  const csv = renderTimesheet([ENTRY], 'excel_csv', parseColumnMapping({ Date: 'date' }));
+  assert.equal(csv, '\uFEFFDate\r\n2026-07-28\r\n');
+});
+
+test('renderTimesheet: excel_csv keeps formula-like text from running', () => {
+  const entry = { ...ENTRY, description: '=HYPERLINK("https://evil.example","x")', dayOfWeek: '@SUM(A1)' };
+  const columns = parseColumnMapping({ Date: 'date', Day: 'dayOfWeek', Description: 'description', Hours: 'totalHours' });
+
+  assert.equal(
+    renderTimesheet([entry], 'excel_csv', columns),
+    '\uFEFFDate,Day,Description,Hours\r\n2026-07-28,\'@SUM(A1),"\'=HYPERLINK(""https://evil.example"",""x"")",8\r\n'
+  );
+  // Plain CSV is data for other tools and stays verbatim
+  assert.match(renderTimesheet([entry], 'csv', columns), /,@SUM\(A1\),"=HYPERLINK/);
+});
+
+test('renderTimesheet: JSON without columns keeps full entries', () => {
+  assert.deepEqual(JSON.parse(renderTimesheet([ENTRY], 'json')), [ENTRY]);
+  assert.deepEqual(JSON.parse(renderTimesheet([ENTRY], 'json', parseColumnMapping({ Day: 'dayOfWeek' }))), [
+    { Day: 'Tuesday' },
+  ]);
+});
+
+// ---------------------------------------------------------------------------
+// Argument parsing
+// ---------------------------------------------------------------------------
+
+test('parseColumnMapping: rejects unknown fields', () => {
+  assert.equal(parseColumnMapping(undefined), undefined);
+  assert.throws(() => parseColumnMapping({ Date: 'day' }), /Unknown column field\(s\): Date → day/);
+  assert.throws(() => parseColumnMapping(['date']), /must be an object/);
+  assert.throws(() => parseColumnMapping({ Date: 'toString' }), /Unknown column field\(s\): Date → toString/);
+});
+
+test('resolveExportFormat: falls back to the file extension', () => {
+  assert.equal(resolveExportFormat('/tmp/out.JSON'), 'json');
+  assert.equal(resolveExportFormat('/tmp/out.txt'), 'csv');
+  assert.equal(resolveExportFormat('/tmp/out.csv', 'excel_csv'), 'excel_csv');
+  assert.throws(() => resolveExportFormat('/tmp/out.csv', 'xlsx'), /Unknown format/);
+});
+
+test('resolveExportPath: expands ~ and rejects relative paths', () => {
+  assert.equal(resolveExportPath('~/timesheets/dec.csv'), path.join(homedir(), 'timesheets/dec.csv'));
+  assert.throws(() => resolveExportPath('dec.csv'), /must be absolute/);
+  assert.throws(() => resolveExportPath(''), /path is required/);
+});
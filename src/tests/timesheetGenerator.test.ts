@@ -0,0 +1,130 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { TimesheetGenerator } from '../utils/timesheetGenerator.js';
+import { AzureDevOpsActivity, DayActivity } from '../types/index.js';
+import { DATE, day } from './fixtures.js';
+
+function ado(overrides: Partial<AzureDevOpsActivity> = {}): AzureDevOpsActivity {
+  return {
+    date: DATE,
+    workItems: [],
+    pullRequests: [],
+    commits: [],
+    scanned: { projects: ['Retail'], repositories: 1, commitsSkipped: false },
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Azure DevOps narration
+// ---------------------------------------------------------------------------
+
+test('generateTimesheet: narrates work item state transitions', () => {
+  const [entry] = new TimesheetGenerator().generateTimesheet([
+    day({
+      azureDevOpsActivity: ado({
+        workItems: [
+          {
+            id: 1234,
+            title: 'Login fails on Safari',
+            type: 'Bug',
+            project: 'Retail',
+            actions: ['state_changed'],
+            stateFrom: 'Active',
+            stateTo: 'Resolved',
+          },
+        ],
+      }),
+    }),
+  ]);
+
+  assert.equal(entry.description, 'Moved Bug 1234 from Active to Resolved ("Login fails on Safari").');
+  assert.equal(entry.wordCount, entry.description.length);
+});
+
+test('generateTimesheet: distinguishes created, commented and edited work items', () => {
+  const [entry] = new TimesheetGenerator().generateTimesheet([
+    day({
+      azureDevOpsActivity: ado({
+        workItems: [
+          { id: 1, title: 'New task', type: 'Task', project: 'Retail', actions: ['created'] },
+          { id: 2, title: 'Question', type: 'Bug', project: 'Retail', actions: ['commented'] },
+          { id: 3, title: 'Reprioritised', type: 'Bug', project: 'Retail', actions: ['field_changed', 'commented'] },
+        ],
+      }),
+    }),
+  ]);
+
+  assert.match(entry.description, /^Created Task 1 \("New task"\)/);
+  assert.match(entry.description, /commented on Bug 2 \("Question"\)/);
+  assert.match(entry.description, /updated Bug 3 \("Reprioritised"\)/);
+});
+
+test('generateTimesheet: Azure DevOps follows meetings and GitLab work', () => {
+  const [entry] = new TimesheetGenerator().generateTimesheet([
+    day({
+      meetings: [{ title: 'Standup', start: DATE, end: DATE }],
+      gitlabActivity: {
+        date: DATE,
+        commits: [{ message: 'Fix build', project: 'web', branch: 'main' }],
+        mergeRequests: [],
+        issues: [],
+      },
+      azureDevOpsActivity: ado({
+        pullRequests: [{ action: 'completed', title: 'Add retry', id: 7, repository: 'core', project: 'Retail' }],
+        commits: [{ message: 'Retry on 503', repository: 'core', project: 'Retail' }],
+      }),
+    }),
+  ]);
+
+  assert.equal(
+    entry.description,
+    'Attended Standup. Worked on committed "Fix build" to web. ' +
+      'Completed PR: "Add retry" in core. Worked on committed "Retry on 503" to core.'
+  );
+});
+
+test('generateTimesheet: a day without Azure DevOps data is unaffected', () => {
+  const [entry] = new TimesheetGenerator().generateTimesheet([day()]);
+
+  assert.equal(entry.description, '');
+  assert.equal(entry.date, '2026-07-28');
+  assert.equal(entry.dayOfWeek, 'Tuesday');
+});
+
+// ---------------------------------------------------------------------------
+// Issue narration
+// ---------------------------------------------------------------------------
+
+test('generateTimesheet: narrates opened issues, transitions, comments and logged work', () => {
+  const issue = (action: DayActivity['gitlabActivity']['issues'][number]['action'], title: string, details?: string) => ({
+    action,
+    title,
+    project: 'Payments',
+    ...(details ? { details } : {}),
+  });
+  const [entry] = new TimesheetGenerator().generateTimesheet([
+    day({
+      gitlabActivity: {
+        date: DATE,
+        commits: [],
+        mergeRequests: [],
+        issues: [
+          issue('opened', 'PAY-7: Refund webhook'),
+          issue('status_changed', 'PAY-3: Invoice export', 'In Progress → Done'),
+          issue('commented', 'PAY-3: Invoice export'),
+          issue('logged_work', 'PAY-3: Invoice export', '2h 30m'),
+        ],
+      },
+    }),
+  ]);
+
+  assert.equal(
+    entry.description,
+    'Opened issue: "PAY-7: Refund webhook" in Payments. ' +
+      'Commented on issue: "PAY-3: Invoice export" in Payments. ' +
+      'Updated issue: "PAY-3: Invoice export" in Payments (In Progress → Done). ' +
+      'Logged work on issue: "PAY-3: Invoice export" in Payments (2h 30m).'
+  );
+});
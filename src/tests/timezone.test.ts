@@ -0,0 +1,84 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  formatZonedTimestamp,
+  getTimeZone,
+  isValidTimeZone,
+  setTimeZone,
+  zonedDateKey,
+  zonedDayBounds,
+  zonedTimeToInstant,
+} from '../utils/timezone.js';
+
+const HOUR = 3_600_000;
+
+// ---------------------------------------------------------------------------
+// Day boundaries
+// ---------------------------------------------------------------------------
+
+test('zonedDayBounds: an ordinary day is 24 hours from local midnight', () => {
+  const { start, end } = zonedDayBounds('2026-07-28', 'America/New_York');
+  assert.equal(start.toISOString(), '2026-07-28T04:00:00.000Z');
+  assert.equal(end.getTime() - start.getTime(), 24 * HOUR);
+});
+
+test('zonedDayBounds: spring-forward day is 23 hours, fall-back day 25', () => {
+  const spring = zonedDayBounds('2026-03-08', 'America/New_York');
+  assert.equal(spring.start.toISOString(), '2026-03-08T05:00:00.000Z');
+  assert.equal(spring.end.getTime() - spring.start.getTime(), 23 * HOUR);
+
+  const fall = zonedDayBounds('2026-11-01', 'America/New_York');
+  assert.equal(fall.start.toISOString(), '2026-11-01T04:00:00.000Z');
+  assert.equal(fall.end.getTime() - fall.start.getTime(), 25 * HOUR);
+});
+
+test('zonedDayBounds: a day whose midnight is skipped starts at 01:00', () => {
+  // Chile moved clocks from 00:00 to 01:00 on 2022-09-11
+  const { start } = zonedDayBounds('2022-09-11', 'America/Santiago');
+  assert.equal(start.toISOString(), '2022-09-11T04:00:00.000Z');
+  assert.equal(zonedDateKey(start, 'America/Santiago'), '2022-09-11');
+  assert.equal(zonedDateKey(new Date(start.getTime() - 1), 'America/Santiago'), '2022-09-10');
+});
+
+test('zonedTimeToInstant: the repeated hour resolves to its first occurrence', () => {
+  const instant = zonedTimeToInstant('2026-11-01', 1, 30, 'America/New_York');
+  assert.equal(instant.toISOString(), '2026-11-01T05:30:00.000Z');
+});
+
+test('zonedTimeToInstant: a skipped time resolves past the jump', () => {
+  const instant = zonedTimeToInstant('2026-03-08', 2, 30, 'America/New_York');
+  assert.equal(instant.toISOString(), '2026-03-08T07:30:00.000Z');
+});
+
+// ---------------------------------------------------------------------------
+// Day keys and timestamps
+// ---------------------------------------------------------------------------
+
+test('zonedDateKey: evening events in UTC-5 stay on their local day', () => {
+  assert.equal(zonedDateKey('2026-01-15T00:30:00Z', 'America/New_York'), '2026-01-14');
+  assert.equal(zonedDateKey('2026-01-15T00:30:00Z', 'UTC'), '2026-01-15');
+  assert.equal(zonedDateKey('2026-01-14T20:00:00Z', 'Asia/Kolkata'), '2026-01-15');
+});
+
+test('formatZonedTimestamp: carries the offset in force at that instant', () => {
+  assert.equal(
+    formatZonedTimestamp(new Date('2026-03-09T13:00:00Z'), 'America/New_York'),
+    '2026-03-09T09:00:00.000-0400'
+  );
+  assert.equal(
+    formatZonedTimestamp(new Date('2026-03-06T14:00:00Z'), 'America/New_York'),
+    '2026-03-06T09:00:00.000-0500'
+  );
+  assert.equal(formatZonedTimestamp(new Date('2026-07-28T03:30:00Z'), 'Asia/Kolkata'), '2026-07-28T09:00:00.000+0530');
+});
+
+test('setTimeZone: rejects unknown zones and falls back to the system zone', () => {
+  assert.equal(isValidTimeZone('Europe/Berlin'), true);
+  assert.throws(() => setTimeZone('Mars/Olympus'), /Unknown timezone "Mars\/Olympus"/);
+
+  setTimeZone('Asia/Tokyo');
+  assert.equal(getTimeZone(), 'Asia/Tokyo');
+  setTimeZone(undefined);
+  assert.equal(getTimeZone(), Intl.DateTimeFormat().resolvedOptions().timeZone);
+});
@@ -0,0 +1,115 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseIcsHolidays, parseWorkCalendar } from '../utils/workCalendar.js';
+import { formatDate, getWorkingDaysForMonth, getWorkingDaysForWeek } from '../utils/dateUtils.js';
+import { ActivityDistributor } from '../utils/activityDistributor.js';
+import { TimesheetGenerator } from '../utils/timesheetGenerator.js';
+import { day } from './fixtures.js';
+
+// ---------------------------------------------------------------------------
+// Working week
+// ---------------------------------------------------------------------------
+
+test('getWorkingDaysForWeek: keeps the built-in week without a calendar', () => {
+  // Week of 2026-08-03: the first Saturday of August is the 1st, so none here
+  const days = getWorkingDaysForWeek(new Date(2026, 7, 5)).map(formatDate);
+  assert.deepEqual(days, ['2026-08-03', '2026-08-04', '2026-08-05', '2026-08-06', '2026-08-07']);
+  assert.equal(getWorkingDaysForMonth(2026, 8)[0].getDay(), 6);
+});
+
+test('parseWorkCalendar: a Sunday-Thursday week', () => {
+  const calendar = parseWorkCalendar({ workingDays: ['Sunday', 'mon', 'tuesday', 'wednesday', 'thu'] });
+  const days = getWorkingDaysForWeek(new Date(2026, 7, 5), d => calendar.isWorkingDay(d)).map(formatDate);
+
+  // Monday-based week: Mon 3rd to Thu 6th, then Sunday the 9th
+  assert.deepEqual(days, ['2026-08-03', '2026-08-04', '2026-08-05', '2026-08-06', '2026-08-09']);
+  assert.equal(calendar.describe(), 'Sun, Mon, Tue, Wed, Thu; 0 holiday(s), 0 time-off range(s)');
+});
+
+test('parseWorkCalendar: rejects unknown weekdays and malformed dates', () => {
+  assert.throws(() => parseWorkCalendar({ workingDays: ['funday'] }), /unknown weekday "funday"/);
+  assert.throws(() => parseWorkCalendar({ holidays: ['20/03/2026'] }), /workCalendar\.holidays/);
+  assert.throws(
+    () => parseWorkCalendar({ timeOff: [{ start: '2026-08-14', end: '2026-08-10' }] }),
+    /workCalendar\.timeOff/
+  );
+});
+
+// ---------------------------------------------------------------------------
+// Holidays and time off
+// ---------------------------------------------------------------------------
+
+test('parseIcsHolidays: expands multi-day all-day events and unfolds lines', () => {
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'DTSTART;VALUE=DATE:20260320',
+    'DTEND;VALUE=DATE:20260323',
+    'SUMMARY:Eid al-Fitr\\, observed',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'DTSTART;VALUE=DATE:20261202',
+    'SUMMARY:National',
+    '  Day',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  assert.deepEqual([...parseIcsHolidays(ics)], [
+    ['2026-03-20', 'Eid al-Fitr, observed'],
+    ['2026-03-21', 'Eid al-Fitr, observed'],
+    ['2026-03-22', 'Eid al-Fitr, observed'],
+    ['2026-12-02', 'National Day'],
+  ]);
+});
+
+test('dayOff: listed holidays override the file, then time off ranges apply', () => {
+  const calendar = parseWorkCalendar(
+    {
+      holidays: [{ date: '2026-03-20', name: 'Eid' }, '2026-05-01'],
+      timeOff: [{ start: '2026-08-10', end: '2026-08-14', label: 'Vacation' }, { start: '2026-09-01' }],
+    },
+    'BEGIN:VEVENT\nDTSTART;VALUE=DATE:20260320\nSUMMARY:Eid al-Fitr\nEND:VEVENT'
+  );
+
+  assert.deepEqual(calendar.dayOff(new Date(2026, 2, 20)), { kind: 'holiday', label: 'Eid' });
+  assert.deepEqual(calendar.dayOff(new Date(2026, 4, 1)), { kind: 'holiday', label: 'Public holiday' });
+  assert.deepEqual(calendar.dayOff(new Date(2026, 7, 14)), { kind: 'time_off', label: 'Vacation' });
+  assert.deepEqual(calendar.dayOff(new Date(2026, 8, 1)), { kind: 'time_off', label: 'Time off' });
+  assert.equal(calendar.dayOff(new Date(2026, 7, 15)), undefined);
+});
+
+test('generateTimesheet: labels days off instead of leaving them empty', () => {
+  const [holiday, leave] = new TimesheetGenerator().generateTimesheet([
+    day({ date: new Date(2026, 2, 20), dayOff: { kind: 'holiday', label: 'Eid al-Fitr' } }),
+    day({ date: new Date(2026, 7, 10), dayOff: { kind: 'time_off', label: 'Time off' } }),
+  ]);
+
+  assert.equal(holiday.description, 'Public holiday: Eid al-Fitr.');
+  assert.deepEqual(holiday.dayOff, { kind: 'holiday', label: 'Eid al-Fitr' });
+  assert.equal(leave.description, 'Time off.');
+});
+
+test('distributeActivities: does not push work into days off', () => {
+  const commit = (message: string) => ({ message, project: 'web', branch: 'main' });
+  const activities = [
+    day({ date: new Date(2026, 7, 10) }),
+    day({ date: new Date(2026, 7, 11), dayOff: { kind: 'holiday', label: 'Public holiday' } }),
+    day({
+      date: new Date(2026, 7, 12),
+      gitlabActivity: {
+        date: new Date(2026, 7, 12),
+        commits: [commit('One'), commit('Two'), commit('Three'), commit('Four')],
+        mergeRequests: [],
+        issues: [],
+      },
+    }),
+  ];
+
+  const { activities: result, distributionInfo } = new ActivityDistributor().distributeActivities(activities);
+
+  assert.equal(distributionInfo.daysWithGaps, 1);
+  assert.deepEqual(result[0].gitlabActivity.commits.map(c => c.message), ['[Distributed] One', '[Distributed] Two']);
+  assert.deepEqual(result[1].gitlabActivity.commits, []);
+});
@@ -1,16 +1,41 @@
+export type GitLabCredential = string | {
+  access_token: string;
+  refresh_token: string;
+  created_at: number;
+  expires_in?: number;
+  /** Instance the token was issued by. Absent means config gitlab.url or gitlab.com. */
+  url?: string;
+  /** Application that issued the token; only it can refresh or revoke it. */
+  clientId?: string;
+};
+
+export type GitHubCredential = string | {
+  token: string;
+  /** REST API base. Absent means api.github.com. */
+  apiUrl?: string;
+  /** PEM bundle for GitHub Enterprise Server behind a private CA. */
+  caFile?: string;
+};
+
+/** An OAuth app for the loopback sign-in flows. */
+export interface OAuthClientSettings {
+  clientId: string;
+  /** Absent for a public client; the loopback flow's PKCE stands in for it */
+  clientSecret?: string;
+  /** Loopback ports registered as redirect URIs. Absent means 8080-8090. */
+  redirectPorts?: { start: number; end: number };
+}
+
+export interface GoogleCredential {
+  access_token: string;
+  refresh_token: string;
+  expiry_date: number;
+}
+
 export interface TokenStore {
-  gitlab?: string | {
-    access_token: string;
-    refresh_token: string;
-    created_at: number;
-    expires_in?: number;
-  };
-  github?: string;
-  google?: {
-    access_token: string;
-    refresh_token: string;
-    expiry_date: number;
-  };
+  gitlab?: GitLabCredential;
+  github?: GitHubCredential;
+  google?: GoogleCredential;
   outlook?: {
     access_token: string;
     refresh_token: string;
@@ -23,6 +48,48 @@ export interface TokenStore {
     projects?: string[];
     tenant?: string;
   };
+  // Bitbucket Cloud (app password with username, or access token) or Data
+  // Center (HTTP access token, or username and password). `url` is absent for Cloud.
+  bitbucket?: {
+    token: string;
+    username?: string;
+    url?: string;
+  };
+  // Gitea or Forgejo instance and an access token.
+  gitea?: {
+    url: string;
+    token: string;
+  };
+  // Jira Cloud (account email with an API token) or Data Center (personal
+  // access token, no email).
+  jira?: {
+    url: string;
+    token: string;
+    email?: string;
+  };
+  // Generic iCalendar source: an .ics file, feed URL or CalDAV calendar, with
+  // optional basic-auth credentials (usually an app password).
+  icsCalendar?: {
+    source: string;
+    username?: string;
+    password?: string;
+    email?: string;
+  };
+  // Your own OAuth apps from configure_oauth_client, used instead of the bundled ones.
+  oauthClients?: {
+    google?: OAuthClientSettings;
+    /** Keyed by instance URL (see gitlabInstanceKey): a GitLab application belongs to one instance. */
+    gitlab?: Record<string, OAuthClientSettings>;
+  };
+  // Additional named accounts. The top-level gitlab/github/google entries are
+  // the connection called "default", so older token files need no migration.
+  // Google calendar IDs to merge, per connection. Absent means just "primary".
+  googleCalendars?: Record<string, string[]>;
+  connections?: {
+    gitlab?: Record<string, GitLabCredential>;
+    github?: Record<string, GitHubCredential>;
+    google?: Record<string, GoogleCredential>;
+  };
 }
 
 export interface GitLabActivity {
@@ -31,27 +98,53 @@ export interface GitLabActivity {
     message: string;
     project: string;
     branch: string;
+    sha?: string;
+    /** Lines added and removed, when the provider reports commit stats. */
+    additions?: number;
+    deletions?: number;
+    /** Web page for the item, when the provider exposes one. */
+    url?: string;
+    /** Connection the item was fetched through. */
+    account?: string;
   }>;
   mergeRequests: Array<{
     action: 'created' | 'reviewed' | 'approved' | 'commented' | 'closed' | 'merged';
     title: string;
     project: string;
     id?: number;
+    url?: string;
+    account?: string;
   }>;
   issues: Array<{
-    action: 'commented' | 'status_changed' | 'assigned' | 'opened' | 'closed';
+    action: 'commented' | 'status_changed' | 'assigned' | 'opened' | 'closed' | 'logged_work';
     title: string;
     project: string;
     id?: number;
     details?: string;
+    url?: string;
+    account?: string;
   }>;
 }
 
+/** Your reply to an invitation. "none" when there was no invitation to answer. */
+export type CalendarResponseStatus = 'accepted' | 'tentative' | 'declined' | 'needs_action' | 'none';
+
 export interface CalendarEvent {
   title: string;
   start: Date;
   end: Date;
   attendees?: number;
+  responseStatus?: CalendarResponseStatus;
+  /** "free" when the event does not block time (Google transparency, Outlook show-as). */
+  showAs?: 'busy' | 'free';
+  /** True when you organised the event. */
+  isOrganizer?: boolean;
+  /** Connection the event was fetched through. */
+  account?: string;
+  /** Name of the calendar the event came from, when a provider merges several. */
+  calendar?: string;
+  /** Out-of-office, vacation or similar marker: the user was away, not in a meeting. */
+  leave?: boolean;
 }
 
 export interface AzureDevOpsActivity {
@@ -86,32 +179,96 @@ export interface AzureDevOpsActivity {
   };
 }
 
+/** A working weekday the user did not work: a public holiday or personal time off. */
+export interface DayOff {
+  kind: 'holiday' | 'time_off';
+  /** e.g. "Eid al-Fitr" or "Vacation" */
+  label: string;
+}
+
 export interface DayActivity {
   date: Date;
   meetings: CalendarEvent[];
   gitlabActivity: GitLabActivity;
+  /** Present only when Azure DevOps is configured. */
+  azureDevOpsActivity?: AzureDevOpsActivity;
+  /** Set when the work calendar marks the day as a holiday or time off. */
+  dayOff?: DayOff;
   description: string;
 }
 
+/** Which source contributed to a day, and whether it was served from cache. */
+export interface TimesheetSource {
+  source: 'gitlab' | 'github' | 'bitbucket' | 'gitea' | 'local_git' | 'jira' | 'calendar' | 'azure_devops';
+  items: number;
+  fromCache: boolean;
+}
+
+/** Hours booked against one project on one day. */
+export interface ProjectHours {
+  project: string;
+  hours: number;
+  /** Set on the calendar time, so a project that happens to be called "Meetings" stays apart. */
+  meetings?: boolean;
+}
+
 export interface TimesheetEntry {
   date: string;
   dayOfWeek: string;
   description: string;
   wordCount: number;
+  /** Per-day provenance. Absent when the entry was built from bare activity. */
+  sources?: TimesheetSource[];
+  /** True when the day had no activity of its own and received gap-filled work. */
+  distributed?: boolean;
+  /** Per-project split of the working day, meetings first. */
+  hours?: ProjectHours[];
+  /** Web links to the commits, MRs and issues behind the day, where known. */
+  links?: string[];
+  /** Holiday or time off falling on this working day. */
+  dayOff?: DayOff;
+}
+
+/** The `workCalendar` block of the config file. */
+export interface WorkCalendarConfig {
+  /** Weekday names, e.g. ["sunday", "monday", "tuesday", "wednesday", "thursday"]. */
+  workingDays?: string[];
+  /** "YYYY-MM-DD" dates, or {date, name} to label them. */
+  holidays?: Array<string | { date: string; name?: string }>;
+  /** Path to an .ics file of holidays, e.g. one exported from a public holiday calendar. */
+  holidaysIcs?: string;
+  /** Inclusive date ranges of personal time off. */
+  timeOff?: Array<{ start: string; end?: string; label?: string }>;
+}
+
+export interface LocalGitConfig {
+  /** Folders holding repositories, searched a few levels deep. "~/" is expanded. */
+  directories: string[];
+  /** Author names or emails to match. Defaults to each repository's git user.email. */
+  authors?: string[];
+  /** How many folder levels below each directory to look for repositories. Default: 3. */
+  maxDepth?: number;
 }
 
 export interface Config {
   gitlab?: {
     url: string;
     token?: string;
+    /** Your own OAuth application for start_gitlab_auth, instead of the bundled one. */
+    applicationId?: string;
+    /** Absent for a public (non-confidential) application. */
+    secret?: string;
   };
   github?: {
     token?: string;
+    /** OAuth App client ID with device flow enabled, used by configure_github. */
+    clientId?: string;
   };
   google?: {
     clientId: string;
-    clientSecret: string;
-    redirectUri: string;
+    /** Absent for a public client, which relies on PKCE alone. */
+    clientSecret?: string;
+    redirectUri?: string;
   };
   outlook?: {
     clientId: string;
@@ -119,4 +276,16 @@ export interface Config {
     tenantId: string;
     redirectUri: string;
   };
+  /** IANA zone (e.g. "Europe/Berlin") that dates are days in. Defaults to the system zone. */
+  timezone?: string;
+  /** Working week, holidays and time off. Without it: Monday to Friday plus each month's first Saturday. */
+  workCalendar?: WorkCalendarConfig;
+  /** Repositories on disk to read your commits from, pushed or not. */
+  localGit?: LocalGitConfig;
+  /** Defaults for export_tempo_worklogs; tool arguments take precedence. */
+  jira?: {
+    defaultIssue?: string;
+    meetingIssue?: string;
+    projectKeys?: string[];
+  };
 }
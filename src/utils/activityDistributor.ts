@@ -1,6 +1,14 @@
 import { DayActivity, GitLabActivity } from '../types/index.js';
 import { eachDayOfInterval } from 'date-fns';
 
+/** Branch of the note commit that records a distribution on the source day. */
+const DISTRIBUTION_NOTE_BRANCH = 'distribution';
+
+/** The note distributeActivities leaves on the source day; a marker, not work. */
+export function isDistributionNote(commit: GitLabActivity['commits'][number]): boolean {
+  return commit.project === 'System' && commit.branch === DISTRIBUTION_NOTE_BRANCH;
+}
+
 interface DistributionResult {
   activities: DayActivity[];
   distributionInfo: {
@@ -13,7 +21,8 @@ interface DistributionResult {
 export class ActivityDistributor {
   /**
    * Distributes activities from days with work to preceding days without activity
-   * This handles cases where developers commit multiple days of work at once
+   * This handles cases where developers commit multiple days of work at once.
+   * Holidays and time off are never filled: nobody worked them.
    */
   distributeActivities(activities: DayActivity[]): DistributionResult {
     const distributed = [...activities];
@@ -27,17 +36,17 @@ export class ActivityDistributor {
       const current = distributed[i];
       const hasActivity = this.hasAnyActivity(current);
 
-      if (!hasActivity) {
+      if (!hasActivity && !current.dayOff) {
         // Found a day without activity - look ahead for the next day with activity
         const nextActivityIndex = this.findNextActivityDay(distributed, i);
 
         if (nextActivityIndex !== -1) {
-          // Calculate the gap (how many days without activity)
-          const gapSize = nextActivityIndex - i;
-          const nextActivity = distributed[nextActivityIndex];
+          // The gap is the days without activity in between, minus days off
+          const gap = this.gapTargets(distributed, i, nextActivityIndex);
+          const gapSize = gap.length;
 
           // Distribute the next day's work across the gap
-          this.distributeWorkAcrossGap(distributed, i, nextActivityIndex, gapSize);
+          this.distributeWorkAcrossGap(distributed, gap, nextActivityIndex);
 
           gapDays += gapSize;
           distributedDays++;
@@ -60,12 +69,15 @@ export class ActivityDistributor {
     };
   }
 
-  private hasAnyActivity(day: DayActivity): boolean {
+  hasAnyActivity(day: DayActivity): boolean {
     return (
       day.meetings.length > 0 ||
       day.gitlabActivity.commits.length > 0 ||
       day.gitlabActivity.mergeRequests.length > 0 ||
-      day.gitlabActivity.issues.length > 0
+      day.gitlabActivity.issues.length > 0 ||
+      (day.azureDevOpsActivity?.workItems.length ?? 0) > 0 ||
+      (day.azureDevOpsActivity?.pullRequests.length ?? 0) > 0 ||
+      (day.azureDevOpsActivity?.commits.length ?? 0) > 0
     );
   }
 
@@ -78,13 +90,18 @@ export class ActivityDistributor {
     return -1; // No activity found
   }
 
-  private distributeWorkAcrossGap(
-    activities: DayActivity[],
-    gapStart: number,
-    activityIndex: number,
-    gapSize: number
-  ): void {
+  /** Indices from gapStart up to (not including) activityIndex that may receive work. */
+  private gapTargets(activities: DayActivity[], gapStart: number, activityIndex: number): number[] {
+    const gap: number[] = [];
+    for (let i = gapStart; i < activityIndex; i++) {
+      if (!activities[i].dayOff) gap.push(i);
+    }
+    return gap;
+  }
+
+  private distributeWorkAcrossGap(activities: DayActivity[], gap: number[], activityIndex: number): void {
     const sourceActivity = activities[activityIndex];
+    const gapSize = gap.length;
 
     // Calculate how to split the work
     const commitsPerDay = Math.floor(sourceActivity.gitlabActivity.commits.length / (gapSize + 1));
@@ -93,7 +110,7 @@ export class ActivityDistributor {
 
     // Distribute commits
     let commitIndex = 0;
-    for (let i = gapStart; i < activityIndex; i++) {
+    for (const i of gap) {
       const commitsToAdd = Math.min(commitsPerDay, sourceActivity.gitlabActivity.commits.length - commitIndex);
       if (commitsToAdd > 0) {
         const distributedCommits = sourceActivity.gitlabActivity.commits
@@ -110,7 +127,7 @@ export class ActivityDistributor {
 
     // Distribute MRs
     let mrIndex = 0;
-    for (let i = gapStart; i < activityIndex; i++) {
+    for (const i of gap) {
       const mrsToAdd = Math.min(mrsPerDay, sourceActivity.gitlabActivity.mergeRequests.length - mrIndex);
       if (mrsToAdd > 0) {
         const distributedMRs = sourceActivity.gitlabActivity.mergeRequests
@@ -127,7 +144,7 @@ export class ActivityDistributor {
 
     // Distribute issues
     let issueIndex = 0;
-    for (let i = gapStart; i < activityIndex; i++) {
+    for (const i of gap) {
       const issuesToAdd = Math.min(issuesPerDay, sourceActivity.gitlabActivity.issues.length - issueIndex);
       if (issuesToAdd > 0) {
         const distributedIssues = sourceActivity.gitlabActivity.issues
@@ -147,7 +164,7 @@ export class ActivityDistributor {
       const note = {
         message: `[Note: Some activities from this day were distributed to previous ${gapSize} day(s) without recorded work]`,
         project: 'System',
-        branch: 'distribution',
+        branch: DISTRIBUTION_NOTE_BRANCH,
       };
       sourceActivity.gitlabActivity.commits.unshift(note);
     }
@@ -169,15 +186,16 @@ export class ActivityDistributor {
       const current = distributed[i];
       const hasActivity = this.hasAnyActivity(current);
 
-      if (!hasActivity) {
+      if (!hasActivity && !current.dayOff) {
         const nextActivityIndex = this.findNextActivityDay(distributed, i);
 
         if (nextActivityIndex !== -1) {
-          const gapSize = nextActivityIndex - i;
+          const gap = this.gapTargets(distributed, i, nextActivityIndex);
+          const gapSize = gap.length;
           const nextActivity = distributed[nextActivityIndex];
 
           // Create work phases based on gap size
-          this.distributeWorkPhases(distributed, i, nextActivityIndex, gapSize, nextActivity);
+          this.distributeWorkPhases(distributed, gap, nextActivity);
 
           gapDays += gapSize;
           distributedDays++;
@@ -200,18 +218,12 @@ export class ActivityDistributor {
     };
   }
 
-  private distributeWorkPhases(
-    activities: DayActivity[],
-    gapStart: number,
-    activityIndex: number,
-    gapSize: number,
-    sourceActivity: DayActivity
-  ): void {
-    const phases = this.generateWorkPhases(gapSize, sourceActivity);
+  private distributeWorkPhases(activities: DayActivity[], gap: number[], sourceActivity: DayActivity): void {
+    const phases = this.generateWorkPhases(gap.length, sourceActivity);
 
-    for (let i = 0; i < phases.length && (gapStart + i) < activityIndex; i++) {
+    for (let i = 0; i < phases.length && i < gap.length; i++) {
       const phase = phases[i];
-      const dayIndex = gapStart + i;
+      const dayIndex = gap[i];
 
       // Add phase description as a synthetic commit
       activities[dayIndex].gitlabActivity.commits.push({
@@ -2,6 +2,9 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import { homedir } from 'os';
 import { GitLabActivity, CalendarEvent, AzureDevOpsActivity } from '../types/index.js';
+import { DEFAULT_CONNECTION } from './tokenStorage.js';
+import { formatDate } from './dateUtils.js';
+import { getTimeZone } from './timezone.js';
 
 const CACHE_FILE = path.join(homedir(), '.activity-collector-mcp-cache.json');
 const DEFAULT_CACHE_TTL = 3600000; // 1 hour in milliseconds
@@ -16,32 +19,64 @@ interface CacheData {
   gitlab: {
     [dateKey: string]: CacheEntry<GitLabActivity>;
   };
+  github: {
+    [dateKey: string]: CacheEntry<GitLabActivity>;
+  };
+  bitbucket: {
+    [dateKey: string]: CacheEntry<GitLabActivity>;
+  };
+  gitea: {
+    [dateKey: string]: CacheEntry<GitLabActivity>;
+  };
+  jira: {
+    [dateKey: string]: CacheEntry<GitLabActivity>;
+  };
   googleCalendar: {
     [dateKey: string]: CacheEntry<CalendarEvent[]>;
   };
   outlookCalendar: {
     [dateKey: string]: CacheEntry<CalendarEvent[]>;
   };
+  icsCalendar: {
+    [dateKey: string]: CacheEntry<CalendarEvent[]>;
+  };
   azureDevops: {
     [dateKey: string]: CacheEntry<AzureDevOpsActivity>;
   };
+  /** Timezone the day keys were cut in */
+  timeZone?: string;
 }
 
 export class ActivityCache {
   private cache: CacheData = {
     gitlab: {},
+    github: {},
+    bitbucket: {},
+    gitea: {},
+    jira: {},
     googleCalendar: {},
     outlookCalendar: {},
+    icsCalendar: {},
     azureDevops: {},
   };
   private cacheTTL: number = DEFAULT_CACHE_TTL;
   private cacheStats = {
     gitlabHits: 0,
     gitlabMisses: 0,
+    githubHits: 0,
+    githubMisses: 0,
+    bitbucketHits: 0,
+    bitbucketMisses: 0,
+    giteaHits: 0,
+    giteaMisses: 0,
+    jiraHits: 0,
+    jiraMisses: 0,
     googleHits: 0,
     googleMisses: 0,
     outlookHits: 0,
     outlookMisses: 0,
+    icsHits: 0,
+    icsMisses: 0,
     azureDevopsHits: 0,
     azureDevopsMisses: 0,
   };
@@ -50,33 +85,56 @@ export class ActivityCache {
     try {
       const data = await fs.readFile(CACHE_FILE, 'utf-8');
       const parsed = JSON.parse(data);
+      // Days cut in another timezone hold different activity under the same
+      // keys; files from before the zone was recorded are treated the same way.
+      if (parsed.timeZone !== getTimeZone()) {
+        throw new Error('Cache was written for another timezone');
+      }
       // Cache files written before a bucket existed lack that key entirely,
       // so default every bucket rather than trusting the file's shape.
       this.cache = {
         gitlab: parsed.gitlab ?? {},
+        github: parsed.github ?? {},
+        bitbucket: parsed.bitbucket ?? {},
+        gitea: parsed.gitea ?? {},
+        jira: parsed.jira ?? {},
         googleCalendar: parsed.googleCalendar ?? {},
         outlookCalendar: parsed.outlookCalendar ?? {},
+        icsCalendar: parsed.icsCalendar ?? {},
         azureDevops: parsed.azureDevops ?? {},
       };
     } catch (error) {
-      // Cache file doesn't exist yet, that's okay
+      // Cache file doesn't exist yet (or is for another timezone), that's okay
       this.cache = {
         gitlab: {},
+        github: {},
+        bitbucket: {},
+        gitea: {},
+        jira: {},
         googleCalendar: {},
         outlookCalendar: {},
+        icsCalendar: {},
         azureDevops: {},
       };
     }
   }
 
   async save(): Promise<void> {
-    await fs.writeFile(CACHE_FILE, JSON.stringify(this.cache, null, 2), {
+    await fs.writeFile(CACHE_FILE, JSON.stringify({ ...this.cache, timeZone: getTimeZone() }, null, 2), {
       mode: 0o600,
     });
   }
 
   private getDateKey(date: Date): string {
-    return date.toISOString().split('T')[0]; // YYYY-MM-DD
+    // Dates are calendar-day labels (local midnight); toISOString would shift
+    // them a day back east of UTC
+    return formatDate(date);
+  }
+
+  // The default connection keeps bare date keys so existing cache files stay valid
+  private getConnectionKey(date: Date, connection: string): string {
+    const dateKey = this.getDateKey(date);
+    return connection === DEFAULT_CONNECTION ? dateKey : `${connection}/${dateKey}`;
   }
 
   private isExpired(timestamp: number): boolean {
@@ -84,8 +142,8 @@ export class ActivityCache {
   }
 
   // GitLab cache methods
-  getGitLabActivity(date: Date): GitLabActivity | null {
-    const key = this.getDateKey(date);
+  getGitLabActivity(date: Date, connection: string = DEFAULT_CONNECTION): GitLabActivity | null {
+    const key = this.getConnectionKey(date, connection);
     const entry = this.cache.gitlab[key];
 
     if (!entry) {
@@ -103,8 +161,12 @@ export class ActivityCache {
     return entry.data;
   }
 
-  async setGitLabActivity(date: Date, activity: GitLabActivity): Promise<void> {
-    const key = this.getDateKey(date);
+  async setGitLabActivity(
+    date: Date,
+    activity: GitLabActivity,
+    connection: string = DEFAULT_CONNECTION
+  ): Promise<void> {
+    const key = this.getConnectionKey(date, connection);
     this.cache.gitlab[key] = {
       data: activity,
       timestamp: Date.now(),
@@ -113,9 +175,133 @@ export class ActivityCache {
     await this.save();
   }
 
-  // Google Calendar cache methods
-  getGoogleCalendarEvents(date: Date): CalendarEvent[] | null {
+  // GitHub cache methods
+  getGitHubActivity(date: Date, connection: string = DEFAULT_CONNECTION): GitLabActivity | null {
+    const key = this.getConnectionKey(date, connection);
+    const entry = this.cache.github[key];
+
+    if (!entry) {
+      this.cacheStats.githubMisses++;
+      return null;
+    }
+
+    if (this.isExpired(entry.timestamp)) {
+      delete this.cache.github[key];
+      this.cacheStats.githubMisses++;
+      return null;
+    }
+
+    this.cacheStats.githubHits++;
+    return entry.data;
+  }
+
+  async setGitHubActivity(
+    date: Date,
+    activity: GitLabActivity,
+    connection: string = DEFAULT_CONNECTION
+  ): Promise<void> {
+    const key = this.getConnectionKey(date, connection);
+    this.cache.github[key] = {
+      data: activity,
+      timestamp: Date.now(),
+      source: 'github',
+    };
+    await this.save();
+  }
+
+  // Bitbucket cache methods
+  getBitbucketActivity(date: Date): GitLabActivity | null {
+    const key = this.getDateKey(date);
+    const entry = this.cache.bitbucket[key];
+
+    if (!entry) {
+      this.cacheStats.bitbucketMisses++;
+      return null;
+    }
+
+    if (this.isExpired(entry.timestamp)) {
+      delete this.cache.bitbucket[key];
+      this.cacheStats.bitbucketMisses++;
+      return null;
+    }
+
+    this.cacheStats.bitbucketHits++;
+    return entry.data;
+  }
+
+  async setBitbucketActivity(date: Date, activity: GitLabActivity): Promise<void> {
     const key = this.getDateKey(date);
+    this.cache.bitbucket[key] = {
+      data: activity,
+      timestamp: Date.now(),
+      source: 'bitbucket',
+    };
+    await this.save();
+  }
+
+  // Gitea cache methods
+  getGiteaActivity(date: Date): GitLabActivity | null {
+    const key = this.getDateKey(date);
+    const entry = this.cache.gitea[key];
+
+    if (!entry) {
+      this.cacheStats.giteaMisses++;
+      return null;
+    }
+
+    if (this.isExpired(entry.timestamp)) {
+      delete this.cache.gitea[key];
+      this.cacheStats.giteaMisses++;
+      return null;
+    }
+
+    this.cacheStats.giteaHits++;
+    return entry.data;
+  }
+
+  async setGiteaActivity(date: Date, activity: GitLabActivity): Promise<void> {
+    const key = this.getDateKey(date);
+    this.cache.gitea[key] = {
+      data: activity,
+      timestamp: Date.now(),
+      source: 'gitea',
+    };
+    await this.save();
+  }
+
+  // Jira cache methods
+  getJiraActivity(date: Date): GitLabActivity | null {
+    const key = this.getDateKey(date);
+    const entry = this.cache.jira[key];
+
+    if (!entry) {
+      this.cacheStats.jiraMisses++;
+      return null;
+    }
+
+    if (this.isExpired(entry.timestamp)) {
+      delete this.cache.jira[key];
+      this.cacheStats.jiraMisses++;
+      return null;
+    }
+
+    this.cacheStats.jiraHits++;
+    return entry.data;
+  }
+
+  async setJiraActivity(date: Date, activity: GitLabActivity): Promise<void> {
+    const key = this.getDateKey(date);
+    this.cache.jira[key] = {
+      data: activity,
+      timestamp: Date.now(),
+      source: 'jira',
+    };
+    await this.save();
+  }
+
+  // Google Calendar cache methods
+  getGoogleCalendarEvents(date: Date, connection: string = DEFAULT_CONNECTION): CalendarEvent[] | null {
+    const key = this.getConnectionKey(date, connection);
     const entry = this.cache.googleCalendar[key];
 
     if (!entry) {
@@ -133,8 +319,12 @@ export class ActivityCache {
     return entry.data;
   }
 
-  async setGoogleCalendarEvents(date: Date, events: CalendarEvent[]): Promise<void> {
-    const key = this.getDateKey(date);
+  async setGoogleCalendarEvents(
+    date: Date,
+    events: CalendarEvent[],
+    connection: string = DEFAULT_CONNECTION
+  ): Promise<void> {
+    const key = this.getConnectionKey(date, connection);
     this.cache.googleCalendar[key] = {
       data: events,
       timestamp: Date.now(),
@@ -173,6 +363,36 @@ export class ActivityCache {
     await this.save();
   }
 
+  // ICS calendar cache methods
+  getIcsCalendarEvents(date: Date): CalendarEvent[] | null {
+    const key = this.getDateKey(date);
+    const entry = this.cache.icsCalendar[key];
+
+    if (!entry) {
+      this.cacheStats.icsMisses++;
+      return null;
+    }
+
+    if (this.isExpired(entry.timestamp)) {
+      delete this.cache.icsCalendar[key];
+      this.cacheStats.icsMisses++;
+      return null;
+    }
+
+    this.cacheStats.icsHits++;
+    return entry.data;
+  }
+
+  async setIcsCalendarEvents(date: Date, events: CalendarEvent[]): Promise<void> {
+    const key = this.getDateKey(date);
+    this.cache.icsCalendar[key] = {
+      data: events,
+      timestamp: Date.now(),
+      source: 'ics_calendar',
+    };
+    await this.save();
+  }
+
   // Azure DevOps cache methods
   getAzureDevOpsActivity(date: Date): AzureDevOpsActivity | null {
     const key = this.getDateKey(date);
@@ -207,8 +427,13 @@ export class ActivityCache {
   async clearAll(): Promise<void> {
     this.cache = {
       gitlab: {},
+      github: {},
+      bitbucket: {},
+      gitea: {},
+      jira: {},
       googleCalendar: {},
       outlookCalendar: {},
+      icsCalendar: {},
       azureDevops: {},
     };
     await this.save();
@@ -220,14 +445,71 @@ export class ActivityCache {
     await this.save();
   }
 
-  async clearGitLab(): Promise<void> {
-    this.cache.gitlab = {};
+  /** Clears every GitLab connection's days, or only those of `connection`. */
+  async clearGitLab(connection?: string): Promise<void> {
+    if (connection === undefined) {
+      this.cache.gitlab = {};
+    } else {
+      this.dropConnection(this.cache.gitlab, connection);
+    }
+    await this.save();
+  }
+
+  /** Clears every GitHub connection's days, or only those of `connection`. */
+  async clearGitHub(connection?: string): Promise<void> {
+    if (connection === undefined) {
+      this.cache.github = {};
+    } else {
+      this.dropConnection(this.cache.github, connection);
+    }
+    await this.save();
+  }
+
+  async clearBitbucket(): Promise<void> {
+    this.cache.bitbucket = {};
     await this.save();
   }
 
+  async clearGitea(): Promise<void> {
+    this.cache.gitea = {};
+    await this.save();
+  }
+
+  async clearJira(): Promise<void> {
+    this.cache.jira = {};
+    await this.save();
+  }
+
+  /** Drops one Google account's cached days, e.g. after its calendar selection changed. */
+  async clearGoogleCalendar(connection: string = DEFAULT_CONNECTION): Promise<void> {
+    this.dropConnection(this.cache.googleCalendar, connection);
+    await this.save();
+  }
+
+  async clearOutlookCalendar(): Promise<void> {
+    this.cache.outlookCalendar = {};
+    await this.save();
+  }
+
+  private dropConnection(bucket: Record<string, unknown>, connection: string): void {
+    for (const key of Object.keys(bucket)) {
+      const slash = key.indexOf('/');
+      const owner = slash === -1 ? DEFAULT_CONNECTION : key.slice(0, slash);
+      if (owner === connection) {
+        delete bucket[key];
+      }
+    }
+  }
+
   async clearCalendars(): Promise<void> {
     this.cache.googleCalendar = {};
     this.cache.outlookCalendar = {};
+    this.cache.icsCalendar = {};
+    await this.save();
+  }
+
+  async clearIcsCalendar(): Promise<void> {
+    this.cache.icsCalendar = {};
     await this.save();
   }
 
@@ -241,6 +523,34 @@ export class ActivityCache {
       }
     }
 
+    // Clear expired GitHub entries
+    for (const [key, entry] of Object.entries(this.cache.github)) {
+      if (now - entry.timestamp > this.cacheTTL) {
+        delete this.cache.github[key];
+      }
+    }
+
+    // Clear expired Bitbucket entries
+    for (const [key, entry] of Object.entries(this.cache.bitbucket)) {
+      if (now - entry.timestamp > this.cacheTTL) {
+        delete this.cache.bitbucket[key];
+      }
+    }
+
+    // Clear expired Gitea entries
+    for (const [key, entry] of Object.entries(this.cache.gitea)) {
+      if (now - entry.timestamp > this.cacheTTL) {
+        delete this.cache.gitea[key];
+      }
+    }
+
+    // Clear expired Jira entries
+    for (const [key, entry] of Object.entries(this.cache.jira)) {
+      if (now - entry.timestamp > this.cacheTTL) {
+        delete this.cache.jira[key];
+      }
+    }
+
     // Clear expired Google Calendar entries
     for (const [key, entry] of Object.entries(this.cache.googleCalendar)) {
       if (now - entry.timestamp > this.cacheTTL) {
@@ -255,6 +565,13 @@ export class ActivityCache {
       }
     }
 
+    // Clear expired ICS calendar entries
+    for (const [key, entry] of Object.entries(this.cache.icsCalendar)) {
+      if (now - entry.timestamp > this.cacheTTL) {
+        delete this.cache.icsCalendar[key];
+      }
+    }
+
     // Clear expired Azure DevOps entries
     for (const [key, entry] of Object.entries(this.cache.azureDevops)) {
       if (now - entry.timestamp > this.cacheTTL) {
@@ -267,12 +584,18 @@ export class ActivityCache {
 
   getCacheStats() {
     const total = this.cacheStats.gitlabHits + this.cacheStats.gitlabMisses +
+                  this.cacheStats.githubHits + this.cacheStats.githubMisses +
+                  this.cacheStats.bitbucketHits + this.cacheStats.bitbucketMisses +
+                  this.cacheStats.giteaHits + this.cacheStats.giteaMisses +
+                  this.cacheStats.jiraHits + this.cacheStats.jiraMisses +
                   this.cacheStats.googleHits + this.cacheStats.googleMisses +
                   this.cacheStats.outlookHits + this.cacheStats.outlookMisses +
+                  this.cacheStats.icsHits + this.cacheStats.icsMisses +
                   this.cacheStats.azureDevopsHits + this.cacheStats.azureDevopsMisses;
 
-    const hits = this.cacheStats.gitlabHits + this.cacheStats.googleHits +
-                 this.cacheStats.outlookHits + this.cacheStats.azureDevopsHits;
+    const hits = this.cacheStats.gitlabHits + this.cacheStats.githubHits + this.cacheStats.bitbucketHits +
+                 this.cacheStats.giteaHits + this.cacheStats.jiraHits + this.cacheStats.googleHits +
+                 this.cacheStats.outlookHits + this.cacheStats.icsHits + this.cacheStats.azureDevopsHits;
     const hitRate = total > 0 ? ((hits / total) * 100).toFixed(1) : '0';
 
     return {
@@ -287,10 +610,20 @@ export class ActivityCache {
     this.cacheStats = {
       gitlabHits: 0,
       gitlabMisses: 0,
+      githubHits: 0,
+      githubMisses: 0,
+      bitbucketHits: 0,
+      bitbucketMisses: 0,
+      giteaHits: 0,
+      giteaMisses: 0,
+      jiraHits: 0,
+      jiraMisses: 0,
       googleHits: 0,
       googleMisses: 0,
       outlookHits: 0,
       outlookMisses: 0,
+      icsHits: 0,
+      icsMisses: 0,
       azureDevopsHits: 0,
       azureDevopsMisses: 0,
     };
@@ -299,8 +632,13 @@ export class ActivityCache {
   getCacheInfo() {
     return {
       gitlabEntries: Object.keys(this.cache.gitlab).length,
+      githubEntries: Object.keys(this.cache.github).length,
+      bitbucketEntries: Object.keys(this.cache.bitbucket).length,
+      giteaEntries: Object.keys(this.cache.gitea).length,
+      jiraEntries: Object.keys(this.cache.jira).length,
       googleCalendarEntries: Object.keys(this.cache.googleCalendar).length,
       outlookCalendarEntries: Object.keys(this.cache.outlookCalendar).length,
+      icsCalendarEntries: Object.keys(this.cache.icsCalendar).length,
       azureDevopsEntries: Object.keys(this.cache.azureDevops).length,
       cacheTTL: this.cacheTTL,
       cacheFile: CACHE_FILE,
@@ -0,0 +1,103 @@
+import { CalendarEvent, DayOff } from '../types/index.js';
+import { DEFAULT_HOURS_PER_DAY } from './hoursAllocator.js';
+
+/**
+ * Kinds of calendar event a fetch can leave out. Every provider maps its own
+ * RSVP and free/busy fields onto CalendarEvent, so one list works for Google,
+ * Microsoft Graph and the local Outlook bridges alike.
+ */
+export type CalendarExclusion = 'declined' | 'tentative' | 'unanswered' | 'free';
+
+export const CALENDAR_EXCLUSIONS: CalendarExclusion[] = ['declined', 'tentative', 'unanswered', 'free'];
+
+/** Declined invites are not meetings you attended, so they are dropped unless asked for. */
+export const DEFAULT_CALENDAR_EXCLUSIONS: CalendarExclusion[] = ['declined'];
+
+/** Reads a tool's `exclude` argument. Absent means the default policy; [] keeps everything. */
+export function parseCalendarExclusions(value: unknown): CalendarExclusion[] {
+  if (value === undefined || value === null) {
+    return DEFAULT_CALENDAR_EXCLUSIONS;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`exclude must be an array drawn from: ${CALENDAR_EXCLUSIONS.join(', ')}`);
+  }
+
+  const unknown = value.filter(v => !CALENDAR_EXCLUSIONS.includes(v as CalendarExclusion));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown exclude value(s): ${unknown.join(', ')}. Use: ${CALENDAR_EXCLUSIONS.join(', ')}`);
+  }
+
+  return [...new Set(value as CalendarExclusion[])];
+}
+
+/**
+ * Drops the excluded events. Events without RSVP or free/busy data (e.g.
+ * cached before those fields existed) are always kept.
+ */
+export function applyCalendarExclusions(events: CalendarEvent[], exclude: CalendarExclusion[]): CalendarEvent[] {
+  if (exclude.length === 0) return events;
+
+  return events.filter(event => {
+    // Vacation entries are often marked free; they still mean a day off
+    if (event.leave) return true;
+    if (exclude.includes('declined') && event.responseStatus === 'declined') return false;
+    if (exclude.includes('tentative') && event.responseStatus === 'tentative') return false;
+    if (exclude.includes('unanswered') && event.responseStatus === 'needs_action') return false;
+    if (exclude.includes('free') && event.showAs === 'free') return false;
+    return true;
+  });
+}
+
+/** " — tentative, organizer" style note for fetch tool listings. */
+export function describeEventStatus(event: CalendarEvent): string {
+  const notes: string[] = [];
+  if (event.leave) notes.push('leave');
+  if (event.responseStatus === 'declined') notes.push('declined');
+  if (event.responseStatus === 'tentative') notes.push('tentative');
+  if (event.responseStatus === 'needs_action') notes.push('no reply');
+  if (event.showAs === 'free') notes.push('free');
+  if (event.isOrganizer) notes.push('organizer');
+  return notes.length > 0 ? ` — ${notes.join(', ')}` : '';
+}
+
+/**
+ * Timed away markers must cover most of a working day to mark it off;
+ * shorter ones are appointments (a dentist visit) or a half day.
+ */
+const MIN_LEAVE_HOURS = DEFAULT_HOURS_PER_DAY * 0.75;
+
+// "leave" only counts in a phrase: "Leave planning workshop" is a meeting
+const LEAVE_TITLE =
+  /\b(ooo|oof|out of (the )?office|vacation|holidays?|(on|annual|sick) leave|pto|sick|day off|time off)\b/i;
+
+/**
+ * Whether an event says the user was away rather than in a meeting: flagged
+ * out-of-office by the provider, or titled like "Vacation" or "OOO", and
+ * all-day or covering most of the working day. Providers call this before
+ * dropping all-day events, which are otherwise not meetings.
+ */
+export function isLeaveMarker(event: {
+  title: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  outOfOffice: boolean;
+}): boolean {
+  const long = event.allDay || event.end.getTime() - event.start.getTime() >= MIN_LEAVE_HOURS * 3_600_000;
+  return long && (event.outOfOffice || LEAVE_TITLE.test(event.title));
+}
+
+/** Separates leave markers from the meetings of a day. */
+export function splitLeaveEvents(events: CalendarEvent[]): { meetings: CalendarEvent[]; leave: CalendarEvent[] } {
+  return {
+    meetings: events.filter(e => !e.leave),
+    leave: events.filter(e => e.leave),
+  };
+}
+
+/** The day off a day's leave markers add up to, labelled by the first of them. */
+export function leaveDayOff(leave: CalendarEvent[]): DayOff | undefined {
+  if (leave.length === 0) return undefined;
+  const label = leave[0].title;
+  return { kind: /\bholidays?\b/i.test(label) ? 'holiday' : 'time_off', label };
+}
@@ -0,0 +1,41 @@
+import { CalendarEvent, GitLabActivity } from '../types/index.js';
+import { DEFAULT_CONNECTION } from './tokenStorage.js';
+
+/** Stamps every commit, MR and issue with the connection it was fetched through. */
+export function tagGitActivity(activity: GitLabActivity, account: string): GitLabActivity {
+  return {
+    ...activity,
+    commits: activity.commits.map(c => ({ ...c, account })),
+    mergeRequests: activity.mergeRequests.map(mr => ({ ...mr, account })),
+    issues: activity.issues.map(i => ({ ...i, account })),
+  };
+}
+
+export function tagCalendarEvents(events: CalendarEvent[], account: string): CalendarEvent[] {
+  return events.map(e => ({ ...e, account }));
+}
+
+/** Merges one day of activity fetched through several connections of one provider. */
+export function mergeConnectionActivities(date: Date, activities: GitLabActivity[]): GitLabActivity {
+  return {
+    date,
+    commits: activities.flatMap(a => a.commits),
+    mergeRequests: activities.flatMap(a => a.mergeRequests),
+    issues: activities.flatMap(a => a.issues),
+  };
+}
+
+/**
+ * Merges one day of events from several calendar accounts in start order.
+ * Cached events come back from JSON with string dates, hence the re-parse.
+ */
+export function mergeConnectionEvents(eventLists: CalendarEvent[][]): CalendarEvent[] {
+  return eventLists
+    .flat()
+    .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+}
+
+/** " [work]" for items from a named connection; nothing for the default one. */
+export function accountSuffix(item: { account?: string }): string {
+  return item.account && item.account !== DEFAULT_CONNECTION ? ` [${item.account}]` : '';
+}
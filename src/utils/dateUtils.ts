@@ -9,27 +9,31 @@ import {
   endOfWeek
 } from 'date-fns';
 
-export function getWorkingDaysForMonth(year: number, month: number): Date[] {
-  const start = startOfMonth(new Date(year, month - 1));
-  const end = endOfMonth(new Date(year, month - 1));
-
-  const allDays = eachDayOfInterval({ start, end });
-
-  return allDays.filter(day => {
-    const isSat = isSaturday(day);
-    const isSun = isSunday(day);
+/**
+ * Built-in working week, used when the config has no `workCalendar.workingDays`:
+ * Monday to Friday plus the first Saturday of each month.
+ */
+export function isDefaultWorkingDay(day: Date): boolean {
+  // Skip Sundays always
+  if (isSunday(day)) return false;
+
+  // Include first Saturday of the month
+  if (isSaturday(day)) {
+    return day.getDate() <= 7; // First week
+  }
 
-    // Skip Sundays always
-    if (isSun) return false;
+  return true; // Include all other days
+}
 
-    // Include first Saturday of the month
-    if (isSat) {
-      const dayOfMonth = day.getDate();
-      return dayOfMonth <= 7; // First week
-    }
+export function getWorkingDaysForMonth(
+  year: number,
+  month: number,
+  isWorkingDay: (day: Date) => boolean = isDefaultWorkingDay
+): Date[] {
+  const start = startOfMonth(new Date(year, month - 1));
+  const end = endOfMonth(new Date(year, month - 1));
 
-    return true; // Include all other days
-  });
+  return eachDayOfInterval({ start, end }).filter(isWorkingDay);
 }
 
 export function formatDate(date: Date): string {
@@ -63,27 +67,14 @@ export function parseMonthYear(input: string): { year: number; month: number } |
   return null;
 }
 
-export function getWorkingDaysForWeek(weekStart: Date): Date[] {
+export function getWorkingDaysForWeek(
+  weekStart: Date,
+  isWorkingDay: (day: Date) => boolean = isDefaultWorkingDay
+): Date[] {
   const start = startOfWeek(weekStart, { weekStartsOn: 1 }); // Monday
   const end = endOfWeek(weekStart, { weekStartsOn: 1 }); // Sunday
 
-  const allDays = eachDayOfInterval({ start, end });
-
-  return allDays.filter(day => {
-    const isSat = isSaturday(day);
-    const isSun = isSunday(day);
-
-    // Skip Sundays always
-    if (isSun) return false;
-
-    // Include first Saturday of the month
-    if (isSat) {
-      const dayOfMonth = day.getDate();
-      return dayOfMonth <= 7; // First week of month
-    }
-
-    return true; // Include all other days
-  });
+  return eachDayOfInterval({ start, end }).filter(isWorkingDay);
 }
 
 export function getCurrentWeek(): Date {
@@ -126,22 +117,10 @@ export function parseDateInput(input: string): Date | null {
   return null;
 }
 
-export function getWorkingDaysForDateRange(startDate: Date, endDate: Date): Date[] {
-  const allDays = eachDayOfInterval({ start: startDate, end: endDate });
-
-  return allDays.filter(day => {
-    const isSat = isSaturday(day);
-    const isSun = isSunday(day);
-
-    // Skip Sundays always
-    if (isSun) return false;
-
-    // Include first Saturday of the month
-    if (isSat) {
-      const dayOfMonth = day.getDate();
-      return dayOfMonth <= 7; // First week of month
-    }
-
-    return true; // Include all other days
-  });
+export function getWorkingDaysForDateRange(
+  startDate: Date,
+  endDate: Date,
+  isWorkingDay: (day: Date) => boolean = isDefaultWorkingDay
+): Date[] {
+  return eachDayOfInterval({ start: startDate, end: endDate }).filter(isWorkingDay);
 }
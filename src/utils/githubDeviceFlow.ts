@@ -0,0 +1,148 @@
+export interface GitHubDeviceCode {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  expires_in: number;
+  interval: number;
+}
+
+export type DeviceTokenPoll =
+  | { status: 'granted'; accessToken: string; scope: string }
+  | { status: 'pending' }
+  | { status: 'slow_down'; interval?: number }
+  | { status: 'failed'; error: string };
+
+/**
+ * Classifies one response from the device-flow token endpoint.
+ *
+ * GitHub answers every poll with HTTP 200 and signals progress through the
+ * `error` field, so "pending" and "denied" are distinguished here rather than
+ * by status code. Exported for tests.
+ */
+export function parseDeviceTokenResponse(body: any): DeviceTokenPoll {
+  if (body?.access_token) {
+    return { status: 'granted', accessToken: String(body.access_token), scope: String(body.scope ?? '') };
+  }
+
+  switch (body?.error) {
+    case 'authorization_pending':
+      return { status: 'pending' };
+    case 'slow_down':
+      return {
+        status: 'slow_down',
+        interval: typeof body.interval === 'number' ? body.interval : undefined,
+      };
+    case 'expired_token':
+      return { status: 'failed', error: 'The device code expired before it was authorized. Run configure_github again.' };
+    case 'access_denied':
+      return { status: 'failed', error: 'Authorization was denied in the browser.' };
+    case 'incorrect_client_credentials':
+      return { status: 'failed', error: 'GitHub rejected the client ID. Check that it belongs to an OAuth App.' };
+    case 'device_flow_disabled':
+      return { status: 'failed', error: 'Device flow is not enabled for this OAuth App (Settings > Developer settings > OAuth Apps > Enable Device Flow).' };
+    default:
+      return {
+        status: 'failed',
+        error: body?.error_description || body?.error || 'Unexpected response from GitHub',
+      };
+  }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Helper class for the GitHub OAuth device flow.
+ *
+ * The device flow needs no redirect URI, so unlike Google and GitLab it does
+ * not depend on a free local port: the user enters a short code on github.com
+ * and this side polls until the grant appears.
+ */
+export class GitHubDeviceFlow {
+  private clientId: string;
+  private githubUrl: string;
+  private fetchImpl: typeof fetch;
+
+  /**
+   * @param githubUrl web host, e.g. https://github.com or a GHES base URL
+   * @param fetchImpl override for instances behind a private CA
+   */
+  constructor(clientId: string, githubUrl: string = 'https://github.com', fetchImpl: typeof fetch = fetch) {
+    this.clientId = clientId;
+    this.githubUrl = githubUrl.replace(/\/+$/, '');
+    this.fetchImpl = fetchImpl;
+  }
+
+  /**
+   * Request a device and user code pair
+   */
+  async requestDeviceCode(scopes: string[]): Promise<GitHubDeviceCode> {
+    const response = await this.fetchImpl(`${this.githubUrl}/login/device/code`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ client_id: this.clientId, scope: scopes.join(' ') }).toString(),
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`GitHub device code request failed (${response.status}): ${text.slice(0, 300)}`);
+    }
+
+    const body = (await response.json()) as any;
+    if (!body.device_code || !body.user_code) {
+      // Errors such as device_flow_disabled arrive with HTTP 200 here too
+      const parsed = parseDeviceTokenResponse(body);
+      throw new Error(parsed.status === 'failed' ? parsed.error : 'GitHub returned no device code');
+    }
+
+    return body as GitHubDeviceCode;
+  }
+
+  /**
+   * Poll until the user authorizes the device, or until the timeout elapses
+   */
+  async pollForToken(deviceCode: string, intervalSeconds: number, timeoutMs: number): Promise<string> {
+    const deadline = Date.now() + timeoutMs;
+    let interval = Math.max(intervalSeconds, 1);
+
+    while (Date.now() < deadline) {
+      await sleep(interval * 1000);
+
+      const response = await this.fetchImpl(`${this.githubUrl}/login/oauth/access_token`, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          client_id: this.clientId,
+          device_code: deviceCode,
+          grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+        }).toString(),
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        throw new Error(`GitHub token polling failed (${response.status}): ${text.slice(0, 300)}`);
+      }
+
+      const result = parseDeviceTokenResponse(await response.json());
+      switch (result.status) {
+        case 'granted':
+          return result.accessToken;
+        case 'pending':
+          break;
+        case 'slow_down':
+          // GitHub asks for at least 5 more seconds between polls
+          interval = result.interval ?? interval + 5;
+          break;
+        case 'failed':
+          throw new Error(result.error);
+      }
+    }
+
+    throw new Error('Timed out waiting for GitHub authorization. Enter the code on GitHub, then call complete_github_auth again.');
+  }
+}
@@ -1,4 +1,5 @@
 import fetch from 'node-fetch';
+import type { OAuthRequestParams } from './oauthFlow.js';
 
 export interface GitLabOAuthTokens {
   access_token: string;
@@ -10,7 +11,8 @@ export interface GitLabOAuthTokens {
 
 export interface GitLabOAuthConfig {
   applicationId: string;
-  secret: string;
+  /** Absent for a public application ("Confidential" unticked), which relies on PKCE alone */
+  secret?: string;
   gitlabUrl?: string;
 }
 
@@ -19,7 +21,7 @@ export interface GitLabOAuthConfig {
  */
 export class GitLabOAuth {
   private applicationId: string;
-  private secret: string;
+  private secret: string | undefined;
   private gitlabUrl: string;
 
   constructor(config: GitLabOAuthConfig) {
@@ -28,15 +30,23 @@ export class GitLabOAuth {
     this.gitlabUrl = config.gitlabUrl || 'https://gitlab.com';
   }
 
+  /** Client credentials for the token endpoint; public applications send only their ID */
+  private clientParams(): Record<string, string> {
+    return this.secret ? { client_id: this.applicationId, client_secret: this.secret } : { client_id: this.applicationId };
+  }
+
   /**
    * Generate GitLab OAuth authorization URL
    */
-  getAuthUrl(redirectUri: string, scopes: string[] = ['read_api']): string {
+  getAuthUrl(redirectUri: string, scopes: string[] = ['read_api'], request?: OAuthRequestParams): string {
     const params = new URLSearchParams({
       client_id: this.applicationId,
       redirect_uri: redirectUri,
       response_type: 'code',
       scope: scopes.join(' '),
+      ...(request
+        ? { state: request.state, code_challenge: request.codeChallenge, code_challenge_method: request.codeChallengeMethod }
+        : {}),
     });
 
     return `${this.gitlabUrl}/oauth/authorize?${params.toString()}`;
@@ -45,13 +55,13 @@ export class GitLabOAuth {
   /**
    * Exchange authorization code for access token
    */
-  async getTokenFromCode(code: string, redirectUri: string): Promise<GitLabOAuthTokens> {
+  async getTokenFromCode(code: string, redirectUri: string, codeVerifier?: string): Promise<GitLabOAuthTokens> {
     const params = new URLSearchParams({
-      client_id: this.applicationId,
-      client_secret: this.secret,
+      ...this.clientParams(),
       code: code,
       grant_type: 'authorization_code',
       redirect_uri: redirectUri,
+      ...(codeVerifier ? { code_verifier: codeVerifier } : {}),
     });
 
     const response = await fetch(`${this.gitlabUrl}/oauth/token`, {
@@ -95,13 +105,36 @@ Debug Info:
     return tokens;
   }
 
+  /**
+   * Revoke a token, which also ends the access token or refresh token paired
+   * with it. GitLab answers 200 for tokens it no longer knows.
+   */
+  async revokeToken(token: string): Promise<void> {
+    const params = new URLSearchParams({
+      ...this.clientParams(),
+      token,
+    });
+
+    const response = await fetch(`${this.gitlabUrl}/oauth/revoke`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to revoke GitLab token (${response.status}): ${error}`);
+    }
+  }
+
   /**
    * Refresh an expired access token
    */
   async refreshToken(refreshToken: string): Promise<GitLabOAuthTokens> {
     const params = new URLSearchParams({
-      client_id: this.applicationId,
-      client_secret: this.secret,
+      ...this.clientParams(),
       refresh_token: refreshToken,
       grant_type: 'refresh_token',
     });
@@ -116,7 +149,7 @@ Debug Info:
 
     if (!response.ok) {
       const error = await response.text();
-      throw new Error(`Failed to refresh GitLab token: ${error}`);
+      throw new Error(`Failed to refresh GitLab token: ${error}. Run start_gitlab_auth again to reconnect.`);
     }
 
     const tokens = (await response.json()) as GitLabOAuthTokens;
@@ -0,0 +1,184 @@
+import { CalendarEvent, DayActivity, ProjectHours } from '../types/index.js';
+import { isDistributionNote } from './activityDistributor.js';
+
+/** Label under which merged meeting time is reported. */
+export const MEETINGS_PROJECT = 'Meetings';
+
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+/** Allocations are rounded to quarter hours, the smallest unit most timesheet systems accept. */
+const QUARTER_HOUR = 0.25;
+
+/**
+ * Relative effort per activity item. Authoring an MR/PR stands for more work
+ * than a single commit; reviews, comments and issue updates count like a commit.
+ */
+const ACTIVITY_WEIGHTS = {
+  commit: 1,
+  authoredMergeRequest: 2,
+  mergeRequest: 1,
+  issue: 1,
+  workItem: 1,
+} as const;
+
+export class HoursAllocator {
+  constructor(private readonly hoursPerDay: number = DEFAULT_HOURS_PER_DAY) {}
+
+  /**
+   * Splits one working day into per-project hours. Meeting time comes from the
+   * calendar with overlapping events counted once; whatever is left of the day
+   * is spread across projects in proportion to their activity. A day with no
+   * project activity only reports its meetings.
+   */
+  allocateDay(activity: DayActivity): ProjectHours[] {
+    const meetingHours = roundToQuarterHour(meetingHoursFor(activity.meetings));
+    const allocations: ProjectHours[] = [];
+
+    if (meetingHours > 0) {
+      allocations.push({ project: MEETINGS_PROJECT, hours: meetingHours, meetings: true });
+    }
+
+    const weights = projectWeights(activity);
+    const remaining = Math.max(0, this.hoursPerDay - meetingHours);
+    if (weights.size === 0 || remaining === 0) {
+      return allocations;
+    }
+
+    return allocations.concat(
+      splitHours(remaining, weights)
+        .map(([project, hours]) => ({ project, hours }))
+        .sort((a, b) => b.hours - a.hours)
+    );
+  }
+}
+
+/** Rounds to the nearest quarter hour, also clearing float noise from summed hours. */
+export function roundToQuarterHour(hours: number): number {
+  return Math.round(hours / QUARTER_HOUR) * QUARTER_HOUR;
+}
+
+/**
+ * Total meeting time with overlapping and back-to-back events merged, so a
+ * double-booked slot is not counted twice. Cached events come back from JSON
+ * with string dates, hence the re-parse.
+ */
+export function meetingHoursFor(meetings: CalendarEvent[]): number {
+  const intervals = meetings
+    .map(m => ({ start: new Date(m.start).getTime(), end: new Date(m.end).getTime() }))
+    .filter(i => i.end > i.start)
+    .sort((a, b) => a.start - b.start);
+
+  let totalMs = 0;
+  let current: { start: number; end: number } | null = null;
+
+  for (const interval of intervals) {
+    if (current && interval.start <= current.end) {
+      current.end = Math.max(current.end, interval.end);
+    } else {
+      if (current) totalMs += current.end - current.start;
+      current = { ...interval };
+    }
+  }
+  if (current) totalMs += current.end - current.start;
+
+  return totalMs / 3_600_000;
+}
+
+/**
+ * Largest-remainder split of `hours` in quarter hours, so the parts always add
+ * up to the time available. Ties go to the key listed first; keys whose share
+ * rounds to nothing are dropped.
+ */
+export function splitHours<K>(hours: number, weights: Map<K, number>): Array<[K, number]> {
+  const quarters = Math.floor(hours / QUARTER_HOUR);
+  const total = [...weights.values()].reduce((sum, w) => sum + w, 0);
+  if (total === 0) return [];
+
+  const shares = [...weights].map(([key, weight]) => {
+    const exact = (quarters * weight) / total;
+    return { key, quarters: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let left = quarters - shares.reduce((sum, s) => sum + s.quarters, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (left === 0) break;
+    share.quarters++;
+    left--;
+  }
+
+  return shares.filter(s => s.quarters > 0).map(s => [s.key, s.quarters * QUARTER_HOUR]);
+}
+
+/** One piece of project work with its effort weight and the text describing it. */
+export interface WeightedItem {
+  project: string;
+  weight: number;
+  title: string;
+  /** Free text that may name a tracker issue: commit message and branch, or a title. */
+  references: string[];
+}
+
+/**
+ * Every commit, MR/PR, issue and work item of the day, weighted for allocation.
+ * The note left by distribute_gaps is not work and gets no weight.
+ */
+export function weightedItems(activity: DayActivity): WeightedItem[] {
+  const mrWeight = (action: string) =>
+    action === 'created' ? ACTIVITY_WEIGHTS.authoredMergeRequest : ACTIVITY_WEIGHTS.mergeRequest;
+  const items: WeightedItem[] = [];
+
+  for (const commit of activity.gitlabActivity.commits) {
+    if (isDistributionNote(commit)) continue;
+    items.push({
+      project: commit.project,
+      weight: ACTIVITY_WEIGHTS.commit,
+      title: commit.message,
+      references: [commit.message, commit.branch],
+    });
+  }
+  for (const mr of activity.gitlabActivity.mergeRequests) {
+    items.push({ project: mr.project, weight: mrWeight(mr.action), title: mr.title, references: [mr.title] });
+  }
+  for (const issue of activity.gitlabActivity.issues) {
+    items.push({
+      project: issue.project,
+      weight: ACTIVITY_WEIGHTS.issue,
+      title: issue.title,
+      references: [issue.title],
+    });
+  }
+
+  const ado = activity.azureDevOpsActivity;
+  if (ado) {
+    for (const workItem of ado.workItems) {
+      items.push({
+        project: workItem.project,
+        weight: ACTIVITY_WEIGHTS.workItem,
+        title: workItem.title,
+        references: [workItem.title],
+      });
+    }
+    for (const pr of ado.pullRequests) {
+      items.push({ project: pr.project, weight: mrWeight(pr.action), title: pr.title, references: [pr.title] });
+    }
+    for (const commit of ado.commits) {
+      items.push({
+        project: commit.project,
+        weight: ACTIVITY_WEIGHTS.commit,
+        title: commit.message,
+        references: [commit.message, commit.branch ?? ''],
+      });
+    }
+  }
+
+  return items;
+}
+
+/** Activity weight per project, in first-seen order. */
+function projectWeights(activity: DayActivity): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const item of weightedItems(activity)) {
+    weights.set(item.project, (weights.get(item.project) ?? 0) + item.weight);
+  }
+  return weights;
+}
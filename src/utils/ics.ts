@@ -0,0 +1,364 @@
+import { isValidTimeZone, zonedDateKey, zonedTimeToInstant } from './timezone.js';
+
+/**
+ * Minimal iCalendar (RFC 5545) reading: enough to pull VEVENTs and their
+ * properties out of a file exported from Google, Outlook or a holiday feed,
+ * and to expand the common RRULE shapes into dates.
+ */
+
+export interface IcsProperty {
+  name: string;
+  /** Parameter names upper-cased, e.g. { VALUE: 'DATE', TZID: 'Europe/Berlin' } */
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Joins folded lines (a line break followed by a space or tab continues the line). */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter(line => line.trim() !== '');
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq === -1) continue;
+    params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/** The properties of every VEVENT in the file, in file order. Nested components (VALARM) are skipped. */
+export function parseIcsEvents(text: string): IcsProperty[][] {
+  const events: IcsProperty[][] = [];
+  let current: IcsProperty[] | null = null;
+  let nested = 0;
+
+  for (const line of unfoldLines(text)) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      current = [];
+      nested = 0;
+    } else if (upper === 'END:VEVENT') {
+      if (current) events.push(current);
+      current = null;
+    } else if (current && upper.startsWith('BEGIN:')) {
+      nested++;
+    } else if (current && upper.startsWith('END:')) {
+      nested--;
+    } else if (current && nested === 0) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+
+  return events;
+}
+
+export function icsProperty(event: IcsProperty[], name: string): IcsProperty | undefined {
+  return event.find(p => p.name === name);
+}
+
+/** Undoes TEXT escaping: \n, \, \; and \\ */
+export function unescapeIcsText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+/** "YYYY-MM-DD" of a DATE or DATE-TIME value as written, ignoring any time and zone. */
+export function icsDateKey(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// ---------------------------------------------------------------------------
+// Times and recurrence
+// ---------------------------------------------------------------------------
+
+/** A DATE or DATE-TIME value as a wall-clock time in a zone. */
+export interface IcsTime {
+  /** YYYY-MM-DD in `timeZone` */
+  date: string;
+  hour: number;
+  minute: number;
+  second: number;
+  allDay: boolean;
+  timeZone: string;
+}
+
+/**
+ * The IANA zone a TZID names. Exporters also write Olson names behind a
+ * prefix ("/mozilla.org/20050126_1/Europe/Berlin"); anything else, such as
+ * Windows zone names, falls back to the given zone.
+ */
+function resolveTzid(tzid: string | undefined, fallback: string): string {
+  if (!tzid) return fallback;
+  if (isValidTimeZone(tzid)) return tzid;
+  const olson = tzid.match(/([A-Za-z]+\/[A-Za-z0-9_+-]+(?:\/[A-Za-z0-9_+-]+)?)$/);
+  return olson && isValidTimeZone(olson[1]) ? olson[1] : fallback;
+}
+
+/**
+ * Reads DTSTART, DTEND, EXDATE and similar values. UTC values ("...Z") are in
+ * UTC; floating times and dates are in `defaultZone`. A property holding a
+ * comma-separated list (EXDATE) yields one entry per value.
+ */
+export function parseIcsTimes(property: IcsProperty, defaultZone: string): IcsTime[] {
+  const times: IcsTime[] = [];
+  for (const value of property.value.split(',')) {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!match) continue;
+    const allDay = match[4] === undefined;
+    times.push({
+      date: `${match[1]}-${match[2]}-${match[3]}`,
+      hour: allDay ? 0 : Number(match[4]),
+      minute: allDay ? 0 : Number(match[5]),
+      second: allDay ? 0 : Number(match[6]),
+      allDay,
+      timeZone: match[7] ? 'UTC' : resolveTzid(property.params.TZID, defaultZone),
+    });
+  }
+  return times;
+}
+
+export function parseIcsTime(property: IcsProperty, defaultZone: string): IcsTime | null {
+  return parseIcsTimes(property, defaultZone)[0] ?? null;
+}
+
+export function icsInstant(time: IcsTime): Date {
+  const instant = zonedTimeToInstant(time.date, time.hour, time.minute, time.timeZone);
+  return new Date(instant.getTime() + time.second * 1000);
+}
+
+/** DURATION values such as PT1H30M, P1D or P2W, in milliseconds. */
+export function parseIcsDuration(value: string): number {
+  const match = value.match(/^[+-]?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, weeks, days, hours, minutes, seconds] = match.map(n => Number(n ?? 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+const DAY_MS = 86_400_000;
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/** Days since 1970-01-01 for a YYYY-MM-DD, so calendar arithmetic ignores DST. */
+export function dayNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+export function dateKeyOf(dayNum: number): string {
+  return new Date(dayNum * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** 0 = Sunday */
+function weekdayOf(dayNum: number): number {
+  return (((dayNum + 4) % 7) + 7) % 7;
+}
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: IcsTime;
+  /** Weekday (0 = Sunday), with an ordinal such as 2 or -1 for "second" or "last" in MONTHLY/YEARLY rules */
+  byDay: Array<{ weekday: number; ordinal?: number }>;
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  weekStart: number;
+}
+
+/**
+ * Parses an RRULE value. Sub-daily frequencies and BYHOUR-style parts are not
+ * supported; such a rule returns null and the event is read as a single one.
+ */
+export function parseRRule(value: string, defaultZone: string): RecurrenceRule | null {
+  const parts = new Map(
+    value.split(';').map(part => {
+      const eq = part.indexOf('=');
+      return [part.slice(0, eq).toUpperCase(), part.slice(eq + 1)] as [string, string];
+    })
+  );
+
+  const freq = parts.get('FREQ')?.toUpperCase();
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') return null;
+  if (['BYHOUR', 'BYMINUTE', 'BYSECOND', 'BYYEARDAY', 'BYWEEKNO'].some(p => parts.has(p))) return null;
+
+  const numbers = (name: string) =>
+    (parts.get(name) ?? '').split(',').filter(Boolean).map(Number).filter(n => Number.isInteger(n) && n !== 0);
+
+  const byDay: RecurrenceRule['byDay'] = [];
+  for (const token of (parts.get('BYDAY') ?? '').split(',').filter(Boolean)) {
+    const match = token.toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) return null;
+    byDay.push({ weekday: WEEKDAY_CODES.indexOf(match[2]), ...(match[1] ? { ordinal: Number(match[1]) } : {}) });
+  }
+
+  const until = parts.get('UNTIL');
+  const count = parts.get('COUNT');
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  return {
+    freq,
+    interval: Number.isInteger(interval) && interval > 0 ? interval : 1,
+    ...(count ? { count: Number(count) } : {}),
+    ...(until ? { until: parseIcsTime({ name: 'UNTIL', params: {}, value: until }, defaultZone) ?? undefined } : {}),
+    byDay,
+    byMonthDay: numbers('BYMONTHDAY'),
+    byMonth: numbers('BYMONTH'),
+    bySetPos: numbers('BYSETPOS'),
+    weekStart: Math.max(0, WEEKDAY_CODES.indexOf((parts.get('WKST') ?? 'MO').toUpperCase())),
+  };
+}
+
+/** Days of one month matching the rule's BYMONTHDAY / BYDAY, or the start's day of month. */
+function monthDays(rule: RecurrenceRule, year: number, month: number, startDay: number): number[] {
+  const first = Date.UTC(year, month - 1, 1) / DAY_MS;
+  const length = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const days: number[] = [];
+
+  if (rule.byMonthDay.length > 0) {
+    for (const d of rule.byMonthDay) {
+      const day = d > 0 ? d : length + 1 + d;
+      if (day >= 1 && day <= length) days.push(first + day - 1);
+    }
+    // BYDAY narrows BYMONTHDAY when both are present
+    if (rule.byDay.length > 0) {
+      return days.filter(n => rule.byDay.some(b => b.weekday === weekdayOf(n)));
+    }
+  } else if (rule.byDay.length > 0) {
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matches: number[] = [];
+      for (let n = first; n < first + length; n++) {
+        if (weekdayOf(n) === weekday) matches.push(n);
+      }
+      if (ordinal === undefined) days.push(...matches);
+      else {
+        const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (pick !== undefined) days.push(pick);
+      }
+    }
+  } else if (startDay <= length) {
+    days.push(first + startDay - 1);
+  }
+
+  return days;
+}
+
+function applySetPos(days: number[], bySetPos: number[]): number[] {
+  if (bySetPos.length === 0) return days;
+  return bySetPos
+    .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+    .filter((n): n is number => n !== undefined);
+}
+
+/** Guards against rules that never produce a day (e.g. BYMONTHDAY=31 with BYMONTH=2). */
+const MAX_PERIODS = 50_000;
+
+/**
+ * Dates (YYYY-MM-DD in the start's zone) of every occurrence from the start
+ * through `through`, applying COUNT and UNTIL. The time of day is the start's.
+ */
+export function expandRecurrence(rule: RecurrenceRule, start: IcsTime, through: string): string[] {
+  const startNum = dayNumber(start.date);
+  const throughNum = dayNumber(through);
+  const [startYear, startMonth, startDay] = start.date.split('-').map(Number);
+
+  let untilNum = Infinity;
+  let untilInstant: number | undefined;
+  if (rule.until) {
+    if (rule.until.allDay) {
+      untilNum = dayNumber(rule.until.date);
+    } else {
+      untilInstant = icsInstant(rule.until).getTime();
+      untilNum = dayNumber(zonedDateKey(untilInstant, start.timeZone));
+    }
+  }
+
+  const weekAnchor = startNum - ((weekdayOf(startNum) - rule.weekStart + 7) % 7);
+  const inMonths = (n: number) =>
+    rule.byMonth.length === 0 || rule.byMonth.includes(new Date(n * DAY_MS).getUTCMonth() + 1);
+
+  const dates: string[] = [];
+  let emitted = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    let periodStart: number;
+    let candidates: number[];
+
+    switch (rule.freq) {
+      case 'DAILY': {
+        periodStart = startNum + period * rule.interval;
+        const n = periodStart;
+        const weekdayOk = rule.byDay.length === 0 || rule.byDay.some(b => b.weekday === weekdayOf(n));
+        const monthDayOk =
+          rule.byMonthDay.length === 0 || rule.byMonthDay.includes(new Date(n * DAY_MS).getUTCDate());
+        candidates = weekdayOk && monthDayOk && inMonths(n) ? [n] : [];
+        break;
+      }
+      case 'WEEKLY': {
+        periodStart = weekAnchor + period * 7 * rule.interval;
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map(b => b.weekday) : [weekdayOf(startNum)];
+        candidates = applySetPos(
+          [...new Set(weekdays.map(w => periodStart + ((w - rule.weekStart + 7) % 7)))]
+            .filter(inMonths)
+            .sort((a, b) => a - b),
+          rule.bySetPos
+        );
+        break;
+      }
+      case 'MONTHLY': {
+        const monthIndex = startYear * 12 + (startMonth - 1) + period * rule.interval;
+        const year = Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+        periodStart = Date.UTC(year, month - 1, 1) / DAY_MS;
+        candidates =
+          rule.byMonth.length > 0 && !rule.byMonth.includes(month)
+            ? []
+            : applySetPos([...new Set(monthDays(rule, year, month, startDay))].sort((a, b) => a - b), rule.bySetPos);
+        break;
+      }
+      case 'YEARLY': {
+        const year = startYear + period * rule.interval;
+        periodStart = Date.UTC(year, 0, 1) / DAY_MS;
+        const months = rule.byMonth.length > 0 ? rule.byMonth : [startMonth];
+        const days = months.flatMap(month => monthDays(rule, year, month, startDay));
+        candidates = applySetPos([...new Set(days)].sort((a, b) => a - b), rule.bySetPos);
+        break;
+      }
+    }
+
+    if (periodStart > throughNum || periodStart > untilNum) break;
+
+    for (const n of candidates) {
+      if (n < startNum) continue;
+      if (n > throughNum || n > untilNum) return dates;
+      if (rule.count !== undefined && emitted >= rule.count) return dates;
+      emitted++;
+
+      const date = dateKeyOf(n);
+      if (n === untilNum && untilInstant !== undefined && icsInstant({ ...start, date }).getTime() > untilInstant) {
+        return dates;
+      }
+      dates.push(date);
+    }
+  }
+
+  return dates;
+}
@@ -1,9 +1,15 @@
 import { OAuthServer } from './oauthServer.js';
+import { DEFAULT_REDIRECT_PORTS } from '../config/oauth.js';
+import type { OAuthClientSettings } from '../types/index.js';
 import { exec } from 'child_process';
+import { createHash, randomBytes } from 'crypto';
 import { promisify } from 'util';
 
 const execAsync = promisify(exec);
 
+/** How long a flow waits for the browser to come back to the loopback server. */
+export const OAUTH_FLOW_TIMEOUT_MS = 5 * 60_000;
+
 /**
  * Open a URL in the user's default browser
  */
@@ -27,37 +33,95 @@ async function openBrowser(url: string): Promise<void> {
   }
 }
 
+/**
+ * Per-request values for the authorization URL. `state` ties the callback to
+ * this request; the PKCE challenge proves the token request comes from
+ * whoever started it, which is what keeps a public (secret-less) client safe.
+ */
+export interface OAuthRequestParams {
+  state: string;
+  codeChallenge: string;
+  codeChallengeMethod: 'S256';
+}
+
 export interface OAuthFlowResult {
   code?: string;
   error?: string;
   port: number;
+  /** PKCE verifier the token request must send with `code` */
+  codeVerifier: string;
+}
+
+/** A random state and an RFC 7636 S256 verifier with its challenge. */
+export function createOAuthRequest(): OAuthRequestParams & { codeVerifier: string } {
+  const codeVerifier = randomBytes(32).toString('base64url');
+  return {
+    state: randomBytes(16).toString('base64url'),
+    codeVerifier,
+    codeChallenge: createHash('sha256').update(codeVerifier).digest('base64url'),
+    codeChallengeMethod: 'S256',
+  };
+}
+
+/**
+ * Checks an OAuth app against the provider's token endpoint by redeeming a
+ * code that cannot exist. An unknown client ID or a wrong secret is refused
+ * as invalid_client; an app the provider accepts gets as far as invalid_grant.
+ */
+export async function verifyOAuthClient(tokenUrl: string, client: OAuthClientSettings, redirectUri: string): Promise<void> {
+  const params = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code: 'activity-collector-mcp-client-check',
+    redirect_uri: redirectUri,
+    client_id: client.clientId,
+    ...(client.clientSecret ? { client_secret: client.clientSecret } : {}),
+    code_verifier: createOAuthRequest().codeVerifier,
+  });
+
+  const response = await fetch(tokenUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: params.toString(),
+    signal: AbortSignal.timeout(30_000),
+  });
+  const body: any = await response.json().catch(() => ({}));
+  if (body.error === 'invalid_grant') {
+    return;
+  }
+  throw new Error(
+    `${new URL(tokenUrl).host} did not accept the client (${body.error_description || body.error || `HTTP ${response.status}`})`
+  );
 }
 
 /**
  * Run complete OAuth flow with built-in server and browser opening
  *
- * @param authUrl Base authorization URL (without redirect_uri)
- * @param authUrlBuilder Function that takes port and returns complete auth URL
- * @returns Authorization code or error
+ * @param authUrlBuilder Function that takes the redirect URI and the state and
+ *   PKCE challenge to send, and returns the complete auth URL
+ * @param ports Loopback ports registered with the OAuth app; the first free one is used
+ * @returns Authorization code or error, with the PKCE verifier
  */
 export async function runOAuthFlow(
-  authUrlBuilder: (redirectUri: string) => string
+  authUrlBuilder: (redirectUri: string, params: OAuthRequestParams) => string,
+  ports: { start: number; end: number } = DEFAULT_REDIRECT_PORTS
 ): Promise<OAuthFlowResult> {
   const server = new OAuthServer();
+  const { codeVerifier, ...params } = createOAuthRequest();
 
   try {
     // Start server and get available port
     const port = await server.start({
-      startPort: 8080,
-      endPort: 8090,
-      timeout: 300000, // 5 minutes
+      startPort: ports.start,
+      endPort: ports.end,
+      timeout: OAUTH_FLOW_TIMEOUT_MS,
+      expectedState: params.state,
     });
 
     // Build redirect URI
     const redirectUri = `http://localhost:${port}/callback`;
 
     // Generate authorization URL
-    const authUrl = authUrlBuilder(redirectUri);
+    const authUrl = authUrlBuilder(redirectUri, params);
 
     // Open browser
     await openBrowser(authUrl);
@@ -69,6 +133,7 @@ export async function runOAuthFlow(
       code: result.code,
       error: result.error,
       port,
+      codeVerifier,
     };
   } catch (error: any) {
     throw new Error(`OAuth flow failed: ${error.message}`);
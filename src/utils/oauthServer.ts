@@ -11,6 +11,8 @@ export interface OAuthServerOptions {
   startPort?: number;
   endPort?: number;
   timeout?: number; // milliseconds to wait for callback
+  /** State sent with the authorization request; callbacks carrying another are refused */
+  expectedState?: string;
 }
 
 /**
@@ -23,6 +25,8 @@ export class OAuthServer {
   private callbackPromise: Promise<OAuthCallbackResult> | null = null;
   private callbackResolve: ((result: OAuthCallbackResult) => void) | null = null;
   private connections: Set<any> = new Set();
+  private expectedState: string | undefined;
+  private timeoutTimer: NodeJS.Timeout | null = null;
 
   /**
    * Start the OAuth callback server
@@ -32,13 +36,14 @@ export class OAuthServer {
     const startPort = options.startPort || 8080;
     const endPort = options.endPort || 8090;
     const timeout = options.timeout || 120000; // 2 minutes default
+    this.expectedState = options.expectedState;
 
     // Create promise that will be resolved when callback is received
     this.callbackPromise = new Promise<OAuthCallbackResult>((resolve, reject) => {
       this.callbackResolve = resolve;
 
       // Set timeout
-      setTimeout(() => {
+      this.timeoutTimer = setTimeout(() => {
         reject(new Error('OAuth callback timeout - no response received'));
       }, timeout);
     });
@@ -85,6 +90,10 @@ export class OAuthServer {
    * Stop the server
    */
   async stop(): Promise<void> {
+    if (this.timeoutTimer) {
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
     if (this.server) {
       // Force-close all connections
       for (const conn of this.connections) {
@@ -163,6 +172,18 @@ export class OAuthServer {
     const error = url.searchParams.get('error');
     const state = url.searchParams.get('state');
 
+    if (this.expectedState !== undefined && state !== this.expectedState) {
+      // Not the answer to our request: a stale tab or a forged link. Keep
+      // waiting for the real callback rather than letting it end the flow.
+      this.sendResponse(
+        res,
+        400,
+        'Authentication Failed',
+        '<p>This response does not match the sign-in in progress. Please use the browser window that was just opened.</p>'
+      );
+      return;
+    }
+
     if (error) {
       // OAuth error
       const errorDescription = url.searchParams.get('error_description') || error;
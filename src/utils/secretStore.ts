@@ -0,0 +1,304 @@
+import { execFile } from 'child_process';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+
+/**
+ * Where TokenStorage keeps its secrets. Tokens are written AES-256-GCM
+ * encrypted to a file whose key lives in the OS keychain (through keytar, or
+ * libsecret's secret-tool on Linux when keytar's native module is missing),
+ * or is derived from a passphrase. The keychain holds the key rather than the
+ * tokens because Windows Credential Manager caps a secret at 2.5 KB, less
+ * than a few OAuth connections take. With neither a keychain nor a
+ * passphrase, tokens stay in the plaintext file as before.
+ */
+
+export const PLAINTEXT_TOKEN_FILE = path.join(homedir(), '.activity-collector-mcp-tokens.json');
+export const ENCRYPTED_TOKEN_FILE = path.join(homedir(), '.activity-collector-mcp-tokens.enc');
+/** Environment variable holding the passphrase for the encrypted-file backend. */
+export const PASSPHRASE_ENV = 'ACTIVITY_COLLECTOR_MCP_PASSPHRASE';
+
+const KEYCHAIN_SERVICE = 'activity-collector-mcp';
+const KEYCHAIN_ACCOUNT = 'token-encryption-key';
+const SECRET_TOOL_TIMEOUT_MS = 10_000;
+
+export interface SecretBackend {
+  /** Where secrets live, for check_authentication_status. */
+  readonly description: string;
+  /** False only for the plaintext file. */
+  readonly encrypted: boolean;
+  /** The stored document, or null when nothing has been stored yet. */
+  read(): Promise<string | null>;
+  write(data: string): Promise<void>;
+}
+
+/** Supplies the file key: from the keychain, or derived from a passphrase and the file's salt. */
+interface KeySource {
+  readonly kind: 'keychain' | 'passphrase';
+  /** The key, creating it if `create` is set and none exists. Null when missing. */
+  getKey(salt: Buffer, create: boolean): Promise<Buffer | null>;
+}
+
+// ---------------------------------------------------------------------------
+// Encryption
+// ---------------------------------------------------------------------------
+
+/** On-disk form of the encrypted file. */
+export interface EncryptedDocument {
+  version: 1;
+  keySource: KeySource['kind'];
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export function encryptSecret(plaintext: string, key: Buffer, keySource: KeySource['kind'], salt: Buffer): EncryptedDocument {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  return {
+    version: 1,
+    keySource,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/** Throws when the key is wrong or the file was altered. */
+export function decryptSecret(document: EncryptedDocument, key: Buffer): string {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(document.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(document.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(document.data, 'base64')), decipher.final()]).toString('utf-8');
+}
+
+export function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(passphrase, salt, 32, { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 }, (error, key) =>
+      error ? reject(error) : resolve(key)
+    );
+  });
+}
+
+/** Writes through a temporary file so a crash never leaves half a token file. */
+async function writeFileAtomic(file: string, data: string): Promise<void> {
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, data, { mode: 0o600 }); // Only owner can read/write
+  await fs.rename(temporary, file);
+}
+
+async function readIfExists(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Backends
+// ---------------------------------------------------------------------------
+
+export class PlaintextFileBackend implements SecretBackend {
+  readonly encrypted = false;
+  readonly description: string;
+
+  constructor(private file: string = PLAINTEXT_TOKEN_FILE) {
+    this.description = `plaintext file ${file}`;
+  }
+
+  read(): Promise<string | null> {
+    return readIfExists(this.file);
+  }
+
+  write(data: string): Promise<void> {
+    return writeFileAtomic(this.file, data);
+  }
+}
+
+export class EncryptedFileBackend implements SecretBackend {
+  readonly encrypted = true;
+  readonly description: string;
+
+  constructor(private file: string, private keys: KeySource, keyDescription: string) {
+    this.description = `encrypted file ${file}, key in ${keyDescription}`;
+  }
+
+  async read(): Promise<string | null> {
+    const raw = await readIfExists(this.file);
+    if (raw === null) return null;
+
+    const document = JSON.parse(raw) as EncryptedDocument;
+    if (document.keySource !== this.keys.kind) {
+      throw new Error(
+        document.keySource === 'passphrase'
+          ? `${this.file} is encrypted with a passphrase. Set ${PASSPHRASE_ENV} to read it.`
+          : `${this.file} is encrypted with a key from the OS keychain, which is not available while ${PASSPHRASE_ENV} is set. Unset it to read the file.`
+      );
+    }
+
+    const key = await this.keys.getKey(Buffer.from(document.salt, 'base64'), false);
+    if (!key) {
+      throw new Error(
+        `The key for ${this.file} is missing from the OS keychain. Delete the file and configure your accounts again.`
+      );
+    }
+    try {
+      return decryptSecret(document, key);
+    } catch {
+      throw new Error(
+        this.keys.kind === 'passphrase'
+          ? `Cannot decrypt ${this.file}: wrong passphrase in ${PASSPHRASE_ENV}.`
+          : `Cannot decrypt ${this.file} with the key from the OS keychain. Delete the file and configure your accounts again.`
+      );
+    }
+  }
+
+  async write(data: string): Promise<void> {
+    // A passphrase key is salted per file; keep the salt so the key stays stable
+    const existing = await readIfExists(this.file);
+    const salt = existing ? Buffer.from((JSON.parse(existing) as EncryptedDocument).salt, 'base64') : randomBytes(16);
+    const key = await this.keys.getKey(salt, true);
+    await writeFileAtomic(this.file, JSON.stringify(encryptSecret(data, key!, this.keys.kind, salt), null, 2));
+  }
+}
+
+export function passphraseKeySource(passphrase: string): KeySource {
+  const derived = new Map<string, Promise<Buffer>>();
+  return {
+    kind: 'passphrase',
+    getKey: async salt => {
+      const id = salt.toString('base64');
+      if (!derived.has(id)) derived.set(id, deriveKey(passphrase, salt));
+      return derived.get(id)!;
+    },
+  };
+}
+
+/** A key stored as base64 under a password-style service/account pair. */
+function storedKeySource(get: () => Promise<string | null>, set: (value: string) => Promise<void>): KeySource {
+  let cached: Buffer | null = null;
+  return {
+    kind: 'keychain',
+    getKey: async (_salt, create) => {
+      if (cached) return cached;
+      const stored = await get();
+      if (stored) return (cached = Buffer.from(stored, 'base64'));
+      if (!create) return null;
+      const key = randomBytes(32);
+      await set(key.toString('base64'));
+      return (cached = key);
+    },
+  };
+}
+
+type Keytar = typeof import('keytar');
+
+/** keytar, if its native module loads and the platform keychain answers. */
+async function loadKeytar(): Promise<Keytar | null> {
+  try {
+    const module: any = await import('keytar');
+    const keytar: Keytar = module.default ?? module;
+    // On Linux this fails without a running Secret Service
+    await keytar.getPassword(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT);
+    return keytar;
+  } catch {
+    return null;
+  }
+}
+
+function keychainName(): string {
+  switch (process.platform) {
+    case 'darwin':
+      return 'the macOS Keychain';
+    case 'win32':
+      return 'Windows Credential Manager';
+    default:
+      return 'the Secret Service (libsecret)';
+  }
+}
+
+function secretTool(args: string[], input?: string): Promise<{ code: number; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = execFile('secret-tool', args, { timeout: SECRET_TOOL_TIMEOUT_MS }, (error, stdout, stderr) => {
+      if (error && (error as NodeJS.ErrnoException).code === 'ENOENT') return reject(error);
+      resolve({ code: error ? Number(error.code) || 1 : 0, stdout, stderr });
+    });
+    child.stdin?.end(input ?? '');
+  });
+}
+
+/**
+ * libsecret through its secret-tool CLI. A lookup that finds nothing exits 1
+ * silently; one with no Secret Service to ask also prints an error.
+ */
+async function loadSecretTool(): Promise<KeySource | null> {
+  const lookup = ['lookup', 'service', KEYCHAIN_SERVICE, 'account', KEYCHAIN_ACCOUNT];
+  try {
+    const probe = await secretTool(lookup);
+    if (probe.code !== 0 && probe.stderr.trim() !== '') return null;
+  } catch {
+    return null;
+  }
+
+  return storedKeySource(
+    async () => {
+      const { code, stdout } = await secretTool(lookup);
+      return code === 0 && stdout.trim() ? stdout.trim() : null;
+    },
+    async value => {
+      const { code, stderr } = await secretTool(
+        ['store', '--label=Activity Collector MCP token key', 'service', KEYCHAIN_SERVICE, 'account', KEYCHAIN_ACCOUNT],
+        value
+      );
+      if (code !== 0) throw new Error(`secret-tool could not store the token key: ${stderr.trim()}`);
+    }
+  );
+}
+
+/**
+ * Picks the backend: a passphrase when one is set, else the OS keychain,
+ * else libsecret's secret-tool on Linux, else the plaintext file.
+ */
+export async function openSecretBackend(): Promise<SecretBackend> {
+  const passphrase = process.env[PASSPHRASE_ENV];
+  if (passphrase) {
+    return new EncryptedFileBackend(ENCRYPTED_TOKEN_FILE, passphraseKeySource(passphrase), `the ${PASSPHRASE_ENV} passphrase`);
+  }
+
+  const keytar = await loadKeytar();
+  if (keytar) {
+    const keys = storedKeySource(
+      () => keytar.getPassword(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT),
+      value => keytar.setPassword(KEYCHAIN_SERVICE, KEYCHAIN_ACCOUNT, value)
+    );
+    return new EncryptedFileBackend(ENCRYPTED_TOKEN_FILE, keys, keychainName());
+  }
+
+  if (process.platform === 'linux') {
+    const keys = await loadSecretTool();
+    if (keys) return new EncryptedFileBackend(ENCRYPTED_TOKEN_FILE, keys, 'the Secret Service (secret-tool)');
+  }
+
+  return new PlaintextFileBackend(PLAINTEXT_TOKEN_FILE);
+}
+
+/**
+ * One-time move of the plaintext token file into an encrypted backend that
+ * has nothing stored yet. The plaintext file is removed once the encrypted
+ * copy is written. Returns whether anything was moved.
+ */
+export async function migratePlaintextTokens(backend: SecretBackend, plaintextFile: string = PLAINTEXT_TOKEN_FILE): Promise<boolean> {
+  if (!backend.encrypted) return false;
+  const plaintext = await readIfExists(plaintextFile);
+  if (plaintext === null || (await backend.read()) !== null) return false;
+
+  JSON.parse(plaintext); // Never encrypt a corrupt file over nothing
+  await backend.write(plaintext);
+  await fs.unlink(plaintextFile);
+  return true;
+}
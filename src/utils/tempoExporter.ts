@@ -0,0 +1,128 @@
+import { DayActivity, ProjectHours } from '../types/index.js';
+import { formatDate } from './dateUtils.js';
+import { splitHours, weightedItems } from './hoursAllocator.js';
+import { formatZonedTimestamp, zonedTimeToInstant } from './timezone.js';
+
+/** One Jira/Tempo worklog, in the shape the Jira worklog API accepts. */
+export interface TempoWorklog {
+  issueKey: string;
+  /** Jira timestamp, e.g. 2026-07-28T09:00:00.000+0200 */
+  started: string;
+  timeSpentSeconds: number;
+  comment: string;
+}
+
+export interface WorklogOptions {
+  /** Issue that takes time with no key of its own. Without it that time is reported, not logged. */
+  defaultIssue?: string;
+  /** Issue for meeting time. Falls back to defaultIssue. */
+  meetingIssue?: string;
+  /** Jira project keys to accept (e.g. ["PROJ"]), so "UTF-8" or "SHA-256" are not taken for issues. */
+  projectKeys?: string[];
+  /** Time of day, in the configured timezone, the first worklog starts at, "HH:mm". */
+  dayStart?: string;
+}
+
+export interface DayWorklogs {
+  date: string;
+  worklogs: TempoWorklog[];
+  /** Hours that matched no issue and had no default issue to go to. */
+  unmatchedHours: number;
+}
+
+const ISSUE_KEY = /\b([A-Z][A-Z0-9_]+)-(\d+)\b/g;
+
+/** Jira issue keys named in the text, in order of appearance. */
+export function extractIssueKeys(text: string, projectKeys?: string[]): string[] {
+  const keys: string[] = [];
+  for (const match of text.matchAll(ISSUE_KEY)) {
+    if (projectKeys && projectKeys.length > 0 && !projectKeys.includes(match[1])) continue;
+    if (!keys.includes(match[0])) keys.push(match[0]);
+  }
+  return keys;
+}
+
+/** Validates "PROJ-123" style arguments. */
+export function isIssueKey(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Z][A-Z0-9_]+-\d+$/.test(value);
+}
+
+/** Validates ["PROJ", "OPS"] style arguments; a bare string would match by substring. */
+export function isProjectKeyList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(key => typeof key === 'string' && /^[A-Z][A-Z0-9_]+$/.test(key));
+}
+
+/**
+ * Turns one day's hours split into worklogs. Each project's hours are divided
+ * between the issue keys its commits (message and branch), MRs and issues
+ * mention, by the same weights used for the split itself; work naming no key,
+ * and meetings, go to the default issue. Worklogs for the same issue are
+ * merged and laid end to end from the start of the day.
+ */
+export function buildDayWorklogs(
+  activity: DayActivity,
+  hours: ProjectHours[],
+  options: WorklogOptions = {}
+): DayWorklogs {
+  const items = weightedItems(activity);
+  const byIssue = new Map<string, { seconds: number; comments: string[] }>();
+  let unmatchedHours = 0;
+
+  const book = (issueKey: string | undefined, hoursSpent: number, comments: string[]) => {
+    if (!issueKey) {
+      unmatchedHours += hoursSpent;
+      return;
+    }
+    const worklog = byIssue.get(issueKey) ?? { seconds: 0, comments: [] };
+    worklog.seconds += Math.round(hoursSpent * 3600);
+    for (const comment of comments) {
+      if (!worklog.comments.includes(comment)) worklog.comments.push(comment);
+    }
+    byIssue.set(issueKey, worklog);
+  };
+
+  for (const allocation of hours) {
+    if (allocation.meetings) {
+      const titles = [...new Set(activity.meetings.map(m => m.title))];
+      book(options.meetingIssue ?? options.defaultIssue, allocation.hours, [`Meetings: ${titles.join(', ')}`]);
+      continue;
+    }
+
+    // Weight per issue key ('' for work naming none), with the titles behind it
+    const weights = new Map<string, number>();
+    const titles = new Map<string, string[]>();
+    for (const item of items.filter(i => i.project === allocation.project)) {
+      const keys = extractIssueKeys(item.references.join(' '), options.projectKeys);
+      const targets = keys.length > 0 ? keys : [''];
+      for (const key of targets) {
+        weights.set(key, (weights.get(key) ?? 0) + item.weight / targets.length);
+        titles.set(key, [...(titles.get(key) ?? []), `${firstLine(item.title)} (${item.project})`]);
+      }
+    }
+
+    for (const [key, share] of splitHours(allocation.hours, weights)) {
+      book(key || options.defaultIssue, share, titles.get(key) ?? []);
+    }
+  }
+
+  const date = formatDate(activity.date);
+  const [startHour, startMinute] = (options.dayStart ?? '09:00').split(':').map(Number);
+  let cursor = zonedTimeToInstant(date, startHour, startMinute);
+
+  const worklogs: TempoWorklog[] = [];
+  for (const [issueKey, { seconds, comments }] of byIssue) {
+    worklogs.push({
+      issueKey,
+      started: formatZonedTimestamp(cursor),
+      timeSpentSeconds: seconds,
+      comment: comments.join('; '),
+    });
+    cursor = new Date(cursor.getTime() + seconds * 1000);
+  }
+
+  return { date, worklogs, unmatchedHours };
+}
+
+function firstLine(text: string): string {
+  return text.split('\n')[0].trim();
+}
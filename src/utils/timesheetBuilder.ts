@@ -0,0 +1,116 @@
+import { DayActivity, TimesheetEntry, TimesheetSource } from '../types/index.js';
+import { ActivityDistributor } from './activityDistributor.js';
+import {
+  formatDate,
+  getWorkingDaysForDateRange,
+  getWorkingDaysForMonth,
+  getWorkingDaysForWeek,
+  parseDateInput,
+  parseMonthYear,
+  parseWeekInput,
+} from './dateUtils.js';
+import { DEFAULT_HOURS_PER_DAY, HoursAllocator } from './hoursAllocator.js';
+import { TimesheetGenerator } from './timesheetGenerator.js';
+import { todayDate } from './timezone.js';
+import { WorkCalendar } from './workCalendar.js';
+
+/**
+ * The offline half of generate_timesheet and export_timesheet: which days a
+ * request covers, and how fetched days become entries. Fetching stays in the
+ * server.
+ */
+
+/** One fetched day with the sources that contributed to it. */
+export interface FetchedDay {
+  activity: DayActivity;
+  sources: TimesheetSource[];
+}
+
+/**
+ * Resolves the `week` / `month` / `start_date`+`end_date` arguments into the
+ * working days to report on. Future days are dropped: there is nothing to
+ * narrate yet, and fetching them only burns API calls.
+ */
+export function resolveTimesheetDays(
+  args: any,
+  calendar: WorkCalendar,
+  today: Date = todayDate()
+): { days: Date[]; label: string } {
+  const isWorkingDay = (day: Date) => calendar.isWorkingDay(day);
+  let days: Date[];
+  let label: string;
+
+  if (args?.month) {
+    const parsed = parseMonthYear(String(args.month));
+    if (!parsed || parsed.month < 1 || parsed.month > 12) {
+      throw new Error('Invalid month format. Use YYYY-MM format ONLY (e.g., "2025-12")');
+    }
+    days = getWorkingDaysForMonth(parsed.year, parsed.month, isWorkingDay);
+    label = String(args.month);
+  } else if (args?.week) {
+    const weekDate = parseWeekInput(String(args.week));
+    if (!weekDate) {
+      throw new Error('Invalid week format. Use any date in the week in YYYY-MM-DD format (e.g., "2025-12-03")');
+    }
+    days = getWorkingDaysForWeek(weekDate, isWorkingDay);
+    label = `week of ${formatDate(days[0] ?? weekDate)}`;
+  } else if (args?.start_date && args?.end_date) {
+    const start = parseDateInput(String(args.start_date));
+    const end = parseDateInput(String(args.end_date));
+    if (!start || !end) {
+      throw new Error('Invalid date format. Use YYYY-MM-DD format ONLY (e.g., "2025-11-27")');
+    }
+    if (start > end) {
+      throw new Error('start_date must be before or equal to end_date');
+    }
+    days = getWorkingDaysForDateRange(start, end, isWorkingDay);
+    label = `${args.start_date} to ${args.end_date}`;
+  } else {
+    throw new Error('Provide one of: month (YYYY-MM), week (YYYY-MM-DD), or start_date+end_date');
+  }
+
+  return { days: days.filter(day => day <= today), label };
+}
+
+/**
+ * Labels days off, optionally fills gaps, splits hours and narrates each day.
+ * An entry is `distributed` when its day had nothing of its own and received
+ * work from a later day.
+ */
+export function assembleTimesheet(
+  fetched: FetchedDay[],
+  calendar: WorkCalendar,
+  options: { distributeGaps?: boolean; hoursPerDay?: number } = {}
+): { entries: TimesheetEntry[]; activities: DayActivity[]; distributionMessage: string } {
+  const distributor = new ActivityDistributor();
+  const activities = fetched.map(f => f.activity);
+  // Labelled before distribution, which leaves days off empty. The work
+  // calendar wins over leave read from the calendar.
+  for (const activity of activities) {
+    const dayOff = calendar.dayOff(activity.date);
+    if (dayOff) activity.dayOff = dayOff;
+  }
+  const emptyBefore = new Set(activities.filter(a => !distributor.hasAnyActivity(a)).map(a => formatDate(a.date)));
+
+  let distributionMessage = '';
+  if (options.distributeGaps) {
+    const { distributionInfo } = distributor.distributeActivities(activities);
+    distributionMessage = distributionInfo.message;
+  }
+
+  const sourcesByDate = new Map(fetched.map(f => [formatDate(f.activity.date), f.sources]));
+  // Allocated after distribution so gap-filled days get hours for the work they received
+  const hoursAllocator = new HoursAllocator(options.hoursPerDay ?? DEFAULT_HOURS_PER_DAY);
+  const activityByDate = new Map(activities.map(a => [formatDate(a.date), a]));
+  const entries: TimesheetEntry[] = new TimesheetGenerator().generateTimesheet(activities).map(entry => {
+    const activity = activityByDate.get(entry.date)!;
+    return {
+      ...entry,
+      sources: sourcesByDate.get(entry.date) ?? [],
+      distributed: emptyBefore.has(entry.date) && distributor.hasAnyActivity(activity),
+      hours: hoursAllocator.allocateDay(activity),
+    };
+  });
+
+  return { entries, activities, distributionMessage };
+}
@@ -0,0 +1,204 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+import { TimesheetEntry } from '../types/index.js';
+
+/**
+ * "excel_csv" is CSV with a UTF-8 byte order mark and CRLF line endings, which
+ * Excel needs to open non-ASCII text (names, em dashes) without mangling it.
+ * Text cells Excel would run as a formula are prefixed with an apostrophe.
+ */
+export type ExportFormat = 'csv' | 'excel_csv' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'excel_csv', 'json'];
+
+/** "day" writes one row per date; "project" one row per date and project from the hours split. */
+export type ExportRows = 'day' | 'project';
+
+/** Timesheet values a column can be mapped to. */
+export const EXPORT_FIELDS = {
+  date: 'Date (YYYY-MM-DD)',
+  dayOfWeek: 'Weekday name',
+  description: 'Narrative for the day',
+  characters: 'Length of the narrative',
+  totalHours: 'Hours for the day (or for the project, in project rows)',
+  hours: 'Hours split, e.g. "Meetings 2h; web 6h"',
+  project: 'Project name (project rows only)',
+  sources: 'Contributing sources, e.g. "gitlab (4); calendar (2)"',
+  links: 'Web links to commits, MRs and issues, space separated',
+  distributed: '"yes" when the day received gap-filled work',
+  dayOff: 'Holiday or time-off label, empty on ordinary working days',
+} as const;
+
+export type ExportField = keyof typeof EXPORT_FIELDS;
+
+/** Output header -> timesheet field, in column order. */
+export type ColumnMapping = Array<{ header: string; field: ExportField }>;
+
+export const DEFAULT_COLUMNS: ColumnMapping = [
+  { header: 'Date', field: 'date' },
+  { header: 'Day', field: 'dayOfWeek' },
+  { header: 'Hours', field: 'totalHours' },
+  { header: 'Hours Breakdown', field: 'hours' },
+  { header: 'Description', field: 'description' },
+  { header: 'Sources', field: 'sources' },
+  { header: 'Links', field: 'links' },
+];
+
+export const DEFAULT_PROJECT_COLUMNS: ColumnMapping = [
+  { header: 'Date', field: 'date' },
+  { header: 'Project', field: 'project' },
+  { header: 'Hours', field: 'totalHours' },
+  { header: 'Description', field: 'description' },
+];
+
+/**
+ * Reads a tool's `columns` argument: an object of output header to field name,
+ * e.g. {"Work Date": "date", "Comments": "description"}. Key order is column order.
+ * Absent means the default layout for the export.
+ */
+export function parseColumnMapping(value: unknown): ColumnMapping | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('columns must be an object mapping output header to field name');
+  }
+
+  const mapping = Object.entries(value as Record<string, unknown>).map(([header, field]) => ({ header, field }));
+  const unknown = mapping.filter(m => typeof m.field !== 'string' || !Object.hasOwn(EXPORT_FIELDS, m.field));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown column field(s): ${unknown.map(m => `${m.header} → ${String(m.field)}`).join(', ')}. ` +
+        `Use: ${Object.keys(EXPORT_FIELDS).join(', ')}`
+    );
+  }
+  if (mapping.length === 0) {
+    throw new Error('columns must map at least one header');
+  }
+
+  return mapping as ColumnMapping;
+}
+
+/** The export format named by the tool argument, else by the file extension. */
+export function resolveExportFormat(filePath: string, format?: unknown): ExportFormat {
+  if (format !== undefined && format !== null) {
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      throw new Error(`Unknown format "${String(format)}". Use: ${EXPORT_FORMATS.join(', ')}`);
+    }
+    return format as ExportFormat;
+  }
+  return path.extname(filePath).toLowerCase() === '.json' ? 'json' : 'csv';
+}
+
+/** Expands a leading ~ and insists on an absolute path: the server's working directory is not the user's. */
+export function resolveExportPath(filePath: unknown): string {
+  if (typeof filePath !== 'string' || filePath.trim() === '') {
+    throw new Error('path is required (e.g. "~/timesheets/2025-12.csv")');
+  }
+
+  const trimmed = filePath.trim();
+  const expanded = trimmed === '~' || trimmed.startsWith('~/') ? path.join(homedir(), trimmed.slice(1)) : trimmed;
+  if (!path.isAbsolute(expanded)) {
+    throw new Error(`path must be absolute or start with ~/ (got "${filePath}")`);
+  }
+  return expanded;
+}
+
+/**
+ * Flattens entries into rows of mapped columns. Project rows keep a day with
+ * no hours (a holiday, leave, an empty day) as one row with no project, so
+ * both layouts cover the same dates.
+ */
+export function buildExportRows(
+  entries: TimesheetEntry[],
+  columns: ColumnMapping,
+  rows: ExportRows = 'day'
+): Array<Record<string, string | number>> {
+  const result: Array<Record<string, string | number>> = [];
+
+  for (const entry of entries) {
+    const split = rows === 'project' ? entry.hours ?? [] : [];
+    const projects = split.length > 0 ? split : [undefined];
+
+    for (const projectHours of projects) {
+      const values: Record<ExportField, string | number> = {
+        date: entry.date,
+        dayOfWeek: entry.dayOfWeek,
+        description: entry.description,
+        characters: entry.wordCount,
+        totalHours: projectHours ? projectHours.hours : (entry.hours ?? []).reduce((sum, h) => sum + h.hours, 0),
+        hours: (entry.hours ?? []).map(h => `${h.project} ${h.hours}h`).join('; '),
+        project: projectHours?.project ?? '',
+        sources: (entry.sources ?? []).map(s => `${s.source} (${s.items})`).join('; '),
+        links: (entry.links ?? []).join(' '),
+        distributed: entry.distributed ? 'yes' : '',
+        dayOff: entry.dayOff?.label ?? '',
+      };
+
+      const row: Record<string, string | number> = {};
+      for (const { header, field } of columns) {
+        row[header] = values[field];
+      }
+      result.push(row);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * RFC 4180 quoting: only fields with a comma, quote or line break are wrapped.
+ * With `neutralizeFormulas`, text starting like a formula (a commit message
+ * such as "=HYPERLINK(...)" or "-fix") gets a leading ' so Excel shows it as text.
+ */
+function csvField(value: string | number, neutralizeFormulas = false): string {
+  let text = String(value);
+  if (neutralizeFormulas && typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders the file contents. JSON without a column mapping keeps the full
+ * TimesheetEntry shape; every other combination goes through the columns.
+ */
+export function renderTimesheet(
+  entries: TimesheetEntry[],
+  format: ExportFormat,
+  mapping?: ColumnMapping,
+  rows: ExportRows = 'day'
+): string {
+  if (format === 'json' && !mapping && rows === 'day') {
+    return JSON.stringify(entries, null, 2) + '\n';
+  }
+
+  const columns = mapping ?? (rows === 'project' ? DEFAULT_PROJECT_COLUMNS : DEFAULT_COLUMNS);
+  const records = buildExportRows(entries, columns, rows);
+
+  if (format === 'json') {
+    return JSON.stringify(records, null, 2) + '\n';
+  }
+
+  const excel = format === 'excel_csv';
+  const eol = excel ? '\r\n' : '\n';
+  const lines = [
+    columns.map(c => csvField(c.header, excel)).join(','),
+    ...records.map(record => columns.map(c => csvField(record[c.header], excel)).join(',')),
+  ];
+  return (excel ? '\uFEFF' : '') + lines.join(eol) + eol;
+}
+
+/** Writes the export, creating parent directories. Refuses to replace a file unless told to. */
+export async function writeTimesheetExport(filePath: string, content: string, overwrite = false): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  try {
+    await fs.writeFile(filePath, content, { encoding: 'utf-8', flag: overwrite ? 'w' : 'wx' });
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      throw new Error(`${filePath} already exists. Pass overwrite: true to replace it.`);
+    }
+    throw error;
+  }
+}
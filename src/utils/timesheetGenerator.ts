@@ -1,4 +1,4 @@
-import { DayActivity, TimesheetEntry, GitLabActivity, CalendarEvent } from '../types/index.js';
+import { DayActivity, DayOff, TimesheetEntry, GitLabActivity, CalendarEvent, AzureDevOpsActivity } from '../types/index.js';
 import { formatDate, formatDayOfWeek } from './dateUtils.js';
 
 export class TimesheetGenerator {
@@ -6,12 +6,15 @@ export class TimesheetGenerator {
     return activities.map(activity => {
       const description = this.generateDayDescription(activity);
       const charCount = this.countCharacters(description);
+      const links = this.collectLinks(activity.gitlabActivity);
 
       return {
         date: formatDate(activity.date),
         dayOfWeek: formatDayOfWeek(activity.date),
         description,
         wordCount: charCount, // Now contains actual character count without truncation
+        ...(links.length > 0 ? { links } : {}),
+        ...(activity.dayOff ? { dayOff: activity.dayOff } : {}),
       };
     });
   }
@@ -19,6 +22,11 @@ export class TimesheetGenerator {
   private generateDayDescription(activity: DayActivity): string {
     const parts: string[] = [];
 
+    // A holiday or time off leads, so the day reads as labelled rather than empty
+    if (activity.dayOff) {
+      parts.push(this.formatDayOff(activity.dayOff));
+    }
+
     // Add meetings first
     if (activity.meetings.length > 0) {
       parts.push(this.formatMeetings(activity.meetings));
@@ -30,12 +38,25 @@ export class TimesheetGenerator {
       parts.push(gitlabDesc);
     }
 
+    // Add Azure DevOps activities
+    if (activity.azureDevOpsActivity) {
+      const adoDesc = this.formatAzureDevOpsActivity(activity.azureDevOpsActivity);
+      if (adoDesc) {
+        parts.push(adoDesc);
+      }
+    }
+
     let fullDescription = parts.join(' ');
 
     // Return full description - LLM will handle summarization to 255 characters
     return fullDescription;
   }
 
+  private formatDayOff(dayOff: DayOff): string {
+    const heading = dayOff.kind === 'holiday' ? 'Public holiday' : 'Time off';
+    return dayOff.label === heading ? `${heading}.` : `${heading}: ${dayOff.label}.`;
+  }
+
   private formatMeetings(meetings: CalendarEvent[]): string {
     if (meetings.length === 0) return '';
 
@@ -149,9 +170,16 @@ export class TimesheetGenerator {
   private formatIssues(issues: GitLabActivity['issues']): string {
     const parts: string[] = [];
 
+    const opened = issues.filter(i => i.action === 'opened');
     const commented = issues.filter(i => i.action === 'commented');
     const statusChanged = issues.filter(i => i.action === 'status_changed');
     const assigned = issues.filter(i => i.action === 'assigned');
+    const loggedWork = issues.filter(i => i.action === 'logged_work');
+
+    if (opened.length > 0) {
+      const titles = opened.map(i => `"${i.title}" in ${i.project}`);
+      parts.push(`Opened issue${opened.length > 1 ? 's' : ''}: ${titles.join(', ')}`);
+    }
 
     if (commented.length > 0) {
       const titles = commented.map(i => `"${i.title}" in ${i.project}`);
@@ -168,9 +196,100 @@ export class TimesheetGenerator {
       parts.push(`Assigned to issue${assigned.length > 1 ? 's' : ''}: ${titles.join(', ')}`);
     }
 
+    if (loggedWork.length > 0) {
+      const titles = loggedWork.map(i => `"${i.title}" in ${i.project}${i.details ? ` (${i.details})` : ''}`);
+      parts.push(`Logged work on issue${loggedWork.length > 1 ? 's' : ''}: ${titles.join(', ')}`);
+    }
+
+    return parts.join('. ') + (parts.length > 0 ? '.' : '');
+  }
+
+  private formatAzureDevOpsActivity(activity: AzureDevOpsActivity): string {
+    const parts: string[] = [];
+
+    if (activity.workItems.length > 0) {
+      const workItemDesc = this.formatWorkItems(activity.workItems);
+      if (workItemDesc) parts.push(workItemDesc);
+    }
+
+    if (activity.pullRequests.length > 0) {
+      const prDesc = this.formatAzurePullRequests(activity.pullRequests);
+      if (prDesc) parts.push(prDesc);
+    }
+
+    // Commits read the same as GitLab ones, keyed by repository instead of project
+    if (activity.commits.length > 0) {
+      const commitDesc = this.formatCommits(
+        this.groupCommitsByProject(
+          activity.commits.map(c => ({ message: c.message, project: c.repository, branch: c.branch ?? '' }))
+        )
+      );
+      if (commitDesc) parts.push(commitDesc);
+    }
+
+    return parts.join(' ');
+  }
+
+  private formatWorkItems(workItems: AzureDevOpsActivity['workItems']): string {
+    const phrases = workItems.map(w => {
+      const label = `${w.type} ${w.id}`;
+      const transition = w.stateFrom && w.stateTo
+        ? `from ${w.stateFrom} to ${w.stateTo}`
+        : w.stateTo
+          ? `to ${w.stateTo}`
+          : '';
+      const moved = w.actions.includes('state_changed') && transition;
+
+      let phrase: string;
+      if (w.actions.includes('created') && moved) {
+        phrase = `created ${label} and moved it ${transition}`;
+      } else if (moved) {
+        phrase = `moved ${label} ${transition}`;
+      } else if (w.actions.includes('created')) {
+        phrase = `created ${label}`;
+      } else if (w.actions.length === 1 && w.actions[0] === 'commented') {
+        phrase = `commented on ${label}`;
+      } else {
+        phrase = `updated ${label}`;
+      }
+
+      return `${phrase} ("${w.title}")`;
+    });
+
+    if (phrases.length === 0) return '';
+
+    const sentence = phrases.join('; ');
+    return sentence.charAt(0).toUpperCase() + sentence.slice(1) + '.';
+  }
+
+  private formatAzurePullRequests(pullRequests: AzureDevOpsActivity['pullRequests']): string {
+    const labels: Array<[AzureDevOpsActivity['pullRequests'][number]['action'], string]> = [
+      ['created', 'Created'],
+      ['completed', 'Completed'],
+      ['abandoned', 'Abandoned'],
+      ['reviewing', 'Reviewed'],
+    ];
+
+    const parts: string[] = [];
+
+    for (const [action, verb] of labels) {
+      const matching = pullRequests.filter(pr => pr.action === action);
+      if (matching.length > 0) {
+        const titles = matching.map(pr => `"${pr.title}" in ${pr.repository}`);
+        parts.push(`${verb} PR${matching.length > 1 ? 's' : ''}: ${titles.join(', ')}`);
+      }
+    }
+
     return parts.join('. ') + (parts.length > 0 ? '.' : '');
   }
 
+  private collectLinks(activity: GitLabActivity): string[] {
+    const urls = [...activity.commits, ...activity.mergeRequests, ...activity.issues]
+      .map(item => item.url)
+      .filter((url): url is string => !!url);
+    return [...new Set(urls)];
+  }
+
   private countCharacters(text: string): number {
     return text.length;
   }
@@ -180,8 +299,24 @@ export class TimesheetGenerator {
 
     for (const entry of entries) {
       output += `## ${entry.date} (${entry.dayOfWeek})\n`;
-      output += `${entry.description}\n`;
-      output += `*Current length: ${entry.wordCount} characters*\n\n`;
+      output += `${entry.description || '(no recorded activity)'}\n`;
+      output += `*Current length: ${entry.wordCount} characters*\n`;
+
+      if (entry.sources) {
+        const sources = entry.sources.length > 0
+          ? entry.sources
+              .map(s => `${s.source} (${s.items}${s.fromCache ? ', cached' : ''})`)
+              .join(', ')
+          : 'none';
+        output += `*Sources: ${sources}${entry.distributed ? ' — includes distributed work' : ''}*\n`;
+      }
+
+      if (entry.hours && entry.hours.length > 0) {
+        const total = entry.hours.reduce((sum, h) => sum + h.hours, 0);
+        output += `*Hours (${total}h): ${entry.hours.map(h => `${h.project} ${h.hours}h`).join(', ')}*\n`;
+      }
+
+      output += '\n';
     }
 
     return output;
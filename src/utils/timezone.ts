@@ -0,0 +1,150 @@
+/**
+ * Day boundaries in the user's timezone.
+ *
+ * Dates the tools accept ("2025-12-01") are calendar days in one IANA zone —
+ * `timezone` in the config file, else the system zone. Every integration asks
+ * this module where such a day starts and ends, and which day an API
+ * timestamp falls on, so an event at 8pm in New York is not filed under the
+ * next day because the server or an API works in UTC.
+ */
+
+let configuredZone: string | undefined;
+
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Sets the zone used by every helper here. Undefined restores the system zone. */
+export function setTimeZone(timeZone?: string): void {
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown timezone "${timeZone}". Use an IANA name such as "America/New_York" or "Asia/Kolkata".`);
+  }
+  configuredZone = timeZone;
+}
+
+export function getTimeZone(): string {
+  return configuredZone ?? systemTimeZone();
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClock(instant: Date, timeZone: string): WallClock {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(instant).filter(p => p.type !== 'literal').map(p => [p.type, Number(p.value)])
+  );
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+/** Milliseconds the zone is ahead of UTC at the given instant. */
+function offsetMs(instant: Date, timeZone: string): number {
+  const w = wallClock(instant, timeZone);
+  const asUtc = Date.UTC(w.year, w.month - 1, w.day, w.hour, w.minute, w.second);
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time happens in the zone. An ambiguous time (the
+ * repeated hour when clocks go back) resolves to its first occurrence; a time
+ * skipped when clocks go forward resolves to the moment after the jump.
+ */
+export function zonedTimeToInstant(
+  dateStr: string,
+  hour: number = 0,
+  minute: number = 0,
+  timeZone: string = getTimeZone()
+): Date {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+  const first = asUtc - offsetMs(new Date(asUtc), timeZone);
+  const second = asUtc - offsetMs(new Date(first), timeZone);
+  const candidates = [...new Set([first, second])].sort((a, b) => a - b);
+
+  const matches = candidates.filter(t => {
+    const w = wallClock(new Date(t), timeZone);
+    return w.year === year && w.month === month && w.day === day && w.hour === hour && w.minute === minute;
+  });
+  return new Date(matches.length > 0 ? matches[0] : candidates[candidates.length - 1]);
+}
+
+/** The day's first instant and the next day's first instant (exclusive end). */
+export function zonedDayBounds(dateStr: string, timeZone: string = getTimeZone()): { start: Date; end: Date } {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1));
+  const nextStr = next.toISOString().slice(0, 10);
+  return { start: zonedTimeToInstant(dateStr, 0, 0, timeZone), end: zonedTimeToInstant(nextStr, 0, 0, timeZone) };
+}
+
+/** YYYY-MM-DD of the day an instant (or API timestamp) falls on in the zone. */
+export function zonedDateKey(instant: Date | string | number, timeZone: string = getTimeZone()): string {
+  const w = wallClock(new Date(instant), timeZone);
+  return `${w.year}-${String(w.month).padStart(2, '0')}-${String(w.day).padStart(2, '0')}`;
+}
+
+/** Today's date in the zone. */
+export function todayKey(timeZone: string = getTimeZone()): string {
+  return zonedDateKey(new Date(), timeZone);
+}
+
+/**
+ * Today in the zone as a local-midnight Date, the form the tools parse
+ * "YYYY-MM-DD" arguments into, so future-date checks compare like with like.
+ */
+export function todayDate(timeZone: string = getTimeZone()): Date {
+  const [year, month, day] = todayKey(timeZone).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/** ISO 8601 with the zone's offset, e.g. 2026-07-28T09:00:00.000+0200 (the Jira worklog format). */
+export function formatZonedTimestamp(instant: Date, timeZone: string = getTimeZone()): string {
+  const w = wallClock(instant, timeZone);
+  const offsetMinutes = Math.round(offsetMs(instant, timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const abs = Math.abs(offsetMinutes);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+  return (
+    `${w.year}-${pad(w.month)}-${pad(w.day)}T${pad(w.hour)}:${pad(w.minute)}:${pad(w.second)}` +
+    `.${pad(instant.getMilliseconds(), 3)}${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`
+  );
+}
@@ -1,31 +1,112 @@
-import { TokenStore } from '../types/index.js';
-import * as fs from 'fs/promises';
-import * as path from 'path';
-import { homedir } from 'os';
+import { gitlabInstanceKey } from '../config/oauth.js';
+import { GoogleCredential, OAuthClientSettings, TokenStore } from '../types/index.js';
+import { PASSPHRASE_ENV, SecretBackend, migratePlaintextTokens, openSecretBackend } from './secretStore.js';
 
-const TOKEN_FILE = path.join(homedir(), '.activity-collector-mcp-tokens.json');
+/** Name of the connection kept in the original single-account fields. */
+export const DEFAULT_CONNECTION = 'default';
+
+export type ConnectionProvider = 'gitlab' | 'github' | 'google';
+
+/**
+ * Connection names end up in cache keys and tool output, so keep them to
+ * short identifiers such as "work" or "client-acme".
+ */
+export function isValidConnectionName(name: string): boolean {
+  return /^[A-Za-z0-9][A-Za-z0-9_-]{0,39}$/.test(name);
+}
+
+/** The configured backend, with any plaintext token file moved into it. */
+async function openMigratedBackend(): Promise<SecretBackend> {
+  const backend = await openSecretBackend();
+  try {
+    if (await migratePlaintextTokens(backend)) {
+      console.error(`Moved stored tokens into the ${backend.description}`);
+    }
+  } catch (error) {
+    console.error('Could not move the plaintext token file into encrypted storage:', error);
+  }
+  return backend;
+}
 
 export class TokenStorage {
   private tokens: TokenStore = {};
+  private backend: Promise<SecretBackend> | null = null;
+  /** Set when the store could not be read, so a save never overwrites it. */
+  private loadError: Error | null = null;
+
+  constructor(private openBackend: () => Promise<SecretBackend> = openMigratedBackend) {}
 
+  private getBackend(): Promise<SecretBackend> {
+    this.backend ??= this.openBackend();
+    return this.backend;
+  }
+
+  /** Throws when stored tokens exist but cannot be decrypted. */
   async load(): Promise<void> {
+    const backend = await this.getBackend();
+    let data: string | null;
     try {
-      const data = await fs.readFile(TOKEN_FILE, 'utf-8');
-      this.tokens = JSON.parse(data);
+      data = await backend.read();
+    } catch (error: any) {
+      this.tokens = {};
+      this.loadError = error;
+      throw error;
+    }
+    this.loadError = null;
+    try {
+      this.tokens = data ? JSON.parse(data) : {};
     } catch (error) {
-      // File doesn't exist yet, that's okay
+      // Unreadable file, start over as before
       this.tokens = {};
     }
   }
 
   async save(): Promise<void> {
-    await fs.writeFile(TOKEN_FILE, JSON.stringify(this.tokens, null, 2), {
-      mode: 0o600, // Only owner can read/write
-    });
+    if (this.loadError) {
+      throw this.loadError;
+    }
+    const backend = await this.getBackend();
+    await backend.write(JSON.stringify(this.tokens, null, 2));
+  }
+
+  /** Where tokens are kept, for check_authentication_status. */
+  async describeStorage(): Promise<string> {
+    const backend = await this.getBackend();
+    return backend.encrypted
+      ? `🔒 ${backend.description}`
+      : `⚠️ ${backend.description} (no OS keychain found — set ${PASSPHRASE_ENV} to encrypt it with a passphrase)`;
+  }
+
+  /** Names of the stored connections for a provider, "default" first. */
+  listConnections(provider: ConnectionProvider): string[] {
+    const names = this.tokens[provider] ? [DEFAULT_CONNECTION] : [];
+    return [...names, ...Object.keys(this.tokens.connections?.[provider] ?? {})];
+  }
+
+  private getCredential<P extends ConnectionProvider>(provider: P, connection: string): TokenStore[P] | undefined {
+    if (connection === DEFAULT_CONNECTION) {
+      return this.tokens[provider];
+    }
+    return this.tokens.connections?.[provider]?.[connection] as TokenStore[P] | undefined;
   }
 
-  getGitLabToken(): string | undefined {
-    const gitlab = this.tokens.gitlab;
+  private async setCredential<P extends ConnectionProvider>(
+    provider: P,
+    connection: string,
+    credential: NonNullable<TokenStore[P]>
+  ): Promise<void> {
+    if (connection === DEFAULT_CONNECTION) {
+      this.tokens[provider] = credential;
+    } else {
+      const connections = (this.tokens.connections ??= {});
+      const named = (connections[provider] ??= {}) as Record<string, NonNullable<TokenStore[P]>>;
+      named[connection] = credential;
+    }
+    await this.save();
+  }
+
+  getGitLabToken(connection: string = DEFAULT_CONNECTION): string | undefined {
+    const gitlab = this.getCredential('gitlab', connection);
     if (typeof gitlab === 'string') {
       return gitlab;
     } else if (gitlab && typeof gitlab === 'object') {
@@ -34,40 +115,78 @@ export class TokenStorage {
     return undefined;
   }
 
-  getGitLabOAuthTokens(): TokenStore['gitlab'] | undefined {
-    return this.tokens.gitlab;
+  getGitLabOAuthTokens(connection: string = DEFAULT_CONNECTION): TokenStore['gitlab'] | undefined {
+    return this.getCredential('gitlab', connection);
   }
 
-  async setGitLabToken(token: string): Promise<void> {
-    this.tokens.gitlab = token;
-    await this.save();
+  /** Instance URL saved with an OAuth connection, if any. */
+  getGitLabUrl(connection: string = DEFAULT_CONNECTION): string | undefined {
+    const gitlab = this.getCredential('gitlab', connection);
+    return typeof gitlab === 'object' ? gitlab.url : undefined;
   }
 
-  async setGitLabOAuthTokens(tokens: {
-    access_token: string;
-    refresh_token: string;
-    created_at: number;
-    expires_in?: number;
-  }): Promise<void> {
-    this.tokens.gitlab = tokens;
-    await this.save();
+  async setGitLabToken(token: string, connection: string = DEFAULT_CONNECTION): Promise<void> {
+    await this.setCredential('gitlab', connection, token);
   }
 
-  getGitHubToken(): string | undefined {
-    return this.tokens.github;
+  async setGitLabOAuthTokens(
+    tokens: {
+      access_token: string;
+      refresh_token: string;
+      created_at: number;
+      expires_in?: number;
+      url?: string;
+      clientId?: string;
+    },
+    connection: string = DEFAULT_CONNECTION
+  ): Promise<void> {
+    await this.setCredential('gitlab', connection, tokens);
   }
 
-  async setGitHubToken(token: string): Promise<void> {
-    this.tokens.github = token;
-    await this.save();
+  getGitHubToken(connection: string = DEFAULT_CONNECTION): string | undefined {
+    const github = this.getCredential('github', connection);
+    if (typeof github === 'string') {
+      return github;
+    } else if (github && typeof github === 'object') {
+      return github.token;
+    }
+    return undefined;
   }
 
-  getGoogleTokens(): TokenStore['google'] | undefined {
-    return this.tokens.google;
+  getGitHubConnection(
+    connection: string = DEFAULT_CONNECTION
+  ): { token: string; apiUrl?: string; caFile?: string } | undefined {
+    const github = this.getCredential('github', connection);
+    if (typeof github === 'string') {
+      return { token: github };
+    }
+    return github;
   }
 
-  async setGoogleTokens(tokens: TokenStore['google']): Promise<void> {
-    this.tokens.google = tokens;
+  async setGitHubToken(
+    token: string,
+    options: { apiUrl?: string; caFile?: string } = {},
+    connection: string = DEFAULT_CONNECTION
+  ): Promise<void> {
+    // Plain github.com tokens keep the original string form
+    await this.setCredential('github', connection, options.apiUrl || options.caFile ? { token, ...options } : token);
+  }
+
+  getGoogleTokens(connection: string = DEFAULT_CONNECTION): TokenStore['google'] | undefined {
+    return this.getCredential('google', connection);
+  }
+
+  async setGoogleTokens(tokens: GoogleCredential, connection: string = DEFAULT_CONNECTION): Promise<void> {
+    await this.setCredential('google', connection, tokens);
+  }
+
+  getGoogleCalendars(connection: string = DEFAULT_CONNECTION): string[] {
+    const selected = this.tokens.googleCalendars?.[connection];
+    return selected && selected.length > 0 ? selected : ['primary'];
+  }
+
+  async setGoogleCalendars(calendarIds: string[], connection: string = DEFAULT_CONNECTION): Promise<void> {
+    this.tokens.googleCalendars = { ...this.tokens.googleCalendars, [connection]: calendarIds };
     await this.save();
   }
 
@@ -93,21 +212,123 @@ export class TokenStorage {
     return !!this.tokens.azureDevops?.organization;
   }
 
+  getBitbucket(): TokenStore['bitbucket'] | undefined {
+    return this.tokens.bitbucket;
+  }
+
+  async setBitbucket(credential: TokenStore['bitbucket']): Promise<void> {
+    this.tokens.bitbucket = credential;
+    await this.save();
+  }
+
+  hasBitbucket(): boolean {
+    return !!this.tokens.bitbucket?.token;
+  }
+
+  getGitea(): TokenStore['gitea'] | undefined {
+    return this.tokens.gitea;
+  }
+
+  async setGitea(credential: TokenStore['gitea']): Promise<void> {
+    this.tokens.gitea = credential;
+    await this.save();
+  }
+
+  hasGitea(): boolean {
+    return !!this.tokens.gitea?.token;
+  }
+
+  getJira(): TokenStore['jira'] | undefined {
+    return this.tokens.jira;
+  }
+
+  async setJira(credential: TokenStore['jira']): Promise<void> {
+    this.tokens.jira = credential;
+    await this.save();
+  }
+
+  hasJira(): boolean {
+    return !!this.tokens.jira?.token;
+  }
+
+  getIcsCalendar(): TokenStore['icsCalendar'] | undefined {
+    return this.tokens.icsCalendar;
+  }
+
+  async setIcsCalendar(settings: TokenStore['icsCalendar']): Promise<void> {
+    this.tokens.icsCalendar = settings;
+    await this.save();
+  }
+
+  hasIcsCalendar(): boolean {
+    return !!this.tokens.icsCalendar?.source;
+  }
+
+  /** Your own OAuth app for Google, or for the GitLab instance at gitlabUrl. */
+  getOAuthClient(provider: 'google' | 'gitlab', gitlabUrl: string = 'https://gitlab.com'): OAuthClientSettings | undefined {
+    return provider === 'google'
+      ? this.tokens.oauthClients?.google
+      : this.tokens.oauthClients?.gitlab?.[gitlabInstanceKey(gitlabUrl)];
+  }
+
+  /** Saved GitLab apps by instance, for check_authentication_status. */
+  listGitLabOAuthClients(): Array<[string, OAuthClientSettings]> {
+    return Object.entries(this.tokens.oauthClients?.gitlab ?? {});
+  }
+
+  /** Saves your own OAuth app for a provider; undefined goes back to the bundled one. */
+  async setOAuthClient(
+    provider: 'google' | 'gitlab',
+    settings: OAuthClientSettings | undefined,
+    gitlabUrl: string = 'https://gitlab.com'
+  ): Promise<void> {
+    const clients = { ...this.tokens.oauthClients };
+    if (provider === 'google') {
+      clients.google = settings;
+    } else {
+      clients.gitlab = { ...clients.gitlab, [gitlabInstanceKey(gitlabUrl)]: settings! };
+      if (!settings) delete clients.gitlab[gitlabInstanceKey(gitlabUrl)];
+      if (Object.keys(clients.gitlab).length === 0) delete clients.gitlab;
+    }
+    if (!clients.google) delete clients.google;
+    this.tokens.oauthClients = Object.keys(clients).length > 0 ? clients : undefined;
+    await this.save();
+  }
+
+  /** Deletes one stored connection, with its calendar selection for Google. */
+  async removeConnection(provider: ConnectionProvider, connection: string): Promise<void> {
+    if (connection === DEFAULT_CONNECTION) {
+      delete this.tokens[provider];
+    } else {
+      delete this.tokens.connections?.[provider]?.[connection];
+    }
+    if (provider === 'google' && this.tokens.googleCalendars) {
+      delete this.tokens.googleCalendars[connection];
+    }
+    await this.save();
+  }
+
+  /** Deletes the stored settings of a single-account source. */
+  async removeSource(source: 'outlook' | 'bitbucket' | 'gitea' | 'jira' | 'azureDevops' | 'icsCalendar'): Promise<void> {
+    delete this.tokens[source];
+    await this.save();
+  }
+
   async clearAll(): Promise<void> {
     this.tokens = {};
     await this.save();
   }
 
   hasGitLabToken(): boolean {
-    return !!this.tokens.gitlab;
+    return this.listConnections('gitlab').length > 0;
   }
 
   hasGitHubToken(): boolean {
-    return !!this.tokens.github;
+    return this.listConnections('github').length > 0;
   }
 
   hasGoogleTokens(): boolean {
-    return !!this.tokens.google?.access_token;
+    return this.listConnections('google').some(name => !!this.getGoogleTokens(name)?.access_token);
   }
 
   hasOutlookTokens(): boolean {
@@ -0,0 +1,154 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { homedir } from 'os';
+import { DayOff, WorkCalendarConfig } from '../types/index.js';
+import { formatDate, isDefaultWorkingDay } from './dateUtils.js';
+import { icsDateKey, icsProperty, parseIcsEvents, unescapeIcsText } from './ics.js';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface TimeOffRange {
+  start: string;
+  end: string;
+  label: string;
+}
+
+/**
+ * The user's working week plus the working days they were off. Holidays and
+ * time off stay in the timesheet as labelled days rather than disappearing,
+ * so a month still shows every day that would normally be booked.
+ */
+export class WorkCalendar {
+  constructor(
+    /** Weekday numbers (0 = Sunday). Null means the built-in week. */
+    private readonly workingWeekdays: Set<number> | null = null,
+    private readonly holidays: Map<string, string> = new Map(),
+    private readonly timeOff: TimeOffRange[] = []
+  ) {}
+
+  isWorkingDay(day: Date): boolean {
+    return this.workingWeekdays ? this.workingWeekdays.has(day.getDay()) : isDefaultWorkingDay(day);
+  }
+
+  /** Holiday or time off on the date, holidays first. */
+  dayOff(day: Date): DayOff | undefined {
+    const key = formatDate(day);
+    const holiday = this.holidays.get(key);
+    if (holiday !== undefined) {
+      return { kind: 'holiday', label: holiday };
+    }
+    const leave = this.timeOff.find(range => key >= range.start && key <= range.end);
+    return leave ? { kind: 'time_off', label: leave.label } : undefined;
+  }
+
+  /** One line for status output, e.g. "Sun, Mon, Tue, Wed, Thu; 12 holiday(s), 2 time-off range(s)". */
+  describe(): string {
+    const week = this.workingWeekdays
+      ? [...this.workingWeekdays].sort((a, b) => a - b).map(d => WEEKDAYS[d].slice(0, 3)).map(capitalize).join(', ')
+      : 'Mon–Fri and the first Saturday of the month';
+    return `${week}; ${this.holidays.size} holiday(s), ${this.timeOff.length} time-off range(s)`;
+  }
+}
+
+export const DEFAULT_WORK_CALENDAR = new WorkCalendar();
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function nextDateKey(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return formatDate(new Date(year, month - 1, day + 1));
+}
+
+/**
+ * Holidays in an .ics file, by date. All-day events cover DTSTART up to the
+ * exclusive DTEND; timed events only their start date.
+ */
+export function parseIcsHolidays(text: string): Map<string, string> {
+  const holidays = new Map<string, string>();
+
+  for (const event of parseIcsEvents(text)) {
+    const start = icsProperty(event, 'DTSTART');
+    const first = start && icsDateKey(start.value);
+    if (!first) continue;
+
+    const summary = icsProperty(event, 'SUMMARY');
+    const label = summary ? unescapeIcsText(summary.value).trim() || 'Public holiday' : 'Public holiday';
+
+    const end = icsProperty(event, 'DTEND');
+    const endKey = end && end.params.VALUE === 'DATE' ? icsDateKey(end.value) : null;
+
+    let day = first;
+    do {
+      holidays.set(day, label);
+      day = nextDateKey(day);
+    } while (endKey && day < endKey);
+  }
+
+  return holidays;
+}
+
+/** Validates the config block and builds the calendar. `icsText` is the holidaysIcs file's contents. */
+export function parseWorkCalendar(config: WorkCalendarConfig | undefined, icsText?: string): WorkCalendar {
+  if (!config) return DEFAULT_WORK_CALENDAR;
+
+  let weekdays: Set<number> | null = null;
+  if (config.workingDays !== undefined) {
+    if (!Array.isArray(config.workingDays) || config.workingDays.length === 0) {
+      throw new Error('workCalendar.workingDays must be a non-empty list of weekday names, e.g. ["monday", "tuesday"]');
+    }
+    weekdays = new Set(
+      config.workingDays.map(name => {
+        const lower = String(name).trim().toLowerCase();
+        const index = WEEKDAYS.findIndex(d => d === lower || d.slice(0, 3) === lower);
+        if (index === -1) {
+          throw new Error(`workCalendar.workingDays: unknown weekday "${name}"`);
+        }
+        return index;
+      })
+    );
+  }
+
+  const holidays = icsText ? parseIcsHolidays(icsText) : new Map<string, string>();
+  // Listed holidays win over the file, so a name can be corrected locally
+  for (const holiday of config.holidays ?? []) {
+    const date = typeof holiday === 'string' ? holiday : holiday?.date;
+    if (typeof date !== 'string' || !DATE_PATTERN.test(date)) {
+      throw new Error(`workCalendar.holidays: expected YYYY-MM-DD dates (got ${JSON.stringify(holiday)})`);
+    }
+    holidays.set(date, (typeof holiday === 'string' ? undefined : holiday.name) || 'Public holiday');
+  }
+
+  const timeOff = (config.timeOff ?? []).map(range => {
+    const end = range?.end ?? range?.start;
+    if (!DATE_PATTERN.test(String(range?.start)) || !DATE_PATTERN.test(String(end)) || end < range.start) {
+      throw new Error(
+        `workCalendar.timeOff: expected {"start": "YYYY-MM-DD", "end": "YYYY-MM-DD"} with end on or after start (got ${JSON.stringify(range)})`
+      );
+    }
+    return { start: range.start, end, label: range.label || 'Time off' };
+  });
+
+  return new WorkCalendar(weekdays, holidays, timeOff);
+}
+
+/** Reads the holidaysIcs file, if any, and builds the calendar. */
+export async function loadWorkCalendar(config: WorkCalendarConfig | undefined): Promise<WorkCalendar> {
+  if (!config?.holidaysIcs) {
+    return parseWorkCalendar(config);
+  }
+
+  const file = config.holidaysIcs.startsWith('~/')
+    ? path.join(homedir(), config.holidaysIcs.slice(2))
+    : config.holidaysIcs;
+  let text: string;
+  try {
+    text = await fs.readFile(file, 'utf-8');
+  } catch (error: any) {
+    throw new Error(`Could not read workCalendar.holidaysIcs (${file}): ${error.message}`);
+  }
+  return parseWorkCalendar(config, text);
+}